@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+    setupFilesAfterEnv: ['<rootDir>/tests/setup-env.ts'],
+    transform: {
+        '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+    },
+    // Each test file gets its own database and keys; the command line tests start ts-node
+    testTimeout: 120000
+};
@@ -0,0 +1,235 @@
+/**
+ * Approval Delegation Controller
+ * Out-of-office windows during which a substitute signs an approver's approvals
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { AuditService } from '../services/audit.service';
+
+export class ApprovalDelegationController {
+    /**
+     * Get delegations. Approvers see those they gave and received; admins see all.
+     */
+    static async getAll(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            let sql = `
+                SELECT d.*, delegator.full_name as delegator_name, delegator.email as delegator_email,
+                delegate.full_name as delegate_name, delegate.email as delegate_email,
+                CASE
+                    WHEN d.revoked_at IS NOT NULL THEN 'revoked'
+                    WHEN d.ends_at <= datetime('now') THEN 'expired'
+                    WHEN d.starts_at > datetime('now') THEN 'scheduled'
+                    ELSE 'active'
+                END as state
+                FROM approval_delegations d
+                LEFT JOIN users delegator ON d.delegator_id = delegator.id
+                LEFT JOIN users delegate ON d.delegate_id = delegate.id
+            `;
+            const params: any[] = [];
+
+            if (req.user.role !== 'admin') {
+                sql += ' WHERE d.delegator_id = ? OR d.delegate_id = ?';
+                params.push(req.user.userId, req.user.userId);
+            }
+
+            sql += ' ORDER BY d.starts_at DESC';
+
+            const delegations = await Database.all<any>(sql, params);
+
+            res.json({ delegations });
+        } catch (error) {
+            console.error('Get delegations error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get active approvers that can be named as a delegate
+     */
+    static async getCandidates(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const approvers = await Database.all<any>(
+                `SELECT id, full_name, email FROM users
+         WHERE role = 'approver' AND is_active = 1 AND id != ?
+         ORDER BY full_name ASC`,
+                [req.user.userId]
+            );
+
+            res.json({ approvers });
+        } catch (error) {
+            console.error('Get delegate candidates error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Create delegation. Admins may create one for any approver via delegatorId.
+     */
+    static async create(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const { delegateId, startsAt, endsAt, reason } = req.body;
+            const delegatorId = req.user.role === 'admin' ? Number(req.body.delegatorId) : req.user.userId;
+
+            if (!delegatorId || !delegateId || !endsAt) {
+                res.status(400).json({
+                    error: req.user.role === 'admin'
+                        ? 'Delegator, delegate, and end date required'
+                        : 'Delegate and end date required'
+                });
+                return;
+            }
+
+            const start = startsAt ? new Date(startsAt) : new Date();
+            const end = new Date(endsAt);
+
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                res.status(400).json({ error: 'Invalid start or end date' });
+                return;
+            }
+
+            if (end <= start || end <= new Date()) {
+                res.status(400).json({ error: 'End date must be in the future and after the start date' });
+                return;
+            }
+
+            if (Number(delegateId) === delegatorId) {
+                res.status(400).json({ error: 'Cannot delegate to yourself' });
+                return;
+            }
+
+            const users = await Database.all<any>(
+                `SELECT id FROM users WHERE id IN (?, ?) AND role = 'approver' AND is_active = 1`,
+                [delegatorId, delegateId]
+            );
+
+            if (users.length !== 2) {
+                res.status(400).json({ error: 'Delegator and delegate must both be active approvers' });
+                return;
+            }
+
+            const startsAtIso = start.toISOString();
+            const endsAtIso = end.toISOString();
+
+            // One substitute at a time, and no chains: the delegate must not be away in the same window
+            const overlapping = await Database.get<any>(
+                `SELECT delegator_id FROM approval_delegations
+         WHERE delegator_id IN (?, ?) AND revoked_at IS NULL
+           AND starts_at < datetime(?) AND ends_at > datetime(?)`,
+                [delegatorId, delegateId, endsAtIso, startsAtIso]
+            );
+
+            if (overlapping) {
+                res.status(409).json({
+                    error: overlapping.delegator_id === delegatorId
+                        ? 'A delegation already covers part of this window'
+                        : 'The delegate is out of office during this window'
+                });
+                return;
+            }
+
+            const userId = req.user.userId;
+            const result = await Database.transaction(async (tx) => {
+                const inserted = await tx.run(
+                    `INSERT INTO approval_delegations (delegator_id, delegate_id, starts_at, ends_at, reason)
+         VALUES (?, ?, datetime(?), datetime(?), ?)`,
+                    [delegatorId, delegateId, startsAtIso, endsAtIso, reason || null]
+                );
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'approval_delegation.created',
+                    entityType: 'approval_delegation',
+                    entityId: inserted.lastID,
+                    after: await tx.get('SELECT * FROM approval_delegations WHERE id = ?', [inserted.lastID])
+                });
+
+                return inserted;
+            });
+
+            res.status(201).json({
+                message: 'Delegation created successfully',
+                delegation: {
+                    id: result.lastID,
+                    delegatorId,
+                    delegateId: Number(delegateId),
+                    startsAt: startsAtIso,
+                    endsAt: endsAtIso,
+                    reason: reason || null
+                }
+            });
+        } catch (error) {
+            console.error('Create delegation error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Revoke delegation. Approvals already signed by the delegate stay signed.
+     */
+    static async revoke(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Authentication required' });
+                return;
+            }
+
+            const { delegationId } = req.params;
+
+            const delegation = await Database.get<any>('SELECT * FROM approval_delegations WHERE id = ?', [
+                delegationId
+            ]);
+
+            if (!delegation) {
+                res.status(404).json({ error: 'Delegation not found' });
+                return;
+            }
+
+            if (req.user.role !== 'admin' && delegation.delegator_id !== req.user.userId) {
+                res.status(403).json({ error: 'Access denied' });
+                return;
+            }
+
+            if (delegation.revoked_at) {
+                res.status(400).json({ error: 'Delegation already revoked' });
+                return;
+            }
+
+            const userId = req.user.userId;
+            await Database.transaction(async (tx) => {
+                await tx.run('UPDATE approval_delegations SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?', [
+                    delegationId
+                ]);
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'approval_delegation.revoked',
+                    entityType: 'approval_delegation',
+                    entityId: delegation.id,
+                    before: delegation,
+                    after: await tx.get('SELECT * FROM approval_delegations WHERE id = ?', [delegation.id])
+                });
+            });
+
+            res.json({ message: 'Delegation revoked' });
+        } catch (error) {
+            console.error('Revoke delegation error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
@@ -0,0 +1,595 @@
+/**
+ * Approval Policy Controller
+ * Admin configuration of approval policies and approver groups
+ */
+
+import { Request, Response } from 'express';
+import { Database, QueryRunner } from '../database/database';
+import { ApprovalWorkflowService } from '../services/approval-workflow.service';
+import { AuditService } from '../services/audit.service';
+
+const STEP_MODES = ['all', 'any', 'quorum'];
+
+export class ApprovalPolicyController {
+    /**
+     * Get all policies with their steps
+     */
+    static async getAll(_req: Request, res: Response): Promise<void> {
+        try {
+            const policies = await Database.all<any>(
+                'SELECT * FROM approval_policies ORDER BY priority ASC, id ASC'
+            );
+
+            const steps = await Database.all<any>(
+                `SELECT s.*, g.name as group_name, backup.full_name as backup_approver_name
+         FROM approval_policy_steps s
+         LEFT JOIN approval_groups g ON s.group_id = g.id
+         LEFT JOIN users backup ON s.backup_approver_id = backup.id
+         ORDER BY s.level ASC, s.id ASC`
+            );
+
+            res.json({
+                policies: policies.map((policy) => ({
+                    ...policy,
+                    steps: steps.filter((step) => step.policy_id === policy.id)
+                }))
+            });
+        } catch (error) {
+            console.error('Get approval policies error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get policy by ID
+     */
+    static async getById(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            const policy = await Database.get<any>('SELECT * FROM approval_policies WHERE id = ?', [id]);
+
+            if (!policy) {
+                res.status(404).json({ error: 'Approval policy not found' });
+                return;
+            }
+
+            const steps = await Database.all<any>(
+                `SELECT s.*, g.name as group_name, backup.full_name as backup_approver_name
+         FROM approval_policy_steps s
+         LEFT JOIN approval_groups g ON s.group_id = g.id
+         LEFT JOIN users backup ON s.backup_approver_id = backup.id
+         WHERE s.policy_id = ?
+         ORDER BY s.level ASC, s.id ASC`,
+                [id]
+            );
+
+            res.json({ policy: { ...policy, steps } });
+        } catch (error) {
+            console.error('Get approval policy error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Create policy
+     */
+    static async create(req: Request, res: Response): Promise<void> {
+        try {
+            const { name, description, priority, minAmount, maxAmount, category, department, isActive, steps } =
+                req.body;
+
+            if (!name) {
+                res.status(400).json({ error: 'Policy name required' });
+                return;
+            }
+
+            const stepError = await ApprovalPolicyController.validateSteps(steps);
+            if (stepError) {
+                res.status(400).json({ error: stepError });
+                return;
+            }
+
+            if (minAmount != null && maxAmount != null && Number(minAmount) >= Number(maxAmount)) {
+                res.status(400).json({ error: 'Minimum amount must be below maximum amount' });
+                return;
+            }
+
+            const policyId = await Database.transaction(async (tx) => {
+                const result = await tx.run(
+                    `INSERT INTO approval_policies
+           (name, description, priority, min_amount, max_amount, category, department, is_active, created_by)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        name,
+                        description || null,
+                        priority ?? 100,
+                        minAmount ?? null,
+                        maxAmount ?? null,
+                        category || null,
+                        department || null,
+                        isActive === false ? 0 : 1,
+                        req.user!.userId
+                    ]
+                );
+
+                await ApprovalPolicyController.insertSteps(tx, result.lastID, steps);
+
+                await AuditService.log(tx, {
+                    userId: req.user!.userId,
+                    action: 'approval_policy.created',
+                    entityType: 'approval_policy',
+                    entityId: result.lastID,
+                    after: await ApprovalPolicyController.policySnapshot(tx, result.lastID)
+                });
+
+                return result.lastID;
+            });
+
+            res.status(201).json({
+                message: 'Approval policy created successfully',
+                policy: { id: policyId, name }
+            });
+        } catch (error) {
+            console.error('Create approval policy error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Update policy; a provided steps array replaces the existing steps
+     */
+    static async update(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+            const { name, description, priority, minAmount, maxAmount, category, department, isActive, steps } =
+                req.body;
+
+            const policy = await Database.get<any>('SELECT * FROM approval_policies WHERE id = ?', [id]);
+
+            if (!policy) {
+                res.status(404).json({ error: 'Approval policy not found' });
+                return;
+            }
+
+            if (steps !== undefined) {
+                const stepError = await ApprovalPolicyController.validateSteps(steps);
+                if (stepError) {
+                    res.status(400).json({ error: stepError });
+                    return;
+                }
+            }
+
+            // Omitted fields keep their value; an explicit null clears a condition
+            const pick = (value: any, current: any) => (value === undefined ? current : value);
+            const newMin = pick(minAmount, policy.min_amount);
+            const newMax = pick(maxAmount, policy.max_amount);
+
+            if (newMin != null && newMax != null && Number(newMin) >= Number(newMax)) {
+                res.status(400).json({ error: 'Minimum amount must be below maximum amount' });
+                return;
+            }
+
+            const before = await ApprovalPolicyController.policySnapshot(Database, policy.id);
+
+            await Database.transaction(async (tx) => {
+                await tx.run(
+                    `UPDATE approval_policies SET
+            name = ?, description = ?, priority = ?, min_amount = ?, max_amount = ?,
+            category = ?, department = ?, is_active = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+                    [
+                        pick(name, policy.name),
+                        pick(description, policy.description),
+                        pick(priority, policy.priority),
+                        newMin,
+                        newMax,
+                        pick(category, policy.category) || null,
+                        pick(department, policy.department) || null,
+                        isActive === undefined ? policy.is_active : isActive ? 1 : 0,
+                        id
+                    ]
+                );
+
+                if (steps !== undefined) {
+                    await tx.run('DELETE FROM approval_policy_steps WHERE policy_id = ?', [id]);
+                    await ApprovalPolicyController.insertSteps(tx, Number(id), steps);
+                }
+
+                await AuditService.log(tx, {
+                    userId: req.user!.userId,
+                    action: 'approval_policy.updated',
+                    entityType: 'approval_policy',
+                    entityId: policy.id,
+                    before,
+                    after: await ApprovalPolicyController.policySnapshot(tx, policy.id)
+                });
+            });
+
+            res.json({ message: 'Approval policy updated successfully' });
+        } catch (error) {
+            console.error('Update approval policy error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Deactivate policy. Submitted quotations keep the steps they were routed with.
+     */
+    static async delete(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            const policy = await Database.get<any>('SELECT * FROM approval_policies WHERE id = ?', [id]);
+
+            if (!policy) {
+                res.status(404).json({ error: 'Approval policy not found' });
+                return;
+            }
+
+            await Database.transaction(async (tx) => {
+                await tx.run(
+                    'UPDATE approval_policies SET is_active = 0, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+                    [id]
+                );
+
+                await AuditService.log(tx, {
+                    userId: req.user!.userId,
+                    action: 'approval_policy.deactivated',
+                    entityType: 'approval_policy',
+                    entityId: policy.id,
+                    details: { name: policy.name },
+                    before: { is_active: policy.is_active },
+                    after: { is_active: 0 }
+                });
+            });
+
+            res.json({ message: 'Approval policy deactivated' });
+        } catch (error) {
+            console.error('Delete approval policy error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Preview which policy applies to an amount, category and department
+     */
+    static async evaluate(req: Request, res: Response): Promise<void> {
+        try {
+            const { amount, category, department } = req.body;
+
+            if (amount === undefined || isNaN(Number(amount))) {
+                res.status(400).json({ error: 'Amount required' });
+                return;
+            }
+
+            const policy = await ApprovalWorkflowService.findPolicy(Database, {
+                amount: Number(amount),
+                category: category || null,
+                department: department || null
+            });
+
+            if (!policy) {
+                res.json({ policy: null, message: 'No policy matches; the default approval applies' });
+                return;
+            }
+
+            const steps = await Database.all<any>(
+                'SELECT * FROM approval_policy_steps WHERE policy_id = ? ORDER BY level ASC, id ASC',
+                [policy.id]
+            );
+
+            res.json({ policy: { ...policy, steps } });
+        } catch (error) {
+            console.error('Evaluate approval policy error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get all approver groups with members
+     */
+    static async getGroups(_req: Request, res: Response): Promise<void> {
+        try {
+            const groups = await Database.all<any>('SELECT * FROM approval_groups ORDER BY name ASC');
+
+            const members = await Database.all<any>(
+                `SELECT m.group_id, u.id, u.full_name, u.email, u.is_active
+         FROM approval_group_members m
+         JOIN users u ON m.user_id = u.id
+         ORDER BY u.full_name ASC`
+            );
+
+            res.json({
+                groups: groups.map((group) => ({
+                    ...group,
+                    members: members
+                        .filter((member) => member.group_id === group.id)
+                        .map(({ group_id, ...member }) => member)
+                }))
+            });
+        } catch (error) {
+            console.error('Get approval groups error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Create approver group
+     */
+    static async createGroup(req: Request, res: Response): Promise<void> {
+        try {
+            const { name, description, memberIds = [] } = req.body;
+
+            if (!name) {
+                res.status(400).json({ error: 'Group name required' });
+                return;
+            }
+
+            const memberError = await ApprovalPolicyController.validateMembers(memberIds);
+            if (memberError) {
+                res.status(400).json({ error: memberError });
+                return;
+            }
+
+            const existing = await Database.get('SELECT id FROM approval_groups WHERE name = ?', [name]);
+            if (existing) {
+                res.status(409).json({ error: 'A group with this name already exists' });
+                return;
+            }
+
+            const groupId = await Database.transaction(async (tx) => {
+                const result = await tx.run('INSERT INTO approval_groups (name, description) VALUES (?, ?)', [
+                    name,
+                    description || null
+                ]);
+
+                for (const userId of memberIds) {
+                    await tx.run('INSERT INTO approval_group_members (group_id, user_id) VALUES (?, ?)', [
+                        result.lastID,
+                        userId
+                    ]);
+                }
+
+                await AuditService.log(tx, {
+                    userId: req.user!.userId,
+                    action: 'approval_group.created',
+                    entityType: 'approval_group',
+                    entityId: result.lastID,
+                    after: await ApprovalPolicyController.groupSnapshot(tx, result.lastID)
+                });
+
+                return result.lastID;
+            });
+
+            res.status(201).json({
+                message: 'Approval group created successfully',
+                group: { id: groupId, name, description, memberIds }
+            });
+        } catch (error) {
+            console.error('Create approval group error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Update approver group; a provided memberIds array replaces the membership
+     */
+    static async updateGroup(req: Request, res: Response): Promise<void> {
+        try {
+            const { groupId } = req.params;
+            const { name, description, memberIds } = req.body;
+
+            const group = await Database.get<any>('SELECT * FROM approval_groups WHERE id = ?', [groupId]);
+
+            if (!group) {
+                res.status(404).json({ error: 'Approval group not found' });
+                return;
+            }
+
+            if (memberIds !== undefined) {
+                const memberError = await ApprovalPolicyController.validateMembers(memberIds);
+                if (memberError) {
+                    res.status(400).json({ error: memberError });
+                    return;
+                }
+            }
+
+            if (name && name !== group.name) {
+                const existing = await Database.get('SELECT id FROM approval_groups WHERE name = ?', [name]);
+                if (existing) {
+                    res.status(409).json({ error: 'A group with this name already exists' });
+                    return;
+                }
+            }
+
+            const before = await ApprovalPolicyController.groupSnapshot(Database, group.id);
+
+            await Database.transaction(async (tx) => {
+                await tx.run(
+                    'UPDATE approval_groups SET name = COALESCE(?, name), description = COALESCE(?, description) WHERE id = ?',
+                    [name, description, groupId]
+                );
+
+                if (memberIds !== undefined) {
+                    await tx.run('DELETE FROM approval_group_members WHERE group_id = ?', [groupId]);
+                    for (const userId of memberIds) {
+                        await tx.run('INSERT INTO approval_group_members (group_id, user_id) VALUES (?, ?)', [
+                            groupId,
+                            userId
+                        ]);
+                    }
+                }
+
+                await AuditService.log(tx, {
+                    userId: req.user!.userId,
+                    action: 'approval_group.updated',
+                    entityType: 'approval_group',
+                    entityId: group.id,
+                    before,
+                    after: await ApprovalPolicyController.groupSnapshot(tx, group.id)
+                });
+            });
+
+            res.json({ message: 'Approval group updated successfully' });
+        } catch (error) {
+            console.error('Update approval group error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Delete approver group that no policy step uses
+     */
+    static async deleteGroup(req: Request, res: Response): Promise<void> {
+        try {
+            const { groupId } = req.params;
+
+            const group = await Database.get<any>('SELECT id FROM approval_groups WHERE id = ?', [groupId]);
+
+            if (!group) {
+                res.status(404).json({ error: 'Approval group not found' });
+                return;
+            }
+
+            const inUse = await Database.get<{ count: number }>(
+                `SELECT
+           (SELECT COUNT(*) FROM approval_policy_steps WHERE group_id = ?) +
+           (SELECT COUNT(*) FROM quotation_approval_steps WHERE group_id = ?) as count`,
+                [groupId, groupId]
+            );
+
+            if (inUse && inUse.count > 0) {
+                res.status(409).json({ error: 'Group is referenced by approval policies or past approvals' });
+                return;
+            }
+
+            await Database.transaction(async (tx) => {
+                const before = await ApprovalPolicyController.groupSnapshot(tx, group.id);
+
+                await tx.run('DELETE FROM approval_group_members WHERE group_id = ?', [groupId]);
+                await tx.run('DELETE FROM approval_groups WHERE id = ?', [groupId]);
+
+                await AuditService.log(tx, {
+                    userId: req.user!.userId,
+                    action: 'approval_group.deleted',
+                    entityType: 'approval_group',
+                    entityId: group.id,
+                    before
+                });
+            });
+
+            res.json({ message: 'Approval group deleted successfully' });
+        } catch (error) {
+            console.error('Delete approval group error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Validate a steps payload
+     * @returns Error message, or null when valid
+     */
+    private static async validateSteps(steps: any): Promise<string | null> {
+        if (!Array.isArray(steps) || steps.length === 0) {
+            return 'At least one approval step required';
+        }
+
+        for (const step of steps) {
+            if (!Number.isInteger(step.level) || step.level < 1) {
+                return 'Each step needs a positive integer level';
+            }
+            if (!step.name) {
+                return 'Each step needs a name';
+            }
+            if (!STEP_MODES.includes(step.mode)) {
+                return `Step mode must be one of: ${STEP_MODES.join(', ')}`;
+            }
+            if (step.mode === 'quorum' && (!Number.isInteger(step.requiredApprovals) || step.requiredApprovals < 1)) {
+                return 'Quorum steps need requiredApprovals of at least 1';
+            }
+
+            if (step.slaHours != null && (!Number.isInteger(step.slaHours) || step.slaHours < 1)) {
+                return 'SLA hours must be a positive integer';
+            }
+
+            const group = await Database.get('SELECT id FROM approval_groups WHERE id = ?', [step.groupId]);
+            if (!group) {
+                return `Approval group ${step.groupId} not found`;
+            }
+
+            if (step.backupApproverId != null) {
+                const backup = await Database.get<any>('SELECT role FROM users WHERE id = ?', [step.backupApproverId]);
+                if (!backup || backup.role !== 'approver') {
+                    return `Backup approver ${step.backupApproverId} is not an approver`;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Validate that every member ID is an approver
+     * @returns Error message, or null when valid
+     */
+    private static async validateMembers(memberIds: any): Promise<string | null> {
+        if (!Array.isArray(memberIds)) {
+            return 'memberIds must be an array';
+        }
+
+        for (const userId of memberIds) {
+            const user = await Database.get<any>('SELECT role FROM users WHERE id = ?', [userId]);
+            if (!user || user.role !== 'approver') {
+                return `User ${userId} is not an approver`;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Policy with its steps, as recorded in the audit log
+     */
+    private static async policySnapshot(db: QueryRunner, policyId: number): Promise<Record<string, any>> {
+        const policy = await db.get<any>('SELECT * FROM approval_policies WHERE id = ?', [policyId]);
+        const steps = await db.all<any>(
+            `SELECT level, name, group_id, mode, required_approvals, sla_hours, backup_approver_id
+             FROM approval_policy_steps WHERE policy_id = ? ORDER BY level, id`,
+            [policyId]
+        );
+        return { ...policy, steps };
+    }
+
+    /**
+     * Group with its member IDs, as recorded in the audit log
+     */
+    private static async groupSnapshot(db: QueryRunner, groupId: number): Promise<Record<string, any>> {
+        const group = await db.get<any>('SELECT * FROM approval_groups WHERE id = ?', [groupId]);
+        const members = await db.all<{ user_id: number }>(
+            'SELECT user_id FROM approval_group_members WHERE group_id = ? ORDER BY user_id',
+            [groupId]
+        );
+        return { ...group, member_ids: members.map((member) => member.user_id) };
+    }
+
+    private static async insertSteps(tx: QueryRunner, policyId: number, steps: any[]): Promise<void> {
+        for (const step of steps) {
+            await tx.run(
+                `INSERT INTO approval_policy_steps
+         (policy_id, level, name, group_id, mode, required_approvals, sla_hours, backup_approver_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    policyId,
+                    step.level,
+                    step.name,
+                    step.groupId,
+                    step.mode,
+                    step.mode === 'quorum' ? step.requiredApprovals : null,
+                    step.slaHours ?? null,
+                    step.backupApproverId ?? null
+                ]
+            );
+        }
+    }
+}
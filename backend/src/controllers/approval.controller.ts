@@ -3,8 +3,16 @@
  */
 
 import { Request, Response } from 'express';
-import { Database } from '../database/database';
+import { Database, QueryRunner } from '../database/database';
 import { HashUtil } from '../utils/security/hash.util';
+import { ApprovalWorkflowService, ApprovalConflictError } from '../services/approval-workflow.service';
+import { ApprovalDelegationService } from '../services/approval-delegation.service';
+import { ApprovalSlaService, ApprovalReassignError } from '../services/approval-sla.service';
+import { PurchaseOrderService } from '../services/purchase-order.service';
+import { AuditService } from '../services/audit.service';
+import { SigningKeyService, SigningKeyError } from '../services/signing-key.service';
+import { QuotationSignatureService } from '../services/quotation-signature.service';
+import { EvaluationService } from '../services/evaluation.service';
 
 export class ApprovalController {
     /**
@@ -17,16 +25,24 @@ export class ApprovalController {
                 return;
             }
 
+            // Includes approvals of anyone currently delegating to this user
+            const scope = ApprovalDelegationService.assignedOrDelegatedTo('a.approver_id', req.user.userId);
+
             const approvals = await Database.all<any>(
-                `SELECT a.*, q.quote_number, q.total_amount, q.currency,
-                u.company_name as vendor_name, r.rfq_number, r.title as rfq_title
+                `SELECT a.*, q.quote_number, COALESCE(am.total_amount, q.total_amount) as total_amount, q.currency,
+                am.amendment_number, po.po_number,
+                u.company_name as vendor_name, r.rfq_number, r.title as rfq_title,
+                CASE WHEN a.approver_id != ? THEN approver.full_name END as on_behalf_of_name
          FROM approvals a
          LEFT JOIN quotations q ON a.quotation_id = q.id
+         LEFT JOIN po_amendments am ON a.amendment_id = am.id
+         LEFT JOIN purchase_orders po ON am.purchase_order_id = po.id
          LEFT JOIN users u ON q.vendor_id = u.id
          LEFT JOIN rfqs r ON q.rfq_id = r.id
-         WHERE a.approver_id = ? AND a.status = 'pending'
+         LEFT JOIN users approver ON a.approver_id = approver.id
+         WHERE ${scope.sql} AND a.status = 'pending'
          ORDER BY a.created_at ASC`,
-                [req.user.userId]
+                [req.user.userId, ...scope.params]
             );
 
             res.json({ approvals });
@@ -47,15 +63,23 @@ export class ApprovalController {
             }
 
             const { status } = req.query;
-            const params: any[] = [req.user.userId];
+
+            // Own approvals, those signed on someone's behalf, and those currently delegated to this user
+            const scope = ApprovalDelegationService.assignedOrDelegatedTo('a.approver_id', req.user.userId);
+            const params: any[] = [req.user.userId, ...scope.params, req.user.userId];
             let sql = `
-                SELECT a.*, q.quote_number, q.total_amount, q.currency,
-                u.company_name as vendor_name, r.rfq_number, r.title as rfq_title
+                SELECT a.*, q.quote_number, COALESCE(am.total_amount, q.total_amount) as total_amount, q.currency,
+                am.amendment_number, po.po_number,
+                u.company_name as vendor_name, r.rfq_number, r.title as rfq_title,
+                CASE WHEN a.approver_id != ? THEN approver.full_name END as on_behalf_of_name
                 FROM approvals a
                 LEFT JOIN quotations q ON a.quotation_id = q.id
+                LEFT JOIN po_amendments am ON a.amendment_id = am.id
+                LEFT JOIN purchase_orders po ON am.purchase_order_id = po.id
                 LEFT JOIN users u ON q.vendor_id = u.id
                 LEFT JOIN rfqs r ON q.rfq_id = r.id
-                WHERE a.approver_id = ?
+                LEFT JOIN users approver ON a.approver_id = approver.id
+                WHERE (${scope.sql} OR a.acted_by = ?)
             `;
 
             if (status && status !== 'all') {
@@ -87,14 +111,18 @@ export class ApprovalController {
             const { id } = req.params;
 
             const approval = await Database.get<any>(
-                `SELECT a.*, q.quote_number, q.total_amount, q.currency,
+                `SELECT a.*, q.quote_number, COALESCE(am.total_amount, q.total_amount) as total_amount, q.currency,
+                am.amendment_number, po.po_number,
                 u.company_name as vendor_name, r.rfq_number, r.title as rfq_title,
-                approver.full_name as approver_name
+                approver.full_name as approver_name, actor.full_name as acted_by_name
          FROM approvals a
          LEFT JOIN quotations q ON a.quotation_id = q.id
+         LEFT JOIN po_amendments am ON a.amendment_id = am.id
+         LEFT JOIN purchase_orders po ON am.purchase_order_id = po.id
          LEFT JOIN users u ON q.vendor_id = u.id
          LEFT JOIN rfqs r ON q.rfq_id = r.id
          LEFT JOIN users approver ON a.approver_id = approver.id
+         LEFT JOIN users actor ON a.acted_by = actor.id
          WHERE a.id = ?`,
                 [id]
             );
@@ -104,13 +132,44 @@ export class ApprovalController {
                 return;
             }
 
-            // Authorization - approver can only see their own approvals, admin can see all
-            if (req.user.role === 'approver' && approval.approver_id !== req.user.userId) {
+            // Authorization - approver can only see their own or delegated approvals, admin can see all
+            if (
+                req.user.role === 'approver' &&
+                approval.approver_id !== req.user.userId &&
+                approval.acted_by !== req.user.userId &&
+                !(await ApprovalDelegationService.isActiveDelegate(Database, approval.approver_id, req.user.userId))
+            ) {
                 res.status(403).json({ error: 'Access denied' });
                 return;
             }
 
-            res.json({ approval });
+            // Amendment approvals show the proposed lines next to the purchase order's current ones
+            if (approval.amendment_id) {
+                const amendment = await Database.get<any>(
+                    `SELECT am.amendment_number, am.line_items, am.total_amount, am.reason, am.status,
+                        po.id as purchase_order_id, po.po_number,
+                        po.line_items as current_line_items, po.total_amount as current_total_amount
+                     FROM po_amendments am
+                     JOIN purchase_orders po ON am.purchase_order_id = po.id
+                     WHERE am.id = ?`,
+                    [approval.amendment_id]
+                );
+                approval.amendment = {
+                    ...amendment,
+                    line_items: JSON.parse(amendment.line_items),
+                    current_line_items: JSON.parse(amendment.current_line_items)
+                };
+            }
+
+            // Decided approvals show the evaluation frozen with the decision; open ones the evaluation as it stands
+            const { evaluation_snapshot, ...rest } = approval;
+            rest.evaluation = evaluation_snapshot
+                ? JSON.parse(evaluation_snapshot)
+                : !approval.amendment_id && ['waiting', 'pending'].includes(approval.status)
+                    ? await EvaluationService.snapshot(Database, approval.quotation_id)
+                    : null;
+
+            res.json({ approval: rest });
         } catch (error) {
             console.error('Get approval error:', error);
             res.status(500).json({ error: 'Internal server error' });
@@ -131,14 +190,19 @@ export class ApprovalController {
             const offset = (Number(page) - 1) * Number(limit);
 
             let sql = `
-                SELECT a.*, q.quote_number, q.total_amount, q.currency,
+                SELECT a.*, q.quote_number, COALESCE(am.total_amount, q.total_amount) as total_amount, q.currency,
+                am.amendment_number, po.po_number,
                 u.company_name as vendor_name, r.rfq_number, r.title as rfq_title,
-                approver.full_name as approver_name, approver.email as approver_email
+                approver.full_name as approver_name, approver.email as approver_email,
+                actor.full_name as acted_by_name
                 FROM approvals a
                 LEFT JOIN quotations q ON a.quotation_id = q.id
+                LEFT JOIN po_amendments am ON a.amendment_id = am.id
+                LEFT JOIN purchase_orders po ON am.purchase_order_id = po.id
                 LEFT JOIN users u ON q.vendor_id = u.id
                 LEFT JOIN rfqs r ON q.rfq_id = r.id
                 LEFT JOIN users approver ON a.approver_id = approver.id
+                LEFT JOIN users actor ON a.acted_by = actor.id
                 WHERE 1=1
             `;
             const params: any[] = [];
@@ -160,6 +224,91 @@ export class ApprovalController {
         }
     }
 
+    /**
+     * Get pending approvals past their SLA deadline (admin only)
+     */
+    static async getOverdue(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can view overdue approvals' });
+                return;
+            }
+
+            const approvals = await Database.all<any>(
+                `SELECT a.*, q.quote_number, COALESCE(am.total_amount, q.total_amount) as total_amount, q.currency,
+                am.amendment_number, po.po_number,
+                u.company_name as vendor_name, r.rfq_number, r.title as rfq_title,
+                approver.full_name as approver_name, approver.email as approver_email,
+                s.name as step_name, s.sla_hours,
+                CAST((julianday('now') - julianday(COALESCE(a.activated_at, a.created_at))) * 24 AS INTEGER) as age_hours,
+                CAST((julianday('now') - julianday(a.due_at)) * 24 AS INTEGER) as overdue_hours
+         FROM approvals a
+         LEFT JOIN quotations q ON a.quotation_id = q.id
+         LEFT JOIN po_amendments am ON a.amendment_id = am.id
+         LEFT JOIN purchase_orders po ON am.purchase_order_id = po.id
+         LEFT JOIN users u ON q.vendor_id = u.id
+         LEFT JOIN rfqs r ON q.rfq_id = r.id
+         LEFT JOIN users approver ON a.approver_id = approver.id
+         LEFT JOIN quotation_approval_steps s ON a.step_id = s.id
+         WHERE a.status = 'pending' AND a.due_at <= datetime('now')
+         ORDER BY a.due_at ASC`
+            );
+
+            res.json({ approvals });
+        } catch (error) {
+            console.error('Get overdue approvals error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Reassign a pending approval to another approver (admin only)
+     */
+    static async reassign(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can reassign approvals' });
+                return;
+            }
+
+            const { id } = req.params;
+            const { approverId } = req.body;
+
+            if (!approverId) {
+                res.status(400).json({ error: 'New approver required' });
+                return;
+            }
+
+            const approval = await Database.get<any>('SELECT * FROM approvals WHERE id = ?', [id]);
+
+            if (!approval) {
+                res.status(404).json({ error: 'Approval not found' });
+                return;
+            }
+
+            if (approval.status !== 'pending') {
+                res.status(400).json({ error: 'Only pending approvals can be reassigned' });
+                return;
+            }
+
+            const newApprovalId = await Database.transaction((tx) =>
+                ApprovalSlaService.reassign(tx, approval, Number(approverId), req.user!.userId)
+            );
+
+            res.json({
+                message: 'Approval reassigned successfully',
+                approvalId: newApprovalId
+            });
+        } catch (error) {
+            if (error instanceof ApprovalReassignError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Reassign approval error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
     /**
      * Approve quotation
      */
@@ -171,60 +320,85 @@ export class ApprovalController {
             }
 
             const { id } = req.params;
-            const { comments } = req.body;
+            const { comments, passphrase, signature } = req.body;
 
-            const approval = await Database.get<any>(
-                'SELECT * FROM approvals WHERE id = ? AND approver_id = ?',
-                [id, req.user.userId]
-            );
+            const approval = await ApprovalController.findActionable(Number(id), req.user.userId);
 
             if (!approval) {
                 res.status(404).json({ error: 'Approval not found' });
                 return;
             }
 
+            if (approval.status === 'waiting') {
+                res.status(400).json({ error: 'An earlier approval level must be completed first' });
+                return;
+            }
+
             if (approval.status !== 'pending') {
                 res.status(400).json({ error: 'Approval already processed' });
                 return;
             }
 
-            // Create signature hash
-            const signatureData = `${approval.quotation_id}-${req.user.userId}-approved-${Date.now()}`;
-            const signatureHash = HashUtil.sha256(signatureData);
-
-            await Database.run(
-                `UPDATE approvals 
-         SET status = 'approved', comments = ?, approved_at = CURRENT_TIMESTAMP, signature_hash = ?
-         WHERE id = ?`,
-                [comments || null, signatureHash, id]
-            );
+            if (
+                approval.on_behalf_of &&
+                (await ApprovalDelegationService.occupiesStep(Database, approval, req.user.userId))
+            ) {
+                res.status(400).json({ error: 'You already hold a seat on this approval step' });
+                return;
+            }
 
-            // Check if all approvals are complete
-            const allApprovals = await Database.all<any>(
-                'SELECT * FROM approvals WHERE quotation_id = ?',
-                [approval.quotation_id]
+            // The approver signs the decision with their own key
+            const signed = await SigningKeyService.sign(
+                Database,
+                req.user.userId,
+                QuotationSignatureService.decisionPayload({
+                    approvalId: approval.id,
+                    quotationId: approval.quotation_id,
+                    amendmentId: approval.amendment_id,
+                    decision: 'approved',
+                    comments: comments || null
+                }),
+                { passphrase, signature }
             );
-
-            const allApproved = allApprovals.every((a: any) => a.status === 'approved');
-
-            if (allApproved) {
-                await Database.run(
-                    `UPDATE quotations SET status = 'approved', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-                    [approval.quotation_id]
+            const signatureHash = HashUtil.sha256(signed.signature);
+
+            const outcome = await Database.transaction(async (tx) => {
+                // The scores the decision was made on stay with it
+                if (!approval.amendment_id) {
+                    await EvaluationService.freeze(tx, approval.id, approval.quotation_id);
+                }
+                const result = await ApprovalWorkflowService.recordDecision(
+                    tx,
+                    approval,
+                    'approved',
+                    req.user!.userId,
+                    comments || null,
+                    signatureHash,
+                    signed
                 );
-            } else {
-                await Database.run(
-                    `UPDATE quotations SET status = 'under_review', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-                    [approval.quotation_id]
-                );
-            }
+                await ApprovalController.auditDecision(tx, approval, 'approved', req.user!.userId, comments || null, result);
+                if (approval.amendment_id && result !== 'in_progress') {
+                    await PurchaseOrderService.completeAmendment(tx, approval.amendment_id, result, req.user!.userId);
+                }
+                return result;
+            });
 
             res.json({
                 message: 'Quotation approved successfully',
                 signatureHash,
-                allApproved
+                allApproved: outcome === 'approved',
+                workflowStatus: outcome,
+                onBehalfOf: approval.on_behalf_of
             });
         } catch (error) {
+            if (error instanceof SigningKeyError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof ApprovalConflictError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
             console.error('Approve quotation error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
@@ -241,49 +415,89 @@ export class ApprovalController {
             }
 
             const { id } = req.params;
-            const { comments } = req.body;
+            const { comments, passphrase, signature } = req.body;
 
             if (!comments) {
                 res.status(400).json({ error: 'Rejection reason required' });
                 return;
             }
 
-            const approval = await Database.get<any>(
-                'SELECT * FROM approvals WHERE id = ? AND approver_id = ?',
-                [id, req.user.userId]
-            );
+            const approval = await ApprovalController.findActionable(Number(id), req.user.userId);
 
             if (!approval) {
                 res.status(404).json({ error: 'Approval not found' });
                 return;
             }
 
+            if (approval.status === 'waiting') {
+                res.status(400).json({ error: 'An earlier approval level must be completed first' });
+                return;
+            }
+
             if (approval.status !== 'pending') {
                 res.status(400).json({ error: 'Approval already processed' });
                 return;
             }
 
-            // Create signature hash
-            const signatureData = `${approval.quotation_id}-${req.user.userId}-rejected-${Date.now()}`;
-            const signatureHash = HashUtil.sha256(signatureData);
-
-            await Database.run(
-                `UPDATE approvals 
-         SET status = 'rejected', comments = ?, approved_at = CURRENT_TIMESTAMP, signature_hash = ?
-         WHERE id = ?`,
-                [comments, signatureHash, id]
-            );
+            if (
+                approval.on_behalf_of &&
+                (await ApprovalDelegationService.occupiesStep(Database, approval, req.user.userId))
+            ) {
+                res.status(400).json({ error: 'You already hold a seat on this approval step' });
+                return;
+            }
 
-            await Database.run(
-                `UPDATE quotations SET status = 'rejected', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-                [approval.quotation_id]
+            // The approver signs the decision with their own key
+            const signed = await SigningKeyService.sign(
+                Database,
+                req.user.userId,
+                QuotationSignatureService.decisionPayload({
+                    approvalId: approval.id,
+                    quotationId: approval.quotation_id,
+                    amendmentId: approval.amendment_id,
+                    decision: 'rejected',
+                    comments: comments
+                }),
+                { passphrase, signature }
             );
+            const signatureHash = HashUtil.sha256(signed.signature);
+
+            const outcome = await Database.transaction(async (tx) => {
+                // The scores the decision was made on stay with it
+                if (!approval.amendment_id) {
+                    await EvaluationService.freeze(tx, approval.id, approval.quotation_id);
+                }
+                const result = await ApprovalWorkflowService.recordDecision(
+                    tx,
+                    approval,
+                    'rejected',
+                    req.user!.userId,
+                    comments,
+                    signatureHash,
+                    signed
+                );
+                await ApprovalController.auditDecision(tx, approval, 'rejected', req.user!.userId, comments, result);
+                if (approval.amendment_id && result !== 'in_progress') {
+                    await PurchaseOrderService.completeAmendment(tx, approval.amendment_id, result, req.user!.userId);
+                }
+                return result;
+            });
 
             res.json({
-                message: 'Quotation rejected',
-                signatureHash
+                message: outcome === 'rejected' ? 'Quotation rejected' : 'Rejection recorded',
+                signatureHash,
+                workflowStatus: outcome,
+                onBehalfOf: approval.on_behalf_of
             });
         } catch (error) {
+            if (error instanceof SigningKeyError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof ApprovalConflictError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
             console.error('Reject quotation error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
@@ -295,20 +509,99 @@ export class ApprovalController {
     static async getHistory(req: Request, res: Response): Promise<void> {
         try {
             const { quotationId } = req.params;
+            const isVendor = req.user!.role === 'vendor';
+
+            // Vendors see the decisions on their own quotations, but not the evaluation approvers scored them on
+            if (isVendor) {
+                const quotation = await Database.get(
+                    'SELECT id FROM quotations WHERE id = ? AND vendor_id = ?',
+                    [quotationId, req.user!.userId]
+                );
+
+                if (!quotation) {
+                    res.status(404).json({ error: 'Quotation not found' });
+                    return;
+                }
+            }
 
             const history = await Database.all<any>(
-                `SELECT a.*, u.full_name as approver_name, u.email as approver_email
+                `SELECT a.*, u.full_name as approver_name, u.email as approver_email,
+                actor.full_name as acted_by_name,
+                s.name as step_name, s.mode as step_mode, s.required_approvals, s.status as step_status
          FROM approvals a
          LEFT JOIN users u ON a.approver_id = u.id
-         WHERE a.quotation_id = ?
+         LEFT JOIN users actor ON a.acted_by = actor.id
+         LEFT JOIN quotation_approval_steps s ON a.step_id = s.id
+         WHERE a.quotation_id = ? AND a.amendment_id IS NULL
          ORDER BY a.level ASC, a.created_at ASC`,
                 [quotationId]
             );
 
-            res.json({ history });
+            res.json({
+                history: history.map(({ evaluation_snapshot, ...entry }: any) => ({
+                    ...entry,
+                    evaluation: evaluation_snapshot && !isVendor ? JSON.parse(evaluation_snapshot) : null,
+                    // "approved by X on behalf of Y" when a delegate signed
+                    on_behalf_of_name:
+                        entry.acted_by && entry.acted_by !== entry.approver_id ? entry.approver_name : null
+                }))
+            });
         } catch (error) {
             console.error('Get approval history error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
     }
+
+    /**
+     * Record an approver's decision and the workflow state it left
+     */
+    private static async auditDecision(
+        tx: QueryRunner,
+        approval: any,
+        decision: 'approved' | 'rejected',
+        userId: number,
+        comments: string | null,
+        outcome: string
+    ): Promise<void> {
+        await AuditService.log(tx, {
+            userId,
+            action: `approval.${decision}`,
+            entityType: 'approval',
+            entityId: approval.id,
+            details: {
+                quotationId: approval.quotation_id,
+                amendmentId: approval.amendment_id,
+                onBehalfOf: approval.on_behalf_of || null,
+                workflowStatus: outcome
+            },
+            before: { status: approval.status, comments: approval.comments },
+            after: { status: decision, comments }
+        });
+    }
+
+    /**
+     * Load an approval the user may act on: their own, or one whose approver has delegated to them.
+     * on_behalf_of holds the original approver's name when acting as delegate.
+     */
+    private static async findActionable(approvalId: number, userId: number): Promise<any | undefined> {
+        const approval = await Database.get<any>(
+            `SELECT a.*, approver.full_name as approver_name
+       FROM approvals a
+       LEFT JOIN users approver ON a.approver_id = approver.id
+       WHERE a.id = ?`,
+            [approvalId]
+        );
+
+        if (!approval) return undefined;
+
+        if (approval.approver_id === userId) {
+            return { ...approval, on_behalf_of: null };
+        }
+
+        if (await ApprovalDelegationService.isActiveDelegate(Database, approval.approver_id, userId)) {
+            return { ...approval, on_behalf_of: approval.approver_name };
+        }
+
+        return undefined;
+    }
 }
@@ -5,11 +5,16 @@
 import { Request, Response } from 'express';
 import { Database } from '../database/database';
 import { HashUtil } from '../utils/security/hash.util';
-import { JWTUtil } from '../utils/jwt.util';
 import { PasswordUtil } from '../utils/security/password.util';
 import { PasswordHistoryUtil } from '../utils/security/password-history.util';
+import { FieldEncryptionUtil } from '../utils/security/field-encryption.util';
 import { OTPUtil } from '../utils/otp.util';
 import { EmailService } from '../services/email.service';
+import { MfaService } from '../services/mfa.service';
+import { SessionService, SessionError } from '../services/session.service';
+import { PasswordResetService, PasswordResetError } from '../services/password-reset.service';
+import { OTP_FAILURE_DETAILS } from '../services/security-monitor.service';
+import { requestContext } from '../utils/request-context.util';
 import { v4 as uuidv4 } from 'uuid';
 
 export class AuthController {
@@ -50,7 +55,8 @@ export class AuthController {
             }
 
             // Check if user already exists
-            const existingUser = await Database.get('SELECT id FROM users WHERE email = ?', [email]);
+            const byEmail = await FieldEncryptionUtil.matching('email', 'users.email', email);
+            const existingUser = await Database.get(`SELECT id FROM users WHERE ${byEmail.sql}`, byEmail.params);
 
             if (existingUser) {
                 res.status(409).json({ error: 'User already exists' });
@@ -67,18 +73,23 @@ export class AuthController {
             const result = await Database.run(
                 `INSERT INTO users (email, password_hash, full_name, role, company_name, phone, password_expires_at)
          VALUES (?, ?, ?, ?, ?, ?, ?)`,
-                [email, passwordHash, fullName, role, companyName || null, phone || null, passwordExpiresAt.toISOString()]
+                [
+                    await FieldEncryptionUtil.encrypt('users.email', email),
+                    passwordHash,
+                    fullName,
+                    role,
+                    await FieldEncryptionUtil.encrypt('users.company_name', companyName || null),
+                    await FieldEncryptionUtil.encrypt('users.phone', phone || null),
+                    passwordExpiresAt.toISOString()
+                ]
             );
 
-            // Generate tokens
-            const payload = {
-                userId: result.lastID,
-                email,
-                role
-            };
-
-            const accessToken = JWTUtil.generateAccessToken(payload);
-            const refreshToken = JWTUtil.generateRefreshToken(payload);
+            // Open a session and generate its tokens
+            const { accessToken, refreshToken } = await SessionService.create(
+                Database,
+                { id: result.lastID, email, role },
+                requestContext(req)
+            );
 
             res.status(201).json({
                 message: 'User registered successfully',
@@ -112,17 +123,18 @@ export class AuthController {
             }
 
             // Get user from database
+            const byEmail = await FieldEncryptionUtil.matching('email', 'users.email', String(email));
             const user = await Database.get<any>(
-                'SELECT * FROM users WHERE email = ? AND is_active = 1',
-                [email]
+                `SELECT * FROM users WHERE ${byEmail.sql} AND is_active = 1`,
+                byEmail.params
             );
 
             if (!user) {
                 // Log failed login attempt
                 await Database.run(
-                    `INSERT INTO security_events (event_type, severity, ip_address, user_agent, details)
-                     VALUES (?, ?, ?, ?, ?)`,
-                    ['failed_login', 'medium', ipAddress, req.headers['user-agent'], `Failed login for email: ${email}`]
+                    `INSERT INTO security_events (event_type, severity, ip_address, user_agent, details, email)
+                     VALUES (?, ?, ?, ?, ?, ?)`,
+                    ['failed_login', 'medium', ipAddress, req.headers['user-agent'], 'Failed login for unknown email', await FieldEncryptionUtil.blindIndex('security_events.email', String(email))]
                 );
                 res.status(401).json({ error: 'Invalid credentials' });
                 return;
@@ -159,34 +171,38 @@ export class AuthController {
                 if (failedAttempts >= maxAttempts) {
                     // Lock account for 30 minutes
                     const lockUntil = new Date(Date.now() + 30 * 60 * 1000);
-                    await Database.run(
-                        'UPDATE users SET failed_login_attempts = ?, locked_until = ? WHERE id = ?',
-                        [failedAttempts, lockUntil.toISOString(), user.id]
-                    );
-
-                    // Log account locked event
-                    await Database.run(
-                        `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details)
-                         VALUES (?, ?, ?, ?, ?, ?)`,
-                        [user.id, 'account_locked', 'high', ipAddress, req.headers['user-agent'], `Account locked after ${failedAttempts} failed attempts`]
-                    );
+                    await Database.transaction(async (tx) => {
+                        await tx.run(
+                            'UPDATE users SET failed_login_attempts = ?, locked_until = ? WHERE id = ?',
+                            [failedAttempts, lockUntil.toISOString(), user.id]
+                        );
+
+                        // Log account locked event
+                        await tx.run(
+                            `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details, email)
+                             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                            [user.id, 'account_locked', 'high', ipAddress, req.headers['user-agent'], `Account locked after ${failedAttempts} failed attempts`, await FieldEncryptionUtil.blindIndex('security_events.email', user.email)]
+                        );
+                    });
 
                     res.status(403).json({
                         error: 'Account locked',
                         message: 'Too many failed login attempts. Account locked for 30 minutes.'
                     });
                 } else {
-                    await Database.run(
-                        'UPDATE users SET failed_login_attempts = ? WHERE id = ?',
-                        [failedAttempts, user.id]
-                    );
-
-                    // Log failed attempt
-                    await Database.run(
-                        `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details)
-                         VALUES (?, ?, ?, ?, ?, ?)`,
-                        [user.id, 'failed_login', 'medium', ipAddress, req.headers['user-agent'], `Failed login attempt ${failedAttempts}/${maxAttempts}`]
-                    );
+                    await Database.transaction(async (tx) => {
+                        await tx.run(
+                            'UPDATE users SET failed_login_attempts = ? WHERE id = ?',
+                            [failedAttempts, user.id]
+                        );
+
+                        // Log failed attempt
+                        await tx.run(
+                            `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details, email)
+                             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                            [user.id, 'failed_login', 'medium', ipAddress, req.headers['user-agent'], `Failed login attempt ${failedAttempts}/${maxAttempts}`, await FieldEncryptionUtil.blindIndex('security_events.email', user.email)]
+                        );
+                    });
 
                     res.status(401).json({
                         error: 'Invalid credentials',
@@ -217,25 +233,27 @@ export class AuthController {
                 ? Math.ceil((new Date(user.password_expires_at).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
                 : null;
 
-            // Check if MFA is enabled
+            // Check if MFA is enabled; the second factor is answered through /login/verify
             if (user.mfa_enabled) {
+                const tempToken = uuidv4();
+                await OTPUtil.storeMFAChallenge(tempToken, user.email, AuthController.pendingLogin(user));
+
                 res.json({
                     message: 'MFA required',
                     requires2FA: true,
-                    tempToken: JWTUtil.generateAccessToken({ userId: user.id, email: user.email, role: user.role }, '5m') // 5 minute temp token
+                    mfaRequired: true,
+                    tempToken,
+                    expiresIn: 300 // 5 minutes
                 });
                 return;
             }
 
-            // Generate tokens
-            const payload = {
-                userId: user.id,
-                email: user.email,
-                role: user.role
-            };
-
-            const accessToken = JWTUtil.generateAccessToken(payload);
-            const refreshToken = JWTUtil.generateRefreshToken(payload);
+            // Open a session and generate its tokens
+            const { accessToken, refreshToken } = await SessionService.create(
+                Database,
+                { id: user.id, email: user.email, role: user.role },
+                requestContext(req)
+            );
 
             const response: any = {
                 message: 'Login successful',
@@ -264,7 +282,7 @@ export class AuthController {
     }
 
     /**
-     * Refresh access token
+     * Refresh access token, rotating the refresh token
      */
     static async refresh(req: Request, res: Response): Promise<void> {
         try {
@@ -275,17 +293,36 @@ export class AuthController {
                 return;
             }
 
-            // Verify refresh token
-            const payload = JWTUtil.verifyRefreshToken(refreshToken);
+            // Retire the refresh token and issue a new pair; a reused token signs the session out
+            const tokens = await SessionService.rotate(refreshToken, requestContext(req));
 
-            // Generate new access token
-            const newAccessToken = JWTUtil.generateAccessToken(payload);
+            res.json(tokens);
+        } catch (error) {
+            if (error instanceof SessionError) {
+                res.status(401).json({ error: error.message });
+                return;
+            }
+            console.error('Refresh token error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
 
-            res.json({
-                accessToken: newAccessToken
-            });
+    /**
+     * Logout - sign out the current session
+     */
+    static async logout(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            await SessionService.revokeCurrent(Database, req.user.userId, req.user.sessionId, requestContext(req));
+
+            res.json({ message: 'Logged out' });
         } catch (error) {
-            res.status(401).json({ error: 'Invalid or expired refresh token' });
+            console.error('Logout error:', error);
+            res.status(500).json({ error: 'Internal server error' });
         }
     }
 
@@ -313,6 +350,7 @@ export class AuthController {
                 role: user.role,
                 companyName: user.company_name,
                 phone: user.phone,
+                mfaEnabled: !!user.mfa_enabled,
                 createdAt: user.created_at
             });
         } catch (error) {
@@ -375,32 +413,36 @@ export class AuthController {
                 return;
             }
 
-            // Add current password to history
-            await PasswordHistoryUtil.addToHistory(req.user.userId, user.password_hash);
-
             // Hash new password
             const newPasswordHash = await HashUtil.hashPassword(newPassword);
 
             // Calculate new expiration date
             const passwordExpiresAt = PasswordHistoryUtil.calculateExpirationDate();
 
-            // Update password and expiration
-            await Database.run(
-                `UPDATE users 
-                 SET password_hash = ?, 
-                     password_changed_at = CURRENT_TIMESTAMP, 
-                     password_expires_at = ?,
-                     updated_at = CURRENT_TIMESTAMP 
-                 WHERE id = ?`,
-                [newPasswordHash, passwordExpiresAt.toISOString(), req.user.userId]
-            );
+            const userId = req.user.userId;
+
+            await Database.transaction(async (tx) => {
+                // Add current password to history
+                await PasswordHistoryUtil.addToHistory(userId, user.password_hash);
+
+                // Update password and expiration
+                await tx.run(
+                    `UPDATE users 
+                     SET password_hash = ?, 
+                         password_changed_at = CURRENT_TIMESTAMP, 
+                         password_expires_at = ?,
+                         updated_at = CURRENT_TIMESTAMP 
+                     WHERE id = ?`,
+                    [newPasswordHash, passwordExpiresAt.toISOString(), userId]
+                );
 
-            //Log security event
-            await Database.run(
-                `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details)
-                 VALUES (?, ?, ?, ?, ?, ?)`,
-                [req.user.userId, 'password_changed', 'medium', ipAddress, req.headers['user-agent'], 'Password changed successfully']
-            );
+                //Log security event
+                await tx.run(
+                    `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details)
+                     VALUES (?, ?, ?, ?, ?, ?)`,
+                    [userId, 'password_changed', 'medium', ipAddress, req.headers['user-agent'], 'Password changed successfully']
+                );
+            });
 
             res.json({ message: 'Password changed successfully' });
         } catch (error) {
@@ -409,6 +451,53 @@ export class AuthController {
         }
     }
 
+    /**
+     * Forgot password - email a reset link
+     */
+    static async forgotPassword(req: Request, res: Response): Promise<void> {
+        try {
+            const { email } = req.body;
+
+            if (!email) {
+                res.status(400).json({ error: 'Email required' });
+                return;
+            }
+
+            await PasswordResetService.request(String(email), requestContext(req));
+
+            // Same response whether or not the email has an account
+            res.json({ message: 'If an account exists for that email, a password reset link has been sent' });
+        } catch (error) {
+            console.error('Forgot password error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Reset password with an emailed token
+     */
+    static async resetPassword(req: Request, res: Response): Promise<void> {
+        try {
+            const { token, newPassword } = req.body;
+
+            if (!token || !newPassword) {
+                res.status(400).json({ error: 'Reset token and new password required' });
+                return;
+            }
+
+            await PasswordResetService.reset(String(token), String(newPassword), requestContext(req));
+
+            res.json({ message: 'Password reset successfully. Please sign in with your new password.' });
+        } catch (error) {
+            if (error instanceof PasswordResetError) {
+                res.status(400).json({ error: error.message, ...error.details });
+                return;
+            }
+            console.error('Reset password error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
     /**
      * Initiate signup - Send OTP to email
      */
@@ -446,7 +535,8 @@ export class AuthController {
             }
 
             // Check if user already exists
-            const existingUser = await Database.get('SELECT id FROM users WHERE email = ?', [email]);
+            const byEmail = await FieldEncryptionUtil.matching('email', 'users.email', email);
+            const existingUser = await Database.get(`SELECT id FROM users WHERE ${byEmail.sql}`, byEmail.params);
 
             if (existingUser) {
                 res.status(409).json({ error: 'User already exists' });
@@ -456,10 +546,10 @@ export class AuthController {
             // Generate temporary token
             const tempToken = uuidv4();
 
-            // Store OTP with user data
-            const otp = OTPUtil.storeOTP(tempToken, email, 'signup', {
+            // Store OTP with user data; the pending signup keeps only the password hash
+            const otp = await OTPUtil.storeOTP(tempToken, email, 'signup', {
                 email,
-                password,
+                passwordHash: await HashUtil.hashPassword(password),
                 fullName,
                 role,
                 companyName,
@@ -492,8 +582,14 @@ export class AuthController {
                 return;
             }
 
-            // Verify OTP
-            const verification = OTPUtil.verifyOTP(tempToken, otp);
+            // Login and MFA tokens must not create an account; they are left for the login flow to use
+            const pending = await OTPUtil.getOTPData(tempToken);
+            if (!pending || pending.purpose !== 'signup') {
+                res.status(400).json({ error: 'Invalid or expired token' });
+                return;
+            }
+
+            const verification = await OTPUtil.verifyOTP(tempToken, otp);
 
             if (!verification.success) {
                 res.status(400).json({ error: verification.error });
@@ -502,9 +598,6 @@ export class AuthController {
 
             const userData = verification.data!.data;
 
-            // Hash password
-            const passwordHash = await HashUtil.hashPassword(userData.password);
-
             // Calculate password expiration date
             const passwordExpiresAt = PasswordHistoryUtil.calculateExpirationDate();
 
@@ -513,12 +606,12 @@ export class AuthController {
                 `INSERT INTO users (email, password_hash, full_name, role, company_name, phone, password_expires_at)
          VALUES (?, ?, ?, ?, ?, ?, ?)`,
                 [
-                    userData.email,
-                    passwordHash,
+                    await FieldEncryptionUtil.encrypt('users.email', userData.email),
+                    userData.passwordHash,
                     userData.fullName,
                     userData.role,
-                    userData.companyName || null,
-                    userData.phone || null,
+                    await FieldEncryptionUtil.encrypt('users.company_name', userData.companyName || null),
+                    await FieldEncryptionUtil.encrypt('users.phone', userData.phone || null),
                     passwordExpiresAt.toISOString()
                 ]
             );
@@ -526,15 +619,12 @@ export class AuthController {
             // Send welcome email
             await EmailService.sendWelcomeEmail(userData.email, userData.fullName, userData.role);
 
-            // Generate tokens
-            const payload = {
-                userId: result.lastID,
-                email: userData.email,
-                role: userData.role
-            };
-
-            const accessToken = JWTUtil.generateAccessToken(payload);
-            const refreshToken = JWTUtil.generateRefreshToken(payload);
+            // Open a session and generate its tokens
+            const { accessToken, refreshToken } = await SessionService.create(
+                Database,
+                { id: result.lastID, email: userData.email, role: userData.role },
+                requestContext(req)
+            );
 
             res.status(201).json({
                 message: 'User registered successfully',
@@ -568,17 +658,18 @@ export class AuthController {
             }
 
             // Get user from database
+            const byEmail = await FieldEncryptionUtil.matching('email', 'users.email', String(email));
             const user = await Database.get<any>(
-                'SELECT * FROM users WHERE email = ? AND is_active = 1',
-                [email]
+                `SELECT * FROM users WHERE ${byEmail.sql} AND is_active = 1`,
+                byEmail.params
             );
 
             if (!user) {
                 // Log failed login attempt
                 await Database.run(
-                    `INSERT INTO security_events (event_type, severity, ip_address, user_agent, details)
-                     VALUES (?, ?, ?, ?, ?)`,
-                    ['failed_login', 'medium', ipAddress, req.headers['user-agent'], `Failed login for email: ${email}`]
+                    `INSERT INTO security_events (event_type, severity, ip_address, user_agent, details, email)
+                     VALUES (?, ?, ?, ?, ?, ?)`,
+                    ['failed_login', 'medium', ipAddress, req.headers['user-agent'], 'Failed login for unknown email', await FieldEncryptionUtil.blindIndex('security_events.email', String(email))]
                 );
                 res.status(401).json({ error: 'Invalid credentials' });
                 return;
@@ -615,20 +706,38 @@ export class AuthController {
                 if (failedAttempts >= maxAttempts) {
                     // Lock account for 30 minutes
                     const lockUntil = new Date(Date.now() + 30 * 60 * 1000);
-                    await Database.run(
-                        'UPDATE users SET failed_login_attempts = ?, locked_until = ? WHERE id = ?',
-                        [failedAttempts, lockUntil.toISOString(), user.id]
-                    );
+                    await Database.transaction(async (tx) => {
+                        await tx.run(
+                            'UPDATE users SET failed_login_attempts = ?, locked_until = ? WHERE id = ?',
+                            [failedAttempts, lockUntil.toISOString(), user.id]
+                        );
+
+                        // Log account locked event
+                        await tx.run(
+                            `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details, email)
+                             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                            [user.id, 'account_locked', 'high', ipAddress, req.headers['user-agent'], `Account locked after ${failedAttempts} failed attempts`, await FieldEncryptionUtil.blindIndex('security_events.email', user.email)]
+                        );
+                    });
 
                     res.status(403).json({
                         error: 'Account locked',
                         message: 'Too many failed login attempts. Account locked for 30 minutes.'
                     });
                 } else {
-                    await Database.run(
-                        'UPDATE users SET failed_login_attempts = ? WHERE id = ?',
-                        [failedAttempts, user.id]
-                    );
+                    await Database.transaction(async (tx) => {
+                        await tx.run(
+                            'UPDATE users SET failed_login_attempts = ? WHERE id = ?',
+                            [failedAttempts, user.id]
+                        );
+
+                        // Log failed attempt
+                        await tx.run(
+                            `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details, email)
+                             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                            [user.id, 'failed_login', 'medium', ipAddress, req.headers['user-agent'], `Failed login attempt ${failedAttempts}/${maxAttempts}`, await FieldEncryptionUtil.blindIndex('security_events.email', user.email)]
+                        );
+                    });
 
                     res.status(401).json({
                         error: 'Invalid credentials',
@@ -651,14 +760,21 @@ export class AuthController {
             // Generate temporary token
             const tempToken = uuidv4();
 
+            // With MFA enabled the authenticator app replaces the emailed OTP
+            if (user.mfa_enabled) {
+                await OTPUtil.storeMFAChallenge(tempToken, email, AuthController.pendingLogin(user));
+
+                res.status(200).json({
+                    message: 'Enter the code from your authenticator app',
+                    tempToken,
+                    mfaRequired: true,
+                    expiresIn: 300 // 5 minutes
+                });
+                return;
+            }
+
             // Store OTP
-            const otp = OTPUtil.storeOTP(tempToken, email, 'login', {
-                userId: user.id,
-                email: user.email,
-                role: user.role,
-                fullName: user.full_name,
-                companyName: user.company_name
-            });
+            const otp = await OTPUtil.storeOTP(tempToken, email, 'login', AuthController.pendingLogin(user));
 
             // Send OTP email
             await EmailService.sendOTPEmail(email, otp, 'login', user.full_name);
@@ -686,10 +802,34 @@ export class AuthController {
                 return;
             }
 
-            // Verify OTP
-            const verification = OTPUtil.verifyOTP(tempToken, otp);
+            // Signup tokens must not open a session; they are left for the signup flow to use
+            const pending = await OTPUtil.getOTPData(tempToken);
+            if (!pending || (pending.purpose !== 'login' && pending.purpose !== 'mfa')) {
+                res.status(400).json({ error: 'Invalid or expired token' });
+                return;
+            }
+
+            // Verify OTP, or the authenticator / backup code when the user has MFA enabled
+            const verification = pending.purpose === 'mfa'
+                ? await OTPUtil.verifyMFAChallenge(tempToken, (otpData) =>
+                    MfaService.verifySecondFactor(Database, otpData.data.userId, String(otp))
+                )
+                : await OTPUtil.verifyOTP(tempToken, otp);
 
             if (!verification.success) {
+                await Database.run(
+                    `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details, email)
+                     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        pending.data.userId,
+                        'failed_login',
+                        'medium',
+                        req.ip || req.socket.remoteAddress,
+                        req.headers['user-agent'],
+                        pending.purpose === 'mfa' ? OTP_FAILURE_DETAILS.mfa : OTP_FAILURE_DETAILS.login,
+                        await FieldEncryptionUtil.blindIndex('security_events.email', pending.email)
+                    ]
+                );
                 res.status(400).json({ error: verification.error });
                 return;
             }
@@ -702,15 +842,12 @@ export class AuthController {
                 [userData.userId]
             );
 
-            // Generate tokens
-            const payload = {
-                userId: userData.userId,
-                email: userData.email,
-                role: userData.role
-            };
-
-            const accessToken = JWTUtil.generateAccessToken(payload);
-            const refreshToken = JWTUtil.generateRefreshToken(payload);
+            // Open a session and generate its tokens
+            const { accessToken, refreshToken } = await SessionService.create(
+                Database,
+                { id: userData.userId, email: userData.email, role: userData.role },
+                requestContext(req)
+            );
 
             // Check if password expiring soon (within 7 days)
             const user = await Database.get<any>('SELECT password_expires_at FROM users WHERE id = ?', [userData.userId]);
@@ -757,15 +894,20 @@ export class AuthController {
             }
 
             // Get OTP data
-            const otpData = OTPUtil.getOTPData(tempToken);
+            const otpData = await OTPUtil.getOTPData(tempToken);
 
             if (!otpData) {
                 res.status(400).json({ error: 'Invalid or expired token' });
                 return;
             }
 
+            if (otpData.purpose === 'mfa') {
+                res.status(400).json({ error: 'Use the code from your authenticator app or a backup code' });
+                return;
+            }
+
             // Regenerate OTP
-            const newOTP = OTPUtil.regenerateOTP(tempToken);
+            const newOTP = await OTPUtil.regenerateOTP(tempToken);
 
             if (!newOTP) {
                 res.status(400).json({ error: 'Failed to regenerate OTP' });
@@ -788,4 +930,17 @@ export class AuthController {
             res.status(500).json({ error: 'Internal server error' });
         }
     }
+
+    /**
+     * User details held with a pending login until its second step is verified
+     */
+    private static pendingLogin(user: any) {
+        return {
+            userId: user.id,
+            email: user.email,
+            role: user.role,
+            fullName: user.full_name,
+            companyName: user.company_name
+        };
+    }
 }
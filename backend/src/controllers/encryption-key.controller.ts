@@ -0,0 +1,63 @@
+/**
+ * Encryption Key Controller
+ * Admin view of the master keys protecting stored data keys and personal data, and master key rotation
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { DataEncryptionService, DataEncryptionError } from '../services/data-encryption.service';
+
+export class EncryptionKeyController {
+    /**
+     * Provider, active key and the records each key wraps
+     */
+    static async getStatus(_req: Request, res: Response): Promise<void> {
+        try {
+            res.json(await DataEncryptionService.getStatus(Database));
+        } catch (error) {
+            console.error('Get encryption key status error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Create a new master key and re-wrap every data key under it
+     */
+    static async rotate(req: Request, res: Response): Promise<void> {
+        try {
+            const { keyId, rewrapped } = await DataEncryptionService.rotate(req.user!.userId);
+
+            res.json({
+                message: `Master key rotated; ${rewrapped} record(s) re-wrapped`,
+                keyId,
+                rewrapped
+            });
+        } catch (error) {
+            if (error instanceof DataEncryptionError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Rotate encryption key error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Re-wrap data keys and re-encrypt personal data still under an older master key, e.g. after the active key
+     * was changed at the provider
+     */
+    static async rewrap(req: Request, res: Response): Promise<void> {
+        try {
+            const rewrapped = await DataEncryptionService.rewrapAll(req.user!.userId);
+
+            res.json({ message: `${rewrapped} record(s) re-wrapped`, rewrapped });
+        } catch (error) {
+            if (error instanceof DataEncryptionError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Re-wrap encryption keys error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
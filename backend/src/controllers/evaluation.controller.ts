@@ -0,0 +1,141 @@
+/**
+ * Evaluation Controller
+ * Evaluation templates of RFQs, evaluators' scores on quotations and the ranked scoring matrix
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { EvaluationService, EvaluationError } from '../services/evaluation.service';
+import { AuditService } from '../services/audit.service';
+
+export class EvaluationController {
+    /**
+     * Get the evaluation template of an RFQ
+     */
+    static async getTemplate(req: Request, res: Response): Promise<void> {
+        try {
+            const rfq = await Database.get<any>('SELECT id FROM rfqs WHERE id = ?', [req.params.id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            res.json({ criteria: await EvaluationService.listCriteria(Database, rfq.id) });
+        } catch (error) {
+            console.error('Get evaluation template error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Replace the evaluation template of an RFQ (admin only)
+     */
+    static async updateTemplate(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can change evaluation templates' });
+                return;
+            }
+
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [req.params.id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            const input = EvaluationService.validateTemplate(req.body.criteria);
+
+            const userId = req.user.userId;
+            const criteria = await Database.transaction(async (tx) => {
+                const before = await EvaluationService.listCriteria(tx, rfq.id);
+                const after = await EvaluationService.replaceTemplate(tx, rfq.id, input);
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'rfq.evaluation_template_updated',
+                    entityType: 'rfq',
+                    entityId: rfq.id,
+                    before: { criteria: before },
+                    after: { criteria: after }
+                });
+
+                return after;
+            });
+
+            res.json({ message: 'Evaluation template saved', criteria });
+        } catch (error) {
+            if (error instanceof EvaluationError) {
+                res.status(400).json({ error: error.message, problems: error.problems });
+                return;
+            }
+            console.error('Update evaluation template error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get the ranked scoring matrix of an RFQ's quotations
+     */
+    static async getMatrix(req: Request, res: Response): Promise<void> {
+        try {
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [req.params.id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            res.json({ evaluation: await EvaluationService.evaluate(Database, rfq) });
+        } catch (error) {
+            if (error instanceof EvaluationError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Get evaluation error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Record the current user's scores on a quotation
+     */
+    static async saveScores(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || (req.user.role !== 'admin' && req.user.role !== 'approver')) {
+                res.status(403).json({ error: 'Only admins and approvers can score quotations' });
+                return;
+            }
+
+            const quotation = await Database.get<any>('SELECT * FROM quotations WHERE id = ?', [req.params.id]);
+
+            if (!quotation) {
+                res.status(404).json({ error: 'Quotation not found' });
+                return;
+            }
+
+            const userId = req.user.userId;
+            await Database.transaction(async (tx) => {
+                const scores = await EvaluationService.saveScores(tx, quotation, userId, req.body.scores);
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'quotation.evaluation_scored',
+                    entityType: 'quotation',
+                    entityId: quotation.id,
+                    details: { quoteNumber: quotation.quote_number, rfqId: quotation.rfq_id, scores }
+                });
+            });
+
+            res.json({ message: 'Scores saved' });
+        } catch (error) {
+            if (error instanceof EvaluationError) {
+                res.status(400).json({ error: error.message, problems: error.problems });
+                return;
+            }
+            console.error('Save evaluation scores error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
@@ -0,0 +1,269 @@
+/**
+ * Invoice Controller
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { InvoiceService, InvoiceError, InvoiceConflictError } from '../services/invoice.service';
+import { AuditService } from '../services/audit.service';
+
+export class InvoiceController {
+    /**
+     * Submit an invoice against a purchase order (vendor only)
+     */
+    static async submit(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'vendor') {
+                res.status(403).json({ error: 'Only vendors can submit invoices' });
+                return;
+            }
+
+            const { purchaseOrderId, invoiceNumber, invoiceDate, currency, notes, lineItems, attachment } = req.body;
+
+            if (!purchaseOrderId || !invoiceNumber || !lineItems || !attachment) {
+                res.status(400).json({ error: 'Purchase order, invoice number, line items and PDF attachment required' });
+                return;
+            }
+
+            const purchaseOrder = await Database.get<any>(
+                'SELECT * FROM purchase_orders WHERE id = ? AND vendor_id = ?',
+                [purchaseOrderId, req.user.userId]
+            );
+
+            if (!purchaseOrder) {
+                res.status(404).json({ error: 'Purchase order not found' });
+                return;
+            }
+
+            const invoice = await Database.transaction((tx) =>
+                InvoiceService.submit(
+                    tx,
+                    purchaseOrder.id,
+                    { invoiceNumber, invoiceDate, currency, notes, lineItems, attachment },
+                    req.user!.userId
+                )
+            );
+
+            res.status(201).json({
+                message: invoice.status === 'matched'
+                    ? 'Invoice matched the purchase order and goods receipts'
+                    : 'Invoice submitted for review',
+                invoice
+            });
+        } catch (error) {
+            if (error instanceof InvoiceError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Submit invoice error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get invoices (vendors see their own)
+     */
+    static async getAll(req: Request, res: Response): Promise<void> {
+        try {
+            const { status, purchase_order_id, page = 1, limit = 10 } = req.query;
+            const offset = (Number(page) - 1) * Number(limit);
+
+            let where = ' WHERE 1=1';
+            const params: any[] = [];
+
+            if (req.user!.role === 'vendor') {
+                where += ' AND i.vendor_id = ?';
+                params.push(req.user!.userId);
+            }
+
+            if (status) {
+                where += ' AND i.status = ?';
+                params.push(status);
+            }
+
+            if (purchase_order_id) {
+                where += ' AND i.purchase_order_id = ?';
+                params.push(purchase_order_id);
+            }
+
+            const invoices = await Database.all(
+                `SELECT i.id, i.invoice_number, i.purchase_order_id, i.vendor_id, i.invoice_date, i.total_amount,
+                    i.currency, i.match_result, i.status, i.submitted_at, i.resolved_at,
+                    po.po_number, u.company_name as vendor_name
+                 FROM invoices i
+                 JOIN purchase_orders po ON i.purchase_order_id = po.id
+                 JOIN users u ON i.vendor_id = u.id` +
+                    where +
+                    ' ORDER BY i.submitted_at DESC, i.id DESC LIMIT ? OFFSET ?',
+                [...params, Number(limit), offset]
+            );
+
+            const countResult = await Database.get<any>('SELECT COUNT(*) as total FROM invoices i' + where, params);
+
+            res.json({
+                invoices,
+                pagination: {
+                    page: Number(page),
+                    limit: Number(limit),
+                    total: countResult?.total || 0
+                }
+            });
+        } catch (error) {
+            console.error('Get invoices error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Exception queue: invoices whose three-way match failed, oldest first (admin and approver)
+     */
+    static async getExceptions(_req: Request, res: Response): Promise<void> {
+        try {
+            const invoices = await Database.all<any>(
+                `SELECT i.id, i.invoice_number, i.purchase_order_id, i.total_amount, i.currency, i.match_result,
+                    i.match_details, i.submitted_at, po.po_number, u.company_name as vendor_name
+                 FROM invoices i
+                 JOIN purchase_orders po ON i.purchase_order_id = po.id
+                 JOIN users u ON i.vendor_id = u.id
+                 WHERE i.status = 'exception'
+                 ORDER BY i.submitted_at ASC, i.id ASC`
+            );
+
+            res.json({
+                invoices: invoices.map(({ match_details, ...invoice }) => ({
+                    ...invoice,
+                    reasons: JSON.parse(match_details).reasons
+                }))
+            });
+        } catch (error) {
+            console.error('Get invoice exceptions error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get invoice by ID with its match details, signature check and history
+     */
+    static async getById(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            const invoice = await Database.get<any>(
+                `SELECT i.*, po.po_number, po.currency as po_currency, u.company_name as vendor_name,
+                    r.full_name as resolved_by_name
+                 FROM invoices i
+                 JOIN purchase_orders po ON i.purchase_order_id = po.id
+                 JOIN users u ON i.vendor_id = u.id
+                 LEFT JOIN users r ON i.resolved_by = r.id
+                 WHERE i.id = ?`,
+                [id]
+            );
+
+            if (!invoice) {
+                res.status(404).json({ error: 'Invoice not found' });
+                return;
+            }
+
+            if (req.user!.role === 'vendor' && invoice.vendor_id !== req.user!.userId) {
+                res.status(403).json({ error: 'Access denied' });
+                return;
+            }
+
+            res.json({
+                invoice: {
+                    ...invoice,
+                    line_items: JSON.parse(invoice.line_items),
+                    match_details: JSON.parse(invoice.match_details),
+                    verification: InvoiceService.verify(invoice),
+                    history: await AuditService.getEntityHistory(Database, 'invoice', invoice.id)
+                }
+            });
+        } catch (error) {
+            console.error('Get invoice error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Download the invoice PDF
+     */
+    static async getAttachment(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            const invoice = await Database.get<any>(
+                'SELECT id, vendor_id, attachment_name, attachment_hash FROM invoices WHERE id = ?',
+                [id]
+            );
+
+            if (!invoice) {
+                res.status(404).json({ error: 'Invoice not found' });
+                return;
+            }
+
+            if (req.user!.role === 'vendor' && invoice.vendor_id !== req.user!.userId) {
+                res.status(403).json({ error: 'Access denied' });
+                return;
+            }
+
+            const { content, intact } = InvoiceService.readAttachment(invoice);
+
+            if (!intact) {
+                console.error(`Invoice ${invoice.id} attachment does not match its stored hash`);
+                res.status(500).json({ error: 'Invoice attachment failed its integrity check' });
+                return;
+            }
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${invoice.attachment_name.replace(/"/g, '')}"`);
+            res.send(content);
+        } catch (error) {
+            console.error('Get invoice attachment error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Accept or reject an invoice in the exception queue (admin and approver)
+     */
+    static async resolve(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+            const { action, notes } = req.body;
+
+            if (!['accept', 'reject'].includes(action)) {
+                res.status(400).json({ error: "Action must be 'accept' or 'reject'" });
+                return;
+            }
+
+            if (!notes) {
+                res.status(400).json({ error: 'Resolution notes required' });
+                return;
+            }
+
+            const invoice = await Database.get<any>('SELECT * FROM invoices WHERE id = ?', [id]);
+
+            if (!invoice) {
+                res.status(404).json({ error: 'Invoice not found' });
+                return;
+            }
+
+            const status = await Database.transaction((tx) =>
+                InvoiceService.resolve(tx, invoice.id, action, notes, req.user!.userId)
+            );
+
+            res.json({ message: `Invoice ${status}`, status });
+        } catch (error) {
+            if (error instanceof InvoiceError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof InvoiceConflictError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            console.error('Resolve invoice error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
@@ -0,0 +1,161 @@
+/**
+ * IP Access Controller
+ * Admin management of blocked IP addresses / ranges and the allowlist
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { IpAccessService, IpRuleError } from '../services/ip-access.service';
+import { requestContext } from '../utils/request-context.util';
+
+export class IpAccessController {
+    /**
+     * List blocked entries and the allowlist
+     */
+    static async getAll(_req: Request, res: Response): Promise<void> {
+        try {
+            const [blocked, allowlist] = await Promise.all([
+                IpAccessService.listBlocked(Database),
+                IpAccessService.listAllowlist(Database)
+            ]);
+
+            res.json({ blocked, allowlist });
+        } catch (error) {
+            console.error('Get IP rules error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Block an address or CIDR range
+     */
+    static async block(req: Request, res: Response): Promise<void> {
+        try {
+            const { ipAddress, reason, hours } = req.body;
+
+            if (!ipAddress || !reason || hours === undefined) {
+                res.status(400).json({ error: 'IP address, reason and hours required' });
+                return;
+            }
+
+            const id = await Database.transaction((tx) =>
+                IpAccessService.block(tx, String(ipAddress), String(reason), Number(hours), req.user!.userId, requestContext(req))
+            );
+
+            res.status(201).json({ message: 'IP blocked', id });
+        } catch (error) {
+            if (error instanceof IpRuleError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Block IP error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Change when a block expires
+     */
+    static async updateBlock(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+            const { hours } = req.body;
+
+            if (hours === undefined) {
+                res.status(400).json({ error: 'Hours required' });
+                return;
+            }
+
+            const block = await Database.get('SELECT id FROM blocked_ips WHERE id = ?', [id]);
+
+            if (!block) {
+                res.status(404).json({ error: 'Blocked IP not found' });
+                return;
+            }
+
+            await Database.transaction((tx) =>
+                IpAccessService.setExpiry(tx, parseInt(id), Number(hours), req.user!.userId, requestContext(req))
+            );
+
+            res.json({ message: 'Block updated' });
+        } catch (error) {
+            if (error instanceof IpRuleError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Update IP block error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Remove a block
+     */
+    static async unblock(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            await Database.transaction((tx) =>
+                IpAccessService.unblock(tx, parseInt(id), req.user!.userId, requestContext(req))
+            );
+
+            res.json({ message: 'IP unblocked' });
+        } catch (error) {
+            if (error instanceof IpRuleError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            console.error('Unblock IP error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Add an address or CIDR range to the allowlist
+     */
+    static async allow(req: Request, res: Response): Promise<void> {
+        try {
+            const { ipAddress, reason } = req.body;
+
+            if (!ipAddress || !reason) {
+                res.status(400).json({ error: 'IP address and reason required' });
+                return;
+            }
+
+            const id = await Database.transaction((tx) =>
+                IpAccessService.allow(tx, String(ipAddress), String(reason), req.user!.userId, requestContext(req))
+            );
+
+            res.status(201).json({ message: 'IP allowlisted', id });
+        } catch (error) {
+            if (error instanceof IpRuleError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Allowlist IP error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Remove an allowlist entry
+     */
+    static async removeAllowed(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            await Database.transaction((tx) =>
+                IpAccessService.removeAllowed(tx, parseInt(id), req.user!.userId, requestContext(req))
+            );
+
+            res.json({ message: 'Allowlist entry removed' });
+        } catch (error) {
+            if (error instanceof IpRuleError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            console.error('Remove allowlist entry error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
@@ -0,0 +1,156 @@
+/**
+ * MFA Controller
+ * Authenticator-app enrollment for the signed-in user
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { MfaService, MfaError } from '../services/mfa.service';
+import { requestContext } from '../utils/request-context.util';
+
+export class MfaController {
+    /**
+     * Get MFA status of the current user
+     */
+    static async getStatus(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const mfa = await MfaService.getStatus(Database, req.user.userId);
+
+            res.json({ mfa });
+        } catch (error) {
+            if (error instanceof MfaError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Get MFA status error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Start authenticator-app enrollment
+     */
+    static async setup(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const setup = await MfaService.beginSetup(req.user.userId);
+
+            res.json({
+                message: 'Scan the QR code with your authenticator app, then confirm with a code',
+                ...setup
+            });
+        } catch (error) {
+            if (error instanceof MfaError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('MFA setup error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Confirm enrollment with a code from the authenticator app
+     */
+    static async confirm(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const { code } = req.body;
+
+            if (!code) {
+                res.status(400).json({ error: 'Authenticator code required' });
+                return;
+            }
+
+            const backupCodes = await MfaService.confirm(req.user.userId, String(code).trim(), requestContext(req));
+
+            res.json({
+                message: 'MFA enabled. Store your backup codes somewhere safe; they will not be shown again.',
+                backupCodes
+            });
+        } catch (error) {
+            if (error instanceof MfaError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('MFA confirm error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Disable MFA
+     */
+    static async disable(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const { password, code } = req.body;
+
+            if (!password || !code) {
+                res.status(400).json({ error: 'Password and authenticator or backup code required' });
+                return;
+            }
+
+            await MfaService.disable(req.user.userId, password, String(code), requestContext(req));
+
+            res.json({ message: 'MFA disabled' });
+        } catch (error) {
+            if (error instanceof MfaError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('MFA disable error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Replace the backup codes
+     */
+    static async regenerateBackupCodes(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const { code } = req.body;
+
+            if (!code) {
+                res.status(400).json({ error: 'Authenticator code required' });
+                return;
+            }
+
+            const backupCodes = await MfaService.regenerateBackupCodes(req.user.userId, String(code).trim());
+
+            res.json({
+                message: 'Backup codes regenerated. Your previous codes no longer work.',
+                backupCodes
+            });
+        } catch (error) {
+            if (error instanceof MfaError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Regenerate backup codes error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
@@ -5,6 +5,13 @@
 
 import { Request, Response } from 'express';
 import { Database } from '../database/database';
+import { BidOpeningService } from '../services/bid-opening.service';
+import { RfqDeadlineService, RfqDeadlineError } from '../services/rfq-deadline.service';
+import { AuditService } from '../services/audit.service';
+import { SigningKeyService, SigningKeyError } from '../services/signing-key.service';
+import { QuotationSignatureService } from '../services/quotation-signature.service';
+import { LineItemService, LineItemError } from '../services/line-item.service';
+import { RequirementLineService } from '../services/requirement-line.service';
 
 /**
  * Create a new revision of a quotation
@@ -12,7 +19,7 @@ import { Database } from '../database/database';
 export const createRevision = async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
-        const { line_items, delivery_time, validity_period, notes, change_reason } = req.body;
+        const { delivery_time, validity_period, notes, change_reason, passphrase, signature } = req.body;
         const userId = req.user!.userId;
 
         // Get current quotation
@@ -32,52 +39,105 @@ export const createRevision = async (req: Request, res: Response): Promise<void>
             return;
         }
 
-        // Get latest version number
-        const latestRevision = await Database.get<{ version: number }>(
-            'SELECT MAX(version) as version FROM quotation_revisions WHERE quotation_id = ?',
-            [id]
-        );
+        if (['awarded', 'not_awarded'].includes(quotation.status)) {
+            res.status(400).json({ error: 'Quotation has been closed by the RFQ award' });
+            return;
+        }
 
-        const newVersion = (latestRevision?.version || 0) + 1;
-
-        // Calculate total amount
-        const totalAmount = line_items.reduce((sum: number, item: any) => {
-            return sum + (item.quantity * item.unit_price);
-        }, 0);
-
-        // Create revision record
-        await Database.run(
-            `INSERT INTO quotation_revisions 
-            (quotation_id, version, total_amount, currency, line_items, delivery_time, validity_period, notes, changed_by, change_reason)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-                id,
-                newVersion,
-                totalAmount,
-                quotation.currency,
-                JSON.stringify(line_items),
-                delivery_time,
-                validity_period,
-                notes,
-                userId,
-                change_reason
-            ]
-        );
+        if (BidOpeningService.isSealed(quotation)) {
+            res.status(400).json({ error: 'Sealed bids cannot be revised before the bid opening' });
+            return;
+        }
 
-        // Update main quotation with new values
-        await Database.run(
-            `UPDATE quotations 
-            SET line_items = ?, total_amount = ?, status = 'negotiating', updated_at = CURRENT_TIMESTAMP
-            WHERE id = ?`,
-            [JSON.stringify(line_items), totalAmount, id]
+        await RfqDeadlineService.assertOpen(Database, quotation.rfq_id);
+
+        // Validated and priced exactly as on create
+        const requirementLines = await RequirementLineService.list(Database, quotation.rfq_id);
+        const { lineItems: line_items, totals } = LineItemService.price(requirementLines, req.body.line_items);
+        const totalAmount = totals.total;
+
+        // The reviser signs the new terms with their own key; vendors sign in their browser
+        const signed = await SigningKeyService.sign(
+            Database,
+            userId,
+            QuotationSignatureService.revisionPayload({
+                quotationId: quotation.id,
+                lineItems: line_items,
+                deliveryTime: delivery_time,
+                validityPeriod: validity_period,
+                notes
+            }),
+            { passphrase, signature },
+            req.user!.role === 'vendor'
         );
 
+        const newVersion = await Database.transaction(async (tx) => {
+            // Get latest version number
+            const latestRevision = await tx.get<{ version: number }>(
+                'SELECT MAX(version) as version FROM quotation_revisions WHERE quotation_id = ?',
+                [id]
+            );
+
+            const version = (latestRevision?.version || 0) + 1;
+
+            // Create revision record
+            await tx.run(
+                `INSERT INTO quotation_revisions 
+                (quotation_id, version, total_amount, currency, line_items, delivery_time, validity_period, notes, changed_by,
+                 change_reason, signature, signing_key_id)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    id,
+                    version,
+                    totalAmount,
+                    quotation.currency,
+                    JSON.stringify(line_items),
+                    delivery_time,
+                    validity_period,
+                    notes,
+                    userId,
+                    change_reason,
+                    signed.signature,
+                    signed.keyId
+                ]
+            );
+
+            // Update main quotation with new values
+            await tx.run(
+                `UPDATE quotations 
+                SET line_items = ?, total_amount = ?, status = 'negotiating', updated_at = CURRENT_TIMESTAMP
+                WHERE id = ?`,
+                [JSON.stringify(line_items), totalAmount, id]
+            );
+
+            await AuditService.log(tx, {
+                userId,
+                action: 'quotation.revised',
+                entityType: 'quotation',
+                entityId: quotation.id,
+                details: { version, changeReason: change_reason || null, signingKeyId: signed.keyId },
+                before: { status: quotation.status, total_amount: quotation.total_amount },
+                after: { status: 'negotiating', total_amount: totalAmount }
+            });
+
+            return version;
+        });
+
         res.json({
             message: 'Revision created successfully',
             version: newVersion,
-            total_amount: totalAmount
+            total_amount: totalAmount,
+            totals
         });
     } catch (error) {
+        if (error instanceof LineItemError) {
+            res.status(400).json({ error: error.message, problems: error.problems });
+            return;
+        }
+        if (error instanceof RfqDeadlineError || error instanceof SigningKeyError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
         console.error('Error creating revision:', error);
         res.status(500).json({ error: 'Failed to create revision' });
     }
@@ -126,20 +186,41 @@ export const addComment = async (req: Request, res: Response): Promise<void> =>
             return;
         }
 
-        const result = await Database.run(
-            `INSERT INTO quotation_comments 
-            (quotation_id, user_id, comment, comment_type, is_internal, parent_comment_id)
-            VALUES (?, ?, ?, ?, ?, ?)`,
-            [id, userId, comment, comment_type || 'general', is_internal || 0, parent_comment_id || null]
-        );
-
-        // If this is a revision request, update quotation status
-        if (comment_type === 'revision_request') {
-            await Database.run(
-                `UPDATE quotations SET status = 'revision_requested', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-                [id]
+        const result = await Database.transaction(async (tx) => {
+            const inserted = await tx.run(
+                `INSERT INTO quotation_comments 
+                (quotation_id, user_id, comment, comment_type, is_internal, parent_comment_id)
+                VALUES (?, ?, ?, ?, ?, ?)`,
+                [id, userId, comment, comment_type || 'general', is_internal || 0, parent_comment_id || null]
             );
-        }
+
+            // If this is a revision request, update quotation status
+            let statusChanged = false;
+            if (comment_type === 'revision_request') {
+                const updated = await tx.run(
+                    `UPDATE quotations SET status = 'revision_requested', updated_at = CURRENT_TIMESTAMP
+                     WHERE id = ? AND status NOT IN ('awarded', 'not_awarded')
+                       AND (sealed_payload IS NULL OR unsealed_at IS NOT NULL)`,
+                    [id]
+                );
+                statusChanged = updated.changes > 0;
+            }
+
+            await AuditService.log(tx, {
+                userId,
+                action: 'quotation.commented',
+                entityType: 'quotation',
+                entityId: Number(id),
+                details: {
+                    commentId: inserted.lastID,
+                    commentType: comment_type || 'general',
+                    internal: !!is_internal,
+                    statusChanged
+                }
+            });
+
+            return inserted;
+        });
 
         // Get the created comment with user info
         const createdComment = await Database.get(
@@ -212,22 +293,57 @@ export const requestRevision = async (req: Request, res: Response): Promise<void
             return;
         }
 
-        // Update quotation status
-        await Database.run(
-            `UPDATE quotations SET status = 'revision_requested', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-            [id]
-        );
+        const quotation = await Database.get<any>('SELECT rfq_id, status, sealed_payload, unsealed_at FROM quotations WHERE id = ?', [id]);
 
-        // Add comment
-        await Database.run(
-            `INSERT INTO quotation_comments 
-            (quotation_id, user_id, comment, comment_type)
-            VALUES (?, ?, ?, 'revision_request')`,
-            [id, userId, `${comment}\n\nSuggested changes: ${suggested_changes || 'N/A'}`]
-        );
+        if (!quotation) {
+            res.status(404).json({ error: 'Quotation not found' });
+            return;
+        }
+
+        if (['awarded', 'not_awarded'].includes(quotation.status)) {
+            res.status(400).json({ error: 'Quotation has been closed by the RFQ award' });
+            return;
+        }
+
+        if (BidOpeningService.isSealed(quotation)) {
+            res.status(400).json({ error: 'Sealed bids cannot be revised before the bid opening' });
+            return;
+        }
+
+        await RfqDeadlineService.assertOpen(Database, quotation.rfq_id);
+
+        await Database.transaction(async (tx) => {
+            // Update quotation status
+            await tx.run(
+                `UPDATE quotations SET status = 'revision_requested', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                [id]
+            );
+
+            // Add comment
+            await tx.run(
+                `INSERT INTO quotation_comments 
+                (quotation_id, user_id, comment, comment_type)
+                VALUES (?, ?, ?, 'revision_request')`,
+                [id, userId, `${comment}\n\nSuggested changes: ${suggested_changes || 'N/A'}`]
+            );
+
+            await AuditService.log(tx, {
+                userId,
+                action: 'quotation.revision_requested',
+                entityType: 'quotation',
+                entityId: Number(id),
+                details: { reason: comment },
+                before: { status: quotation.status },
+                after: { status: 'revision_requested' }
+            });
+        });
 
         res.json({ message: 'Revision requested successfully' });
     } catch (error) {
+        if (error instanceof RfqDeadlineError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
         console.error('Error requesting revision:', error);
         res.status(500).json({ error: 'Failed to request revision' });
     }
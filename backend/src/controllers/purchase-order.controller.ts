@@ -0,0 +1,283 @@
+/**
+ * Purchase Order Controller
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { PurchaseOrderService, PurchaseOrderError } from '../services/purchase-order.service';
+import { AuditService } from '../services/audit.service';
+import { InvoiceService } from '../services/invoice.service';
+import { ApprovalWorkflowError } from '../services/approval-workflow.service';
+import { LineItemError } from '../services/line-item.service';
+
+export class PurchaseOrderController {
+    /**
+     * Get purchase orders (vendors see their own)
+     */
+    static async getAll(req: Request, res: Response): Promise<void> {
+        try {
+            const { status, page = 1, limit = 10 } = req.query;
+            const offset = (Number(page) - 1) * Number(limit);
+
+            let where = ' WHERE 1=1';
+            const params: any[] = [];
+
+            if (req.user!.role === 'vendor') {
+                where += ' AND po.vendor_id = ?';
+                params.push(req.user!.userId);
+            }
+
+            if (status) {
+                where += ' AND po.status = ?';
+                params.push(status);
+            }
+
+            const purchaseOrders = await Database.all(
+                `SELECT po.id, po.po_number, po.rfq_id, po.quotation_id, po.vendor_id, po.total_amount,
+                    po.currency, po.status, po.amendment_number, po.acknowledged_at, po.issued_at, po.closed_at,
+                    r.title as rfq_title, r.rfq_number,
+                    q.quote_number, u.company_name as vendor_name
+                 FROM purchase_orders po
+                 JOIN rfqs r ON po.rfq_id = r.id
+                 JOIN quotations q ON po.quotation_id = q.id
+                 JOIN users u ON po.vendor_id = u.id` +
+                    where +
+                    ' ORDER BY po.issued_at DESC LIMIT ? OFFSET ?',
+                [...params, Number(limit), offset]
+            );
+
+            const countResult = await Database.get<any>(
+                'SELECT COUNT(*) as total FROM purchase_orders po' + where,
+                params
+            );
+
+            res.json({
+                purchaseOrders,
+                pagination: {
+                    page: Number(page),
+                    limit: Number(limit),
+                    total: countResult?.total || 0
+                }
+            });
+        } catch (error) {
+            console.error('Get purchase orders error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get purchase order by ID with its signature check, amendments, receipts, invoices and audit trail
+     */
+    static async getById(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            const purchaseOrder = await Database.get<any>(
+                `SELECT po.*, r.title as rfq_title, r.rfq_number, q.quote_number,
+                    u.company_name as vendor_name, u.email as vendor_email, i.full_name as issued_by_name,
+                    ack.full_name as acknowledged_by_name
+                 FROM purchase_orders po
+                 JOIN rfqs r ON po.rfq_id = r.id
+                 JOIN quotations q ON po.quotation_id = q.id
+                 JOIN users u ON po.vendor_id = u.id
+                 LEFT JOIN users i ON po.issued_by = i.id
+                 LEFT JOIN users ack ON po.acknowledged_by = ack.id
+                 WHERE po.id = ?`,
+                [id]
+            );
+
+            if (!purchaseOrder) {
+                res.status(404).json({ error: 'Purchase order not found' });
+                return;
+            }
+
+            if (req.user!.role === 'vendor' && purchaseOrder.vendor_id !== req.user!.userId) {
+                res.status(403).json({ error: 'Access denied' });
+                return;
+            }
+
+            const received = await PurchaseOrderService.getReceivedQuantities(Database, purchaseOrder.id);
+            const invoiced = await InvoiceService.getInvoicedQuantities(Database, purchaseOrder.id);
+
+            const amendments = await Database.all<any>(
+                `SELECT a.*, u.full_name as requested_by_name
+                 FROM po_amendments a
+                 LEFT JOIN users u ON a.requested_by = u.id
+                 WHERE a.purchase_order_id = ?
+                 ORDER BY a.amendment_number DESC`,
+                [id]
+            );
+
+            const receipts = await Database.all<any>(
+                `SELECT g.*, u.full_name as received_by_name
+                 FROM goods_receipts g
+                 LEFT JOIN users u ON g.received_by = u.id
+                 WHERE g.purchase_order_id = ?
+                 ORDER BY g.received_at DESC, g.id DESC`,
+                [id]
+            );
+            for (const receipt of receipts) {
+                receipt.items = await Database.all(
+                    'SELECT line_number, quantity FROM goods_receipt_items WHERE receipt_id = ? ORDER BY line_number',
+                    [receipt.id]
+                );
+            }
+
+            const invoices = await Database.all(
+                `SELECT id, invoice_number, invoice_date, total_amount, currency, match_result, status, submitted_at
+                 FROM invoices
+                 WHERE purchase_order_id = ?
+                 ORDER BY submitted_at DESC, id DESC`,
+                [id]
+            );
+
+            res.json({
+                purchaseOrder: {
+                    ...purchaseOrder,
+                    line_items: PurchaseOrderService.numberLines(JSON.parse(purchaseOrder.line_items)).map((item) => ({
+                        ...item,
+                        quantity_received: received.get(item.line_number) || 0,
+                        quantity_invoiced: invoiced.get(item.line_number) || 0
+                    })),
+                    verification: PurchaseOrderService.verify(purchaseOrder),
+                    amendments: amendments.map((amendment) => ({
+                        ...amendment,
+                        line_items: JSON.parse(amendment.line_items)
+                    })),
+                    receipts,
+                    invoices,
+                    history: await AuditService.getEntityHistory(Database, 'purchase_order', purchaseOrder.id)
+                }
+            });
+        } catch (error) {
+            console.error('Get purchase order error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Acknowledge purchase order (vendor only)
+     */
+    static async acknowledge(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'vendor') {
+                res.status(403).json({ error: 'Only vendors can acknowledge purchase orders' });
+                return;
+            }
+
+            const { id } = req.params;
+
+            const purchaseOrder = await Database.get<any>(
+                'SELECT * FROM purchase_orders WHERE id = ? AND vendor_id = ?',
+                [id, req.user.userId]
+            );
+
+            if (!purchaseOrder) {
+                res.status(404).json({ error: 'Purchase order not found' });
+                return;
+            }
+
+            await Database.transaction((tx) => PurchaseOrderService.acknowledge(tx, purchaseOrder, req.user!.userId));
+
+            res.json({ message: 'Purchase order acknowledged' });
+        } catch (error) {
+            if (error instanceof PurchaseOrderError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Acknowledge purchase order error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Request an amendment and route it for approval (admin only)
+     */
+    static async amend(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can amend purchase orders' });
+                return;
+            }
+
+            const { id } = req.params;
+            const { lineItems, reason } = req.body;
+
+            if (!lineItems || !reason) {
+                res.status(400).json({ error: 'Line items and reason required' });
+                return;
+            }
+
+            const purchaseOrder = await Database.get<any>('SELECT * FROM purchase_orders WHERE id = ?', [id]);
+
+            if (!purchaseOrder) {
+                res.status(404).json({ error: 'Purchase order not found' });
+                return;
+            }
+
+            const amendment = await Database.transaction((tx) =>
+                PurchaseOrderService.requestAmendment(tx, purchaseOrder, lineItems, reason, req.user!.userId)
+            );
+
+            res.status(201).json({
+                message: 'Amendment submitted for approval',
+                amendment
+            });
+        } catch (error) {
+            if (error instanceof PurchaseOrderError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof LineItemError) {
+                res.status(400).json({ error: error.message, problems: error.problems });
+                return;
+            }
+            if (error instanceof ApprovalWorkflowError) {
+                res.status(422).json({ error: error.message });
+                return;
+            }
+            console.error('Amend purchase order error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Record a goods receipt against purchase order lines (admin only)
+     */
+    static async receive(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can record goods receipts' });
+                return;
+            }
+
+            const { id } = req.params;
+            const { lines, notes } = req.body;
+
+            const purchaseOrder = await Database.get<any>('SELECT * FROM purchase_orders WHERE id = ?', [id]);
+
+            if (!purchaseOrder) {
+                res.status(404).json({ error: 'Purchase order not found' });
+                return;
+            }
+
+            const receipt = await Database.transaction((tx) =>
+                PurchaseOrderService.recordReceipt(tx, purchaseOrder, lines, notes || null, req.user!.userId)
+            );
+
+            res.status(201).json({
+                message: receipt.status === 'closed'
+                    ? 'Goods receipt recorded; purchase order fully received and closed'
+                    : 'Goods receipt recorded',
+                receipt
+            });
+        } catch (error) {
+            if (error instanceof PurchaseOrderError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Record goods receipt error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
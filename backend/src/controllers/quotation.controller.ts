@@ -3,12 +3,52 @@
  */
 
 import { Request, Response } from 'express';
-import { Database } from '../database/database';
+import { TokenPayload } from '../utils/jwt.util';
+import { Database, QueryRunner } from '../database/database';
 import { v4 as uuidv4 } from 'uuid';
 import { Base64Util } from '../utils/security/base64.util';
-import { XORUtil } from '../utils/security/xor.util';
-import { SignatureUtil } from '../utils/security/signature.util';
-import { HashUtil } from '../utils/security/hash.util';
+import { ApprovalWorkflowService, ApprovalWorkflowError } from '../services/approval-workflow.service';
+import { BidOpeningService } from '../services/bid-opening.service';
+import { PurchaseOrderService } from '../services/purchase-order.service';
+import { LineItemService, LineItemError } from '../services/line-item.service';
+import { RequirementLineService } from '../services/requirement-line.service';
+import { RfqDeadlineService, RfqDeadlineError } from '../services/rfq-deadline.service';
+import { AuditService } from '../services/audit.service';
+import { SignatureCheck, SigningKeyService, SigningKeyError } from '../services/signing-key.service';
+import { QuotationSignatureService } from '../services/quotation-signature.service';
+import { QuotationSensitiveDataService, SensitiveDataError } from '../services/quotation-sensitive-data.service';
+
+/**
+ * One-line summary of a signature check for API responses
+ */
+function describeSignature(check: SignatureCheck | null, matchesRecord: boolean = true): string {
+    if (!check) {
+        return 'Not signed';
+    }
+    if (!check.valid || !matchesRecord) {
+        return '✗ Signature invalid - the signed data may have been tampered with';
+    }
+    if (!check.signer) {
+        return '✓ Signature verified, but it was made with a one-off key that does not identify the vendor';
+    }
+    if (!check.keyValidAtSigning) {
+        return `✗ Signed by ${check.signer.name} with a key that was not active at the time of signing`;
+    }
+    return `✓ Signature verified - signed by ${check.signer.name} with key ${check.key!.fingerprint.slice(0, 16)}`;
+}
+
+/**
+ * How a quotation's sensitive data is encrypted, and whether the caller may decrypt it
+ */
+async function describeEncryption(quotation: any, user: TokenPayload) {
+    const legacy = QuotationSensitiveDataService.isLegacy(quotation);
+    return {
+        algorithm: legacy ? 'XOR (legacy, vendor-held key)' : 'AES-256-GCM',
+        keyId: quotation.encryption_key_id,
+        legacy,
+        canDecrypt: !!quotation.encrypted_data && (await QuotationSensitiveDataService.canRead(Database, quotation, user))
+    };
+}
 
 export class QuotationController {
     /**
@@ -21,17 +61,18 @@ export class QuotationController {
                 return;
             }
 
-            const { rfqId, lineItems, totalAmount, currency, termsConditions } = req.body;
+            const { rfqId, currency, termsConditions, passphrase, signature } = req.body;
 
-            if (!rfqId || !lineItems || !totalAmount) {
-                res.status(400).json({ error: 'RFQ ID, line items, and total amount required' });
+            if (!rfqId || !req.body.lineItems) {
+                res.status(400).json({ error: 'RFQ ID and line items required' });
                 return;
             }
 
             // Verify RFQ exists and is published
-            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ? AND status = ?', [
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ? AND status IN (?, ?)', [
                 rfqId,
-                'published'
+                'published',
+                'closed'
             ]);
 
             if (!rfq) {
@@ -39,55 +80,91 @@ export class QuotationController {
                 return;
             }
 
+            // Late quotations are rejected even before the scheduler has closed the RFQ
+            await RfqDeadlineService.assertOpen(Database, rfq.id);
+
+            // Amounts are computed here; a total sent by the client is ignored
+            const requirementLines = await RequirementLineService.list(Database, rfq.id);
+            const { lineItems, totals } = LineItemService.price(requirementLines, req.body.lineItems);
+            const totalAmount = totals.total;
+
             // Generate quote number
             const quoteNumber = `QT-${Date.now()}-${uuidv4().split('-')[0]}`;
 
             // Encode line items with Base64
             const encodedLineItems = Base64Util.encodeJSON(lineItems);
 
-            // Encrypt sensitive data with XOR
-            const encryptionKey = XORUtil.generateKey();
-            const sensitiveData = {
+            // Envelope-encrypt sensitive data under the platform master key
+            const encrypted = await QuotationSensitiveDataService.encrypt(quoteNumber, {
                 costBreakdown: lineItems,
                 profitMargin: req.body.profitMargin || 0,
                 internalNotes: req.body.internalNotes || ''
-            };
-            const encryptedData = XORUtil.encryptJSON(sensitiveData, encryptionKey);
-            const encryptionKeyHash = HashUtil.sha256(encryptionKey);
-
-            // Generate digital signature
-            const { publicKey, privateKey } = SignatureUtil.generateKeyPair();
-            const dataToSign = JSON.stringify({
-                quoteNumber,
-                rfqId,
-                totalAmount,
-                lineItems
             });
-            const signature = SignatureUtil.sign(dataToSign, privateKey);
 
-            // Insert quotation
-            const result = await Database.run(
-                `INSERT INTO quotations (
-          rfq_id, vendor_id, quote_number, total_amount, currency, 
-          line_items, terms_conditions, encrypted_data, encryption_key_hash,
-          digital_signature, public_key, status
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-                [
-                    rfqId,
-                    req.user.userId,
-                    quoteNumber,
+            // Signed in the vendor's browser with their registered key; the server only checks the signature
+            const vendorId = req.user.userId;
+            const signed = await SigningKeyService.sign(
+                Database,
+                vendorId,
+                QuotationSignatureService.quotationPayload({
+                    rfqId: rfq.id,
+                    vendorId,
                     totalAmount,
-                    currency || 'USD',
-                    encodedLineItems,
-                    termsConditions || null,
-                    encryptedData,
-                    encryptionKeyHash,
-                    signature,
-                    publicKey,
-                    'draft'
-                ]
+                    currency: currency || 'USD',
+                    lineItems
+                }),
+                { passphrase, signature },
+                true
             );
 
+            const result = await Database.transaction(async (tx) => {
+                // Sealed bids keep the amount and line items only in the encrypted payload until opening
+                const sealedPayload = rfq.sealed_bids
+                    ? await BidOpeningService.seal(tx, rfq.id, { totalAmount, lineItems })
+                    : null;
+
+                // Insert quotation
+                const inserted = await tx.run(
+                    `INSERT INTO quotations (
+          rfq_id, vendor_id, quote_number, total_amount, currency, 
+          line_items, terms_conditions, encrypted_data, encryption_key_id,
+          digital_signature, public_key, signing_key_id, status, sealed_payload
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        rfqId,
+                        vendorId,
+                        quoteNumber,
+                        sealedPayload ? 0 : totalAmount,
+                        currency || 'USD',
+                        sealedPayload ? Base64Util.encodeJSON([]) : encodedLineItems,
+                        termsConditions || null,
+                        encrypted.envelope,
+                        encrypted.keyId,
+                        signed.signature,
+                        signed.publicKey,
+                        signed.keyId,
+                        'draft',
+                        sealedPayload
+                    ]
+                );
+
+                await AuditService.log(tx, {
+                    userId: vendorId,
+                    action: 'quotation.created',
+                    entityType: 'quotation',
+                    entityId: inserted.lastID,
+                    details: { quoteNumber, rfqId: rfq.id, sealed: !!sealedPayload, signingKeyId: signed.keyId },
+                    // A sealed amount stays out of the log until the bids are opened
+                    after: {
+                        status: 'draft',
+                        total_amount: sealedPayload ? null : totalAmount,
+                        currency: currency || 'USD'
+                    }
+                });
+
+                return inserted;
+            });
+
             res.status(201).json({
                 message: 'Quotation created successfully',
                 quotation: {
@@ -95,25 +172,70 @@ export class QuotationController {
                     quoteNumber,
                     rfqId,
                     totalAmount,
+                    totals,
                     currency: currency || 'USD',
-                    status: 'draft'
+                    status: 'draft',
+                    sealed: !!rfq.sealed_bids
                 },
-                encryptionKey,
                 encryption: {
-                    note: '⚠️  IMPORTANT: Save this encryption key securely! You will need it to view encrypted data.',
-                    keyHash: encryptionKeyHash
+                    algorithm: 'AES-256-GCM',
+                    keyId: encrypted.keyId
                 },
                 signature: {
-                    publicKey: publicKey.substring(0, 100) + '...',
+                    signingKeyId: signed.keyId,
+                    fingerprint: SigningKeyService.fingerprint(signed.publicKey),
                     verified: true
                 }
             });
         } catch (error) {
+            if (error instanceof LineItemError) {
+                res.status(400).json({ error: error.message, problems: error.problems });
+                return;
+            }
+            if (error instanceof RfqDeadlineError || error instanceof SigningKeyError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
             console.error('Create quotation error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
     }
 
+    /**
+     * Validate and price line items for an RFQ without saving them.
+     * The browser signs the priced line items and total it gets back, which are exactly what create recomputes.
+     */
+    static async price(req: Request, res: Response): Promise<void> {
+        try {
+            const { rfqId, lineItems } = req.body;
+
+            const rfq = await Database.get<any>('SELECT id FROM rfqs WHERE id = ?', [rfqId]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            res.json(LineItemService.price(await RequirementLineService.list(Database, rfq.id), lineItems));
+        } catch (error) {
+            if (error instanceof LineItemError) {
+                res.status(400).json({ error: error.message, problems: error.problems });
+                return;
+            }
+            console.error('Price line items error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Tax codes a line item may use, with their rates in percent
+     */
+    static async getTaxCodes(_req: Request, res: Response): Promise<void> {
+        res.json({
+            taxCodes: Object.entries(LineItemService.getTaxRates()).map(([code, rate]) => ({ code, rate }))
+        });
+    }
+
     /**
      * Get all quotations
      */
@@ -154,7 +276,7 @@ export class QuotationController {
 
             res.json({
                 quotations: quotations.map((q: any) => ({
-                    ...q,
+                    ...BidOpeningService.maskQuotation(q),
                     line_items: '*** Encoded ***',
                     encrypted_data: '*** Encrypted ***',
                     public_key: q.public_key ? q.public_key.substring(0, 50) + '...' : null
@@ -171,12 +293,11 @@ export class QuotationController {
     }
 
     /**
-     * Get quotation by ID with decryption
+     * Get quotation by ID
      */
     static async getById(req: Request, res: Response): Promise<void> {
         try {
             const { id } = req.params;
-            const { encryptionKey } = req.query;
 
             const quotation = await Database.get<any>(
                 `SELECT q.*, u.company_name as vendor_name, u.full_name as vendor_contact,
@@ -199,51 +320,43 @@ export class QuotationController {
                 return;
             }
 
-            // Decode line items
-            const lineItems = Base64Util.decodeJSON(quotation.line_items);
-
-            // Decrypt sensitive data if key provided
-            let decryptedData = null;
-            if (encryptionKey) {
-                try {
-                    // Verify key
-                    const keyHash = HashUtil.sha256(encryptionKey as string);
-                    if (keyHash === quotation.encryption_key_hash) {
-                        decryptedData = XORUtil.decryptJSON(quotation.encrypted_data, encryptionKey as string);
-                    } else {
-                        res.status(400).json({ error: 'Invalid encryption key' });
-                        return;
+            // Sealed bids stay unreadable to everyone until the bid opening
+            if (BidOpeningService.isSealed(quotation)) {
+                res.json({
+                    quotation: {
+                        ...BidOpeningService.maskQuotation(quotation),
+                        encrypted_data: '*** Sealed until bid opening ***',
+                        encryption: await describeEncryption(quotation, req.user!),
+                        signature: {
+                            isValid: null,
+                            publicKey: quotation.public_key.substring(0, 100) + '...',
+                            message: 'Sealed bid - signature is verified when the bids are opened'
+                        }
                     }
-                } catch (error) {
-                    res.status(400).json({ error: 'Decryption failed' });
-                    return;
-                }
+                });
+                return;
             }
 
-            // Verify signature
-            const dataToVerify = JSON.stringify({
-                quoteNumber: quotation.quote_number,
-                rfqId: quotation.rfq_id,
-                totalAmount: quotation.total_amount,
-                lineItems
-            });
-            const isSignatureValid = SignatureUtil.verify(
-                dataToVerify,
-                quotation.digital_signature,
-                quotation.public_key
-            );
+            // Decode line items
+            const lineItems = PurchaseOrderService.parseLineItems(quotation.line_items);
+
+            // Verify the signature covering the current terms
+            const report = await QuotationSignatureService.report(Database, quotation);
 
             res.json({
                 quotation: {
                     ...quotation,
                     line_items: lineItems,
-                    encrypted_data: decryptedData || '*** Provide encryption key to view ***',
+                    totals: LineItemService.totals(lineItems),
+                    encrypted_data: '*** Encrypted ***',
+                    encryption: await describeEncryption(quotation, req.user!),
                     signature: {
-                        isValid: isSignatureValid,
+                        isValid: !!report.check?.valid && report.matchesRecord,
+                        keyValidAtSigning: report.check?.keyValidAtSigning ?? null,
+                        signer: report.check?.signer ?? null,
+                        version: report.version,
                         publicKey: quotation.public_key.substring(0, 100) + '...',
-                        message: isSignatureValid
-                            ? '✓ Signature verified - quotation is authentic'
-                            : '✗ Signature invalid - quotation may have been tampered with'
+                        message: describeSignature(report.check, report.matchesRecord)
                     }
                 }
             });
@@ -275,27 +388,82 @@ export class QuotationController {
                 return;
             }
 
-            await Database.run(
-                `UPDATE quotations 
-         SET status = 'submitted', submitted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP 
-         WHERE id = ?`,
-                [id]
-            );
+            if (['submitted', 'under_review', 'approved'].includes(quotation.status)) {
+                res.status(400).json({ error: 'Quotation already submitted' });
+                return;
+            }
 
-            // Create approval records for approvers
-            const approvers = await Database.all<any>('SELECT id FROM users WHERE role = ? AND is_active = 1', [
-                'approver'
-            ]);
+            if (['awarded', 'not_awarded'].includes(quotation.status)) {
+                res.status(400).json({ error: 'Quotation has been closed by the RFQ award' });
+                return;
+            }
 
-            for (let i = 0; i < approvers.length && i < 2; i++) {
-                await Database.run(
-                    'INSERT INTO approvals (quotation_id, approver_id, level, status) VALUES (?, ?, ?, ?)',
-                    [id, approvers[i].id, i + 1, 'pending']
-                );
+            await RfqDeadlineService.assertOpen(Database, quotation.rfq_id);
+
+            // Only terms the vendor signed with their own key can be submitted
+            await QuotationSignatureService.assertVendorSigned(Database, quotation);
+
+            const auditSubmission = (tx: QueryRunner, details: Record<string, any>) =>
+                AuditService.log(tx, {
+                    userId: quotation.vendor_id,
+                    action: 'quotation.submitted',
+                    entityType: 'quotation',
+                    entityId: quotation.id,
+                    details,
+                    before: { status: quotation.status },
+                    after: { status: 'submitted' }
+                });
+
+            if (BidOpeningService.isSealed(quotation)) {
+                // Approval starts at the bid opening, once the amount can be read
+                await Database.transaction(async (tx) => {
+                    await tx.run(
+                        `UPDATE quotations 
+             SET status = 'submitted', submitted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP 
+             WHERE id = ?`,
+                        [id]
+                    );
+
+                    await auditSubmission(tx, { quoteNumber: quotation.quote_number, sealed: true });
+                });
+
+                res.json({ message: 'Sealed bid submitted; it will be opened after the RFQ deadline' });
+                return;
             }
 
-            res.json({ message: 'Quotation submitted for approval' });
+            const workflow = await Database.transaction(async (tx) => {
+                await tx.run(
+                    `UPDATE quotations 
+             SET status = 'submitted', submitted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP 
+             WHERE id = ?`,
+                    [id]
+                );
+
+                // Route through the first matching approval policy
+                const started = await ApprovalWorkflowService.startWorkflow(tx, Number(id));
+
+                await auditSubmission(tx, { quoteNumber: quotation.quote_number, approvalPolicy: started.policyName });
+
+                return started;
+            });
+
+            res.json({
+                message: 'Quotation submitted for approval',
+                approvalPolicy: workflow.policyName
+            });
         } catch (error) {
+            if (error instanceof RfqDeadlineError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof SigningKeyError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof ApprovalWorkflowError) {
+                res.status(422).json({ error: error.message });
+                return;
+            }
             console.error('Submit quotation error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
@@ -315,31 +483,121 @@ export class QuotationController {
                 return;
             }
 
-            const lineItems = Base64Util.decodeJSON(quotation.line_items);
-            const dataToVerify = JSON.stringify({
-                quoteNumber: quotation.quote_number,
-                rfqId: quotation.rfq_id,
-                totalAmount: quotation.total_amount,
-                lineItems
-            });
+            if (BidOpeningService.isSealed(quotation)) {
+                res.json({
+                    quoteNumber: quotation.quote_number,
+                    signatureValid: null,
+                    sealed: true,
+                    message: 'Sealed bid - the signature can only be checked once the bids are opened',
+                    publicKey: quotation.public_key.substring(0, 100) + '...'
+                });
+                return;
+            }
 
-            const isValid = SignatureUtil.verify(
-                dataToVerify,
-                quotation.digital_signature,
-                quotation.public_key
-            );
+            const report = await QuotationSignatureService.report(Database, quotation);
 
             res.json({
                 quoteNumber: quotation.quote_number,
-                signatureValid: isValid,
-                message: isValid
-                    ? 'Signature is valid - quotation data is authentic and has not been tampered with'
-                    : 'Signature is invalid - quotation data may have been modified',
-                publicKey: quotation.public_key.substring(0, 100) + '...'
+                signatureValid: !!report.check?.valid && report.matchesRecord,
+                keyValidAtSigning: report.check?.keyValidAtSigning ?? null,
+                signer: report.check?.signer ?? null,
+                key: report.check?.key ?? null,
+                signedAt: report.signedAt,
+                version: report.version,
+                message: describeSignature(report.check, report.matchesRecord),
+                publicKey: quotation.public_key.substring(0, 100) + '...',
+                // Every revision and approval decision, each checked against the key its signer held at the time
+                revisions: report.revisions.map((revision) => ({
+                    version: revision.version,
+                    signedAt: revision.signedAt,
+                    signatureValid: revision.check ? revision.check.valid : null,
+                    keyValidAtSigning: revision.check?.keyValidAtSigning ?? null,
+                    signer: revision.check?.signer ?? null,
+                    message: describeSignature(revision.check)
+                })),
+                approvals: report.approvals.map((approval) => ({
+                    id: approval.id,
+                    decision: approval.decision,
+                    level: approval.level,
+                    amendmentId: approval.amendmentId,
+                    signedAt: approval.signedAt,
+                    signatureValid: approval.check ? approval.check.valid : null,
+                    keyValidAtSigning: approval.check?.keyValidAtSigning ?? null,
+                    signer: approval.check?.signer ?? null,
+                    message: describeSignature(approval.check)
+                }))
             });
         } catch (error) {
             console.error('Verify signature error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
     }
+
+    /**
+     * Decrypt a quotation's sensitive data, for its vendor, admins and its reviewers
+     */
+    static async getSensitiveData(req: Request, res: Response): Promise<void> {
+        try {
+            const quotation = await Database.get<any>('SELECT * FROM quotations WHERE id = ?', [req.params.id]);
+
+            if (!quotation) {
+                res.status(404).json({ error: 'Quotation not found' });
+                return;
+            }
+
+            if (!(await QuotationSensitiveDataService.canRead(Database, quotation, req.user!))) {
+                res.status(403).json({ error: 'Access denied' });
+                return;
+            }
+
+            const data = await QuotationSensitiveDataService.read(quotation, req.user!.userId);
+
+            res.json({ sensitiveData: data, keyId: quotation.encryption_key_id });
+        } catch (error) {
+            if (error instanceof SensitiveDataError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Get sensitive data error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Convert a legacy XOR-encrypted quotation to envelope encryption with the key the vendor saved
+     */
+    static async migrateSensitiveData(req: Request, res: Response): Promise<void> {
+        try {
+            const { encryptionKey } = req.body;
+
+            if (!encryptionKey) {
+                res.status(400).json({ error: 'Encryption key required' });
+                return;
+            }
+
+            const quotation = await Database.get<any>('SELECT * FROM quotations WHERE id = ? AND vendor_id = ?', [
+                req.params.id,
+                req.user!.userId
+            ]);
+
+            if (!quotation) {
+                res.status(404).json({ error: 'Quotation not found' });
+                return;
+            }
+
+            const data = await QuotationSensitiveDataService.migrateLegacy(quotation, encryptionKey, req.user!.userId);
+
+            res.json({
+                message: 'Sensitive data converted to AES-256-GCM envelope encryption; the old key is no longer needed',
+                sensitiveData: data
+            });
+        } catch (error) {
+            if (error instanceof SensitiveDataError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Migrate sensitive data error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
 }
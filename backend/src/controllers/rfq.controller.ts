@@ -5,6 +5,14 @@
 import { Request, Response } from 'express';
 import { Database } from '../database/database';
 import { v4 as uuidv4 } from 'uuid';
+import { PurchaseOrderService } from '../services/purchase-order.service';
+import { RequirementLineService, RequirementLineError, RequirementLineInput } from '../services/requirement-line.service';
+import { BidTabulationService, BidTabulationError } from '../services/bid-tabulation.service';
+import { EmailService } from '../services/email.service';
+import { BidOpeningService, BidOpeningError } from '../services/bid-opening.service';
+import { ApprovalWorkflowError } from '../services/approval-workflow.service';
+import { RfqDeadlineService, RfqDeadlineError } from '../services/rfq-deadline.service';
+import { AuditService } from '../services/audit.service';
 
 export class RFQController {
     /**
@@ -17,30 +25,59 @@ export class RFQController {
                 return;
             }
 
-            const { title, description, requirements, deadline } = req.body;
+            const { title, description, requirements, deadline, category, department, sealedBids, openingApprovalsRequired } =
+                req.body;
 
             if (!title || !description || !deadline) {
                 res.status(400).json({ error: 'Title, description, and deadline required' });
                 return;
             }
 
+            const requirementLines = RequirementLineService.validate(req.body.requirementLines || []);
+
+            if (openingApprovalsRequired !== undefined && ![1, 2].includes(Number(openingApprovalsRequired))) {
+                res.status(400).json({ error: 'Opening approvals required must be 1 or 2' });
+                return;
+            }
+
             // Generate unique RFQ number
             const rfqNumber = `RFQ-${Date.now()}-${uuidv4().split('-')[0]}`;
 
-            // Insert RFQ
-            const result = await Database.run(
-                `INSERT INTO rfqs (rfq_number, title, description, requirements, created_by, deadline, status)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
-                [
-                    rfqNumber,
-                    title,
-                    description,
-                    JSON.stringify(requirements || []),
-                    req.user.userId,
-                    deadline,
-                    'draft'
-                ]
-            );
+            const userId = req.user.userId;
+            const result = await Database.transaction(async (tx) => {
+                // Insert RFQ
+                const inserted = await tx.run(
+                    `INSERT INTO rfqs (rfq_number, title, description, requirements, category, department, created_by, deadline, status,
+          sealed_bids, opening_approvals_required)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        rfqNumber,
+                        title,
+                        description,
+                        JSON.stringify(requirements || []),
+                        category || null,
+                        department || null,
+                        userId,
+                        deadline,
+                        'draft',
+                        sealedBids ? 1 : 0,
+                        Number(openingApprovalsRequired) || 1
+                    ]
+                );
+
+                const lines = await RequirementLineService.replace(tx, inserted.lastID, requirementLines);
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'rfq.created',
+                    entityType: 'rfq',
+                    entityId: inserted.lastID,
+                    details: { rfqNumber },
+                    after: { ...(await tx.get('SELECT * FROM rfqs WHERE id = ?', [inserted.lastID])), requirementLines: lines }
+                });
+
+                return { ...inserted, lines };
+            });
 
             res.status(201).json({
                 message: 'RFQ created successfully',
@@ -50,11 +87,20 @@ export class RFQController {
                     title,
                     description,
                     requirements,
+                    requirementLines: result.lines,
+                    category: category || null,
+                    department: department || null,
                     deadline,
-                    status: 'draft'
+                    status: 'draft',
+                    sealedBids: !!sealedBids,
+                    openingApprovalsRequired: Number(openingApprovalsRequired) || 1
                 }
             });
         } catch (error) {
+            if (error instanceof RequirementLineError) {
+                res.status(400).json({ error: error.message, problems: error.problems });
+                return;
+            }
             console.error('Create RFQ error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
@@ -138,7 +184,9 @@ export class RFQController {
                 rfq: {
                     ...rfq,
                     requirements: JSON.parse(rfq.requirements || '[]'),
-                    quotations
+                    requirementLines: await RequirementLineService.list(Database, rfq.id),
+                    quotations: quotations.map((quotation: any) => BidOpeningService.maskQuotation(quotation)),
+                    deadlineExtensions: await RfqDeadlineService.getExtensions(Database, rfq.id)
                 }
             });
         } catch (error) {
@@ -158,29 +206,122 @@ export class RFQController {
             }
 
             const { id } = req.params;
-            const { title, description, requirements, deadline, status } = req.body;
-
-            const rfq = await Database.get('SELECT * FROM rfqs WHERE id = ?', [id]);
+            const {
+                title,
+                description,
+                requirements,
+                deadline,
+                status,
+                category,
+                department,
+                sealedBids,
+                openingApprovalsRequired
+            } = req.body;
+
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
 
             if (!rfq) {
                 res.status(404).json({ error: 'RFQ not found' });
                 return;
             }
 
-            await Database.run(
-                `UPDATE rfqs SET 
+            if (openingApprovalsRequired !== undefined && ![1, 2].includes(Number(openingApprovalsRequired))) {
+                res.status(400).json({ error: 'Opening approvals required must be 1 or 2' });
+                return;
+            }
+
+            // Bids already placed were sealed (or not) under the original setting
+            if (sealedBids !== undefined && !!sealedBids !== !!rfq.sealed_bids) {
+                const quotationCount = await Database.get<any>('SELECT COUNT(*) as count FROM quotations WHERE rfq_id = ?', [id]);
+                if (quotationCount.count > 0) {
+                    res.status(400).json({ error: 'Sealed-bid mode cannot be changed once quotations exist' });
+                    return;
+                }
+            }
+
+            // Once vendors can see the RFQ, its deadline only moves through a recorded extension
+            if (deadline && deadline !== rfq.deadline && rfq.status !== 'draft') {
+                res.status(400).json({ error: 'Use the deadline extension to change the deadline of a published RFQ' });
+                return;
+            }
+
+            if (rfq.status === 'closed' && status === 'published') {
+                res.status(400).json({ error: 'A closed RFQ is reopened by extending its deadline' });
+                return;
+            }
+
+            // Validated before anything is written; quotations answer lines by number, so they are fixed once bids exist
+            let requirementLines: RequirementLineInput[] | null = null;
+            if (req.body.requirementLines !== undefined) {
+                requirementLines = RequirementLineService.validate(req.body.requirementLines);
+            }
+
+            const approvalsChanged =
+                openingApprovalsRequired !== undefined && Number(openingApprovalsRequired) !== rfq.opening_approvals_required;
+            if (rfq.bids_opened_at && approvalsChanged) {
+                res.status(400).json({ error: 'Bids have already been opened' });
+                return;
+            }
+
+            // Awarding issues a purchase order, so it only happens through the award endpoint
+            if (status === 'awarded' || (rfq.status === 'awarded' && status)) {
+                res.status(400).json({ error: 'Award status can only be changed through the award endpoint' });
+                return;
+            }
+
+            const userId = req.user.userId;
+            await Database.transaction(async (tx) => {
+                await tx.run(
+                    `UPDATE rfqs SET 
           title = COALESCE(?, title),
           description = COALESCE(?, description),
           requirements = COALESCE(?, requirements),
+          category = COALESCE(?, category),
+          department = COALESCE(?, department),
           deadline = COALESCE(?, deadline),
           status = COALESCE(?, status),
+          sealed_bids = COALESCE(?, sealed_bids),
+          opening_approvals_required = COALESCE(?, opening_approvals_required),
           updated_at = CURRENT_TIMESTAMP
          WHERE id = ?`,
-                [title, description, requirements ? JSON.stringify(requirements) : null, deadline, status, id]
-            );
+                    [
+                        title,
+                        description,
+                        requirements ? JSON.stringify(requirements) : null,
+                        category,
+                        department,
+                        deadline,
+                        status,
+                        sealedBids === undefined ? null : sealedBids ? 1 : 0,
+                        openingApprovalsRequired === undefined ? null : Number(openingApprovalsRequired),
+                        id
+                    ]
+                );
+
+                const before = requirementLines
+                    ? { ...rfq, requirementLines: await RequirementLineService.list(tx, rfq.id) }
+                    : rfq;
+                const after: any = await tx.get('SELECT * FROM rfqs WHERE id = ?', [rfq.id]);
+                if (requirementLines) {
+                    after.requirementLines = await RequirementLineService.replace(tx, rfq.id, requirementLines);
+                }
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'rfq.updated',
+                    entityType: 'rfq',
+                    entityId: rfq.id,
+                    before,
+                    after
+                });
+            });
 
             res.json({ message: 'RFQ updated successfully' });
         } catch (error) {
+            if (error instanceof RequirementLineError) {
+                res.status(400).json({ error: error.message, problems: error.problems });
+                return;
+            }
             console.error('Update RFQ error:', error);
             res.status(500).json({ error: 'Internal server error' });
         }
@@ -198,33 +339,55 @@ export class RFQController {
 
             const { id } = req.params;
 
-            const rfq = await Database.get('SELECT * FROM rfqs WHERE id = ?', [id]);
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
 
             if (!rfq) {
                 res.status(404).json({ error: 'RFQ not found' });
                 return;
             }
 
-            // Get all quotations for this RFQ
-            const quotations = await Database.all<any>('SELECT id FROM quotations WHERE rfq_id = ?', [id]);
+            const userId = req.user.userId;
 
-            // Delete related records in correct order
-            for (const quotation of quotations) {
-                // Delete approvals for each quotation
-                await Database.run('DELETE FROM approvals WHERE quotation_id = ?', [quotation.id]);
+            // Delete related records in correct order, all or nothing
+            await Database.transaction(async (tx) => {
+                const quotations = await tx.all<any>('SELECT id FROM quotations WHERE rfq_id = ?', [id]);
 
-                // Delete quotation comments
-                await Database.run('DELETE FROM quotation_comments WHERE quotation_id = ?', [quotation.id]);
+                for (const quotation of quotations) {
+                    // Delete approvals for each quotation
+                    await tx.run('DELETE FROM approvals WHERE quotation_id = ?', [quotation.id]);
 
-                // Delete quotation revisions
-                await Database.run('DELETE FROM quotation_revisions WHERE quotation_id = ?', [quotation.id]);
-            }
+                    // Delete quotation comments
+                    await tx.run('DELETE FROM quotation_comments WHERE quotation_id = ?', [quotation.id]);
+
+                    // Delete quotation revisions
+                    await tx.run('DELETE FROM quotation_revisions WHERE quotation_id = ?', [quotation.id]);
+
+                    // Delete evaluation scores
+                    await tx.run('DELETE FROM evaluation_scores WHERE quotation_id = ?', [quotation.id]);
+                }
+
+                // Delete the evaluation template
+                await tx.run('DELETE FROM evaluation_criteria WHERE rfq_id = ?', [id]);
+
+                // Delete line awards and requirement lines
+                await tx.run('DELETE FROM rfq_line_awards WHERE rfq_id = ?', [id]);
+                await tx.run('DELETE FROM rfq_requirement_lines WHERE rfq_id = ?', [id]);
 
-            // Delete all quotations for this RFQ
-            await Database.run('DELETE FROM quotations WHERE rfq_id = ?', [id]);
+                // Delete all quotations for this RFQ
+                await tx.run('DELETE FROM quotations WHERE rfq_id = ?', [id]);
 
-            // Finally delete the RFQ
-            await Database.run('DELETE FROM rfqs WHERE id = ?', [id]);
+                // Finally delete the RFQ
+                await tx.run('DELETE FROM rfqs WHERE id = ?', [id]);
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'rfq.deleted',
+                    entityType: 'rfq',
+                    entityId: rfq.id,
+                    details: { rfqNumber: rfq.rfq_number, quotationsDeleted: quotations.length },
+                    before: rfq
+                });
+            });
 
             res.json({ message: 'RFQ and all related data deleted successfully' });
         } catch (error) {
@@ -245,17 +408,29 @@ export class RFQController {
 
             const { id } = req.params;
 
-            const rfq = await Database.get('SELECT * FROM rfqs WHERE id = ?', [id]);
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
 
             if (!rfq) {
                 res.status(404).json({ error: 'RFQ not found' });
                 return;
             }
 
-            await Database.run(
-                `UPDATE rfqs SET status = 'published', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-                [id]
-            );
+            const userId = req.user.userId;
+            await Database.transaction(async (tx) => {
+                await tx.run(
+                    `UPDATE rfqs SET status = 'published', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                    [id]
+                );
+
+                await AuditService.log(tx, {
+                    userId,
+                    action: 'rfq.published',
+                    entityType: 'rfq',
+                    entityId: rfq.id,
+                    before: { status: rfq.status },
+                    after: { status: 'published' }
+                });
+            });
 
             res.json({ message: 'RFQ published successfully' });
         } catch (error) {
@@ -263,4 +438,363 @@ export class RFQController {
             res.status(500).json({ error: 'Internal server error' });
         }
     }
+
+    /**
+     * Award RFQ to an approved quotation and issue its purchase order.
+     * Without a quotationId the lowest-priced approved quotation quoting every mandatory line wins.
+     * With lines ([{ lineNumber, quotationId }]) the requirement lines are split across vendors, with one purchase
+     * order per winning quotation.
+     */
+    static async award(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can award RFQs' });
+                return;
+            }
+
+            const { id } = req.params;
+            const { quotationId, notes, lines } = req.body;
+
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            if (rfq.status === 'awarded') {
+                res.status(400).json({ error: 'RFQ already awarded' });
+                return;
+            }
+
+            if (!['published', 'closed'].includes(rfq.status)) {
+                res.status(400).json({ error: 'Only published or closed RFQs can be awarded' });
+                return;
+            }
+
+            // Awarded requirement lines per winning quotation; null awards every line the quotation quoted
+            let winners: Map<number, number[] | null>;
+
+            if (lines !== undefined) {
+                winners = await BidTabulationService.planSplitAward(Database, rfq, lines);
+            } else {
+                const requirementLines = await RequirementLineService.list(Database, rfq.id);
+                const candidates = quotationId
+                    ? await Database.all<any>('SELECT * FROM quotations WHERE id = ? AND rfq_id = ?', [quotationId, id])
+                    : await Database.all<any>(
+                        `SELECT * FROM quotations WHERE rfq_id = ? AND status = 'approved'
+                         ORDER BY total_amount ASC, submitted_at ASC`,
+                        [id]
+                    );
+
+                // A quotation declining a mandatory line can only win it through a split award
+                const winner = quotationId
+                    ? candidates[0]
+                    : candidates.find(
+                        (candidate) =>
+                            BidTabulationService.missingMandatory(
+                                requirementLines,
+                                PurchaseOrderService.parseLineItems(candidate.line_items)
+                            ).length === 0
+                    );
+
+                if (!winner) {
+                    res.status(404).json({
+                        error: quotationId ? 'Quotation not found for this RFQ' : 'No approved quotation to award'
+                    });
+                    return;
+                }
+
+                if (winner.status !== 'approved') {
+                    res.status(400).json({ error: 'Only approved quotations can be awarded' });
+                    return;
+                }
+
+                const missing = BidTabulationService.missingMandatory(
+                    requirementLines,
+                    PurchaseOrderService.parseLineItems(winner.line_items)
+                );
+                if (missing.length > 0) {
+                    res.status(400).json({
+                        error: `Quotation does not quote mandatory requirement line(s) ${missing.join(', ')}; split the award instead`
+                    });
+                    return;
+                }
+
+                winners = new Map([[winner.id, null]]);
+            }
+
+            const winnerIds = [...winners.keys()];
+            const placeholders = winnerIds.map(() => '?').join(', ');
+
+            const purchaseOrders = await Database.transaction(async (tx) => {
+                // Guard against a concurrent award between the checks above and this transaction
+                const current = await tx.get<any>('SELECT status FROM rfqs WHERE id = ?', [id]);
+                if (current.status === 'awarded') {
+                    return null;
+                }
+
+                await tx.run(
+                    `UPDATE quotations SET status = 'awarded', updated_at = CURRENT_TIMESTAMP WHERE id IN (${placeholders})`,
+                    winnerIds
+                );
+
+                // Losing quotations are final; any approval still in flight is no longer needed
+                const losers = await tx.all<any>(
+                    `SELECT id FROM quotations WHERE rfq_id = ? AND id NOT IN (${placeholders}) AND status != 'draft'`,
+                    [id, ...winnerIds]
+                );
+                for (const loser of losers) {
+                    await tx.run(
+                        `UPDATE approvals SET status = 'skipped'
+                         WHERE quotation_id = ? AND status IN ('waiting', 'pending')`,
+                        [loser.id]
+                    );
+                    await tx.run(
+                        `UPDATE quotation_approval_steps SET status = 'skipped', completed_at = CURRENT_TIMESTAMP
+                         WHERE quotation_id = ? AND status IN ('waiting', 'active')`,
+                        [loser.id]
+                    );
+                }
+                await tx.run(
+                    `UPDATE quotations SET status = 'not_awarded', updated_at = CURRENT_TIMESTAMP
+                     WHERE rfq_id = ? AND id NOT IN (${placeholders}) AND status != 'draft'`,
+                    [id, ...winnerIds]
+                );
+
+                await tx.run(`UPDATE rfqs SET status = 'awarded', updated_at = CURRENT_TIMESTAMP WHERE id = ?`, [id]);
+
+                await AuditService.log(tx, {
+                    userId: req.user!.userId,
+                    action: 'rfq.awarded',
+                    entityType: 'rfq',
+                    entityId: rfq.id,
+                    details: {
+                        quotationIds: winnerIds,
+                        split: lines !== undefined ? Object.fromEntries(winners) : null,
+                        notAwarded: losers.map((loser) => loser.id)
+                    },
+                    before: { status: rfq.status },
+                    after: { status: 'awarded' }
+                });
+
+                const issued = [];
+                for (const [winnerId, lineNumbers] of winners) {
+                    const po = await PurchaseOrderService.issue(tx, winnerId, req.user!.userId, notes || null, lineNumbers);
+                    await BidTabulationService.recordAwards(tx, rfq.id, winnerId, po.id, lineNumbers, req.user!.userId);
+                    issued.push({ ...po, quotationId: winnerId, requirementLines: lineNumbers });
+                }
+                return issued;
+            });
+
+            if (!purchaseOrders) {
+                res.status(400).json({ error: 'RFQ already awarded' });
+                return;
+            }
+
+            // Notify every vendor that submitted; mail failures do not undo the award
+            const vendors = await Database.all<any>(
+                `SELECT q.id, q.quote_number, q.status, u.email, u.full_name
+                 FROM quotations q JOIN users u ON q.vendor_id = u.id
+                 WHERE q.rfq_id = ? AND q.status IN ('awarded', 'not_awarded')`,
+                [id]
+            );
+            for (const vendor of vendors) {
+                const purchaseOrder = purchaseOrders.find((po) => po.quotationId === vendor.id);
+                try {
+                    await EmailService.sendAwardNotificationEmail(vendor.email, vendor.full_name, {
+                        rfqTitle: rfq.title,
+                        quoteNumber: vendor.quote_number,
+                        awarded: vendor.status === 'awarded',
+                        poNumber: purchaseOrder?.poNumber,
+                        poId: purchaseOrder?.id
+                    });
+                } catch (error) {
+                    console.error(`Failed to send award notification for quotation ${vendor.id}:`, error);
+                }
+            }
+
+            const quotations = await Database.all<any>(
+                `SELECT id, vendor_id FROM quotations WHERE id IN (${placeholders})`,
+                winnerIds
+            );
+
+            res.json({
+                message: purchaseOrders.length > 1 ? `RFQ awarded to ${purchaseOrders.length} vendors` : 'RFQ awarded successfully',
+                award: {
+                    rfqId: Number(id),
+                    quotationId: purchaseOrders[0].quotationId,
+                    vendorId: quotations.find((quotation) => quotation.id === purchaseOrders[0].quotationId)?.vendor_id,
+                    totalAmount: purchaseOrders.reduce((sum, po) => sum + po.totalAmount, 0)
+                },
+                purchaseOrder: purchaseOrders[0],
+                purchaseOrders: purchaseOrders.map((po) => ({
+                    ...po,
+                    vendorId: quotations.find((quotation) => quotation.id === po.quotationId)?.vendor_id
+                }))
+            });
+        } catch (error) {
+            if (error instanceof BidTabulationError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Award RFQ error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Bid tabulation: every vendor's answer to each requirement line, the cheapest per line, and any line awards
+     */
+    static async getTabulation(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            res.json({ tabulation: await BidTabulationService.tabulate(Database, rfq) });
+        } catch (error) {
+            if (error instanceof BidTabulationError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Get bid tabulation error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Extend the deadline of a published or closed RFQ and notify vendors
+     */
+    static async extendDeadline(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can extend RFQ deadlines' });
+                return;
+            }
+
+            const { id } = req.params;
+            const { deadline, reason } = req.body;
+
+            if (!deadline || !reason || !String(reason).trim()) {
+                res.status(400).json({ error: 'New deadline and reason required' });
+                return;
+            }
+
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            const extension = await Database.transaction((tx) =>
+                RfqDeadlineService.extend(tx, rfq, deadline, String(reason).trim(), req.user!.userId)
+            );
+
+            // Published RFQs are open to every vendor; mail failures do not undo the extension
+            const vendors = await Database.all<any>(
+                `SELECT email, full_name FROM users WHERE role = 'vendor' AND is_active = 1`
+            );
+            for (const vendor of vendors) {
+                try {
+                    await EmailService.sendDeadlineExtensionEmail(vendor.email, vendor.full_name, {
+                        rfqId: rfq.id,
+                        rfqTitle: rfq.title,
+                        previousDeadline: extension.previousDeadline,
+                        newDeadline: extension.newDeadline,
+                        reason: extension.reason
+                    });
+                } catch (error) {
+                    console.error(`Failed to send deadline extension notice to ${vendor.email}:`, error);
+                }
+            }
+
+            res.json({
+                message: extension.reopened ? 'Deadline extended and RFQ reopened' : 'Deadline extended',
+                extension,
+                notifiedVendors: vendors.length
+            });
+        } catch (error) {
+            if (error instanceof RfqDeadlineError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Extend RFQ deadline error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Get the bid opening status of a sealed-bid RFQ, with the signed report once opened
+     */
+    static async getOpening(req: Request, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            if (!rfq.sealed_bids) {
+                res.status(400).json({ error: 'This RFQ does not use sealed bids' });
+                return;
+            }
+
+            res.json({ opening: await BidOpeningService.getStatus(Database, rfq) });
+        } catch (error) {
+            console.error('Get bid opening error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Release the opening key of a sealed-bid RFQ; the final required release opens all bids
+     */
+    static async releaseOpening(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can open sealed bids' });
+                return;
+            }
+
+            const { id } = req.params;
+
+            const rfq = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
+
+            if (!rfq) {
+                res.status(404).json({ error: 'RFQ not found' });
+                return;
+            }
+
+            const result = await Database.transaction((tx) => BidOpeningService.release(tx, rfq, req.user!.userId));
+            const opened = await Database.get<any>('SELECT * FROM rfqs WHERE id = ?', [id]);
+
+            res.json({
+                message: result.opened
+                    ? 'Bids opened'
+                    : `Opening key released (${result.releases} of ${rfq.opening_approvals_required}); another admin must release it`,
+                opening: await BidOpeningService.getStatus(Database, opened)
+            });
+        } catch (error) {
+            if (error instanceof BidOpeningError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            if (error instanceof ApprovalWorkflowError) {
+                res.status(422).json({ error: error.message });
+                return;
+            }
+            console.error('Release bid opening error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
 }
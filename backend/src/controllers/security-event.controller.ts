@@ -0,0 +1,123 @@
+/**
+ * Security Event Controller
+ * Admin security dashboard: filterable event log, counts over time and on-demand detector runs
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { SecurityMonitorService } from '../services/security-monitor.service';
+import { parseQueryDate } from '../utils/query.util';
+
+export class SecurityEventController {
+    /**
+     * Get security events, newest first
+     */
+    static async getAll(req: Request, res: Response): Promise<void> {
+        try {
+            const { event_type, severity, user_id, ip_address, detector, from, to, page = 1, limit = 25 } = req.query;
+            const offset = (Number(page) - 1) * Number(limit);
+
+            let where = ' WHERE 1=1';
+            const params: any[] = [];
+
+            if (event_type) {
+                where += ' AND e.event_type = ?';
+                params.push(event_type);
+            }
+
+            if (severity) {
+                where += ' AND e.severity = ?';
+                params.push(severity);
+            }
+
+            if (user_id) {
+                where += ' AND e.user_id = ?';
+                params.push(user_id);
+            }
+
+            if (ip_address) {
+                where += ' AND e.ip_address = ?';
+                params.push(ip_address);
+            }
+
+            if (detector) {
+                where += ' AND e.detector = ?';
+                params.push(detector);
+            }
+
+            const fromTimestamp = parseQueryDate(from);
+            if (fromTimestamp) {
+                where += ' AND e.created_at >= ?';
+                params.push(fromTimestamp);
+            }
+
+            const toTimestamp = parseQueryDate(to);
+            if (toTimestamp) {
+                where += ' AND e.created_at < ?';
+                params.push(toTimestamp);
+            }
+
+            const events = await Database.all(
+                `SELECT e.*, u.full_name as user_name, u.email as user_email
+                 FROM security_events e
+                 LEFT JOIN users u ON e.user_id = u.id` +
+                    where +
+                    ' ORDER BY e.created_at DESC, e.id DESC LIMIT ? OFFSET ?',
+                [...params, Number(limit), offset]
+            );
+
+            const countResult = await Database.get<any>('SELECT COUNT(*) as total FROM security_events e' + where, params);
+
+            res.json({
+                events,
+                pagination: {
+                    page: Number(page),
+                    limit: Number(limit),
+                    total: countResult?.total || 0
+                }
+            });
+        } catch (error) {
+            console.error('Get security events error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Event counts by hour or day, type and severity (defaults: hourly for 24 hours, daily for 30 days)
+     */
+    static async getStats(req: Request, res: Response): Promise<void> {
+        try {
+            if (req.query.bucket && !['hour', 'day'].includes(String(req.query.bucket))) {
+                res.status(400).json({ error: 'Bucket must be hour or day' });
+                return;
+            }
+
+            const bucket = req.query.bucket === 'day' ? 'day' : 'hour';
+
+            const defaultSpanMs = bucket === 'day' ? 30 * 24 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+            const to = parseQueryDate(req.query.to) || parseQueryDate(new Date(Date.now() + 1000).toISOString())!; // Include the current second
+            const from = parseQueryDate(req.query.from) || parseQueryDate(new Date(Date.now() - defaultSpanMs).toISOString())!;
+
+            const counts = await SecurityMonitorService.getCounts(Database, bucket, from, to);
+
+            res.json({ bucket, from, to, ...counts });
+        } catch (error) {
+            console.error('Get security event stats error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Run the anomaly detectors now instead of waiting for the scheduler
+     */
+    static async runDetectors(_req: Request, res: Response): Promise<void> {
+        try {
+            const alerts = await SecurityMonitorService.runDetectors();
+
+            res.json({ message: `${alerts.length} new alert(s) raised`, alerts });
+        } catch (error) {
+            console.error('Run security detectors error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
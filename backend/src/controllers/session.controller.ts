@@ -0,0 +1,132 @@
+/**
+ * Session Controller
+ * Signed-in devices of the current user, and session revocation for admins
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { SessionService, SessionError } from '../services/session.service';
+import { requestContext } from '../utils/request-context.util';
+
+export class SessionController {
+    /**
+     * List active sessions of the current user
+     */
+    static async getMine(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const sessions = await SessionService.listForUser(Database, req.user.userId, req.user.sessionId);
+
+            res.json({ sessions });
+        } catch (error) {
+            console.error('Get sessions error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Sign out one session of the current user
+     */
+    static async revoke(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const { id } = req.params;
+
+            await SessionService.revoke(Database, req.user.userId, parseInt(id), 'signed_out_by_user', requestContext(req));
+
+            res.json({ message: 'Session signed out' });
+        } catch (error) {
+            if (error instanceof SessionError) {
+                res.status(404).json({ error: error.message });
+                return;
+            }
+            console.error('Revoke session error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Sign out every session of the current user except this one
+     */
+    static async revokeOthers(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+
+            const revoked = await Database.transaction((tx) =>
+                SessionService.revokeAll(
+                    tx,
+                    req.user!.userId,
+                    req.user!.userId,
+                    'signed_out_by_user',
+                    requestContext(req),
+                    req.user!.sessionId
+                )
+            );
+
+            res.json({ message: `${revoked} other session(s) signed out`, revoked });
+        } catch (error) {
+            console.error('Revoke other sessions error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * List active sessions of all users (admin only)
+     */
+    static async getAll(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can view all sessions' });
+                return;
+            }
+
+            const sessions = await SessionService.listAll(Database);
+
+            res.json({ sessions });
+        } catch (error) {
+            console.error('Get all sessions error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Sign out every session of a user (admin only)
+     */
+    static async revokeUser(req: Request, res: Response): Promise<void> {
+        try {
+            if (!req.user || req.user.role !== 'admin') {
+                res.status(403).json({ error: 'Only admins can sign out other users' });
+                return;
+            }
+
+            const { userId } = req.params;
+
+            const user = await Database.get<any>('SELECT id FROM users WHERE id = ?', [userId]);
+
+            if (!user) {
+                res.status(404).json({ error: 'User not found' });
+                return;
+            }
+
+            const revoked = await Database.transaction((tx) =>
+                SessionService.revokeAll(tx, user.id, req.user!.userId, 'revoked_by_admin', requestContext(req))
+            );
+
+            res.json({ message: `${revoked} session(s) signed out`, revoked });
+        } catch (error) {
+            console.error('Revoke user sessions error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
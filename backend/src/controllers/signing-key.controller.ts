@@ -0,0 +1,118 @@
+/**
+ * Signing Key Controller
+ * The current user's signing key and key history, and key revocation for admins
+ */
+
+import { Request, Response } from 'express';
+import { Database } from '../database/database';
+import { SigningKeyService, SigningKeyError } from '../services/signing-key.service';
+
+export class SigningKeyController {
+    /**
+     * Active key and key history of the current user
+     */
+    static async getMine(req: Request, res: Response): Promise<void> {
+        try {
+            const keys = await SigningKeyService.list(Database, req.user!.userId);
+
+            res.json({ activeKey: keys.find((key) => key.status === 'active') || null, keys });
+        } catch (error) {
+            console.error('Get signing keys error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Key history of any user
+     */
+    static async getForUser(req: Request, res: Response): Promise<void> {
+        try {
+            const keys = await SigningKeyService.list(Database, parseInt(req.params.userId));
+
+            res.json({ activeKey: keys.find((key) => key.status === 'active') || null, keys });
+        } catch (error) {
+            console.error('Get user signing keys error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Register a public key the user signs with on their own device; replaces the active key
+     */
+    static async register(req: Request, res: Response): Promise<void> {
+        try {
+            const { publicKey } = req.body;
+
+            if (!publicKey) {
+                res.status(400).json({ error: 'Public key required' });
+                return;
+            }
+
+            const key = await SigningKeyService.register(req.user!.userId, String(publicKey));
+
+            res.status(201).json({ message: 'Signing key registered', key });
+        } catch (error) {
+            if (error instanceof SigningKeyError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Register signing key error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Generate a key held by the platform under the user's passphrase; replaces the active key
+     */
+    static async generate(req: Request, res: Response): Promise<void> {
+        try {
+            const { passphrase } = req.body;
+
+            // Quotations only accept signatures made on the vendor's own device
+            if (req.user!.role === 'vendor') {
+                res.status(400).json({ error: 'Vendors sign in their own browser or device; register a key instead' });
+                return;
+            }
+
+            const key = await SigningKeyService.generate(req.user!.userId, String(passphrase || ''));
+
+            res.status(201).json({
+                message: 'Signing key generated. Your passphrase is needed to sign and cannot be recovered.',
+                key
+            });
+        } catch (error) {
+            if (error instanceof SigningKeyError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Generate signing key error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+
+    /**
+     * Revoke a key. Users may revoke their own keys, admins any key.
+     */
+    static async revoke(req: Request, res: Response): Promise<void> {
+        try {
+            const { reason } = req.body;
+
+            if (!reason) {
+                res.status(400).json({ error: 'Revocation reason required' });
+                return;
+            }
+
+            const ownerId = req.user!.role === 'admin' ? null : req.user!.userId;
+            await SigningKeyService.revoke(parseInt(req.params.id), ownerId, String(reason), req.user!.userId);
+
+            res.json({ message: 'Signing key revoked' });
+        } catch (error) {
+            if (error instanceof SigningKeyError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            console.error('Revoke signing key error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+}
@@ -5,11 +5,105 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { FieldEncryptionUtil } from '../utils/security/field-encryption.util';
 
-const DB_PATH = process.env.DATABASE_PATH || './data/procurement.db';
+export const DB_PATH = process.env.DATABASE_PATH || './data/procurement.db';
+
+/**
+ * Minimal query interface shared by the Database class, transactions and migrations
+ */
+export interface QueryRunner {
+  run(sql: string, params?: any[]): Promise<any>;
+  get<T = any>(sql: string, params?: any[]): Promise<T | undefined>;
+  all<T = any>(sql: string, params?: any[]): Promise<T[]>;
+}
+
+// Transaction bound to the current async call chain, if any
+const transactionContext = new AsyncLocalStorage<Transaction>();
+
+function runQuery(sql: string, params: any[]): Promise<any> {
+  return new Promise((resolve, reject) => {
+    Database.getInstance().run(sql, params, function (err) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  });
+}
+
+// Rows come back with encrypted personal data decrypted, under its own column name or a known alias
+function getQuery<T>(sql: string, params: any[]): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    Database.getInstance().get(sql, params, (err, row) => {
+      if (err) reject(err);
+      else
+        FieldEncryptionUtil.decryptRow(row as Record<string, unknown> | undefined).then(
+          (decrypted) => resolve(decrypted as T | undefined),
+          reject
+        );
+    });
+  });
+}
+
+function allQuery<T>(sql: string, params: any[]): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    Database.getInstance().all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else
+        Promise.all((rows as Record<string, unknown>[]).map((row) => FieldEncryptionUtil.decryptRow(row))).then(
+          (decrypted) => resolve(decrypted as T[]),
+          reject
+        );
+    });
+  });
+}
+
+/**
+ * Unit of work bound to the open transaction.
+ * Nested calls to transaction() create savepoints that roll back independently.
+ */
+export class Transaction implements QueryRunner {
+  private static savepointCounter = 0;
+
+  constructor(readonly depth: number = 0) {}
+
+  run(sql: string, params: any[] = []): Promise<any> {
+    return runQuery(sql, params);
+  }
+
+  get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
+    return getQuery<T>(sql, params);
+  }
+
+  all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    return allQuery<T>(sql, params);
+  }
+
+  /**
+   * Run work inside a savepoint; a throw rolls back only the savepoint
+   */
+  async transaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    const savepoint = `sp_${++Transaction.savepointCounter}`;
+    const nested = new Transaction(this.depth + 1);
+
+    await runQuery(`SAVEPOINT ${savepoint}`, []);
+
+    try {
+      const result = await transactionContext.run(nested, () => work(nested));
+      await runQuery(`RELEASE ${savepoint}`, []);
+      return result;
+    } catch (error) {
+      await runQuery(`ROLLBACK TO ${savepoint}`, []);
+      await runQuery(`RELEASE ${savepoint}`, []);
+      throw error;
+    }
+  }
+}
 
 export class Database {
   private static instance: sqlite3.Database | null = null;
+  private static transactionQueue: Promise<void> = Promise.resolve();
+  private static activeTransaction: Promise<void> | null = null;
 
   /**
    * Get database instance
@@ -40,37 +134,77 @@ export class Database {
   /**
    * Run a query
    */
-  static run(sql: string, params: any[] = []): Promise<any> {
-    return new Promise((resolve, reject) => {
-      this.getInstance().run(sql, params, function (err) {
-        if (err) reject(err);
-        else resolve({ lastID: this.lastID, changes: this.changes });
-      });
-    });
+  static async run(sql: string, params: any[] = []): Promise<any> {
+    await this.waitOutsideTransaction();
+    return runQuery(sql, params);
   }
 
   /**
    * Get single row
    */
-  static get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
-    return new Promise((resolve, reject) => {
-      this.getInstance().get(sql, params, (err, row) => {
-        if (err) reject(err);
-        else resolve(row as T);
-      });
-    });
+  static async get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
+    await this.waitOutsideTransaction();
+    return getQuery<T>(sql, params);
   }
 
   /**
    * Get all rows
    */
-  static all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-      this.getInstance().all(sql, params, (err, rows) => {
-        if (err) reject(err);
-        else resolve(rows as T[]);
-      });
-    });
+  static async all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    await this.waitOutsideTransaction();
+    return allQuery<T>(sql, params);
+  }
+
+  /**
+   * Run work atomically. Commits when the callback resolves and rolls back when it throws.
+   * Called inside another transaction, it opens a savepoint instead.
+   *
+   * All requests share one SQLite handle, so top-level transactions are serialized and
+   * queries from outside the transaction wait until it finishes. Queries made through
+   * Database.run/get/all from within the callback join the transaction automatically.
+   */
+  static async transaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    const current = transactionContext.getStore();
+    if (current) {
+      return current.transaction(work);
+    }
+
+    const previous = this.transactionQueue;
+    let release!: () => void;
+    const finished = new Promise<void>((resolve) => (release = resolve));
+    this.transactionQueue = previous.then(() => finished);
+
+    await previous;
+    this.activeTransaction = finished;
+
+    const tx = new Transaction();
+
+    try {
+      await runQuery('BEGIN IMMEDIATE', []);
+
+      try {
+        const result = await transactionContext.run(tx, () => work(tx));
+        await runQuery('COMMIT', []);
+        return result;
+      } catch (error) {
+        await runQuery('ROLLBACK', []);
+        throw error;
+      }
+    } finally {
+      this.activeTransaction = null;
+      release();
+    }
+  }
+
+  /**
+   * Queries outside a transaction must not interleave with an open one on the shared handle
+   */
+  private static async waitOutsideTransaction(): Promise<void> {
+    if (transactionContext.getStore()) return;
+
+    while (this.activeTransaction) {
+      await this.activeTransaction;
+    }
   }
 
   /**
@@ -91,231 +225,4 @@ export class Database {
       }
     });
   }
-
-  /**
-   * Initialize database schema
-   */
-  static async initialize(): Promise<void> {
-    console.log('Initializing database schema...');
-
-    // Users table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        email TEXT UNIQUE NOT NULL,
-        password_hash TEXT NOT NULL,
-        full_name TEXT NOT NULL,
-        role TEXT CHECK(role IN ('admin', 'vendor', 'approver')) NOT NULL,
-        company_name TEXT,
-        phone TEXT,
-        password_changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        password_expires_at DATETIME,
-        failed_login_attempts INTEGER DEFAULT 0,
-        locked_until DATETIME,
-        mfa_enabled BOOLEAN DEFAULT 0,
-        mfa_secret TEXT,
-        backup_codes TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        is_active BOOLEAN DEFAULT 1
-      )
-    `);
-
-    // RFQs table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS rfqs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        rfq_number TEXT UNIQUE NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT NOT NULL,
-        requirements TEXT,
-        created_by INTEGER NOT NULL,
-        status TEXT CHECK(status IN ('draft', 'published', 'closed', 'awarded')) DEFAULT 'draft',
-        deadline DATETIME NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (created_by) REFERENCES users(id)
-      )
-    `);
-
-    // Quotations table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS quotations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        rfq_id INTEGER NOT NULL,
-        vendor_id INTEGER NOT NULL,
-        quote_number TEXT UNIQUE NOT NULL,
-        total_amount REAL NOT NULL,
-        currency TEXT DEFAULT 'USD',
-        line_items TEXT NOT NULL,
-        terms_conditions TEXT,
-        encrypted_data TEXT,
-        encryption_key_hash TEXT,
-        digital_signature TEXT,
-        public_key TEXT,
-        status TEXT CHECK(status IN ('draft', 'submitted', 'under_review', 'approved', 'rejected', 'revision_requested', 'negotiating')) DEFAULT 'draft',
-        submitted_at DATETIME,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
-        FOREIGN KEY (vendor_id) REFERENCES users(id)
-      )
-    `);
-
-    // Approvals table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS approvals (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        quotation_id INTEGER NOT NULL,
-        approver_id INTEGER NOT NULL,
-        level INTEGER NOT NULL,
-        status TEXT CHECK(status IN ('pending', 'approved', 'rejected')) DEFAULT 'pending',
-        comments TEXT,
-        approved_at DATETIME,
-        signature_hash TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (quotation_id) REFERENCES quotations(id),
-        FOREIGN KEY (approver_id) REFERENCES users(id)
-      )
-    `);
-
-    // Audit logs table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS audit_logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER,
-        action TEXT NOT NULL,
-        entity_type TEXT NOT NULL,
-        entity_id INTEGER,
-        details TEXT,
-        ip_address TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id)
-      )
-    `);
-
-    // Quotation Revisions table (for negotiation & version tracking)
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS quotation_revisions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        quotation_id INTEGER NOT NULL,
-        version INTEGER NOT NULL,
-        total_amount REAL NOT NULL,
-        currency TEXT DEFAULT 'USD',
-        line_items TEXT NOT NULL,
-        delivery_time TEXT,
-        validity_period INTEGER,
-        notes TEXT,
-        changed_by INTEGER NOT NULL,
-        change_reason TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (quotation_id) REFERENCES quotations(id),
-        FOREIGN KEY (changed_by) REFERENCES users(id),
-        UNIQUE(quotation_id, version)
-      )
-    `);
-
-    // Quotation Comments table (for discussion/negotiation)
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS quotation_comments (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        quotation_id INTEGER NOT NULL,
-        user_id INTEGER NOT NULL,
-        comment TEXT NOT NULL,
-        comment_type TEXT CHECK(comment_type IN ('general', 'revision_request', 'counter_offer', 'clarification')) DEFAULT 'general',
-        is_internal BOOLEAN DEFAULT 0,
-        parent_comment_id INTEGER,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (quotation_id) REFERENCES quotations(id),
-        FOREIGN KEY (user_id) REFERENCES users(id),
-        FOREIGN KEY (parent_comment_id) REFERENCES quotation_comments(id)
-      )
-    `);
-
-    // Security demos table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS security_demos (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        demo_type TEXT CHECK(demo_type IN ('base64', 'xor', 'hash', 'signature', 'password')) NOT NULL,
-        input_data TEXT NOT NULL,
-        output_data TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id)
-      )
-    `);
-
-    // Password history table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS password_history (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        password_hash TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id)
-      )
-    `);
-
-    // Sessions table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        session_token TEXT UNIQUE NOT NULL,
-        device_info TEXT,
-        ip_address TEXT,
-        user_agent TEXT,
-        last_activity DATETIME DEFAULT CURRENT_TIMESTAMP,
-        expires_at DATETIME NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id)
-      )
-    `);
-
-    // Security events table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS security_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER,
-        event_type TEXT CHECK(event_type IN ('failed_login', 'account_locked', 'password_changed', 'mfa_enabled', 'mfa_disabled', 'suspicious_activity', 'brute_force_attempt')) NOT NULL,
-        severity TEXT CHECK(severity IN ('low', 'medium', 'high', 'critical')) DEFAULT 'medium',
-        ip_address TEXT,
-        user_agent TEXT,
-        details TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id)
-      )
-    `);
-
-    // Blocked IPs table
-    await this.run(`
-      CREATE TABLE IF NOT EXISTS blocked_ips (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        ip_address TEXT UNIQUE NOT NULL,
-        reason TEXT NOT NULL,
-        blocked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        expires_at DATETIME,
-        is_permanent BOOLEAN DEFAULT 0
-      )
-    `);
-
-    // Create indexes for better performance
-    await this.run('CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_rfqs_status ON rfqs(status)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_quotations_rfq ON quotations(rfq_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_quotations_vendor ON quotations(vendor_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_approvals_quotation ON approvals(quotation_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_audit_logs_user ON audit_logs(user_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_quotation_revisions_quotation ON quotation_revisions(quotation_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_quotation_comments_quotation ON quotation_comments(quotation_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_quotation_comments_user ON quotation_comments(user_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_password_history_user ON password_history(user_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(session_token)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_security_events_user ON security_events(user_id)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_security_events_type ON security_events(event_type)');
-    await this.run('CREATE INDEX IF NOT EXISTS idx_blocked_ips_address ON blocked_ips(ip_address)');
-
-    console.log('✓ Database schema initialized');
-  }
 }
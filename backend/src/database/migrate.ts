@@ -0,0 +1,71 @@
+/**
+ * Migration CLI
+ *
+ * Usage:
+ *   npm run migrate                  Apply all pending migrations
+ *   npm run migrate -- up [version]  Apply pending migrations up to a version
+ *   npm run migrate -- down [steps]  Roll back the last N migrations (default: 1)
+ *   npm run migrate -- status        Show applied, pending and dirty migrations
+ *   npm run migrate -- force <ver>   Clear the dirty flag after a manual repair
+ */
+
+import dotenv from 'dotenv';
+import { Database } from './database';
+import { Migrator } from './migrator';
+
+dotenv.config();
+
+function parseNumber(value: string | undefined, label: string): number | undefined {
+    if (value === undefined) return undefined;
+
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 0) {
+        throw new Error(`Invalid ${label}: ${value}`);
+    }
+    return parsed;
+}
+
+async function run(command: string, arg?: string): Promise<void> {
+    switch (command) {
+        case 'up': {
+            const applied = await Migrator.migrate(parseNumber(arg, 'version'));
+            console.log(applied.length > 0 ? `✓ ${applied.length} migration(s) applied` : '✓ Schema is up to date');
+            break;
+        }
+        case 'down': {
+            const rolledBack = await Migrator.rollback(parseNumber(arg, 'steps') ?? 1);
+            console.log(`✓ ${rolledBack.length} migration(s) rolled back`);
+            break;
+        }
+        case 'status': {
+            const statuses = await Migrator.status();
+            for (const s of statuses) {
+                const version = String(s.version).padStart(3, '0');
+                console.log(`${s.state.toUpperCase().padEnd(8)} ${version}_${s.name}${s.appliedAt ? `  (${s.appliedAt})` : ''}`);
+            }
+            break;
+        }
+        case 'force': {
+            const version = parseNumber(arg, 'version');
+            if (version === undefined) {
+                throw new Error('Usage: migrate force <version>');
+            }
+            await Migrator.force(version);
+            console.log(`✓ Cleared dirty flag on migration ${version}`);
+            break;
+        }
+        default:
+            throw new Error(`Unknown command "${command}". Expected one of: up, down, status, force`);
+    }
+}
+
+const [command = 'up', arg] = process.argv.slice(2);
+
+run(command, arg)
+    .then(() => Database.close())
+    .then(() => process.exit(0))
+    .catch(async (error) => {
+        console.error('Migration failed:', error.message || error);
+        await Database.close().catch(() => undefined);
+        process.exit(1);
+    });
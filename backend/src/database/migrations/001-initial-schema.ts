@@ -0,0 +1,254 @@
+/**
+ * Migration 001 - Initial schema
+ * Baseline of the tables previously created by Database.initialize().
+ * Uses IF NOT EXISTS so databases created before migrations existed can adopt it.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const initialSchema: Migration = {
+    version: 1,
+    name: 'initial_schema',
+
+    async up(db: QueryRunner): Promise<void> {
+        // Users table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS users (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            email TEXT UNIQUE NOT NULL,
+            password_hash TEXT NOT NULL,
+            full_name TEXT NOT NULL,
+            role TEXT CHECK(role IN ('admin', 'vendor', 'approver')) NOT NULL,
+            company_name TEXT,
+            phone TEXT,
+            password_changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            password_expires_at DATETIME,
+            failed_login_attempts INTEGER DEFAULT 0,
+            locked_until DATETIME,
+            mfa_enabled BOOLEAN DEFAULT 0,
+            mfa_secret TEXT,
+            backup_codes TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            is_active BOOLEAN DEFAULT 1
+          )
+        `);
+
+        // RFQs table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS rfqs (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            rfq_number TEXT UNIQUE NOT NULL,
+            title TEXT NOT NULL,
+            description TEXT NOT NULL,
+            requirements TEXT,
+            created_by INTEGER NOT NULL,
+            status TEXT CHECK(status IN ('draft', 'published', 'closed', 'awarded')) DEFAULT 'draft',
+            deadline DATETIME NOT NULL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (created_by) REFERENCES users(id)
+          )
+        `);
+
+        // Quotations table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS quotations (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            rfq_id INTEGER NOT NULL,
+            vendor_id INTEGER NOT NULL,
+            quote_number TEXT UNIQUE NOT NULL,
+            total_amount REAL NOT NULL,
+            currency TEXT DEFAULT 'USD',
+            line_items TEXT NOT NULL,
+            terms_conditions TEXT,
+            encrypted_data TEXT,
+            encryption_key_hash TEXT,
+            digital_signature TEXT,
+            public_key TEXT,
+            status TEXT CHECK(status IN ('draft', 'submitted', 'under_review', 'approved', 'rejected', 'revision_requested', 'negotiating')) DEFAULT 'draft',
+            submitted_at DATETIME,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
+            FOREIGN KEY (vendor_id) REFERENCES users(id)
+          )
+        `);
+
+        // Approvals table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS approvals (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            quotation_id INTEGER NOT NULL,
+            approver_id INTEGER NOT NULL,
+            level INTEGER NOT NULL,
+            status TEXT CHECK(status IN ('pending', 'approved', 'rejected')) DEFAULT 'pending',
+            comments TEXT,
+            approved_at DATETIME,
+            signature_hash TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+            FOREIGN KEY (approver_id) REFERENCES users(id)
+          )
+        `);
+
+        // Audit logs table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS audit_logs (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER,
+            action TEXT NOT NULL,
+            entity_type TEXT NOT NULL,
+            entity_id INTEGER,
+            details TEXT,
+            ip_address TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id)
+          )
+        `);
+
+        // Quotation Revisions table (for negotiation & version tracking)
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS quotation_revisions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            quotation_id INTEGER NOT NULL,
+            version INTEGER NOT NULL,
+            total_amount REAL NOT NULL,
+            currency TEXT DEFAULT 'USD',
+            line_items TEXT NOT NULL,
+            delivery_time TEXT,
+            validity_period INTEGER,
+            notes TEXT,
+            changed_by INTEGER NOT NULL,
+            change_reason TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+            FOREIGN KEY (changed_by) REFERENCES users(id),
+            UNIQUE(quotation_id, version)
+          )
+        `);
+
+        // Quotation Comments table (for discussion/negotiation)
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS quotation_comments (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            quotation_id INTEGER NOT NULL,
+            user_id INTEGER NOT NULL,
+            comment TEXT NOT NULL,
+            comment_type TEXT CHECK(comment_type IN ('general', 'revision_request', 'counter_offer', 'clarification')) DEFAULT 'general',
+            is_internal BOOLEAN DEFAULT 0,
+            parent_comment_id INTEGER,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+            FOREIGN KEY (user_id) REFERENCES users(id),
+            FOREIGN KEY (parent_comment_id) REFERENCES quotation_comments(id)
+          )
+        `);
+
+        // Security demos table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS security_demos (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            demo_type TEXT CHECK(demo_type IN ('base64', 'xor', 'hash', 'signature', 'password')) NOT NULL,
+            input_data TEXT NOT NULL,
+            output_data TEXT NOT NULL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id)
+          )
+        `);
+
+        // Password history table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS password_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            password_hash TEXT NOT NULL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id)
+          )
+        `);
+
+        // Sessions table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS sessions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            session_token TEXT UNIQUE NOT NULL,
+            device_info TEXT,
+            ip_address TEXT,
+            user_agent TEXT,
+            last_activity DATETIME DEFAULT CURRENT_TIMESTAMP,
+            expires_at DATETIME NOT NULL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id)
+          )
+        `);
+
+        // Security events table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS security_events (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER,
+            event_type TEXT CHECK(event_type IN ('failed_login', 'account_locked', 'password_changed', 'mfa_enabled', 'mfa_disabled', 'suspicious_activity', 'brute_force_attempt')) NOT NULL,
+            severity TEXT CHECK(severity IN ('low', 'medium', 'high', 'critical')) DEFAULT 'medium',
+            ip_address TEXT,
+            user_agent TEXT,
+            details TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id)
+          )
+        `);
+
+        // Blocked IPs table
+        await db.run(`
+          CREATE TABLE IF NOT EXISTS blocked_ips (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            ip_address TEXT UNIQUE NOT NULL,
+            reason TEXT NOT NULL,
+            blocked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            expires_at DATETIME,
+            is_permanent BOOLEAN DEFAULT 0
+          )
+        `);
+
+        // Create indexes for better performance
+        await db.run('CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_rfqs_status ON rfqs(status)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_quotations_rfq ON quotations(rfq_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_quotations_vendor ON quotations(vendor_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_approvals_quotation ON approvals(quotation_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_audit_logs_user ON audit_logs(user_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_quotation_revisions_quotation ON quotation_revisions(quotation_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_quotation_comments_quotation ON quotation_comments(quotation_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_quotation_comments_user ON quotation_comments(user_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_password_history_user ON password_history(user_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(session_token)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_security_events_user ON security_events(user_id)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_security_events_type ON security_events(event_type)');
+        await db.run('CREATE INDEX IF NOT EXISTS idx_blocked_ips_address ON blocked_ips(ip_address)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        const tables = [
+            'blocked_ips',
+            'security_events',
+            'sessions',
+            'password_history',
+            'security_demos',
+            'quotation_comments',
+            'quotation_revisions',
+            'audit_logs',
+            'approvals',
+            'quotations',
+            'rfqs',
+            'users'
+        ];
+
+        for (const table of tables) {
+            await db.run(`DROP TABLE IF EXISTS ${table}`);
+        }
+    }
+};
@@ -0,0 +1,188 @@
+/**
+ * Migration 002 - Approval policies
+ * Admin-defined approval policies, approver groups, and per-quotation workflow steps.
+ * Adds 'waiting' and 'skipped' approval statuses for sequential levels and quorum rules.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+import { rebuildTable } from './helpers';
+
+const APPROVAL_COLUMNS = [
+    'id',
+    'quotation_id',
+    'approver_id',
+    'level',
+    'status',
+    'comments',
+    'approved_at',
+    'signature_hash',
+    'created_at'
+];
+
+export const approvalPolicies: Migration = {
+    version: 2,
+    name: 'approval_policies',
+
+    async up(db: QueryRunner): Promise<void> {
+        // RFQ attributes that policies can match on
+        await db.run('ALTER TABLE rfqs ADD COLUMN category TEXT');
+        await db.run('ALTER TABLE rfqs ADD COLUMN department TEXT');
+
+        // Approver groups (e.g. finance, directors)
+        await db.run(`
+            CREATE TABLE approval_groups (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT UNIQUE NOT NULL,
+                description TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await db.run(`
+            CREATE TABLE approval_group_members (
+                group_id INTEGER NOT NULL,
+                user_id INTEGER NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (group_id, user_id),
+                FOREIGN KEY (group_id) REFERENCES approval_groups(id),
+                FOREIGN KEY (user_id) REFERENCES users(id)
+            )
+        `);
+
+        // Policies are evaluated by priority; the first one whose conditions match applies
+        await db.run(`
+            CREATE TABLE approval_policies (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                description TEXT,
+                priority INTEGER NOT NULL DEFAULT 100,
+                min_amount REAL,
+                max_amount REAL,
+                category TEXT,
+                department TEXT,
+                is_active BOOLEAN DEFAULT 1,
+                created_by INTEGER,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (created_by) REFERENCES users(id)
+            )
+        `);
+
+        // Steps sharing a level run in parallel; levels run in ascending order
+        await db.run(`
+            CREATE TABLE approval_policy_steps (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                policy_id INTEGER NOT NULL,
+                level INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                group_id INTEGER NOT NULL,
+                mode TEXT CHECK(mode IN ('all', 'any', 'quorum')) NOT NULL DEFAULT 'all',
+                required_approvals INTEGER,
+                FOREIGN KEY (policy_id) REFERENCES approval_policies(id),
+                FOREIGN KEY (group_id) REFERENCES approval_groups(id)
+            )
+        `);
+
+        // Snapshot of the policy taken when a quotation is submitted
+        await db.run(`
+            CREATE TABLE quotation_approval_steps (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                policy_id INTEGER,
+                level INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                group_id INTEGER,
+                mode TEXT CHECK(mode IN ('all', 'any', 'quorum')) NOT NULL,
+                required_approvals INTEGER NOT NULL,
+                status TEXT CHECK(status IN ('waiting', 'active', 'approved', 'rejected', 'skipped')) DEFAULT 'waiting',
+                activated_at DATETIME,
+                completed_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (policy_id) REFERENCES approval_policies(id),
+                FOREIGN KEY (group_id) REFERENCES approval_groups(id)
+            )
+        `);
+
+        await rebuildTable(
+            db,
+            'approvals',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                approver_id INTEGER NOT NULL,
+                level INTEGER NOT NULL,
+                step_id INTEGER,
+                status TEXT CHECK(status IN ('waiting', 'pending', 'approved', 'rejected', 'skipped')) DEFAULT 'pending',
+                comments TEXT,
+                approved_at DATETIME,
+                signature_hash TEXT,
+                activated_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (approver_id) REFERENCES users(id),
+                FOREIGN KEY (step_id) REFERENCES quotation_approval_steps(id)
+            `,
+            [...APPROVAL_COLUMNS, { column: 'activated_at', select: 'created_at' }],
+            ['CREATE INDEX IF NOT EXISTS idx_approvals_quotation ON approvals(quotation_id)']
+        );
+
+        // Existing approvals had one approver per level and no ordering: give each a single-approver step
+        await db.run(`
+            INSERT INTO quotation_approval_steps (quotation_id, level, name, mode, required_approvals, status, activated_at, completed_at)
+            SELECT quotation_id, level, 'Level ' || level, 'all', 1,
+                   CASE status WHEN 'pending' THEN 'active' ELSE status END,
+                   created_at, approved_at
+            FROM approvals
+        `);
+        await db.run(`
+            UPDATE approvals SET step_id = (
+                SELECT s.id FROM quotation_approval_steps s
+                WHERE s.quotation_id = approvals.quotation_id AND s.level = approvals.level
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_approvals_step ON approvals(step_id)');
+        await db.run('CREATE INDEX idx_approval_policy_steps_policy ON approval_policy_steps(policy_id)');
+        await db.run('CREATE INDEX idx_quotation_approval_steps_quotation ON quotation_approval_steps(quotation_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        // Skipped rows were never required; waiting rows become plain pending approvals again
+        await db.run("DELETE FROM approvals WHERE status = 'skipped'");
+
+        await rebuildTable(
+            db,
+            'approvals',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                approver_id INTEGER NOT NULL,
+                level INTEGER NOT NULL,
+                status TEXT CHECK(status IN ('pending', 'approved', 'rejected')) DEFAULT 'pending',
+                comments TEXT,
+                approved_at DATETIME,
+                signature_hash TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (approver_id) REFERENCES users(id)
+            `,
+            APPROVAL_COLUMNS.map((column) =>
+                column === 'status'
+                    ? { column, select: "CASE status WHEN 'waiting' THEN 'pending' ELSE status END" }
+                    : column
+            ),
+            ['CREATE INDEX IF NOT EXISTS idx_approvals_quotation ON approvals(quotation_id)']
+        );
+
+        await db.run('DROP TABLE quotation_approval_steps');
+        await db.run('DROP TABLE approval_policy_steps');
+        await db.run('DROP TABLE approval_policies');
+        await db.run('DROP TABLE approval_group_members');
+        await db.run('DROP TABLE approval_groups');
+
+        await db.run('ALTER TABLE rfqs DROP COLUMN department');
+        await db.run('ALTER TABLE rfqs DROP COLUMN category');
+    }
+};
@@ -0,0 +1,83 @@
+/**
+ * Migration 003 - Approval delegations
+ * Out-of-office windows during which an approver's approvals can be signed by a substitute.
+ * approvals.acted_by records who actually signed when it differs from the assigned approver.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+import { rebuildTable } from './helpers';
+
+export const approvalDelegations: Migration = {
+    version: 3,
+    name: 'approval_delegations',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run(`
+            CREATE TABLE approval_delegations (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                delegator_id INTEGER NOT NULL,
+                delegate_id INTEGER NOT NULL,
+                starts_at DATETIME NOT NULL,
+                ends_at DATETIME NOT NULL,
+                reason TEXT,
+                revoked_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                CHECK (delegator_id != delegate_id),
+                CHECK (ends_at > starts_at),
+                FOREIGN KEY (delegator_id) REFERENCES users(id),
+                FOREIGN KEY (delegate_id) REFERENCES users(id)
+            )
+        `);
+
+        await db.run('ALTER TABLE approvals ADD COLUMN acted_by INTEGER REFERENCES users(id)');
+
+        // Decisions made before delegation existed were signed by the assigned approver
+        await db.run(`UPDATE approvals SET acted_by = approver_id WHERE status IN ('approved', 'rejected')`);
+
+        await db.run('CREATE INDEX idx_approval_delegations_delegate ON approval_delegations(delegate_id, starts_at, ends_at)');
+        await db.run('CREATE INDEX idx_approval_delegations_delegator ON approval_delegations(delegator_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        // SQLite cannot drop a column that carries a foreign key
+        await rebuildTable(
+            db,
+            'approvals',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                approver_id INTEGER NOT NULL,
+                level INTEGER NOT NULL,
+                step_id INTEGER,
+                status TEXT CHECK(status IN ('waiting', 'pending', 'approved', 'rejected', 'skipped')) DEFAULT 'pending',
+                comments TEXT,
+                approved_at DATETIME,
+                signature_hash TEXT,
+                activated_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (approver_id) REFERENCES users(id),
+                FOREIGN KEY (step_id) REFERENCES quotation_approval_steps(id)
+            `,
+            [
+                'id',
+                'quotation_id',
+                'approver_id',
+                'level',
+                'step_id',
+                'status',
+                'comments',
+                'approved_at',
+                'signature_hash',
+                'activated_at',
+                'created_at'
+            ],
+            [
+                'CREATE INDEX IF NOT EXISTS idx_approvals_quotation ON approvals(quotation_id)',
+                'CREATE INDEX IF NOT EXISTS idx_approvals_step ON approvals(step_id)'
+            ]
+        );
+        await db.run('DROP TABLE approval_delegations');
+    }
+};
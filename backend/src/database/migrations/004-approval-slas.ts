@@ -0,0 +1,145 @@
+/**
+ * Migration 004 - Approval SLAs
+ * Per-level SLA durations and backup approvers on policy steps, plus due dates,
+ * reminder and escalation tracking on approvals.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+import { rebuildTable } from './helpers';
+
+// SLA given to approvals that were already pending before SLAs existed
+const LEGACY_SLA_HOURS = 48;
+
+export const approvalSlas: Migration = {
+    version: 4,
+    name: 'approval_slas',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE approval_policy_steps ADD COLUMN sla_hours INTEGER');
+        await db.run('ALTER TABLE approval_policy_steps ADD COLUMN backup_approver_id INTEGER REFERENCES users(id)');
+
+        await db.run('ALTER TABLE quotation_approval_steps ADD COLUMN sla_hours INTEGER');
+        await db.run('ALTER TABLE quotation_approval_steps ADD COLUMN backup_approver_id INTEGER REFERENCES users(id)');
+
+        await db.run('ALTER TABLE approvals ADD COLUMN due_at DATETIME');
+        await db.run('ALTER TABLE approvals ADD COLUMN reminder_sent_at DATETIME');
+        await db.run('ALTER TABLE approvals ADD COLUMN escalated_at DATETIME');
+        await db.run('ALTER TABLE approvals ADD COLUMN escalated_from INTEGER REFERENCES approvals(id)');
+
+        await db.run(
+            `UPDATE approvals SET due_at = datetime(COALESCE(activated_at, created_at), '+${LEGACY_SLA_HOURS} hours')
+             WHERE status = 'pending'`
+        );
+
+        await db.run('CREATE INDEX idx_approvals_due ON approvals(status, due_at)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP INDEX idx_approvals_due');
+
+        // Seats handed to a backup approver go back to the original approver
+        await db.run(`
+            UPDATE approvals SET status = 'pending'
+            WHERE status = 'skipped' AND escalated_at IS NOT NULL
+              AND id IN (SELECT escalated_from FROM approvals WHERE status IN ('pending', 'waiting'))
+        `);
+        await db.run(`DELETE FROM approvals WHERE escalated_from IS NOT NULL AND status IN ('pending', 'waiting')`);
+
+        // Columns with foreign keys cannot be dropped in place
+        await rebuildTable(
+            db,
+            'approvals',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                approver_id INTEGER NOT NULL,
+                level INTEGER NOT NULL,
+                step_id INTEGER,
+                status TEXT CHECK(status IN ('waiting', 'pending', 'approved', 'rejected', 'skipped')) DEFAULT 'pending',
+                comments TEXT,
+                approved_at DATETIME,
+                signature_hash TEXT,
+                activated_at DATETIME,
+                acted_by INTEGER REFERENCES users(id),
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (approver_id) REFERENCES users(id),
+                FOREIGN KEY (step_id) REFERENCES quotation_approval_steps(id)
+            `,
+            [
+                'id',
+                'quotation_id',
+                'approver_id',
+                'level',
+                'step_id',
+                'status',
+                'comments',
+                'approved_at',
+                'signature_hash',
+                'activated_at',
+                'acted_by',
+                'created_at'
+            ],
+            [
+                'CREATE INDEX IF NOT EXISTS idx_approvals_quotation ON approvals(quotation_id)',
+                'CREATE INDEX IF NOT EXISTS idx_approvals_step ON approvals(step_id)'
+            ]
+        );
+
+        await rebuildTable(
+            db,
+            'quotation_approval_steps',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                policy_id INTEGER,
+                level INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                group_id INTEGER,
+                mode TEXT CHECK(mode IN ('all', 'any', 'quorum')) NOT NULL,
+                required_approvals INTEGER NOT NULL,
+                status TEXT CHECK(status IN ('waiting', 'active', 'approved', 'rejected', 'skipped')) DEFAULT 'waiting',
+                activated_at DATETIME,
+                completed_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (policy_id) REFERENCES approval_policies(id),
+                FOREIGN KEY (group_id) REFERENCES approval_groups(id)
+            `,
+            [
+                'id',
+                'quotation_id',
+                'policy_id',
+                'level',
+                'name',
+                'group_id',
+                'mode',
+                'required_approvals',
+                'status',
+                'activated_at',
+                'completed_at',
+                'created_at'
+            ],
+            ['CREATE INDEX IF NOT EXISTS idx_quotation_approval_steps_quotation ON quotation_approval_steps(quotation_id)']
+        );
+
+        await rebuildTable(
+            db,
+            'approval_policy_steps',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                policy_id INTEGER NOT NULL,
+                level INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                group_id INTEGER NOT NULL,
+                mode TEXT CHECK(mode IN ('all', 'any', 'quorum')) NOT NULL DEFAULT 'all',
+                required_approvals INTEGER,
+                FOREIGN KEY (policy_id) REFERENCES approval_policies(id),
+                FOREIGN KEY (group_id) REFERENCES approval_groups(id)
+            `,
+            ['id', 'policy_id', 'level', 'name', 'group_id', 'mode', 'required_approvals'],
+            ['CREATE INDEX IF NOT EXISTS idx_approval_policy_steps_policy ON approval_policy_steps(policy_id)']
+        );
+    }
+};
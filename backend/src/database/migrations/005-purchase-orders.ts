@@ -0,0 +1,124 @@
+/**
+ * Migration 005 - Purchase orders
+ * Awarding an RFQ marks quotations as awarded / not_awarded and issues a signed purchase order.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+import { rebuildTable } from './helpers';
+
+const QUOTATION_COLUMNS = [
+    'id',
+    'rfq_id',
+    'vendor_id',
+    'quote_number',
+    'total_amount',
+    'currency',
+    'line_items',
+    'terms_conditions',
+    'encrypted_data',
+    'encryption_key_hash',
+    'digital_signature',
+    'public_key',
+    'status',
+    'submitted_at',
+    'created_at',
+    'updated_at'
+];
+
+function quotationsDefinition(statuses: string[]): string {
+    return `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rfq_id INTEGER NOT NULL,
+        vendor_id INTEGER NOT NULL,
+        quote_number TEXT UNIQUE NOT NULL,
+        total_amount REAL NOT NULL,
+        currency TEXT DEFAULT 'USD',
+        line_items TEXT NOT NULL,
+        terms_conditions TEXT,
+        encrypted_data TEXT,
+        encryption_key_hash TEXT,
+        digital_signature TEXT,
+        public_key TEXT,
+        status TEXT CHECK(status IN (${statuses.map((s) => `'${s}'`).join(', ')})) DEFAULT 'draft',
+        submitted_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
+        FOREIGN KEY (vendor_id) REFERENCES users(id)
+    `;
+}
+
+const BASE_STATUSES = ['draft', 'submitted', 'under_review', 'approved', 'rejected', 'revision_requested', 'negotiating'];
+
+const QUOTATION_INDEXES = [
+    'CREATE INDEX IF NOT EXISTS idx_quotations_rfq ON quotations(rfq_id)',
+    'CREATE INDEX IF NOT EXISTS idx_quotations_vendor ON quotations(vendor_id)'
+];
+
+export const purchaseOrders: Migration = {
+    version: 5,
+    name: 'purchase_orders',
+
+    async up(db: QueryRunner): Promise<void> {
+        await rebuildTable(
+            db,
+            'quotations',
+            quotationsDefinition([...BASE_STATUSES, 'awarded', 'not_awarded']),
+            QUOTATION_COLUMNS,
+            QUOTATION_INDEXES
+        );
+
+        // snapshot is the exact JSON that was signed; signature verifies against public_key
+        await db.run(`
+            CREATE TABLE purchase_orders (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                po_number TEXT UNIQUE NOT NULL,
+                rfq_id INTEGER NOT NULL,
+                quotation_id INTEGER UNIQUE NOT NULL,
+                vendor_id INTEGER NOT NULL,
+                total_amount REAL NOT NULL,
+                currency TEXT DEFAULT 'USD',
+                line_items TEXT NOT NULL,
+                status TEXT CHECK(status IN ('issued', 'cancelled')) DEFAULT 'issued',
+                notes TEXT,
+                snapshot TEXT NOT NULL,
+                snapshot_hash TEXT NOT NULL,
+                signature TEXT NOT NULL,
+                public_key TEXT NOT NULL,
+                issued_by INTEGER NOT NULL,
+                issued_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (vendor_id) REFERENCES users(id),
+                FOREIGN KEY (issued_by) REFERENCES users(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_purchase_orders_vendor ON purchase_orders(vendor_id)');
+        await db.run('CREATE INDEX idx_purchase_orders_rfq ON purchase_orders(rfq_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP TABLE purchase_orders');
+
+        await rebuildTable(
+            db,
+            'quotations',
+            quotationsDefinition(BASE_STATUSES),
+            QUOTATION_COLUMNS.map((column) =>
+                column === 'status'
+                    ? {
+                        column,
+                        select: "CASE status WHEN 'awarded' THEN 'approved' WHEN 'not_awarded' THEN 'rejected' ELSE status END"
+                    }
+                    : column
+            ),
+            QUOTATION_INDEXES
+        );
+
+        // Without purchase orders an RFQ cannot be awarded
+        await db.run(`UPDATE rfqs SET status = 'closed' WHERE status = 'awarded'`);
+    }
+};
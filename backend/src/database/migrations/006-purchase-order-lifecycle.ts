@@ -0,0 +1,247 @@
+/**
+ * Migration 006 - Purchase order lifecycle
+ * Vendor acknowledgement, numbered amendments routed through the approval engine,
+ * goods receipts against PO lines and automatic closure.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+import { rebuildTable } from './helpers';
+
+const PURCHASE_ORDER_COLUMNS = [
+    'id',
+    'po_number',
+    'rfq_id',
+    'quotation_id',
+    'vendor_id',
+    'total_amount',
+    'currency',
+    'line_items',
+    'status',
+    'notes',
+    'snapshot',
+    'snapshot_hash',
+    'signature',
+    'public_key',
+    'issued_by',
+    'issued_at',
+    'updated_at'
+];
+
+function purchaseOrdersDefinition(statuses: string[], lifecycleColumns: boolean): string {
+    return `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        po_number TEXT UNIQUE NOT NULL,
+        rfq_id INTEGER NOT NULL,
+        quotation_id INTEGER UNIQUE NOT NULL,
+        vendor_id INTEGER NOT NULL,
+        total_amount REAL NOT NULL,
+        currency TEXT DEFAULT 'USD',
+        line_items TEXT NOT NULL,
+        status TEXT CHECK(status IN (${statuses.map((s) => `'${s}'`).join(', ')})) DEFAULT 'issued',
+        notes TEXT,
+        snapshot TEXT NOT NULL,
+        snapshot_hash TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        public_key TEXT NOT NULL,
+        issued_by INTEGER NOT NULL,
+        issued_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,${lifecycleColumns
+        ? `
+        amendment_number INTEGER NOT NULL DEFAULT 0,
+        acknowledged_at DATETIME,
+        acknowledged_by INTEGER,
+        closed_at DATETIME,
+        FOREIGN KEY (acknowledged_by) REFERENCES users(id),`
+        : ''}
+        FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
+        FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+        FOREIGN KEY (vendor_id) REFERENCES users(id),
+        FOREIGN KEY (issued_by) REFERENCES users(id)
+    `;
+}
+
+const PURCHASE_ORDER_INDEXES = [
+    'CREATE INDEX IF NOT EXISTS idx_purchase_orders_vendor ON purchase_orders(vendor_id)',
+    'CREATE INDEX IF NOT EXISTS idx_purchase_orders_rfq ON purchase_orders(rfq_id)'
+];
+
+export const purchaseOrderLifecycle: Migration = {
+    version: 6,
+    name: 'purchase_order_lifecycle',
+
+    async up(db: QueryRunner): Promise<void> {
+        await rebuildTable(
+            db,
+            'purchase_orders',
+            purchaseOrdersDefinition(['issued', 'acknowledged', 'partially_received', 'closed', 'cancelled'], true),
+            PURCHASE_ORDER_COLUMNS,
+            PURCHASE_ORDER_INDEXES
+        );
+
+        // line_items holds the complete amended line list; it replaces the PO's lines once approved
+        await db.run(`
+            CREATE TABLE po_amendments (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                purchase_order_id INTEGER NOT NULL,
+                amendment_number INTEGER NOT NULL,
+                line_items TEXT NOT NULL,
+                total_amount REAL NOT NULL,
+                reason TEXT NOT NULL,
+                status TEXT CHECK(status IN ('pending_approval', 'approved', 'rejected', 'cancelled')) DEFAULT 'pending_approval',
+                requested_by INTEGER NOT NULL,
+                decided_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (purchase_order_id, amendment_number),
+                FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id),
+                FOREIGN KEY (requested_by) REFERENCES users(id)
+            )
+        `);
+
+        await db.run(`
+            CREATE TABLE goods_receipts (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                purchase_order_id INTEGER NOT NULL,
+                receipt_number TEXT UNIQUE NOT NULL,
+                notes TEXT,
+                received_by INTEGER NOT NULL,
+                received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id),
+                FOREIGN KEY (received_by) REFERENCES users(id)
+            )
+        `);
+
+        // line_number is the 1-based position of the line in the PO's line_items
+        await db.run(`
+            CREATE TABLE goods_receipt_items (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                receipt_id INTEGER NOT NULL,
+                line_number INTEGER NOT NULL,
+                quantity REAL NOT NULL CHECK(quantity > 0),
+                FOREIGN KEY (receipt_id) REFERENCES goods_receipts(id)
+            )
+        `);
+
+        // Amendment approvals reuse the quotation workflow, scoped by amendment_id
+        await db.run('ALTER TABLE quotation_approval_steps ADD COLUMN amendment_id INTEGER REFERENCES po_amendments(id)');
+        await db.run('ALTER TABLE approvals ADD COLUMN amendment_id INTEGER REFERENCES po_amendments(id)');
+
+        await db.run('CREATE INDEX idx_po_amendments_po ON po_amendments(purchase_order_id)');
+        await db.run('CREATE INDEX idx_goods_receipts_po ON goods_receipts(purchase_order_id)');
+        await db.run('CREATE INDEX idx_goods_receipt_items_receipt ON goods_receipt_items(receipt_id)');
+        await db.run('CREATE INDEX idx_audit_logs_entity ON audit_logs(entity_type, entity_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP INDEX idx_audit_logs_entity');
+
+        await db.run('DELETE FROM approvals WHERE amendment_id IS NOT NULL');
+        await db.run('DELETE FROM quotation_approval_steps WHERE amendment_id IS NOT NULL');
+
+        await rebuildTable(
+            db,
+            'approvals',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                approver_id INTEGER NOT NULL,
+                level INTEGER NOT NULL,
+                step_id INTEGER,
+                status TEXT CHECK(status IN ('waiting', 'pending', 'approved', 'rejected', 'skipped')) DEFAULT 'pending',
+                comments TEXT,
+                approved_at DATETIME,
+                signature_hash TEXT,
+                activated_at DATETIME,
+                acted_by INTEGER REFERENCES users(id),
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                due_at DATETIME,
+                reminder_sent_at DATETIME,
+                escalated_at DATETIME,
+                escalated_from INTEGER REFERENCES approvals(id),
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (approver_id) REFERENCES users(id),
+                FOREIGN KEY (step_id) REFERENCES quotation_approval_steps(id)
+            `,
+            [
+                'id',
+                'quotation_id',
+                'approver_id',
+                'level',
+                'step_id',
+                'status',
+                'comments',
+                'approved_at',
+                'signature_hash',
+                'activated_at',
+                'acted_by',
+                'created_at',
+                'due_at',
+                'reminder_sent_at',
+                'escalated_at',
+                'escalated_from'
+            ],
+            [
+                'CREATE INDEX IF NOT EXISTS idx_approvals_quotation ON approvals(quotation_id)',
+                'CREATE INDEX IF NOT EXISTS idx_approvals_step ON approvals(step_id)',
+                'CREATE INDEX IF NOT EXISTS idx_approvals_due ON approvals(status, due_at)'
+            ]
+        );
+
+        await rebuildTable(
+            db,
+            'quotation_approval_steps',
+            `
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                policy_id INTEGER,
+                level INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                group_id INTEGER,
+                mode TEXT CHECK(mode IN ('all', 'any', 'quorum')) NOT NULL,
+                required_approvals INTEGER NOT NULL,
+                status TEXT CHECK(status IN ('waiting', 'active', 'approved', 'rejected', 'skipped')) DEFAULT 'waiting',
+                activated_at DATETIME,
+                completed_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                sla_hours INTEGER,
+                backup_approver_id INTEGER REFERENCES users(id),
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (policy_id) REFERENCES approval_policies(id),
+                FOREIGN KEY (group_id) REFERENCES approval_groups(id)
+            `,
+            [
+                'id',
+                'quotation_id',
+                'policy_id',
+                'level',
+                'name',
+                'group_id',
+                'mode',
+                'required_approvals',
+                'status',
+                'activated_at',
+                'completed_at',
+                'created_at',
+                'sla_hours',
+                'backup_approver_id'
+            ],
+            ['CREATE INDEX IF NOT EXISTS idx_quotation_approval_steps_quotation ON quotation_approval_steps(quotation_id)']
+        );
+
+        await db.run('DROP TABLE goods_receipt_items');
+        await db.run('DROP TABLE goods_receipts');
+        await db.run('DROP TABLE po_amendments');
+
+        await rebuildTable(
+            db,
+            'purchase_orders',
+            purchaseOrdersDefinition(['issued', 'cancelled'], false),
+            PURCHASE_ORDER_COLUMNS.map((column) =>
+                column === 'status'
+                    ? { column, select: "CASE status WHEN 'cancelled' THEN 'cancelled' ELSE 'issued' END" }
+                    : column
+            ),
+            PURCHASE_ORDER_INDEXES
+        );
+    }
+};
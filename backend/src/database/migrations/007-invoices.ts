@@ -0,0 +1,59 @@
+/**
+ * Migration 007 - Invoices
+ * Vendor invoices against purchase orders with the result of the three-way match
+ * (PO price/quantity, received quantity, invoiced amount) and an exception queue.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const invoices: Migration = {
+    version: 7,
+    name: 'invoices',
+
+    async up(db: QueryRunner): Promise<void> {
+        // line_items: [{ line_number, description, quantity, unit_price, amount }] where line_number is the PO line.
+        // match_details holds the per-line comparison and the tolerances that were applied.
+        // snapshot/signature are filled once the invoice is matched or an exception is accepted.
+        await db.run(`
+            CREATE TABLE invoices (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                invoice_number TEXT NOT NULL,
+                purchase_order_id INTEGER NOT NULL,
+                vendor_id INTEGER NOT NULL,
+                invoice_date DATE,
+                line_items TEXT NOT NULL,
+                total_amount REAL NOT NULL,
+                currency TEXT DEFAULT 'USD',
+                notes TEXT,
+                attachment_name TEXT NOT NULL,
+                attachment_hash TEXT NOT NULL,
+                attachment_size INTEGER NOT NULL,
+                match_result TEXT CHECK(match_result IN ('matched', 'price_variance', 'quantity_variance', 'unmatched')) NOT NULL,
+                match_details TEXT NOT NULL,
+                status TEXT CHECK(status IN ('matched', 'exception', 'accepted', 'rejected')) NOT NULL,
+                resolved_by INTEGER,
+                resolved_at DATETIME,
+                resolution_notes TEXT,
+                snapshot TEXT,
+                snapshot_hash TEXT,
+                signature TEXT,
+                public_key TEXT,
+                submitted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (vendor_id, invoice_number),
+                FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id),
+                FOREIGN KEY (vendor_id) REFERENCES users(id),
+                FOREIGN KEY (resolved_by) REFERENCES users(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_invoices_po ON invoices(purchase_order_id)');
+        await db.run('CREATE INDEX idx_invoices_vendor ON invoices(vendor_id)');
+        await db.run('CREATE INDEX idx_invoices_status ON invoices(status)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP TABLE invoices');
+    }
+};
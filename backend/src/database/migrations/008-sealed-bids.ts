@@ -0,0 +1,78 @@
+/**
+ * Migration 008 - Sealed bids
+ * RFQs in sealed-bid mode keep quotation amounts and line items encrypted to a per-RFQ opening key
+ * until the deadline has passed and the required admins have released it at a bid opening.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const sealedBids: Migration = {
+    version: 8,
+    name: 'sealed_bids',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE rfqs ADD COLUMN sealed_bids INTEGER NOT NULL DEFAULT 0');
+        await db.run(
+            'ALTER TABLE rfqs ADD COLUMN opening_approvals_required INTEGER NOT NULL DEFAULT 1 CHECK(opening_approvals_required IN (1, 2))'
+        );
+        await db.run('ALTER TABLE rfqs ADD COLUMN bids_opened_at DATETIME');
+
+        // While sealed, total_amount is 0 and line_items is empty; both are restored from the payload at opening
+        await db.run('ALTER TABLE quotations ADD COLUMN sealed_payload TEXT');
+        await db.run('ALTER TABLE quotations ADD COLUMN unsealed_at DATETIME');
+
+        // encrypted_private_key is passphrase-protected; the passphrase is wrapped with the system key
+        await db.run(`
+            CREATE TABLE rfq_opening_keys (
+                rfq_id INTEGER PRIMARY KEY,
+                public_key TEXT NOT NULL,
+                encrypted_private_key TEXT NOT NULL,
+                wrapped_passphrase TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id)
+            )
+        `);
+
+        await db.run(`
+            CREATE TABLE bid_opening_releases (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rfq_id INTEGER NOT NULL,
+                released_by INTEGER NOT NULL,
+                released_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (rfq_id, released_by),
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
+                FOREIGN KEY (released_by) REFERENCES users(id)
+            )
+        `);
+
+        // Signed record of every bid as read out at the opening
+        await db.run(`
+            CREATE TABLE bid_opening_reports (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rfq_id INTEGER UNIQUE NOT NULL,
+                report TEXT NOT NULL,
+                report_hash TEXT NOT NULL,
+                signature TEXT NOT NULL,
+                public_key TEXT NOT NULL,
+                opened_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_bid_opening_releases_rfq ON bid_opening_releases(rfq_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP TABLE bid_opening_reports');
+        await db.run('DROP TABLE bid_opening_releases');
+        await db.run('DROP TABLE rfq_opening_keys');
+
+        await db.run('ALTER TABLE quotations DROP COLUMN unsealed_at');
+        await db.run('ALTER TABLE quotations DROP COLUMN sealed_payload');
+
+        await db.run('ALTER TABLE rfqs DROP COLUMN bids_opened_at');
+        await db.run('ALTER TABLE rfqs DROP COLUMN opening_approvals_required');
+        await db.run('ALTER TABLE rfqs DROP COLUMN sealed_bids');
+    }
+};
@@ -0,0 +1,39 @@
+/**
+ * Migration 009 - RFQ deadline extensions
+ * RFQs close automatically at their deadline; admins can push a deadline back with a recorded reason.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const rfqDeadlineExtensions: Migration = {
+    version: 9,
+    name: 'rfq_deadline_extensions',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE rfqs ADD COLUMN closed_at DATETIME');
+
+        await db.run(`
+            CREATE TABLE rfq_deadline_extensions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rfq_id INTEGER NOT NULL,
+                previous_deadline DATETIME NOT NULL,
+                new_deadline DATETIME NOT NULL,
+                reason TEXT NOT NULL,
+                extended_by INTEGER NOT NULL,
+                extended_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
+                FOREIGN KEY (extended_by) REFERENCES users(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_rfq_deadline_extensions_rfq ON rfq_deadline_extensions(rfq_id)');
+        await db.run('CREATE INDEX idx_rfqs_status_deadline ON rfqs(status, deadline)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP INDEX idx_rfqs_status_deadline');
+        await db.run('DROP TABLE rfq_deadline_extensions');
+        await db.run('ALTER TABLE rfqs DROP COLUMN closed_at');
+    }
+};
@@ -0,0 +1,20 @@
+/**
+ * Migration 010 - Authenticator-app MFA
+ * Remembers the last TOTP time step each user signed in with, so a code cannot be replayed within its window.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const mfa: Migration = {
+    version: 10,
+    name: 'mfa',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE users ADD COLUMN mfa_last_used_step INTEGER');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE users DROP COLUMN mfa_last_used_step');
+    }
+};
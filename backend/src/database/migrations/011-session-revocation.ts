@@ -0,0 +1,22 @@
+/**
+ * Migration 011 - Session revocation
+ * Every login now creates a sessions row that its tokens are checked against; revoked sessions stay for the device history.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const sessionRevocation: Migration = {
+    version: 11,
+    name: 'session_revocation',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE sessions ADD COLUMN revoked_at DATETIME');
+        await db.run('ALTER TABLE sessions ADD COLUMN revoked_reason TEXT');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE sessions DROP COLUMN revoked_reason');
+        await db.run('ALTER TABLE sessions DROP COLUMN revoked_at');
+    }
+};
@@ -0,0 +1,32 @@
+/**
+ * Migration 012 - Refresh token rotation
+ * Each refresh token is single-use. The hashes of every token a session has been issued are kept, so presenting a
+ * retired token can be recognised as reuse of a stolen token.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const refreshTokenRotation: Migration = {
+    version: 12,
+    name: 'refresh_token_rotation',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run(`
+            CREATE TABLE refresh_tokens (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                session_id INTEGER NOT NULL,
+                token_hash TEXT UNIQUE NOT NULL,
+                issued_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                used_at DATETIME,
+                FOREIGN KEY (session_id) REFERENCES sessions(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_refresh_tokens_session ON refresh_tokens(session_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP TABLE IF EXISTS refresh_tokens');
+    }
+};
@@ -0,0 +1,33 @@
+/**
+ * Migration 013 - Password reset tokens
+ * Single-use, expiring tokens for the forgot-password email; only their SHA-256 hash is stored.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const passwordResetTokens: Migration = {
+    version: 13,
+    name: 'password_reset_tokens',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run(`
+            CREATE TABLE password_reset_tokens (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL,
+                token_hash TEXT UNIQUE NOT NULL,
+                ip_address TEXT,
+                expires_at DATETIME NOT NULL,
+                used_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (user_id) REFERENCES users(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_password_reset_tokens_user ON password_reset_tokens(user_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP TABLE IF EXISTS password_reset_tokens');
+    }
+};
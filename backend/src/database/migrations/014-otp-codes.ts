@@ -0,0 +1,34 @@
+/**
+ * Migration 014 - OTP codes
+ * Pending signup/login OTPs and MFA challenges, so they survive restarts and are shared between instances.
+ * Tokens and codes are stored only as hashes.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const otpCodes: Migration = {
+    version: 14,
+    name: 'otp_codes',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run(`
+            CREATE TABLE otp_codes (
+                token_hash TEXT PRIMARY KEY,
+                code_hash TEXT NOT NULL,
+                email TEXT NOT NULL,
+                purpose TEXT NOT NULL CHECK(purpose IN ('signup', 'login', 'mfa')),
+                data TEXT,
+                expires_at INTEGER NOT NULL,
+                attempts INTEGER DEFAULT 0,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_otp_codes_expires ON otp_codes(expires_at)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP TABLE IF EXISTS otp_codes');
+    }
+};
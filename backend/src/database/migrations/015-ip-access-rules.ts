@@ -0,0 +1,43 @@
+/**
+ * Migration 015 - IP access rules
+ * Persistent rate-limit counters, who added a blocked_ips entry, and an allowlist exempt from rate limits and blocks.
+ * blocked_ips and ip_allowlist entries are single addresses or CIDR ranges.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const ipAccessRules: Migration = {
+    version: 15,
+    name: 'ip_access_rules',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run(`
+            CREATE TABLE rate_limit_counters (
+                key TEXT PRIMARY KEY,
+                count INTEGER NOT NULL DEFAULT 0,
+                reset_at INTEGER NOT NULL,
+                failed_attempts INTEGER NOT NULL DEFAULT 0
+            )
+        `);
+
+        await db.run('ALTER TABLE blocked_ips ADD COLUMN created_by INTEGER');
+
+        await db.run(`
+            CREATE TABLE ip_allowlist (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                ip_address TEXT UNIQUE NOT NULL,
+                reason TEXT NOT NULL,
+                created_by INTEGER,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (created_by) REFERENCES users(id)
+            )
+        `);
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP TABLE IF EXISTS ip_allowlist');
+        await db.run('ALTER TABLE blocked_ips DROP COLUMN created_by');
+        await db.run('DROP TABLE IF EXISTS rate_limit_counters');
+    }
+};
@@ -0,0 +1,28 @@
+/**
+ * Migration 016 - Security monitoring
+ * security_events records the email a failed login was for (so credential stuffing can be spotted even for
+ * unknown accounts) and which detector raised an alert, and gains an index for time-range queries.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const securityMonitoring: Migration = {
+    version: 16,
+    name: 'security_monitoring',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE security_events ADD COLUMN email TEXT');
+        await db.run('ALTER TABLE security_events ADD COLUMN detector TEXT');
+
+        await db.run('CREATE INDEX idx_security_events_created ON security_events(created_at)');
+        await db.run('CREATE INDEX idx_security_events_ip ON security_events(ip_address, created_at)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP INDEX IF EXISTS idx_security_events_ip');
+        await db.run('DROP INDEX IF EXISTS idx_security_events_created');
+        await db.run('ALTER TABLE security_events DROP COLUMN detector');
+        await db.run('ALTER TABLE security_events DROP COLUMN email');
+    }
+};
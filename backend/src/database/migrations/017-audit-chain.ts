@@ -0,0 +1,40 @@
+/**
+ * Migration 017 - Hash-chained audit log
+ * audit_logs records a before/after diff of the entity and becomes tamper-evident: every row stores the hash
+ * of the previous row and a SHA-256 over its own fields chained to it. Existing rows are chained in id order.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+import { AuditService } from '../../services/audit.service';
+
+export const auditChain: Migration = {
+    version: 17,
+    name: 'audit_chain',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE audit_logs ADD COLUMN changes TEXT');
+        await db.run('ALTER TABLE audit_logs ADD COLUMN prev_hash TEXT');
+        await db.run('ALTER TABLE audit_logs ADD COLUMN hash TEXT');
+
+        await db.run('CREATE INDEX idx_audit_logs_created ON audit_logs(created_at)');
+        await db.run('CREATE INDEX idx_audit_logs_action ON audit_logs(action)');
+
+        const rows = await db.all<any>('SELECT * FROM audit_logs ORDER BY id ASC');
+
+        let prevHash = AuditService.GENESIS_HASH;
+        for (const row of rows) {
+            const hash = AuditService.hashEntry(prevHash, row);
+            await db.run('UPDATE audit_logs SET prev_hash = ?, hash = ? WHERE id = ?', [prevHash, hash, row.id]);
+            prevHash = hash;
+        }
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP INDEX IF EXISTS idx_audit_logs_action');
+        await db.run('DROP INDEX IF EXISTS idx_audit_logs_created');
+        await db.run('ALTER TABLE audit_logs DROP COLUMN hash');
+        await db.run('ALTER TABLE audit_logs DROP COLUMN prev_hash');
+        await db.run('ALTER TABLE audit_logs DROP COLUMN changes');
+    }
+};
@@ -0,0 +1,56 @@
+/**
+ * Migration 018 - User signing keys
+ * Each user holds one active RSA signing key, either registered (only the public key is known to the platform)
+ * or generated by the platform and escrowed under the user's passphrase. Rotated and revoked keys stay in the
+ * table as the key history. Quotations, revisions and approval decisions record the key that signed them.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const signingKeys: Migration = {
+    version: 18,
+    name: 'signing_keys',
+
+    async up(db: QueryRunner): Promise<void> {
+        // encrypted_private_key is a passphrase-encrypted PKCS#8 PEM, kept only while an escrowed key is active
+        await db.run(`
+            CREATE TABLE signing_keys (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL,
+                public_key TEXT NOT NULL,
+                fingerprint TEXT UNIQUE NOT NULL,
+                algorithm TEXT NOT NULL DEFAULT 'RSA-SHA256',
+                source TEXT NOT NULL CHECK(source IN ('registered', 'escrowed')),
+                encrypted_private_key TEXT,
+                status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'rotated', 'revoked')),
+                revocation_reason TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                rotated_at DATETIME,
+                revoked_at DATETIME,
+                FOREIGN KEY (user_id) REFERENCES users(id)
+            )
+        `);
+
+        await db.run(
+            "CREATE UNIQUE INDEX idx_signing_keys_active ON signing_keys(user_id) WHERE status = 'active'"
+        );
+
+        // Rows without a signing key predate this migration and were signed with a per-quotation key pair
+        await db.run('ALTER TABLE quotations ADD COLUMN signing_key_id INTEGER');
+        await db.run('ALTER TABLE quotation_revisions ADD COLUMN signature TEXT');
+        await db.run('ALTER TABLE quotation_revisions ADD COLUMN signing_key_id INTEGER');
+        await db.run('ALTER TABLE approvals ADD COLUMN signature TEXT');
+        await db.run('ALTER TABLE approvals ADD COLUMN signing_key_id INTEGER');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE approvals DROP COLUMN signing_key_id');
+        await db.run('ALTER TABLE approvals DROP COLUMN signature');
+        await db.run('ALTER TABLE quotation_revisions DROP COLUMN signing_key_id');
+        await db.run('ALTER TABLE quotation_revisions DROP COLUMN signature');
+        await db.run('ALTER TABLE quotations DROP COLUMN signing_key_id');
+        await db.run('DROP INDEX IF EXISTS idx_signing_keys_active');
+        await db.run('DROP TABLE IF EXISTS signing_keys');
+    }
+};
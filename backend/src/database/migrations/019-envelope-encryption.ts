@@ -0,0 +1,25 @@
+/**
+ * Migration 019 - Envelope encryption of quotation sensitive data
+ * quotations.encrypted_data moves from XOR under a vendor-held key to an AES-256-GCM envelope whose data key is
+ * wrapped by a platform master key. encryption_key_id names that master key, so rotation can find what to re-wrap.
+ * Existing XOR rows keep encryption_key_id NULL and their encryption_key_hash; the server never had their keys,
+ * so they are converted when the vendor supplies the key once.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const envelopeEncryption: Migration = {
+    version: 19,
+    name: 'envelope_encryption',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE quotations ADD COLUMN encryption_key_id TEXT');
+        await db.run('CREATE INDEX idx_quotations_encryption_key ON quotations(encryption_key_id)');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP INDEX IF EXISTS idx_quotations_encryption_key');
+        await db.run('ALTER TABLE quotations DROP COLUMN encryption_key_id');
+    }
+};
@@ -0,0 +1,91 @@
+/**
+ * Migration 020 - RFQ requirement lines and line awards
+ * What an RFQ asks for moves from the opaque rfqs.requirements JSON into numbered lines that quotation line items
+ * answer (by line_number) and that can be awarded to different vendors. rfqs.requirements stays as free-form notes;
+ * what it listed is copied into lines, in the order quotation line items already refer to them.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+/**
+ * Entries of a JSON array, or the lines of a text block, as line items numbered them before this migration
+ */
+function legacyLines(requirements: string | null): string[] {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(requirements || '[]');
+    } catch {
+        parsed = requirements;
+    }
+
+    const lines = Array.isArray(parsed)
+        ? parsed.map((entry) => (typeof entry === 'string' ? entry : entry?.description || entry?.item || JSON.stringify(entry)))
+        : String(parsed || '').split(/\r?\n/);
+
+    return lines
+        .map((line: string) => line.trim().replace(/^([-*•]|\d+[.)])\s+/, ''))
+        .filter((line: string) => line.length > 0);
+}
+
+export const rfqRequirementLines: Migration = {
+    version: 20,
+    name: 'rfq_requirement_lines',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run(`
+            CREATE TABLE rfq_requirement_lines (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rfq_id INTEGER NOT NULL,
+                line_number INTEGER NOT NULL,
+                item TEXT NOT NULL,
+                specification TEXT,
+                quantity REAL NOT NULL DEFAULT 1,
+                unit_of_measure TEXT NOT NULL DEFAULT 'EA',
+                target_date TEXT,
+                mandatory INTEGER NOT NULL DEFAULT 1,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (rfq_id, line_number),
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id)
+            )
+        `);
+
+        // One winning quotation per requirement line; a split award issues one purchase order per winning vendor
+        await db.run(`
+            CREATE TABLE rfq_line_awards (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rfq_id INTEGER NOT NULL,
+                requirement_line_id INTEGER UNIQUE NOT NULL,
+                quotation_id INTEGER NOT NULL,
+                purchase_order_id INTEGER NOT NULL,
+                amount REAL NOT NULL,
+                awarded_by INTEGER NOT NULL,
+                awarded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id),
+                FOREIGN KEY (requirement_line_id) REFERENCES rfq_requirement_lines(id),
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id),
+                FOREIGN KEY (awarded_by) REFERENCES users(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_rfq_line_awards_rfq ON rfq_line_awards(rfq_id)');
+
+        const rfqs = await db.all<{ id: number; requirements: string | null }>('SELECT id, requirements FROM rfqs');
+        for (const rfq of rfqs) {
+            for (const [index, item] of legacyLines(rfq.requirements).entries()) {
+                await db.run('INSERT INTO rfq_requirement_lines (rfq_id, line_number, item) VALUES (?, ?, ?)', [
+                    rfq.id,
+                    index + 1,
+                    item
+                ]);
+            }
+        }
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('DROP INDEX IF EXISTS idx_rfq_line_awards_rfq');
+        await db.run('DROP TABLE IF EXISTS rfq_line_awards');
+        await db.run('DROP TABLE IF EXISTS rfq_requirement_lines');
+    }
+};
@@ -0,0 +1,59 @@
+/**
+ * Migration 021 - Weighted quotation evaluation
+ * An RFQ's evaluation template lists weighted criteria (price, delivery, quality, ...). Price is scored from the
+ * quotation totals; every other criterion is scored 0-100 by each evaluator. The evaluation an approver saw is kept
+ * on the approval row when they decide.
+ */
+
+import { QueryRunner } from '../database';
+import { Migration } from '../migrator';
+
+export const quotationEvaluations: Migration = {
+    version: 21,
+    name: 'quotation_evaluations',
+
+    async up(db: QueryRunner): Promise<void> {
+        await db.run(`
+            CREATE TABLE evaluation_criteria (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rfq_id INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                weight REAL NOT NULL,
+                scoring TEXT NOT NULL DEFAULT 'manual' CHECK(scoring IN ('price', 'manual')),
+                sort_order INTEGER NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (rfq_id, sort_order),
+                FOREIGN KEY (rfq_id) REFERENCES rfqs(id)
+            )
+        `);
+
+        // One score per evaluator per criterion per quotation
+        await db.run(`
+            CREATE TABLE evaluation_scores (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                quotation_id INTEGER NOT NULL,
+                criterion_id INTEGER NOT NULL,
+                evaluator_id INTEGER NOT NULL,
+                score REAL NOT NULL CHECK(score >= 0 AND score <= 100),
+                comment TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (quotation_id, criterion_id, evaluator_id),
+                FOREIGN KEY (quotation_id) REFERENCES quotations(id),
+                FOREIGN KEY (criterion_id) REFERENCES evaluation_criteria(id),
+                FOREIGN KEY (evaluator_id) REFERENCES users(id)
+            )
+        `);
+
+        await db.run('CREATE INDEX idx_evaluation_scores_criterion ON evaluation_scores(criterion_id)');
+
+        await db.run('ALTER TABLE approvals ADD COLUMN evaluation_snapshot TEXT');
+    },
+
+    async down(db: QueryRunner): Promise<void> {
+        await db.run('ALTER TABLE approvals DROP COLUMN evaluation_snapshot');
+        await db.run('DROP INDEX IF EXISTS idx_evaluation_scores_criterion');
+        await db.run('DROP TABLE IF EXISTS evaluation_scores');
+        await db.run('DROP TABLE IF EXISTS evaluation_criteria');
+    }
+};
@@ -0,0 +1,39 @@
+/**
+ * Migration Helpers
+ */
+
+import { QueryRunner } from '../database';
+
+/**
+ * Recreate a table with a new definition and copy its rows across.
+ * SQLite cannot alter CHECK constraints in place, so this follows the documented
+ * create-copy-drop-rename procedure. The migrator disables foreign keys while it runs.
+ *
+ * @param db - Query runner of the running migration
+ * @param table - Table to rebuild
+ * @param definition - Column and constraint definitions of the new table
+ * @param columns - Columns to copy; a mapping entry replaces the SELECT expression for that column
+ * @param indexes - CREATE INDEX statements to restore after the rebuild
+ */
+export async function rebuildTable(
+    db: QueryRunner,
+    table: string,
+    definition: string,
+    columns: (string | { column: string; select: string })[],
+    indexes: string[] = []
+): Promise<void> {
+    const tempTable = `${table}_rebuild`;
+    const targetColumns = columns.map((c) => (typeof c === 'string' ? c : c.column));
+    const selectColumns = columns.map((c) => (typeof c === 'string' ? c : c.select));
+
+    await db.run(`CREATE TABLE ${tempTable} (${definition})`);
+    await db.run(
+        `INSERT INTO ${tempTable} (${targetColumns.join(', ')}) SELECT ${selectColumns.join(', ')} FROM ${table}`
+    );
+    await db.run(`DROP TABLE ${table}`);
+    await db.run(`ALTER TABLE ${tempTable} RENAME TO ${table}`);
+
+    for (const index of indexes) {
+        await db.run(index);
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Migration Registry
+ * Every migration must be listed here in ascending version order.
+ */
+
+import { Migration } from '../migrator';
+import { initialSchema } from './001-initial-schema';
+import { approvalPolicies } from './002-approval-policies';
+import { approvalDelegations } from './003-approval-delegations';
+import { approvalSlas } from './004-approval-slas';
+import { purchaseOrders } from './005-purchase-orders';
+import { purchaseOrderLifecycle } from './006-purchase-order-lifecycle';
+import { invoices } from './007-invoices';
+import { sealedBids } from './008-sealed-bids';
+import { rfqDeadlineExtensions } from './009-rfq-deadline-extensions';
+import { mfa } from './010-mfa';
+import { sessionRevocation } from './011-session-revocation';
+import { refreshTokenRotation } from './012-refresh-token-rotation';
+import { passwordResetTokens } from './013-password-reset-tokens';
+import { otpCodes } from './014-otp-codes';
+import { ipAccessRules } from './015-ip-access-rules';
+import { securityMonitoring } from './016-security-monitoring';
+import { auditChain } from './017-audit-chain';
+import { signingKeys } from './018-signing-keys';
+import { envelopeEncryption } from './019-envelope-encryption';
+import { rfqRequirementLines } from './020-rfq-requirement-lines';
+import { quotationEvaluations } from './021-quotation-evaluations';
+
+export const migrations: Migration[] = [
+    initialSchema,
+    approvalPolicies,
+    approvalDelegations,
+    approvalSlas,
+    purchaseOrders,
+    purchaseOrderLifecycle,
+    invoices,
+    sealedBids,
+    rfqDeadlineExtensions,
+    mfa,
+    sessionRevocation,
+    refreshTokenRotation,
+    passwordResetTokens,
+    otpCodes,
+    ipAccessRules,
+    securityMonitoring,
+    auditChain,
+    signingKeys,
+    envelopeEncryption,
+    rfqRequirementLines,
+    quotationEvaluations
+];
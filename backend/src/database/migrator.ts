@@ -0,0 +1,247 @@
+/**
+ * Schema Migrator
+ * Applies and rolls back numbered migrations tracked in the schema_migrations table
+ */
+
+import { Database, QueryRunner } from './database';
+import { migrations as registeredMigrations } from './migrations';
+
+export interface Migration {
+    version: number;
+    name: string;
+    up(db: QueryRunner): Promise<void>;
+    down(db: QueryRunner): Promise<void>;
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    state: 'applied' | 'pending' | 'dirty';
+    appliedAt: string | null;
+}
+
+interface MigrationRow {
+    version: number;
+    name: string;
+    dirty: number;
+    applied_at: string;
+}
+
+export class Migrator {
+    /**
+     * Create the tracking table if it does not exist yet
+     */
+    private static async ensureTable(): Promise<void> {
+        await Database.run(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                dirty BOOLEAN DEFAULT 0,
+                applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+    }
+
+    /**
+     * Registered migrations sorted by version, with duplicate detection
+     */
+    private static getMigrations(): Migration[] {
+        const sorted = [...registeredMigrations].sort((a, b) => a.version - b.version);
+
+        for (let i = 1; i < sorted.length; i++) {
+            if (sorted[i].version === sorted[i - 1].version) {
+                throw new Error(`Duplicate migration version ${sorted[i].version}`);
+            }
+        }
+
+        return sorted;
+    }
+
+    private static async getAppliedRows(): Promise<MigrationRow[]> {
+        await this.ensureTable();
+        return Database.all<MigrationRow>('SELECT * FROM schema_migrations ORDER BY version ASC');
+    }
+
+    /**
+     * Status of every known migration, including applied versions missing from the registry
+     */
+    static async status(): Promise<MigrationStatus[]> {
+        const rows = await this.getAppliedRows();
+        const applied = new Map(rows.map((row) => [row.version, row]));
+
+        const statuses: MigrationStatus[] = this.getMigrations().map((migration) => {
+            const row = applied.get(migration.version);
+            applied.delete(migration.version);
+
+            return {
+                version: migration.version,
+                name: migration.name,
+                state: !row ? 'pending' : row.dirty ? 'dirty' : 'applied',
+                appliedAt: row ? row.applied_at : null
+            };
+        });
+
+        // Versions recorded in the database but no longer shipped with the code
+        for (const row of applied.values()) {
+            statuses.push({
+                version: row.version,
+                name: `${row.name} (unknown)`,
+                state: row.dirty ? 'dirty' : 'applied',
+                appliedAt: row.applied_at
+            });
+        }
+
+        return statuses.sort((a, b) => a.version - b.version);
+    }
+
+    /**
+     * Apply pending migrations up to (and including) the target version
+     * @param target - Highest version to apply (default: latest)
+     * @returns Migrations that were applied
+     */
+    static async migrate(target?: number): Promise<Migration[]> {
+        await this.assertNotDirty();
+
+        const rows = await this.getAppliedRows();
+        const appliedVersions = new Set(rows.map((row) => row.version));
+        const pending = this.getMigrations().filter(
+            (m) => !appliedVersions.has(m.version) && (target === undefined || m.version <= target)
+        );
+
+        for (const migration of pending) {
+            await this.execute(migration, 'up');
+        }
+
+        return pending;
+    }
+
+    /**
+     * Roll back the most recently applied migrations
+     * @param steps - Number of migrations to roll back (default: 1)
+     * @returns Migrations that were rolled back
+     */
+    static async rollback(steps: number = 1): Promise<Migration[]> {
+        await this.assertNotDirty();
+
+        const rows = await this.getAppliedRows();
+        const known = new Map(this.getMigrations().map((m) => [m.version, m]));
+        const toRollback = rows.slice(-steps).reverse();
+
+        const rolledBack: Migration[] = [];
+        for (const row of toRollback) {
+            const migration = known.get(row.version);
+            if (!migration) {
+                throw new Error(`Cannot roll back migration ${row.version} (${row.name}): not found in registry`);
+            }
+
+            await this.execute(migration, 'down');
+            rolledBack.push(migration);
+        }
+
+        return rolledBack;
+    }
+
+    /**
+     * Clear the dirty flag of a migration after the schema has been repaired by hand
+     * @param version - Migration version
+     */
+    static async force(version: number): Promise<void> {
+        await this.ensureTable();
+        const result = await Database.run('UPDATE schema_migrations SET dirty = 0 WHERE version = ?', [version]);
+
+        if (result.changes === 0) {
+            throw new Error(`Migration ${version} is not recorded in schema_migrations`);
+        }
+    }
+
+    /**
+     * Refuse to continue when the schema is dirty or has pending migrations
+     */
+    static async assertUpToDate(): Promise<void> {
+        const statuses = await this.status();
+
+        const dirty = statuses.filter((s) => s.state === 'dirty');
+        if (dirty.length > 0) {
+            const list = dirty.map((s) => `${s.version} (${s.name})`).join(', ');
+            throw new Error(
+                `Database schema is dirty: migration ${list} did not finish. ` +
+                'Repair the schema, then run `npm run migrate -- force <version>`.'
+            );
+        }
+
+        const pending = statuses.filter((s) => s.state === 'pending');
+        if (pending.length > 0) {
+            const list = pending.map((s) => `${s.version} (${s.name})`).join(', ');
+            throw new Error(
+                `Database schema is out of date: ${pending.length} pending migration(s): ${list}. ` +
+                'Run `npm run migrate` first.'
+            );
+        }
+    }
+
+    private static async assertNotDirty(): Promise<void> {
+        const rows = await this.getAppliedRows();
+        const dirty = rows.find((row) => row.dirty);
+
+        if (dirty) {
+            throw new Error(
+                `Migration ${dirty.version} (${dirty.name}) is dirty. ` +
+                'Repair the schema, then run `npm run migrate -- force <version>`.'
+            );
+        }
+    }
+
+    /**
+     * Run one migration inside a transaction.
+     * The row is marked dirty first so a crash mid-migration is detected on the next start.
+     * Foreign keys are switched off for the duration so migrations can rebuild tables,
+     * and checked before commit.
+     */
+    private static async execute(migration: Migration, direction: 'up' | 'down'): Promise<void> {
+        const label = `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+
+        if (direction === 'up') {
+            await Database.run(
+                'INSERT INTO schema_migrations (version, name, dirty) VALUES (?, ?, 1)',
+                [migration.version, migration.name]
+            );
+        } else {
+            await Database.run('UPDATE schema_migrations SET dirty = 1 WHERE version = ?', [migration.version]);
+        }
+
+        await Database.run('PRAGMA foreign_keys = OFF');
+
+        try {
+            await Database.transaction(async (tx) => {
+                await migration[direction](tx);
+
+                const violations = await tx.all('PRAGMA foreign_key_check');
+                if (violations.length > 0) {
+                    throw new Error(`Foreign key check failed with ${violations.length} violation(s)`);
+                }
+            });
+        } catch (error) {
+            // The transaction was rolled back, so the schema is unchanged and the marker can be undone
+            if (direction === 'up') {
+                await Database.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+            } else {
+                await Database.run('UPDATE schema_migrations SET dirty = 0 WHERE version = ?', [migration.version]);
+            }
+
+            throw new Error(`Migration ${label} (${direction}) failed: ${(error as Error).message}`);
+        } finally {
+            await Database.run('PRAGMA foreign_keys = ON');
+        }
+
+        if (direction === 'up') {
+            await Database.run(
+                'UPDATE schema_migrations SET dirty = 0, applied_at = CURRENT_TIMESTAMP WHERE version = ?',
+                [migration.version]
+            );
+        } else {
+            await Database.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+        }
+
+        console.log(`✓ ${direction === 'up' ? 'Applied' : 'Rolled back'} migration ${label}`);
+    }
+}
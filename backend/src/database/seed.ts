@@ -3,16 +3,40 @@
  */
 
 import { Database } from './database';
+import { Migrator } from './migrator';
 import { HashUtil } from '../utils/security/hash.util';
+import { FieldEncryptionUtil } from '../utils/security/field-encryption.util';
+
+// Email, company name and phone are stored field-encrypted
+async function insertUser(
+    email: string,
+    passwordHash: string,
+    fullName: string,
+    role: string,
+    companyName: string,
+    phone: string
+): Promise<void> {
+    await Database.run(
+        `INSERT INTO users (email, password_hash, full_name, role, company_name, phone)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+            await FieldEncryptionUtil.encrypt('users.email', email),
+            passwordHash,
+            fullName,
+            role,
+            await FieldEncryptionUtil.encrypt('users.company_name', companyName),
+            await FieldEncryptionUtil.encrypt('users.phone', phone)
+        ]
+    );
+}
 
 export async function seedDatabase(): Promise<void> {
     console.log('Seeding database...');
 
     try {
         // Check if admin already exists
-        const existingAdmin = await Database.get('SELECT * FROM users WHERE email = ?', [
-            'admin@procurement.com'
-        ]);
+        const byEmail = await FieldEncryptionUtil.matching('email', 'users.email', 'admin@procurement.com');
+        const existingAdmin = await Database.get(`SELECT * FROM users WHERE ${byEmail.sql}`, byEmail.params);
 
         if (existingAdmin) {
             console.log('Database already seeded');
@@ -21,55 +45,21 @@ export async function seedDatabase(): Promise<void> {
 
         // Create admin user
         const adminPassword = await HashUtil.hashPassword('admin123');
-        await Database.run(
-            `INSERT INTO users (email, password_hash, full_name, role, company_name, phone)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-            ['admin@procurement.com', adminPassword, 'Admin User', 'admin', 'Procurement Corp', '+1234567890']
-        );
+        await insertUser('admin@procurement.com', adminPassword, 'Admin User', 'admin', 'Procurement Corp', '+1234567890');
 
         // Create sample vendors
         const vendor1Password = await HashUtil.hashPassword('vendor123');
-        await Database.run(
-            `INSERT INTO users (email, password_hash, full_name, role, company_name, phone)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-            ['vendor1@techsolutions.com', vendor1Password, 'John Doe', 'vendor', 'Tech Solutions Inc', '+1234567891']
-        );
+        await insertUser('vendor1@techsolutions.com', vendor1Password, 'John Doe', 'vendor', 'Tech Solutions Inc', '+1234567891');
 
         const vendor2Password = await HashUtil.hashPassword('vendor123');
-        await Database.run(
-            `INSERT INTO users (email, password_hash, full_name, role, company_name, phone)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-            ['vendor2@innovate.com', vendor2Password, 'Jane Smith', 'vendor', 'Innovate Systems Ltd', '+1234567892']
-        );
+        await insertUser('vendor2@innovate.com', vendor2Password, 'Jane Smith', 'vendor', 'Innovate Systems Ltd', '+1234567892');
 
         // Create sample approvers
         const approver1Password = await HashUtil.hashPassword('approver123');
-        await Database.run(
-            `INSERT INTO users (email, password_hash, full_name, role, company_name, phone)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-            [
-                'approver1@procurement.com',
-                approver1Password,
-                'Mike Johnson',
-                'approver',
-                'Procurement Corp',
-                '+1234567893'
-            ]
-        );
+        await insertUser('approver1@procurement.com', approver1Password, 'Mike Johnson', 'approver', 'Procurement Corp', '+1234567893');
 
         const approver2Password = await HashUtil.hashPassword('approver123');
-        await Database.run(
-            `INSERT INTO users (email, password_hash, full_name, role, company_name, phone)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-            [
-                'approver2@procurement.com',
-                approver2Password,
-                'Sarah Williams',
-                'approver',
-                'Procurement Corp',
-                '+1234567894'
-            ]
-        );
+        await insertUser('approver2@procurement.com', approver2Password, 'Sarah Williams', 'approver', 'Procurement Corp', '+1234567894');
 
         console.log('✓ Database seeded successfully');
         console.log('\nDefault Credentials:');
@@ -86,7 +76,7 @@ export async function seedDatabase(): Promise<void> {
 
 // Run seed if called directly
 if (require.main === module) {
-    Database.initialize()
+    Migrator.assertUpToDate()
         .then(() => seedDatabase())
         .then(() => {
             console.log('Seeding complete');
@@ -4,6 +4,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { JWTUtil, TokenPayload } from '../utils/jwt.util';
+import { SessionService } from '../services/session.service';
 
 // Extend Express Request type to include user
 declare global {
@@ -15,9 +16,11 @@ declare global {
 }
 
 /**
- * Authenticate JWT token
+ * Authenticate JWT token against its session
  */
-export function authenticate(req: Request, res: Response, next: NextFunction): void {
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let payload: TokenPayload;
+
     try {
         const authHeader = req.headers.authorization;
 
@@ -27,13 +30,19 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
         }
 
         const token = authHeader.substring(7);
-        const payload = JWTUtil.verifyAccessToken(token);
+        payload = JWTUtil.verifyAccessToken(token);
 
-        req.user = payload;
-        next();
+        if (!payload.sessionId || !(await SessionService.isActive(payload.sessionId, payload.userId))) {
+            res.status(401).json({ error: 'Session has ended' });
+            return;
+        }
     } catch (error) {
         res.status(401).json({ error: 'Invalid or expired token' });
+        return;
     }
+
+    req.user = payload;
+    next();
 }
 
 /**
@@ -58,19 +67,20 @@ export function authorize(...roles: string[]) {
 /**
  * Optional authentication (doesn't fail if no token)
  */
-export function optionalAuth(req: Request, _res: Response, next: NextFunction): void {
+export async function optionalAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
     try {
         const authHeader = req.headers.authorization;
 
         if (authHeader && authHeader.startsWith('Bearer ')) {
             const token = authHeader.substring(7);
             const payload = JWTUtil.verifyAccessToken(token);
-            req.user = payload;
+            if (payload.sessionId && (await SessionService.isActive(payload.sessionId, payload.userId))) {
+                req.user = payload;
+            }
         }
-
-        next();
     } catch (error) {
         // Continue without authentication
-        next();
     }
+
+    next();
 }
@@ -0,0 +1,26 @@
+/**
+ * IP Access Middleware
+ * Turns away blocked addresses on every API route, before authentication or rate limiting runs
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { IpAccessService } from '../services/ip-access.service';
+
+/**
+ * Reject requests from a blocked address that is not allowlisted
+ */
+export async function rejectBlockedIps(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const ip = req.ip || req.socket.remoteAddress || 'unknown';
+
+        if (await IpAccessService.isBlocked(ip)) {
+            res.status(403).json({ error: 'Your IP address has been blocked due to suspicious activity' });
+            return;
+        }
+    } catch (error) {
+        next(error);
+        return;
+    }
+
+    next();
+}
@@ -1,10 +1,13 @@
 /**
  * Advanced Rate Limiting Middleware
- * Implements endpoint-specific rate limiting, progressive delays, and IP blocking
+ * Implements endpoint-specific rate limiting, progressive delays, and IP blocking.
+ * Counters live in rate_limit_counters; blocks and the allowlist are managed by IpAccessService, and blocked
+ * addresses are turned away for every route by rejectBlockedIps.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { Database } from '../database/database';
+import { IpAccessService } from '../services/ip-access.service';
 
 interface RateLimitConfig {
     windowMs: number;
@@ -12,41 +15,46 @@ interface RateLimitConfig {
     message?: string;
 }
 
+/**
+ * Request counters in rate_limit_counters, so limits survive restarts and are shared between instances
+ */
 class RateLimiterStore {
-    private requests: Map<string, { count: number; resetTime: number; failedAttempts: number }> = new Map();
-
     /**
      * Record a request
      * @param key - Identifier key (IP + endpoint)
      * @param windowMs - Time window in milliseconds
-     * @returns Current count
+     * @returns Current count and when the window resets
      */
-    record(key: string, windowMs: number): number {
+    async record(key: string, windowMs: number): Promise<{ count: number; resetTime: number }> {
         const now = Date.now();
-        const record = this.requests.get(key);
-
-        if (!record || now > record.resetTime) {
-            this.requests.set(key, {
-                count: 1,
-                resetTime: now + windowMs,
-                failedAttempts: 0,
-            });
-            return 1;
-        }
 
-        record.count++;
-        return record.count;
+        return Database.transaction(async (tx) => {
+            // A request after the window has passed starts a new one
+            await tx.run(
+                `INSERT INTO rate_limit_counters (key, count, reset_at, failed_attempts)
+                 VALUES (?, 1, ?, 0)
+                 ON CONFLICT(key) DO UPDATE SET
+                     count = CASE WHEN reset_at < ? THEN 1 ELSE count + 1 END,
+                     failed_attempts = CASE WHEN reset_at < ? THEN 0 ELSE failed_attempts END,
+                     reset_at = CASE WHEN reset_at < ? THEN excluded.reset_at ELSE reset_at END`,
+                [key, now + windowMs, now, now, now]
+            );
+
+            const record = await tx.get<{ count: number; reset_at: number }>(
+                'SELECT count, reset_at FROM rate_limit_counters WHERE key = ?',
+                [key]
+            );
+
+            return { count: record!.count, resetTime: record!.reset_at };
+        });
     }
 
     /**
      * Record a failed attempt
      * @param key - Identifier key
      */
-    recordFailure(key: string): void {
-        const record = this.requests.get(key);
-        if (record) {
-            record.failedAttempts++;
-        }
+    async recordFailure(key: string): Promise<void> {
+        await Database.run('UPDATE rate_limit_counters SET failed_attempts = failed_attempts + 1 WHERE key = ?', [key]);
     }
 
     /**
@@ -54,36 +62,36 @@ class RateLimiterStore {
      * @param key - Identifier key
      * @returns Number of failed attempts
      */
-    getFailedAttempts(key: string): number {
-        const record = this.requests.get(key);
-        return record?.failedAttempts || 0;
+    async getFailedAttempts(key: string): Promise<number> {
+        const record = await Database.get<{ failed_attempts: number }>(
+            'SELECT failed_attempts FROM rate_limit_counters WHERE key = ? AND reset_at >= ?',
+            [key, Date.now()]
+        );
+        return record?.failed_attempts || 0;
     }
 
     /**
      * Reset counter for key
      * @param key - Identifier key
      */
-    reset(key: string): void {
-        this.requests.delete(key);
+    async reset(key: string): Promise<void> {
+        await Database.run('DELETE FROM rate_limit_counters WHERE key = ?', [key]);
     }
 
     /**
      * Cleanup expired entries
      */
-    cleanup(): void {
-        const now = Date.now();
-        for (const [key, record] of this.requests.entries()) {
-            if (now > record.resetTime) {
-                this.requests.delete(key);
-            }
-        }
+    async cleanup(): Promise<void> {
+        await Database.run('DELETE FROM rate_limit_counters WHERE reset_at < ?', [Date.now()]);
     }
 }
 
 const store = new RateLimiterStore();
 
 // Cleanup every 5 minutes
-setInterval(() => store.cleanup(), 5 * 60 * 1000);
+setInterval(() => {
+    store.cleanup().catch((error) => console.error('Rate limiter cleanup error:', error));
+}, 5 * 60 * 1000);
 
 /**
  * Create rate limiter middleware
@@ -95,20 +103,19 @@ export function createRateLimiter(config: RateLimitConfig) {
         try {
             const ip = req.ip || req.socket.remoteAddress || 'unknown';
 
-            // Check if IP is blocked
-            const isBlocked = await isIPBlocked(ip);
-            if (isBlocked) {
-                res.status(403).json({ error: 'Your IP address has been blocked due to suspicious activity' });
+            // Allowlisted clients are neither blocked nor limited
+            if (await IpAccessService.isAllowlisted(ip)) {
+                next();
                 return;
             }
 
             const key = `${ip}:${req.path}`;
-            const count = store.record(key, config.windowMs);
+            const { count, resetTime } = await store.record(key, config.windowMs);
 
             // Set rate limit headers
             res.setHeader('X-RateLimit-Limit', config.maxRequests);
             res.setHeader('X-RateLimit-Remaining', Math.max(0, config.maxRequests - count));
-            res.setHeader('X-RateLimit-Reset', Date.now() + config.windowMs);
+            res.setHeader('X-RateLimit-Reset', resetTime);
 
             if (count > config.maxRequests) {
                 // Log security event
@@ -121,16 +128,16 @@ export function createRateLimiter(config: RateLimitConfig) {
                 });
 
                 // Progressive blocking: block IP if too many violations
-                const failures = store.getFailedAttempts(key);
+                const failures = await store.getFailedAttempts(key);
                 if (failures > 10) {
                     await blockIP(ip, 'Repeated rate limit violations', 24); // Block for 24 hours
                 }
 
-                store.recordFailure(key);
+                await store.recordFailure(key);
 
                 res.status(429).json({
                     error: config.message || 'Too many requests, please try again later',
-                    retryAfter: Math.ceil(config.windowMs / 1000),
+                    retryAfter: Math.ceil((resetTime - Date.now()) / 1000),
                 });
                 return;
             }
@@ -151,7 +158,13 @@ export function progressiveDelay() {
     return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
         const ip = req.ip || req.socket.remoteAddress || 'unknown';
         const key = `${ip}:${req.path}`;
-        const failures = store.getFailedAttempts(key);
+
+        let failures = 0;
+        try {
+            failures = await store.getFailedAttempts(key);
+        } catch (error) {
+            console.error('Progressive delay error:', error);
+        }
 
         if (failures > 0) {
             // Exponential backoff: 1s, 2s, 4s, 8s, etc.
@@ -163,27 +176,6 @@ export function progressiveDelay() {
     };
 }
 
-/**
- * Check if IP is blocked
- * @param ip - IP address
- * @returns True if blocked
- */
-async function isIPBlocked(ip: string): Promise<boolean> {
-    try {
-        const blocked = await Database.get<{ id: number; expires_at: string | null; is_permanent: number }>(
-            `SELECT id, expires_at, is_permanent FROM blocked_ips 
-             WHERE ip_address = ? 
-             AND (is_permanent = 1 OR expires_at > datetime('now'))`,
-            [ip]
-        );
-
-        return !!blocked;
-    } catch (error) {
-        console.error('Error checking blocked IP:', error);
-        return false;
-    }
-}
-
 /**
  * Block an IP address
  * @param ip - IP address
@@ -192,14 +184,7 @@ async function isIPBlocked(ip: string): Promise<boolean> {
  */
 async function blockIP(ip: string, reason: string, hours: number = 0): Promise<void> {
     try {
-        const expiresAt = hours > 0 ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null;
-        const isPermanent = hours === 0 ? 1 : 0;
-
-        await Database.run(
-            `INSERT OR REPLACE INTO blocked_ips (ip_address, reason, expires_at, is_permanent)
-             VALUES (?, ?, ?, ?)`,
-            [ip, reason, expiresAt, isPermanent]
-        );
+        await IpAccessService.block(Database, ip, reason, hours, null, { ipAddress: ip });
 
         console.log(`🚫 Blocked IP: ${ip} - Reason: ${reason}`);
     } catch (error) {
@@ -245,6 +230,11 @@ export const RateLimiters = {
             maxRequests: 3,
             message: 'Too many registration attempts, please try again later',
         }),
+        otpResend: createRateLimiter({
+            windowMs: 15 * 60 * 1000, // 15 minutes
+            maxRequests: 5,
+            message: 'Too many code requests, please try again in 15 minutes',
+        }),
         passwordReset: createRateLimiter({
             windowMs: 60 * 60 * 1000, // 1 hour
             maxRequests: 3,
@@ -0,0 +1,26 @@
+/**
+ * Approval Policy Routes
+ */
+
+import { Router } from 'express';
+import { ApprovalPolicyController } from '../controllers/approval-policy.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('admin'));
+
+router.get('/groups', ApprovalPolicyController.getGroups);
+router.post('/groups', ApprovalPolicyController.createGroup);
+router.put('/groups/:groupId', ApprovalPolicyController.updateGroup);
+router.delete('/groups/:groupId', ApprovalPolicyController.deleteGroup);
+
+router.post('/evaluate', ApprovalPolicyController.evaluate);
+router.get('/', ApprovalPolicyController.getAll);
+router.post('/', ApprovalPolicyController.create);
+router.get('/:id', ApprovalPolicyController.getById);
+router.put('/:id', ApprovalPolicyController.update);
+router.delete('/:id', ApprovalPolicyController.delete);
+
+export default router;
@@ -4,6 +4,7 @@
 
 import { Router } from 'express';
 import { ApprovalController } from '../controllers/approval.controller';
+import { ApprovalDelegationController } from '../controllers/approval-delegation.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -11,11 +12,17 @@ const router = Router();
 router.use(authenticate);
 
 router.get('/all', authorize('admin'), ApprovalController.getAll);
+router.get('/overdue', authorize('admin'), ApprovalController.getOverdue);
 router.get('/mine', authorize('approver'), ApprovalController.getMine);
 router.get('/pending', authorize('approver'), ApprovalController.getPending);
+router.get('/delegations/candidates', authorize('approver', 'admin'), ApprovalDelegationController.getCandidates);
+router.get('/delegations', authorize('approver', 'admin'), ApprovalDelegationController.getAll);
+router.post('/delegations', authorize('approver', 'admin'), ApprovalDelegationController.create);
+router.delete('/delegations/:delegationId', authorize('approver', 'admin'), ApprovalDelegationController.revoke);
 router.get('/:id', authorize('approver', 'admin'), ApprovalController.getById);
 router.post('/:id/approve', authorize('approver'), ApprovalController.approve);
 router.post('/:id/reject', authorize('approver'), ApprovalController.reject);
+router.post('/:id/reassign', authorize('admin'), ApprovalController.reassign);
 router.get('/history/:quotationId', ApprovalController.getHistory);
 
 export default router;
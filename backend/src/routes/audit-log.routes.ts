@@ -0,0 +1,19 @@
+/**
+ * Audit Log Routes (admin only)
+ */
+
+import { Router } from 'express';
+import { AuditLogController } from '../controllers/audit-log.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('admin'));
+
+router.get('/', AuditLogController.getAll);
+router.get('/facets', AuditLogController.getFacets);
+router.get('/export', AuditLogController.exportCsv);
+router.get('/verify', AuditLogController.verify);
+
+export default router;
@@ -4,24 +4,38 @@
 
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
+import { MfaController } from '../controllers/mfa.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { RateLimiters, progressiveDelay } from '../middleware/rate-limiter.middleware';
 
 const router = Router();
 
 // OTP-based authentication routes (recommended)
-router.post('/signup/initiate', AuthController.initiateSignup);
+router.post('/signup/initiate', RateLimiters.auth.register, AuthController.initiateSignup);
 router.post('/signup/verify', AuthController.verifySignupOTP);
-router.post('/login/initiate', AuthController.initiateLogin);
+router.post('/login/initiate', progressiveDelay(), RateLimiters.auth.login, AuthController.initiateLogin);
 router.post('/login/verify', AuthController.verifyLoginOTP);
-router.post('/otp/resend', AuthController.resendOTP);
+router.post('/otp/resend', RateLimiters.auth.otpResend, AuthController.resendOTP);
+
+// Forgot / reset password
+router.post('/password/forgot', RateLimiters.auth.passwordReset, AuthController.forgotPassword);
+router.post('/password/reset', AuthController.resetPassword);
 
 // Legacy routes (deprecated, kept for backward compatibility)
-router.post('/register', AuthController.register);
-router.post('/login', AuthController.login);
+router.post('/register', RateLimiters.auth.register, AuthController.register);
+router.post('/login', progressiveDelay(), RateLimiters.auth.login, AuthController.login);
 router.post('/refresh', AuthController.refresh);
 
 // Protected routes
+router.post('/logout', authenticate, AuthController.logout);
 router.get('/profile', authenticate, AuthController.getProfile);
 router.post('/change-password', authenticate, AuthController.changePassword);
 
+// Authenticator-app MFA
+router.get('/mfa', authenticate, MfaController.getStatus);
+router.post('/mfa/setup', authenticate, MfaController.setup);
+router.post('/mfa/confirm', authenticate, MfaController.confirm);
+router.post('/mfa/disable', authenticate, MfaController.disable);
+router.post('/mfa/backup-codes/regenerate', authenticate, MfaController.regenerateBackupCodes);
+
 export default router;
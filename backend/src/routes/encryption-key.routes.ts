@@ -0,0 +1,18 @@
+/**
+ * Encryption Key Routes (admin only)
+ */
+
+import { Router } from 'express';
+import { EncryptionKeyController } from '../controllers/encryption-key.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('admin'));
+
+router.get('/', EncryptionKeyController.getStatus);
+router.post('/rotate', EncryptionKeyController.rotate);
+router.post('/rewrap', EncryptionKeyController.rewrap);
+
+export default router;
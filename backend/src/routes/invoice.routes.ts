@@ -0,0 +1,20 @@
+/**
+ * Invoice Routes
+ */
+
+import { Router } from 'express';
+import { InvoiceController } from '../controllers/invoice.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.post('/', authorize('vendor'), InvoiceController.submit);
+router.get('/', InvoiceController.getAll);
+router.get('/exceptions', authorize('admin', 'approver'), InvoiceController.getExceptions);
+router.get('/:id', InvoiceController.getById);
+router.get('/:id/attachment', InvoiceController.getAttachment);
+router.post('/:id/resolve', authorize('admin', 'approver'), InvoiceController.resolve);
+
+export default router;
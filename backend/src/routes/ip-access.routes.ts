@@ -0,0 +1,21 @@
+/**
+ * IP Access Routes (admin only)
+ */
+
+import { Router } from 'express';
+import { IpAccessController } from '../controllers/ip-access.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('admin'));
+
+router.get('/', IpAccessController.getAll);
+router.post('/blocked', IpAccessController.block);
+router.patch('/blocked/:id', IpAccessController.updateBlock);
+router.delete('/blocked/:id', IpAccessController.unblock);
+router.post('/allowlist', IpAccessController.allow);
+router.delete('/allowlist/:id', IpAccessController.removeAllowed);
+
+export default router;
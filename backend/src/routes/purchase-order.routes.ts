@@ -0,0 +1,20 @@
+/**
+ * Purchase Order Routes
+ */
+
+import { Router } from 'express';
+import { PurchaseOrderController } from '../controllers/purchase-order.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('admin', 'vendor'));
+
+router.get('/', PurchaseOrderController.getAll);
+router.get('/:id', PurchaseOrderController.getById);
+router.post('/:id/acknowledge', authorize('vendor'), PurchaseOrderController.acknowledge);
+router.post('/:id/amendments', authorize('admin'), PurchaseOrderController.amend);
+router.post('/:id/receipts', authorize('admin'), PurchaseOrderController.receive);
+
+export default router;
@@ -4,6 +4,7 @@
 
 import { Router } from 'express';
 import { QuotationController } from '../controllers/quotation.controller';
+import { EvaluationController } from '../controllers/evaluation.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -12,8 +13,13 @@ router.use(authenticate);
 
 router.post('/', authorize('vendor'), QuotationController.create);
 router.get('/', QuotationController.getAll);
+router.get('/tax-codes', QuotationController.getTaxCodes);
+router.post('/price', authorize('vendor', 'admin'), QuotationController.price);
 router.get('/:id', QuotationController.getById);
 router.post('/:id/submit', authorize('vendor'), QuotationController.submit);
+router.put('/:id/evaluation-scores', authorize('admin', 'approver'), EvaluationController.saveScores);
 router.post('/:id/verify-signature', QuotationController.verifySignature);
+router.get('/:id/sensitive-data', QuotationController.getSensitiveData);
+router.post('/:id/sensitive-data/migrate', authorize('vendor'), QuotationController.migrateSensitiveData);
 
 export default router;
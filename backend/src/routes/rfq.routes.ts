@@ -4,6 +4,7 @@
 
 import { Router } from 'express';
 import { RFQController } from '../controllers/rfq.controller';
+import { EvaluationController } from '../controllers/evaluation.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -17,5 +18,13 @@ router.get('/:id', RFQController.getById);
 router.put('/:id', authorize('admin'), RFQController.update);
 router.delete('/:id', authorize('admin'), RFQController.delete);
 router.post('/:id/publish', authorize('admin'), RFQController.publish);
+router.post('/:id/award', authorize('admin'), RFQController.award);
+router.get('/:id/tabulation', authorize('admin', 'approver'), RFQController.getTabulation);
+router.get('/:id/evaluation-template', authorize('admin', 'approver'), EvaluationController.getTemplate);
+router.put('/:id/evaluation-template', authorize('admin'), EvaluationController.updateTemplate);
+router.get('/:id/evaluation', authorize('admin', 'approver'), EvaluationController.getMatrix);
+router.post('/:id/extend-deadline', authorize('admin'), RFQController.extendDeadline);
+router.get('/:id/opening', RFQController.getOpening);
+router.post('/:id/opening/release', authorize('admin'), RFQController.releaseOpening);
 
 export default router;
@@ -0,0 +1,18 @@
+/**
+ * Security Event Routes (admin only)
+ */
+
+import { Router } from 'express';
+import { SecurityEventController } from '../controllers/security-event.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('admin'));
+
+router.get('/', SecurityEventController.getAll);
+router.get('/stats', SecurityEventController.getStats);
+router.post('/detect', SecurityEventController.runDetectors);
+
+export default router;
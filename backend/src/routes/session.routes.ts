@@ -0,0 +1,19 @@
+/**
+ * Session Routes
+ */
+
+import { Router } from 'express';
+import { SessionController } from '../controllers/session.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/', SessionController.getMine);
+router.post('/revoke-others', SessionController.revokeOthers);
+router.get('/all', authorize('admin'), SessionController.getAll);
+router.post('/users/:userId/revoke', authorize('admin'), SessionController.revokeUser);
+router.delete('/:id', SessionController.revoke);
+
+export default router;
@@ -0,0 +1,19 @@
+/**
+ * Signing Key Routes
+ */
+
+import { Router } from 'express';
+import { SigningKeyController } from '../controllers/signing-key.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/', SigningKeyController.getMine);
+router.post('/register', SigningKeyController.register);
+router.post('/generate', SigningKeyController.generate);
+router.post('/:id/revoke', SigningKeyController.revoke);
+router.get('/users/:userId', authorize('admin'), SigningKeyController.getForUser);
+
+export default router;
@@ -9,9 +9,15 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { Database } from './database/database';
+import { Migrator } from './database/migrator';
 import { seedDatabase } from './database/seed';
 import { OTPUtil } from './utils/otp.util';
 import { EmailService } from './services/email.service';
+import { ApprovalSlaService } from './services/approval-sla.service';
+import { RfqDeadlineService } from './services/rfq-deadline.service';
+import { SecurityMonitorService } from './services/security-monitor.service';
+import { bindRequestContext } from './utils/request-context.util';
+import { rejectBlockedIps } from './middleware/ip-access.middleware';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -19,6 +25,15 @@ import securityRoutes from './routes/security.routes';
 import rfqRoutes from './routes/rfq.routes';
 import quotationRoutes from './routes/quotation.routes';
 import approvalRoutes from './routes/approval.routes';
+import approvalPolicyRoutes from './routes/approval-policy.routes';
+import purchaseOrderRoutes from './routes/purchase-order.routes';
+import invoiceRoutes from './routes/invoice.routes';
+import sessionRoutes from './routes/session.routes';
+import ipAccessRoutes from './routes/ip-access.routes';
+import securityEventRoutes from './routes/security-event.routes';
+import auditLogRoutes from './routes/audit-log.routes';
+import signingKeyRoutes from './routes/signing-key.routes';
+import encryptionKeyRoutes from './routes/encryption-key.routes';
 import negotiationRoutes from './routes/negotiation.routes';
 
 // Load environment variables
@@ -41,10 +56,16 @@ const limiter = rateLimit({
 });
 app.use('/api/', limiter);
 
+// Blocked addresses are refused on every API route, signed in or not
+app.use('/api/', rejectBlockedIps);
+
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Client IP for audit entries written deep in services
+app.use(bindRequestContext);
+
 // Request logging middleware
 app.use((req: Request, _res: Response, next: NextFunction) => {
     console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
@@ -66,6 +87,15 @@ app.use('/api/security', securityRoutes);
 app.use('/api/rfqs', rfqRoutes);
 app.use('/api/quotations', quotationRoutes);
 app.use('/api/approvals', approvalRoutes);
+app.use('/api/approval-policies', approvalPolicyRoutes);
+app.use('/api/purchase-orders', purchaseOrderRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/ip-access', ipAccessRoutes);
+app.use('/api/security-events', securityEventRoutes);
+app.use('/api/audit-logs', auditLogRoutes);
+app.use('/api/signing-keys', signingKeyRoutes);
+app.use('/api/encryption-keys', encryptionKeyRoutes);
 app.use('/api', negotiationRoutes); // Negotiation routes (quotations/:id/revisions, etc.)
 
 // Root route
@@ -78,7 +108,10 @@ app.get('/', (_req: Request, res: Response) => {
             security: '/api/security',
             rfqs: '/api/rfqs',
             quotations: '/api/quotations',
-            approvals: '/api/approvals'
+            approvals: '/api/approvals',
+            approvalPolicies: '/api/approval-policies',
+            purchaseOrders: '/api/purchase-orders',
+            invoices: '/api/invoices'
         },
         documentation: '/api/docs',
         features: [
@@ -116,8 +149,9 @@ async function startServer() {
     try {
         console.log('🚀 Starting Secure Procurement System...\n');
 
-        // Initialize database
-        await Database.initialize();
+        // Refuse to boot on a pending or dirty schema
+        await Migrator.assertUpToDate();
+        console.log('✅ Database schema is up to date');
 
         // Seed database
         await seedDatabase();
@@ -136,6 +170,18 @@ async function startServer() {
             console.warn('   Please check your EMAIL_* environment variables');
         }
 
+        // Approval reminders and escalations
+        ApprovalSlaService.initialize();
+        console.log('✅ Approval SLA scheduler started');
+
+        // Close RFQs at their deadline
+        RfqDeadlineService.initialize();
+        console.log('✅ RFQ deadline scheduler started');
+
+        // Anomaly detection over security events
+        SecurityMonitorService.initialize();
+        console.log('✅ Security detectors started');
+
         // Start server
         app.listen(PORT, () => {
             console.log(`\n✨ Server running on port ${PORT}`);
@@ -0,0 +1,84 @@
+/**
+ * Approval Delegation Service
+ * Resolves who may act on an approval while its approver is out of office
+ */
+
+import { QueryRunner } from '../database/database';
+
+class ApprovalDelegationService {
+    /**
+     * Condition on approval_delegations rows that are in effect right now
+     */
+    static readonly ACTIVE_WINDOW =
+        "revoked_at IS NULL AND starts_at <= datetime('now') AND ends_at > datetime('now')";
+
+    /**
+     * WHERE fragment matching approvals assigned to a user or to anyone who delegated to them
+     * @param column - Approver column of the query, e.g. "a.approver_id"
+     */
+    static assignedOrDelegatedTo(column: string, userId: number): { sql: string; params: any[] } {
+        return {
+            sql: `(${column} = ? OR ${column} IN (
+                SELECT delegator_id FROM approval_delegations
+                WHERE delegate_id = ? AND ${this.ACTIVE_WINDOW}
+            ))`,
+            params: [userId, userId]
+        };
+    }
+
+    /**
+     * Whether delegateId currently stands in for delegatorId
+     */
+    static async isActiveDelegate(db: QueryRunner, delegatorId: number, delegateId: number): Promise<boolean> {
+        const delegation = await db.get(
+            `SELECT id FROM approval_delegations
+             WHERE delegator_id = ? AND delegate_id = ? AND ${this.ACTIVE_WINDOW}`,
+            [delegatorId, delegateId]
+        );
+
+        return !!delegation;
+    }
+
+    /**
+     * The user currently standing in for an approver, if any
+     */
+    static async getActiveDelegate(
+        db: QueryRunner,
+        delegatorId: number
+    ): Promise<{ id: number; email: string; full_name: string } | undefined> {
+        return db.get(
+            `SELECT u.id, u.email, u.full_name FROM approval_delegations d
+             JOIN users u ON d.delegate_id = u.id
+             WHERE d.delegator_id = ? AND d.revoked_at IS NULL
+               AND d.starts_at <= datetime('now') AND d.ends_at > datetime('now')`,
+            [delegatorId]
+        );
+    }
+
+    /**
+     * Whether a user already holds a seat on the approval's step, or has signed one on someone's behalf.
+     * Acting for someone else there would count the same person twice.
+     */
+    static async occupiesStep(
+        db: QueryRunner,
+        approval: { quotation_id: number; level: number; step_id: number | null },
+        userId: number
+    ): Promise<boolean> {
+        const seat = approval.step_id
+            ? await db.get(
+                `SELECT id FROM approvals
+                 WHERE step_id = ? AND ((approver_id = ? AND status != 'skipped') OR acted_by = ?)`,
+                [approval.step_id, userId, userId]
+            )
+            : await db.get(
+                `SELECT id FROM approvals
+                 WHERE quotation_id = ? AND level = ?
+                   AND ((approver_id = ? AND status != 'skipped') OR acted_by = ?)`,
+                [approval.quotation_id, approval.level, userId, userId]
+            );
+
+        return !!seat;
+    }
+}
+
+export { ApprovalDelegationService };
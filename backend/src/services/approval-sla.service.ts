@@ -0,0 +1,267 @@
+/**
+ * Approval SLA Service
+ * Periodically reminds approvers before their deadline and escalates overdue approvals
+ */
+
+import { Database, QueryRunner } from '../database/database';
+import { EmailService } from './email.service';
+import { ApprovalDelegationService } from './approval-delegation.service';
+import { AuditService } from './audit.service';
+
+/**
+ * Raised when an approval cannot be handed to another approver
+ */
+export class ApprovalReassignError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ApprovalReassignError';
+    }
+}
+
+class ApprovalSlaService {
+    private static running = false;
+
+    /**
+     * Start the periodic SLA check
+     */
+    static initialize() {
+        const intervalMs = parseInt(process.env.APPROVAL_SLA_CHECK_INTERVAL_MS || '900000'); // 15 minutes
+
+        setInterval(() => {
+            this.runChecks().catch((error) => console.error('Approval SLA check error:', error));
+        }, intervalMs);
+    }
+
+    /**
+     * Send due reminders and escalate overdue approvals.
+     * Overlapping runs are skipped so a slow mail server cannot pile them up.
+     */
+    static async runChecks(): Promise<{ reminders: number; escalations: number }> {
+        if (this.running) {
+            return { reminders: 0, escalations: 0 };
+        }
+
+        this.running = true;
+        try {
+            const reminders = await this.sendReminders();
+            const escalations = await this.escalateOverdue();
+            return { reminders, escalations };
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Remind approvers whose deadline is within the lead time.
+     * The lead is capped at half the step's SLA so short SLAs are not reminded on arrival.
+     */
+    static async sendReminders(): Promise<number> {
+        const leadMinutes = parseInt(process.env.APPROVAL_REMINDER_LEAD_HOURS || '24') * 60;
+
+        const approvals = await Database.all<any>(
+            `SELECT a.id, a.approver_id, a.due_at, q.quote_number, r.title as rfq_title,
+                COALESCE(s.name, 'Level ' || a.level) as step_name,
+                u.email, u.full_name
+             FROM approvals a
+             JOIN quotations q ON a.quotation_id = q.id
+             JOIN rfqs r ON q.rfq_id = r.id
+             JOIN users u ON a.approver_id = u.id
+             LEFT JOIN quotation_approval_steps s ON a.step_id = s.id
+             WHERE a.status = 'pending' AND a.reminder_sent_at IS NULL AND a.escalated_at IS NULL
+               AND a.due_at > datetime('now')
+               AND a.due_at <= datetime('now', '+' || CAST(COALESCE(MIN(?, s.sla_hours * 30), ?) AS INTEGER) || ' minutes')`,
+            [leadMinutes, leadMinutes]
+        );
+
+        for (const approval of approvals) {
+            // Marked first: a failing mail server must not cause a reminder on every run
+            await Database.run('UPDATE approvals SET reminder_sent_at = CURRENT_TIMESTAMP WHERE id = ?', [approval.id]);
+
+            const details = {
+                quoteNumber: approval.quote_number,
+                rfqTitle: approval.rfq_title,
+                stepName: approval.step_name,
+                dueAt: this.parseTimestamp(approval.due_at)
+            };
+
+            const delegate = await ApprovalDelegationService.getActiveDelegate(Database, approval.approver_id);
+
+            try {
+                await EmailService.sendApprovalReminderEmail(approval.email, approval.full_name, details);
+                if (delegate) {
+                    await EmailService.sendApprovalReminderEmail(delegate.email, delegate.full_name, {
+                        ...details,
+                        onBehalfOf: approval.full_name
+                    });
+                }
+            } catch (error) {
+                console.error(`Failed to send approval reminder for approval ${approval.id}:`, error);
+            }
+        }
+
+        return approvals.length;
+    }
+
+    /**
+     * Hand overdue approvals to the step's backup approver, or flag them to admins when there is none
+     */
+    static async escalateOverdue(): Promise<number> {
+        const approvals = await Database.all<any>(
+            `SELECT a.*, q.quote_number, r.title as rfq_title,
+                COALESCE(s.name, 'Level ' || a.level) as step_name, s.backup_approver_id,
+                u.full_name as approver_name,
+                CAST((julianday('now') - julianday(a.due_at)) * 24 AS INTEGER) as overdue_hours
+             FROM approvals a
+             JOIN quotations q ON a.quotation_id = q.id
+             JOIN rfqs r ON q.rfq_id = r.id
+             JOIN users u ON a.approver_id = u.id
+             LEFT JOIN quotation_approval_steps s ON a.step_id = s.id
+             WHERE a.status = 'pending' AND a.escalated_at IS NULL AND a.due_at <= datetime('now')
+             ORDER BY a.due_at ASC`
+        );
+
+        let escalated = 0;
+        for (const approval of approvals) {
+            const details = {
+                quoteNumber: approval.quote_number,
+                rfqTitle: approval.rfq_title,
+                stepName: approval.step_name,
+                originalApprover: approval.approver_name,
+                overdueHours: approval.overdue_hours
+            };
+
+            const escalation = await Database.transaction(async (tx) => {
+                // The approver may have decided since the overdue list was read
+                const current = await tx.get<any>('SELECT status, escalated_at FROM approvals WHERE id = ?', [
+                    approval.id
+                ]);
+                if (current.status !== 'pending' || current.escalated_at) {
+                    return null;
+                }
+
+                // A backup's own overdue seat goes straight to admins
+                if (approval.backup_approver_id && approval.backup_approver_id !== approval.approver_id) {
+                    try {
+                        await this.reassign(tx, approval, approval.backup_approver_id);
+                        const backup = await tx.get<any>('SELECT email, full_name FROM users WHERE id = ?', [
+                            approval.backup_approver_id
+                        ]);
+                        return { backup };
+                    } catch (error) {
+                        if (!(error instanceof ApprovalReassignError)) throw error;
+                        console.warn(`Backup approver unavailable for approval ${approval.id}: ${error.message}`);
+                    }
+                }
+
+                // Left with the original approver; admins are asked to step in
+                await tx.run('UPDATE approvals SET escalated_at = CURRENT_TIMESTAMP WHERE id = ?', [approval.id]);
+                return { backup: null };
+            });
+
+            if (!escalation) continue;
+            escalated++;
+
+            try {
+                if (escalation.backup) {
+                    await EmailService.sendApprovalEscalationEmail(
+                        escalation.backup.email,
+                        escalation.backup.full_name,
+                        details,
+                        true
+                    );
+                } else {
+                    const admins = await Database.all<any>(
+                        `SELECT email, full_name FROM users WHERE role = 'admin' AND is_active = 1`
+                    );
+                    for (const admin of admins) {
+                        await EmailService.sendApprovalEscalationEmail(admin.email, admin.full_name, details, false);
+                    }
+                }
+            } catch (error) {
+                console.error(`Failed to send escalation email for approval ${approval.id}:`, error);
+            }
+        }
+
+        return escalated;
+    }
+
+    /**
+     * Move a pending approval's seat to another approver.
+     * The original row is skipped and marked escalated; the new row restarts the step's SLA.
+     * Must run inside a transaction.
+     * @param reassignedBy - Admin moving the seat; null when the SLA escalation does
+     * @returns ID of the new approval row
+     */
+    static async reassign(
+        tx: QueryRunner,
+        approval: {
+            id: number;
+            quotation_id: number;
+            amendment_id: number | null;
+            approver_id: number;
+            level: number;
+            step_id: number | null;
+        },
+        newApproverId: number,
+        reassignedBy: number | null = null
+    ): Promise<number> {
+        if (newApproverId === approval.approver_id) {
+            throw new ApprovalReassignError('Approval is already assigned to this approver');
+        }
+
+        const approver = await tx.get<any>(
+            `SELECT id FROM users WHERE id = ? AND role = 'approver' AND is_active = 1`,
+            [newApproverId]
+        );
+
+        if (!approver) {
+            throw new ApprovalReassignError('New approver must be an active approver');
+        }
+
+        if (await ApprovalDelegationService.occupiesStep(tx, approval, newApproverId)) {
+            throw new ApprovalReassignError('New approver already holds a seat on this approval step');
+        }
+
+        await tx.run(
+            `UPDATE approvals SET status = 'skipped', escalated_at = COALESCE(escalated_at, CURRENT_TIMESTAMP)
+             WHERE id = ?`,
+            [approval.id]
+        );
+
+        const result = await tx.run(
+            `INSERT INTO approvals (quotation_id, amendment_id, approver_id, level, step_id, status, activated_at, due_at, escalated_from)
+             VALUES (?, ?, ?, ?, ?, 'pending', CURRENT_TIMESTAMP,
+                (SELECT datetime('now', '+' || sla_hours || ' hours') FROM quotation_approval_steps WHERE id = ?), ?)`,
+            [
+                approval.quotation_id,
+                approval.amendment_id,
+                newApproverId,
+                approval.level,
+                approval.step_id,
+                approval.step_id,
+                approval.id
+            ]
+        );
+
+        await AuditService.log(tx, {
+            userId: reassignedBy,
+            action: reassignedBy ? 'approval.reassigned' : 'approval.escalated',
+            entityType: 'approval',
+            entityId: approval.id,
+            details: { quotationId: approval.quotation_id, newApprovalId: result.lastID },
+            before: { approver_id: approval.approver_id, status: 'pending' },
+            after: { approver_id: newApproverId, status: 'skipped' }
+        });
+
+        return result.lastID;
+    }
+
+    /**
+     * SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+     */
+    private static parseTimestamp(value: string): Date {
+        return new Date(value.replace(' ', 'T') + 'Z');
+    }
+}
+
+export { ApprovalSlaService };
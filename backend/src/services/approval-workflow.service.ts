@@ -0,0 +1,413 @@
+/**
+ * Approval Workflow Service
+ * Evaluates approval policies at submit time and advances multi-level approvals
+ */
+
+import { QueryRunner } from '../database/database';
+
+export type StepMode = 'all' | 'any' | 'quorum';
+export type WorkflowOutcome = 'approved' | 'rejected' | 'in_progress';
+
+export interface PolicyContext {
+    amount: number;
+    category: string | null;
+    department: string | null;
+}
+
+export interface PolicyStepDefinition {
+    level: number;
+    name: string;
+    group_id: number | null;
+    mode: StepMode;
+    required_approvals: number | null;
+    sla_hours: number | null;
+    backup_approver_id: number | null;
+}
+
+/**
+ * Raised when a quotation cannot be routed for approval
+ */
+export class ApprovalWorkflowError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ApprovalWorkflowError';
+    }
+}
+
+/**
+ * Raised when an approval is no longer pending by the time a decision is written:
+ * decided concurrently, skipped by an escalation, or closed with its step
+ */
+export class ApprovalConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ApprovalConflictError';
+    }
+}
+
+class ApprovalWorkflowService {
+    // Used when no policy matches: two approvers from the whole approver pool, in any order
+    private static readonly DEFAULT_QUORUM = 2;
+
+    /**
+     * Find the first active policy, by priority, whose conditions match.
+     * Amount bounds are inclusive for min_amount and exclusive for max_amount;
+     * a NULL condition matches anything.
+     */
+    static async findPolicy(db: QueryRunner, context: PolicyContext): Promise<any | null> {
+        const policy = await db.get<any>(
+            `SELECT * FROM approval_policies
+             WHERE is_active = 1
+               AND (min_amount IS NULL OR ? >= min_amount)
+               AND (max_amount IS NULL OR ? < max_amount)
+               AND (category IS NULL OR category = ?)
+               AND (department IS NULL OR department = ?)
+             ORDER BY priority ASC, id ASC
+             LIMIT 1`,
+            [context.amount, context.amount, context.category, context.department]
+        );
+
+        return policy || null;
+    }
+
+    /**
+     * Active approvers who may sign a step (group members, or every approver when no group)
+     */
+    static async getStepApprovers(db: QueryRunner, groupId: number | null): Promise<number[]> {
+        const rows = groupId
+            ? await db.all<{ id: number }>(
+                `SELECT u.id FROM approval_group_members m
+                 JOIN users u ON m.user_id = u.id
+                 WHERE m.group_id = ? AND u.role = 'approver' AND u.is_active = 1
+                 ORDER BY u.id ASC`,
+                [groupId]
+            )
+            : await db.all<{ id: number }>(
+                `SELECT id FROM users WHERE role = 'approver' AND is_active = 1 ORDER BY id ASC`
+            );
+
+        return rows.map((row) => row.id);
+    }
+
+    /**
+     * Number of approvals a step needs given its mode and eligible approvers
+     */
+    static resolveRequiredApprovals(mode: StepMode, configured: number | null, approverCount: number): number {
+        switch (mode) {
+            case 'all':
+                return approverCount;
+            case 'any':
+                return 1;
+            case 'quorum':
+                return configured || 1;
+        }
+    }
+
+    /**
+     * Snapshot the matching policy for a quotation, or for an amendment of its purchase order,
+     * and activate its first level. Amendments are matched on their amended total.
+     * Must run inside a transaction.
+     * @returns Name of the applied policy and number of approval rows created
+     */
+    static async startWorkflow(
+        tx: QueryRunner,
+        quotationId: number,
+        amendmentId: number | null = null
+    ): Promise<{ policyName: string; approvals: number }> {
+        const quotation = await tx.get<any>(
+            `SELECT q.id, q.total_amount, r.category, r.department
+             FROM quotations q
+             JOIN rfqs r ON q.rfq_id = r.id
+             WHERE q.id = ?`,
+            [quotationId]
+        );
+
+        if (!quotation) {
+            throw new ApprovalWorkflowError('Quotation not found');
+        }
+
+        let amount = quotation.total_amount;
+        if (amendmentId) {
+            const amendment = await tx.get<any>('SELECT total_amount FROM po_amendments WHERE id = ?', [amendmentId]);
+            if (!amendment) {
+                throw new ApprovalWorkflowError('Amendment not found');
+            }
+            amount = amendment.total_amount;
+        }
+
+        const policy = await this.findPolicy(tx, {
+            amount,
+            category: quotation.category,
+            department: quotation.department
+        });
+
+        let steps: PolicyStepDefinition[];
+        if (policy) {
+            steps = await tx.all<PolicyStepDefinition>(
+                `SELECT level, name, group_id, mode, required_approvals, sla_hours, backup_approver_id
+                 FROM approval_policy_steps WHERE policy_id = ? ORDER BY level ASC, id ASC`,
+                [policy.id]
+            );
+
+            if (steps.length === 0) {
+                throw new ApprovalWorkflowError(`Approval policy "${policy.name}" has no steps`);
+            }
+        } else {
+            steps = [{
+                level: 1,
+                name: 'Default approval',
+                group_id: null,
+                mode: 'quorum',
+                required_approvals: this.DEFAULT_QUORUM,
+                sla_hours: parseInt(process.env.APPROVAL_DEFAULT_SLA_HOURS || '48'),
+                backup_approver_id: null
+            }];
+        }
+
+        // Retire anything left over from an earlier submission
+        await tx.run(
+            `UPDATE approvals SET status = 'skipped'
+             WHERE quotation_id = ? AND amendment_id IS ? AND status IN ('waiting', 'pending')`,
+            [quotationId, amendmentId]
+        );
+        await tx.run(
+            `UPDATE quotation_approval_steps SET status = 'skipped', completed_at = CURRENT_TIMESTAMP
+             WHERE quotation_id = ? AND amendment_id IS ? AND status IN ('waiting', 'active')`,
+            [quotationId, amendmentId]
+        );
+
+        let approvalCount = 0;
+        for (const step of steps) {
+            const approverIds = await this.getStepApprovers(tx, step.group_id);
+            let required = this.resolveRequiredApprovals(step.mode, step.required_approvals, approverIds.length);
+
+            // The default policy shrinks to the available pool; configured steps must be satisfiable
+            if (!policy) {
+                required = Math.min(required, approverIds.length);
+            }
+
+            if (approverIds.length === 0 || required > approverIds.length) {
+                throw new ApprovalWorkflowError(
+                    `Approval step "${step.name}" needs ${Math.max(required, 1)} approver(s) but only ${approverIds.length} are available`
+                );
+            }
+
+            const stepResult = await tx.run(
+                `INSERT INTO quotation_approval_steps
+                 (quotation_id, amendment_id, policy_id, level, name, group_id, mode, required_approvals, sla_hours, backup_approver_id, status)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'waiting')`,
+                [
+                    quotationId,
+                    amendmentId,
+                    policy ? policy.id : null,
+                    step.level,
+                    step.name,
+                    step.group_id,
+                    step.mode,
+                    required,
+                    step.sla_hours,
+                    step.backup_approver_id
+                ]
+            );
+
+            for (const approverId of approverIds) {
+                await tx.run(
+                    `INSERT INTO approvals (quotation_id, amendment_id, approver_id, level, step_id, status)
+                     VALUES (?, ?, ?, ?, ?, 'waiting')`,
+                    [quotationId, amendmentId, approverId, step.level, stepResult.lastID]
+                );
+                approvalCount++;
+            }
+        }
+
+        await this.activateLevel(tx, quotationId, amendmentId, steps[0].level);
+
+        return { policyName: policy ? policy.name : 'Default approval', approvals: approvalCount };
+    }
+
+    /**
+     * Record an approver's decision and advance the workflow.
+     * actedBy differs from the assigned approver when a delegate signs; signed is made with actedBy's signing key.
+     * Must run inside a transaction.
+     * @returns Resulting state of the quotation's approval
+     * @throws ApprovalConflictError when the approval is not pending at write time
+     */
+    static async recordDecision(
+        tx: QueryRunner,
+        approval: { id: number; quotation_id: number; amendment_id: number | null; step_id: number | null },
+        decision: 'approved' | 'rejected',
+        actedBy: number,
+        comments: string | null,
+        signatureHash: string,
+        signed: { signature: string; keyId: number }
+    ): Promise<WorkflowOutcome> {
+        // The status read before the transaction may be stale; only a row still pending takes the decision
+        const result = await tx.run(
+            `UPDATE approvals
+             SET status = ?, comments = ?, approved_at = CURRENT_TIMESTAMP, signature_hash = ?, signature = ?,
+                 signing_key_id = ?, acted_by = ?
+             WHERE id = ? AND status = 'pending'`,
+            [decision, comments, signatureHash, signed.signature, signed.keyId, actedBy, approval.id]
+        );
+        if (result.changes !== 1) {
+            throw new ApprovalConflictError('Approval is no longer pending');
+        }
+
+        const step = approval.step_id
+            ? await tx.get<any>('SELECT * FROM quotation_approval_steps WHERE id = ?', [approval.step_id])
+            : null;
+
+        const quotationId = approval.quotation_id;
+        const amendmentId = approval.amendment_id;
+
+        // Rows without a step predate policies: any rejection ends the process
+        if (!step) {
+            if (decision === 'rejected') {
+                return this.finish(tx, quotationId, amendmentId, 'rejected');
+            }
+            const outstanding = await tx.get<{ count: number }>(
+                `SELECT COUNT(*) as count FROM approvals
+                 WHERE quotation_id = ? AND amendment_id IS ? AND status IN ('waiting', 'pending')`,
+                [quotationId, amendmentId]
+            );
+            return outstanding!.count === 0
+                ? this.finish(tx, quotationId, amendmentId, 'approved')
+                : this.markInProgress(tx, quotationId, amendmentId);
+        }
+
+        const counts = await tx.get<{ approved: number; rejected: number; eligible: number }>(
+            `SELECT
+                SUM(CASE WHEN status = 'approved' THEN 1 ELSE 0 END) as approved,
+                SUM(CASE WHEN status = 'rejected' THEN 1 ELSE 0 END) as rejected,
+                SUM(CASE WHEN status != 'skipped' THEN 1 ELSE 0 END) as eligible
+             FROM approvals WHERE step_id = ?`,
+            [step.id]
+        );
+
+        if (counts!.approved >= step.required_approvals) {
+            await tx.run(
+                `UPDATE quotation_approval_steps SET status = 'approved', completed_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                [step.id]
+            );
+            // Remaining approvers in a satisfied any-of / quorum step are no longer needed
+            await tx.run(
+                `UPDATE approvals SET status = 'skipped' WHERE step_id = ? AND status IN ('waiting', 'pending')`,
+                [step.id]
+            );
+        } else if (counts!.eligible - counts!.rejected < step.required_approvals) {
+            await tx.run(
+                `UPDATE quotation_approval_steps SET status = 'rejected', completed_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                [step.id]
+            );
+            return this.finish(tx, quotationId, amendmentId, 'rejected');
+        } else {
+            return this.markInProgress(tx, quotationId, amendmentId);
+        }
+
+        // Step approved: the level completes once every parallel step in it is approved
+        const openInLevel = await tx.get<{ count: number }>(
+            `SELECT COUNT(*) as count FROM quotation_approval_steps
+             WHERE quotation_id = ? AND amendment_id IS ? AND level = ? AND status IN ('waiting', 'active')`,
+            [quotationId, amendmentId, step.level]
+        );
+
+        if (openInLevel!.count > 0) {
+            return this.markInProgress(tx, quotationId, amendmentId);
+        }
+
+        const nextLevel = await tx.get<{ level: number | null }>(
+            `SELECT MIN(level) as level FROM quotation_approval_steps
+             WHERE quotation_id = ? AND amendment_id IS ? AND status = 'waiting'`,
+            [quotationId, amendmentId]
+        );
+
+        if (nextLevel?.level) {
+            await this.activateLevel(tx, quotationId, amendmentId, nextLevel.level);
+            return this.markInProgress(tx, quotationId, amendmentId);
+        }
+
+        return this.finish(tx, quotationId, amendmentId, 'approved');
+    }
+
+    /**
+     * Open every step of a level for decisions; the step's SLA starts now
+     */
+    private static async activateLevel(
+        tx: QueryRunner,
+        quotationId: number,
+        amendmentId: number | null,
+        level: number
+    ): Promise<void> {
+        await tx.run(
+            `UPDATE quotation_approval_steps SET status = 'active', activated_at = CURRENT_TIMESTAMP
+             WHERE quotation_id = ? AND amendment_id IS ? AND level = ? AND status = 'waiting'`,
+            [quotationId, amendmentId, level]
+        );
+        await tx.run(
+            `UPDATE approvals SET status = 'pending', activated_at = CURRENT_TIMESTAMP,
+                due_at = (
+                    SELECT datetime('now', '+' || s.sla_hours || ' hours')
+                    FROM quotation_approval_steps s WHERE s.id = approvals.step_id
+                )
+             WHERE quotation_id = ? AND amendment_id IS ? AND level = ? AND status = 'waiting'`,
+            [quotationId, amendmentId, level]
+        );
+    }
+
+    /**
+     * Amendments stay pending_approval until finished; only quotations track review progress
+     */
+    private static async markInProgress(
+        tx: QueryRunner,
+        quotationId: number,
+        amendmentId: number | null
+    ): Promise<WorkflowOutcome> {
+        if (amendmentId) {
+            return 'in_progress';
+        }
+
+        await tx.run(
+            `UPDATE quotations SET status = 'under_review', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+            [quotationId]
+        );
+        return 'in_progress';
+    }
+
+    /**
+     * Close the workflow: outstanding approvals and steps are skipped.
+     * An approved amendment is only marked here; the caller applies it to the purchase order.
+     */
+    private static async finish(
+        tx: QueryRunner,
+        quotationId: number,
+        amendmentId: number | null,
+        outcome: 'approved' | 'rejected'
+    ): Promise<WorkflowOutcome> {
+        await tx.run(
+            `UPDATE approvals SET status = 'skipped'
+             WHERE quotation_id = ? AND amendment_id IS ? AND status IN ('waiting', 'pending')`,
+            [quotationId, amendmentId]
+        );
+        await tx.run(
+            `UPDATE quotation_approval_steps SET status = 'skipped', completed_at = CURRENT_TIMESTAMP
+             WHERE quotation_id = ? AND amendment_id IS ? AND status IN ('waiting', 'active')`,
+            [quotationId, amendmentId]
+        );
+
+        if (amendmentId) {
+            await tx.run(
+                `UPDATE po_amendments SET status = ?, decided_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                [outcome, amendmentId]
+            );
+            return outcome;
+        }
+
+        await tx.run(
+            `UPDATE quotations SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+            [outcome, quotationId]
+        );
+        return outcome;
+    }
+}
+
+export { ApprovalWorkflowService };
@@ -0,0 +1,305 @@
+/**
+ * Audit Service
+ * Records state changes in audit_logs. The log is a hash chain: each row stores the hash of the row before it
+ * and a SHA-256 over its own fields and that link, so editing or deleting an entry breaks verification.
+ */
+
+import { Database, QueryRunner, Transaction } from '../database/database';
+import { HashUtil } from '../utils/security/hash.util';
+import { currentRequestContext } from '../utils/request-context.util';
+
+export interface AuditEntry {
+    userId: number | null;
+    action: string;
+    entityType: string;
+    entityId: number | null;
+    details?: Record<string, any> | null;
+    ipAddress?: string | null; // Defaults to the IP of the request being handled
+    before?: Record<string, any> | null; // Entity state before the change; omit for creations
+    after?: Record<string, any> | null; // Entity state after the change; omit for deletions
+}
+
+export interface AuditFilters {
+    userId?: number;
+    action?: string;
+    entityType?: string;
+    entityId?: number;
+    from?: string;
+    to?: string;
+}
+
+export type AuditChainIssue = 'altered' | 'deleted';
+
+export interface AuditChainProblem {
+    id: number;
+    issue: AuditChainIssue;
+    message: string;
+}
+
+export interface AuditChainReport {
+    valid: boolean;
+    checked: number;
+    lastId: number | null;
+    problems: AuditChainProblem[];
+}
+
+// Bookkeeping columns, left out of diffs
+const IGNORED_CHANGE_FIELDS = ['id', 'created_at', 'updated_at'];
+
+// Verification reads the chain in pages and stops reporting after this many problems
+const VERIFY_BATCH_SIZE = 1000;
+const MAX_REPORTED_PROBLEMS = 100;
+
+class AuditService {
+    /**
+     * prev_hash of the first entry in the chain
+     */
+    static readonly GENESIS_HASH = '0'.repeat(64);
+
+    /**
+     * Append an audit entry. Pass the transaction runner so the entry commits with the change it describes.
+     */
+    static async log(db: QueryRunner, entry: AuditEntry): Promise<void> {
+        // Reading the chain head and appending must not interleave with another append
+        if (db instanceof Transaction) {
+            await this.append(db, entry);
+        } else {
+            await Database.transaction((tx) => this.append(tx, entry));
+        }
+    }
+
+    /**
+     * Fields that differ between two states of an entity, as { field: { from, to } }
+     */
+    static diff(
+        before: Record<string, any> | null | undefined,
+        after: Record<string, any> | null | undefined
+    ): Record<string, { from: any; to: any }> | null {
+        if (!before && !after) {
+            return null;
+        }
+
+        const changes: Record<string, { from: any; to: any }> = {};
+        const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+        for (const field of fields) {
+            if (IGNORED_CHANGE_FIELDS.includes(field)) continue;
+
+            const from = before?.[field] ?? null;
+            const to = after?.[field] ?? null;
+
+            if (JSON.stringify(from) !== JSON.stringify(to)) {
+                changes[field] = { from, to };
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Chain hash of a stored row: SHA-256 of the previous row's hash and this row's fields
+     */
+    static hashEntry(prevHash: string, row: any): string {
+        return HashUtil.sha256(
+            prevHash +
+                JSON.stringify([
+                    row.id,
+                    row.user_id,
+                    row.action,
+                    row.entity_type,
+                    row.entity_id,
+                    row.details,
+                    row.changes ?? null,
+                    row.ip_address,
+                    row.created_at
+                ])
+        );
+    }
+
+    /**
+     * Walk the whole chain and report every altered or missing entry
+     */
+    static async verifyChain(db: QueryRunner): Promise<AuditChainReport> {
+        const problems: AuditChainProblem[] = [];
+        const report = (id: number, issue: AuditChainIssue, message: string) => {
+            if (problems.length < MAX_REPORTED_PROBLEMS) {
+                problems.push({ id, issue, message });
+            }
+        };
+
+        let checked = 0;
+        let previous: { id: number; hash: string } | null = null;
+
+        for (;;) {
+            const rows: any[] = await db.all(
+                'SELECT * FROM audit_logs WHERE id > ? ORDER BY id ASC LIMIT ?',
+                [previous?.id ?? 0, VERIFY_BATCH_SIZE]
+            );
+
+            for (const row of rows) {
+                const expectedPrev = previous ? previous.hash : this.GENESIS_HASH;
+
+                if (row.prev_hash !== expectedPrev) {
+                    const missingFrom = previous ? previous.id + 1 : 1;
+                    report(
+                        row.id,
+                        'deleted',
+                        row.id > missingFrom
+                            ? `${this.describeRange(missingFrom, row.id - 1)} missing before entry ${row.id}`
+                            : `Entry ${row.id} does not link to the entry before it`
+                    );
+                }
+
+                if (row.hash !== this.hashEntry(row.prev_hash, row)) {
+                    report(row.id, 'altered', `Entry ${row.id} does not match its hash`);
+                }
+
+                // Continue from the stored hash so one bad entry is reported once
+                previous = { id: row.id, hash: row.hash };
+                checked++;
+            }
+
+            if (rows.length < VERIFY_BATCH_SIZE) break;
+        }
+
+        // AUTOINCREMENT never reuses ids, so entries cut from the end of the chain leave the sequence ahead of it
+        const sequence = await db.get<{ seq: number }>("SELECT seq FROM sqlite_sequence WHERE name = 'audit_logs'");
+        const lastId = previous?.id ?? null;
+        if (sequence && sequence.seq > (lastId ?? 0)) {
+            const missingFrom = (lastId ?? 0) + 1;
+            report(missingFrom, 'deleted', `${this.describeRange(missingFrom, sequence.seq)} missing from the end of the log`);
+        }
+
+        return { valid: problems.length === 0, checked, lastId, problems };
+    }
+
+    /**
+     * Audit entries matching the filters, newest first
+     * @param from - Start of the range, 'YYYY-MM-DD HH:MM:SS' UTC
+     * @param to - End of the range, 'YYYY-MM-DD HH:MM:SS' UTC
+     * @param limit - Omit for all matching entries
+     */
+    static async search(
+        db: QueryRunner,
+        filters: AuditFilters,
+        limit?: number,
+        offset: number = 0
+    ): Promise<{ entries: any[]; total: number }> {
+        let where = ' WHERE 1=1';
+        const params: any[] = [];
+
+        if (filters.userId) {
+            where += ' AND l.user_id = ?';
+            params.push(filters.userId);
+        }
+
+        if (filters.action) {
+            where += ' AND l.action = ?';
+            params.push(filters.action);
+        }
+
+        if (filters.entityType) {
+            where += ' AND l.entity_type = ?';
+            params.push(filters.entityType);
+        }
+
+        if (filters.entityId) {
+            where += ' AND l.entity_id = ?';
+            params.push(filters.entityId);
+        }
+
+        if (filters.from) {
+            where += ' AND l.created_at >= ?';
+            params.push(filters.from);
+        }
+
+        if (filters.to) {
+            where += ' AND l.created_at < ?';
+            params.push(filters.to);
+        }
+
+        const rows = await db.all<any>(
+            `SELECT l.*, u.full_name as user_name, u.email as user_email
+             FROM audit_logs l
+             LEFT JOIN users u ON l.user_id = u.id` +
+                where +
+                ' ORDER BY l.id DESC' +
+                (limit === undefined ? '' : ' LIMIT ? OFFSET ?'),
+            limit === undefined ? params : [...params, limit, offset]
+        );
+
+        const count = await db.get<{ total: number }>('SELECT COUNT(*) as total FROM audit_logs l' + where, params);
+
+        return { entries: rows.map((row) => this.parse(row)), total: count?.total || 0 };
+    }
+
+    /**
+     * Distinct actions and entity types, for filter options
+     */
+    static async getFacets(db: QueryRunner): Promise<{ actions: string[]; entityTypes: string[] }> {
+        const [actions, entityTypes] = await Promise.all([
+            db.all<{ action: string }>('SELECT DISTINCT action FROM audit_logs ORDER BY action'),
+            db.all<{ entity_type: string }>('SELECT DISTINCT entity_type FROM audit_logs ORDER BY entity_type')
+        ]);
+
+        return {
+            actions: actions.map((row) => row.action),
+            entityTypes: entityTypes.map((row) => row.entity_type)
+        };
+    }
+
+    /**
+     * Audit trail of one entity, oldest first
+     */
+    static async getEntityHistory(db: QueryRunner, entityType: string, entityId: number): Promise<any[]> {
+        const rows = await db.all<any>(
+            `SELECT l.id, l.user_id, l.action, l.details, l.changes, l.created_at, u.full_name as user_name, u.role as user_role
+             FROM audit_logs l
+             LEFT JOIN users u ON l.user_id = u.id
+             WHERE l.entity_type = ? AND l.entity_id = ?
+             ORDER BY l.created_at ASC, l.id ASC`,
+            [entityType, entityId]
+        );
+
+        return rows.map((row) => this.parse(row));
+    }
+
+    private static async append(tx: QueryRunner, entry: AuditEntry): Promise<void> {
+        const head = await tx.get<{ hash: string }>('SELECT hash FROM audit_logs ORDER BY id DESC LIMIT 1');
+        const prevHash = head?.hash ?? this.GENESIS_HASH;
+        const changes = this.diff(entry.before, entry.after);
+
+        const result = await tx.run(
+            `INSERT INTO audit_logs (user_id, action, entity_type, entity_id, details, changes, ip_address, prev_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                entry.userId,
+                entry.action,
+                entry.entityType,
+                entry.entityId,
+                entry.details ? JSON.stringify(entry.details) : null,
+                changes ? JSON.stringify(changes) : null,
+                entry.ipAddress || currentRequestContext()?.ipAddress || null,
+                prevHash
+            ]
+        );
+
+        // Hash the row as stored, with the column types and created_at verification will read back
+        const row = await tx.get<any>('SELECT * FROM audit_logs WHERE id = ?', [result.lastID]);
+        await tx.run('UPDATE audit_logs SET hash = ? WHERE id = ?', [this.hashEntry(prevHash, row), result.lastID]);
+    }
+
+    private static describeRange(from: number, to: number): string {
+        return from === to ? `Entry ${from} is` : `Entries ${from}-${to} are`;
+    }
+
+    private static parse(row: any): any {
+        return {
+            ...row,
+            details: row.details ? JSON.parse(row.details) : null,
+            changes: row.changes ? JSON.parse(row.changes) : null
+        };
+    }
+}
+
+export { AuditService };
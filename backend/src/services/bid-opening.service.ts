@@ -0,0 +1,258 @@
+/**
+ * Bid Opening Service
+ * Sealed-bid RFQs encrypt each quotation's amount and line items to a per-RFQ opening key.
+ * After the deadline the required number of admins release the key; the last release opens every
+ * submitted bid at once, starts their approval workflows and records a signed bid opening report.
+ */
+
+import crypto from 'crypto';
+import { QueryRunner } from '../database/database';
+import { Base64Util } from '../utils/security/base64.util';
+import { HashUtil } from '../utils/security/hash.util';
+import { SealedBidUtil } from '../utils/security/sealed-bid.util';
+import { SignatureUtil } from '../utils/security/signature.util';
+import { SystemKeyUtil } from '../utils/security/system-key.util';
+import { ApprovalWorkflowService } from './approval-workflow.service';
+import { AuditService } from './audit.service';
+import { QuotationSignatureService } from './quotation-signature.service';
+import { RfqDeadlineService } from './rfq-deadline.service';
+
+/**
+ * Raised when the bids of a sealed-bid RFQ cannot be opened
+ */
+export class BidOpeningError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BidOpeningError';
+    }
+}
+
+export interface SealedBid {
+    totalAmount: number;
+    lineItems: any[];
+}
+
+class BidOpeningService {
+    /**
+     * Whether a quotation's amount and line items are still encrypted
+     */
+    static isSealed(quotation: any): boolean {
+        return !!quotation.sealed_payload && !quotation.unsealed_at;
+    }
+
+    /**
+     * Hide what a sealed quotation would reveal; total_amount is only a placeholder until opening
+     */
+    static maskQuotation<T extends Record<string, any>>(quotation: T): T & { sealed: boolean } {
+        const { sealed_payload, ...rest } = quotation;
+
+        if (!this.isSealed(quotation)) {
+            return { ...rest, sealed: false } as any;
+        }
+
+        return { ...rest, total_amount: null, line_items: null, sealed: true } as any;
+    }
+
+    /**
+     * Encrypt a bid to the RFQ's opening key, creating the key on the first bid
+     * @returns Sealed payload to store on the quotation
+     */
+    static async seal(tx: QueryRunner, rfqId: number, bid: SealedBid): Promise<string> {
+        let key = await tx.get<{ public_key: string }>('SELECT public_key FROM rfq_opening_keys WHERE rfq_id = ?', [rfqId]);
+
+        if (!key) {
+            const passphrase = crypto.randomBytes(32).toString('hex');
+            const { publicKey, encryptedPrivateKey } = SealedBidUtil.generateOpeningKey(passphrase);
+
+            await tx.run(
+                `INSERT INTO rfq_opening_keys (rfq_id, public_key, encrypted_private_key, wrapped_passphrase)
+                 VALUES (?, ?, ?, ?)`,
+                [rfqId, publicKey, encryptedPrivateKey, SystemKeyUtil.encrypt(Buffer.from(passphrase))]
+            );
+            key = { public_key: publicKey };
+        }
+
+        return SealedBidUtil.seal(bid, key.public_key);
+    }
+
+    /**
+     * Opening state of an RFQ: releases so far, how many are needed and the report once opened
+     */
+    static async getStatus(db: QueryRunner, rfq: any): Promise<any> {
+        const releases = await db.all(
+            `SELECT b.released_by, u.full_name as released_by_name, b.released_at
+             FROM bid_opening_releases b
+             JOIN users u ON b.released_by = u.id
+             WHERE b.rfq_id = ?
+             ORDER BY b.released_at ASC, b.id ASC`,
+            [rfq.id]
+        );
+
+        const sealedCount = await db.get<{ count: number }>(
+            `SELECT COUNT(*) as count FROM quotations
+             WHERE rfq_id = ? AND sealed_payload IS NOT NULL AND unsealed_at IS NULL AND status != 'draft'`,
+            [rfq.id]
+        );
+
+        const report = await db.get<any>('SELECT * FROM bid_opening_reports WHERE rfq_id = ?', [rfq.id]);
+
+        return {
+            sealedBids: !!rfq.sealed_bids,
+            deadline: rfq.deadline,
+            deadlinePassed: await RfqDeadlineService.deadlinePassed(db, rfq.id),
+            approvalsRequired: rfq.opening_approvals_required,
+            releases,
+            sealedQuotations: sealedCount?.count || 0,
+            openedAt: rfq.bids_opened_at,
+            report: report ? { ...JSON.parse(report.report), verification: this.verifyReport(report) } : null
+        };
+    }
+
+    /**
+     * Record an admin's release of the opening key; the release that reaches the required count opens the bids.
+     * Must run inside a transaction.
+     */
+    static async release(tx: QueryRunner, rfq: any, userId: number): Promise<{ opened: boolean; releases: number }> {
+        if (!rfq.sealed_bids) {
+            throw new BidOpeningError('This RFQ does not use sealed bids');
+        }
+        if (rfq.bids_opened_at) {
+            throw new BidOpeningError('Bids have already been opened');
+        }
+        if (!(await RfqDeadlineService.deadlinePassed(tx, rfq.id))) {
+            throw new BidOpeningError('Sealed bids cannot be opened before the deadline');
+        }
+
+        const existing = await tx.get(
+            'SELECT id FROM bid_opening_releases WHERE rfq_id = ? AND released_by = ?',
+            [rfq.id, userId]
+        );
+        if (existing) {
+            throw new BidOpeningError('You have already released the opening key; another admin must release it');
+        }
+
+        await tx.run('INSERT INTO bid_opening_releases (rfq_id, released_by) VALUES (?, ?)', [rfq.id, userId]);
+
+        const count = await tx.get<{ count: number }>(
+            'SELECT COUNT(*) as count FROM bid_opening_releases WHERE rfq_id = ?',
+            [rfq.id]
+        );
+        const releases = count?.count || 0;
+
+        await AuditService.log(tx, {
+            userId,
+            action: 'rfq.bid_opening_released',
+            entityType: 'rfq',
+            entityId: rfq.id,
+            details: { releases, required: rfq.opening_approvals_required }
+        });
+
+        if (releases < rfq.opening_approvals_required) {
+            return { opened: false, releases };
+        }
+
+        await this.open(tx, rfq, userId);
+        return { opened: true, releases };
+    }
+
+    /**
+     * Decrypt every submitted bid, write the plaintext back to the quotation, route it for approval
+     * and sign a report listing all bids. Drafts that were never submitted stay sealed.
+     */
+    private static async open(tx: QueryRunner, rfq: any, userId: number): Promise<void> {
+        const key = await tx.get<any>('SELECT * FROM rfq_opening_keys WHERE rfq_id = ?', [rfq.id]);
+        const passphrase = key ? SystemKeyUtil.decrypt(key.wrapped_passphrase).toString() : null;
+
+        const quotations = await tx.all<any>(
+            `SELECT q.*, u.company_name as vendor_name
+             FROM quotations q
+             JOIN users u ON q.vendor_id = u.id
+             WHERE q.rfq_id = ? AND q.sealed_payload IS NOT NULL AND q.unsealed_at IS NULL AND q.status != 'draft'`,
+            [rfq.id]
+        );
+
+        const bids = [];
+        for (const quotation of quotations) {
+            const bid = SealedBidUtil.open<SealedBid>(quotation.sealed_payload, key.encrypted_private_key, passphrase!);
+
+            // Same terms the vendor signed when the quotation was created
+            const signature = await QuotationSignatureService.checkQuotation(tx, quotation, bid);
+            const signatureValid = signature.valid && signature.keyValidAtSigning !== false;
+
+            await tx.run(
+                `UPDATE quotations
+                 SET total_amount = ?, line_items = ?, unsealed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+                 WHERE id = ?`,
+                [bid.totalAmount, Base64Util.encodeJSON(bid.lineItems), quotation.id]
+            );
+
+            await ApprovalWorkflowService.startWorkflow(tx, quotation.id);
+
+            bids.push({
+                quotationId: quotation.id,
+                quoteNumber: quotation.quote_number,
+                vendor: { id: quotation.vendor_id, companyName: quotation.vendor_name },
+                totalAmount: bid.totalAmount,
+                currency: quotation.currency,
+                lineItems: bid.lineItems,
+                submittedAt: quotation.submitted_at,
+                signatureValid
+            });
+        }
+
+        bids.sort((a, b) => a.totalAmount - b.totalAmount);
+
+        const releases = await tx.all(
+            `SELECT b.released_by as userId, u.full_name as name, b.released_at as releasedAt
+             FROM bid_opening_releases b
+             JOIN users u ON b.released_by = u.id
+             WHERE b.rfq_id = ?
+             ORDER BY b.released_at ASC, b.id ASC`,
+            [rfq.id]
+        );
+
+        const openedAt = new Date().toISOString();
+        const report = JSON.stringify({
+            rfq: { id: rfq.id, rfqNumber: rfq.rfq_number, title: rfq.title, deadline: rfq.deadline },
+            openedAt,
+            releasedBy: releases,
+            bids
+        });
+        const { signature, publicKey } = SystemKeyUtil.sign(report);
+
+        await tx.run(
+            `INSERT INTO bid_opening_reports (rfq_id, report, report_hash, signature, public_key, opened_at)
+             VALUES (?, ?, ?, ?, ?, datetime(?))`,
+            [rfq.id, report, HashUtil.sha256(report), signature, publicKey, openedAt]
+        );
+
+        await tx.run(
+            'UPDATE rfqs SET bids_opened_at = datetime(?), updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [openedAt, rfq.id]
+        );
+
+        await AuditService.log(tx, {
+            userId,
+            action: 'rfq.bids_opened',
+            entityType: 'rfq',
+            entityId: rfq.id,
+            details: {
+                bids: bids.length,
+                releasedBy: releases.map((release: any) => release.userId),
+                invalidSignatures: bids.filter((bid) => !bid.signatureValid).map((bid) => bid.quoteNumber)
+            }
+        });
+    }
+
+    /**
+     * Check a bid opening report's signature and hash
+     */
+    static verifyReport(report: any): { signatureValid: boolean; hashValid: boolean } {
+        return {
+            signatureValid: SignatureUtil.verify(report.report, report.signature, report.public_key),
+            hashValid: HashUtil.sha256(report.report) === report.report_hash
+        };
+    }
+}
+
+export { BidOpeningService };
@@ -0,0 +1,270 @@
+/**
+ * Bid Tabulation Service
+ * Compares quotations line by line against the RFQ's requirement lines, finds the cheapest vendor per line and
+ * plans awards split across vendors
+ */
+
+import { QueryRunner } from '../database/database';
+import { BidOpeningService } from './bid-opening.service';
+import { LineItemService } from './line-item.service';
+import { PurchaseOrderService } from './purchase-order.service';
+import { RequirementLine, RequirementLineService } from './requirement-line.service';
+
+/**
+ * Raised when bids cannot be tabulated or a split award is not valid
+ */
+export class BidTabulationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BidTabulationError';
+    }
+}
+
+/**
+ * One vendor's answer to one requirement line
+ */
+export interface LineBid {
+    quotationId: number;
+    quoteNumber: string;
+    vendorId: number;
+    vendorName: string;
+    currency: string;
+    noBid: boolean;
+    quantity: number;
+    unitPrice: number | null; // Line total per unit, after discount and tax
+    total: number;
+    shortfall: boolean; // Quoted quantity is below the quantity requested
+}
+
+export interface SplitAwardLine {
+    lineNumber: number;
+    quotationId: number;
+}
+
+// Drafts were never sent and rejected quotations cannot be awarded
+const TABULATED_EXCLUDED_STATUSES = ['draft', 'rejected'];
+
+class BidTabulationService {
+    /**
+     * Every bid on every requirement line of an RFQ, with the cheapest bid per line and any award made
+     * @throws BidTabulationError while sealed bids are still closed
+     */
+    static async tabulate(db: QueryRunner, rfq: any): Promise<any> {
+        const requirementLines = await RequirementLineService.list(db, rfq.id);
+        const quotations = await db.all<any>(
+            `SELECT q.*, u.company_name as vendor_name
+             FROM quotations q JOIN users u ON q.vendor_id = u.id
+             WHERE q.rfq_id = ? AND q.status NOT IN (${TABULATED_EXCLUDED_STATUSES.map(() => '?').join(', ')})
+             ORDER BY q.submitted_at ASC, q.id ASC`,
+            [rfq.id, ...TABULATED_EXCLUDED_STATUSES]
+        );
+
+        if (quotations.some((quotation) => BidOpeningService.isSealed(quotation))) {
+            throw new BidTabulationError('Bids are sealed until the bid opening');
+        }
+
+        const awards = await db.all<any>(
+            `SELECT a.requirement_line_id, a.quotation_id, a.purchase_order_id, a.amount, q.quote_number, u.company_name as vendor_name
+             FROM rfq_line_awards a
+             JOIN quotations q ON a.quotation_id = q.id
+             JOIN users u ON q.vendor_id = u.id
+             WHERE a.rfq_id = ?`,
+            [rfq.id]
+        );
+
+        const bids = quotations.map((quotation) => ({
+            quotation,
+            lineItems: PurchaseOrderService.parseLineItems(quotation.line_items)
+        }));
+
+        const lines = requirementLines.map((line) => {
+            const lineBids = bids
+                .map(({ quotation, lineItems }) => this.lineBid(line, quotation, lineItems))
+                .filter((bid): bid is LineBid => bid !== null);
+            const award = awards.find((entry) => entry.requirement_line_id === line.id);
+
+            return {
+                ...line,
+                bids: lineBids,
+                cheapest: this.cheapest(lineBids),
+                award: award
+                    ? {
+                        quotationId: award.quotation_id,
+                        quoteNumber: award.quote_number,
+                        vendorName: award.vendor_name,
+                        purchaseOrderId: award.purchase_order_id,
+                        amount: award.amount
+                    }
+                    : null
+            };
+        });
+
+        const vendors = bids.map(({ quotation, lineItems }) => {
+            const answers = lines.map((line) => line.bids.find((bid) => bid.quotationId === quotation.id));
+
+            return {
+                quotationId: quotation.id,
+                quoteNumber: quotation.quote_number,
+                vendorId: quotation.vendor_id,
+                vendorName: quotation.vendor_name,
+                status: quotation.status,
+                currency: quotation.currency,
+                totalAmount: quotation.total_amount,
+                linesQuoted: answers.filter((bid) => bid && !bid.noBid).length,
+                linesNoBid: answers.filter((bid) => bid?.noBid).length,
+                missingMandatory: this.missingMandatory(requirementLines, lineItems)
+            };
+        });
+
+        const cheapestTotal = lines.reduce((sum, line) => sum + (line.cheapest?.total ?? 0), 0);
+
+        return {
+            rfqId: rfq.id,
+            lines,
+            vendors,
+            cheapestTotal: Math.round(cheapestTotal * 100) / 100,
+            mixedCurrencies: new Set(quotations.map((quotation) => quotation.currency)).size > 1
+        };
+    }
+
+    /**
+     * Mandatory requirement lines a quotation does not quote (declined with no bid, or not answered)
+     * @returns Their line numbers
+     */
+    static missingMandatory(requirementLines: RequirementLine[], lineItems: any[]): number[] {
+        return requirementLines
+            .filter((line) => line.mandatory)
+            .filter((line) => !lineItems.some((item) => item.requirement_line === line.line_number && !item.no_bid))
+            .map((line) => line.line_number);
+    }
+
+    /**
+     * Check a split award and group its lines by winning quotation.
+     * Every mandatory line must be awarded, each line at most once, and only to an approved quotation that quoted it.
+     * @returns Awarded line numbers by quotation ID
+     */
+    static async planSplitAward(db: QueryRunner, rfq: any, assignments: unknown): Promise<Map<number, number[]>> {
+        if (!Array.isArray(assignments) || assignments.length === 0) {
+            throw new BidTabulationError('At least one requirement line must be awarded');
+        }
+
+        const requirementLines = await RequirementLineService.list(db, rfq.id);
+        if (requirementLines.length === 0) {
+            throw new BidTabulationError('This RFQ has no requirement lines to award separately');
+        }
+
+        const plan = new Map<number, number[]>();
+        const awarded = new Set<number>();
+        const quotations = new Map<number, any>();
+
+        for (const assignment of assignments as SplitAwardLine[]) {
+            const lineNumber = Number(assignment?.lineNumber);
+            const quotationId = Number(assignment?.quotationId);
+
+            if (!requirementLines.some((line) => line.line_number === lineNumber)) {
+                throw new BidTabulationError(`The RFQ has no requirement line ${assignment?.lineNumber}`);
+            }
+            if (awarded.has(lineNumber)) {
+                throw new BidTabulationError(`Requirement line ${lineNumber} is awarded more than once`);
+            }
+
+            if (!quotations.has(quotationId)) {
+                const quotation = await db.get<any>('SELECT * FROM quotations WHERE id = ? AND rfq_id = ?', [quotationId, rfq.id]);
+                if (!quotation) {
+                    throw new BidTabulationError(`Quotation ${assignment?.quotationId} not found for this RFQ`);
+                }
+                if (quotation.status !== 'approved') {
+                    throw new BidTabulationError(`Quotation ${quotation.quote_number} is not approved`);
+                }
+                quotations.set(quotationId, quotation);
+            }
+
+            const lineItems = PurchaseOrderService.parseLineItems(quotations.get(quotationId).line_items);
+            if (!lineItems.some((item) => item.requirement_line === lineNumber && !item.no_bid)) {
+                throw new BidTabulationError(
+                    `Quotation ${quotations.get(quotationId).quote_number} does not quote requirement line ${lineNumber}`
+                );
+            }
+
+            awarded.add(lineNumber);
+            plan.set(quotationId, [...(plan.get(quotationId) || []), lineNumber]);
+        }
+
+        const unawarded = requirementLines.filter((line) => line.mandatory && !awarded.has(line.line_number));
+        if (unawarded.length > 0) {
+            throw new BidTabulationError(
+                `Mandatory requirement line(s) ${unawarded.map((line) => line.line_number).join(', ')} must be awarded`
+            );
+        }
+
+        return plan;
+    }
+
+    /**
+     * Record which requirement lines a purchase order covers. Must run inside a transaction.
+     * @param lineNumbers - Lines awarded to the quotation; null for every line it quoted
+     */
+    static async recordAwards(
+        tx: QueryRunner,
+        rfqId: number,
+        quotationId: number,
+        purchaseOrderId: number,
+        lineNumbers: number[] | null,
+        awardedBy: number
+    ): Promise<void> {
+        const quotation = await tx.get<any>('SELECT line_items FROM quotations WHERE id = ?', [quotationId]);
+        const lineItems = PurchaseOrderService.parseLineItems(quotation.line_items);
+
+        for (const line of await RequirementLineService.list(tx, rfqId)) {
+            if (lineNumbers && !lineNumbers.includes(line.line_number)) continue;
+
+            const answers = lineItems.filter((item) => item.requirement_line === line.line_number && !item.no_bid);
+            if (answers.length === 0) continue;
+
+            await tx.run(
+                `INSERT INTO rfq_line_awards (rfq_id, requirement_line_id, quotation_id, purchase_order_id, amount, awarded_by)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [rfqId, line.id, quotationId, purchaseOrderId, LineItemService.totals(answers).total, awardedBy]
+            );
+        }
+    }
+
+    private static lineBid(line: RequirementLine, quotation: any, lineItems: any[]): LineBid | null {
+        const answers = lineItems.filter((item) => item.requirement_line === line.line_number);
+        if (answers.length === 0) {
+            return null;
+        }
+
+        const noBid = answers.every((item) => item.no_bid);
+        const quantity = answers.reduce((sum, item) => sum + (item.no_bid ? 0 : item.quantity), 0);
+        const total = LineItemService.totals(answers).total;
+
+        return {
+            quotationId: quotation.id,
+            quoteNumber: quotation.quote_number,
+            vendorId: quotation.vendor_id,
+            vendorName: quotation.vendor_name,
+            currency: quotation.currency,
+            noBid,
+            quantity,
+            unitPrice: noBid || quantity === 0 ? null : Math.round((total / quantity) * 10000) / 10000,
+            total,
+            shortfall: !noBid && quantity < line.quantity
+        };
+    }
+
+    /**
+     * Lowest price per unit among bids for the full quantity; bids short of it only count when no full bid exists
+     */
+    private static cheapest(bids: LineBid[]): LineBid | null {
+        const priced = bids.filter((bid) => bid.unitPrice !== null);
+        const full = priced.filter((bid) => !bid.shortfall);
+        const candidates = full.length > 0 ? full : priced;
+
+        return (
+            [...candidates].sort((a, b) => a.unitPrice! - b.unitPrice! || a.total - b.total)[0] || null
+        );
+    }
+}
+
+export { BidTabulationService };
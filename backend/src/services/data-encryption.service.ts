@@ -0,0 +1,312 @@
+/**
+ * Data Encryption Service
+ * Envelope encryption of sensitive fields under master keys from the configured KeyProvider, and master key
+ * rotation: a new key becomes active, every stored data key is re-wrapped under it and encrypted personal data
+ * columns are re-encrypted under it.
+ */
+
+import { Database, QueryRunner } from '../database/database';
+import { EnvelopeUtil } from '../utils/security/envelope.util';
+import { ENCRYPTED_FIELDS, EncryptedField, FieldEncryptionUtil, IndexedField } from '../utils/security/field-encryption.util';
+import { KeyProvider, getKeyProvider, useKeyProvider } from '../utils/security/key-provider.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Raised when a key operation cannot be carried out, e.g. rotating keys the provider does not manage
+ */
+export class DataEncryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DataEncryptionError';
+    }
+}
+
+/**
+ * A column holding envelopes, and the column naming the master key each one is wrapped with
+ */
+interface EncryptedColumn {
+    table: string;
+    column: string;
+    keyColumn: string;
+}
+
+const ENCRYPTED_COLUMNS: EncryptedColumn[] = [
+    { table: 'quotations', column: 'encrypted_data', keyColumn: 'encryption_key_id' }
+];
+
+/**
+ * Columns holding a blind index (keyed hash) instead of the value
+ */
+const INDEXED_COLUMNS: { field: IndexedField; table: string; column: string }[] = [
+    { field: 'security_events.email', table: 'security_events', column: 'email' }
+];
+
+// Re-wrapping commits in batches so a large table does not hold one long write transaction
+const REWRAP_BATCH_SIZE = 500;
+
+export interface EncryptionKeyStatus {
+    provider: string;
+    activeKeyId: string;
+    keys: { id: string; active: boolean; records: number }[];
+    legacyRecords: number; // Quotation data still under a vendor-held XOR key
+    unencryptedFields: number; // Personal data values stored before field encryption
+}
+
+class DataEncryptionService {
+    /**
+     * Replace the key provider, e.g. with an EnvKeyProvider holding fixed keys in tests
+     */
+    static useProvider(provider: KeyProvider) {
+        useKeyProvider(provider);
+    }
+
+    /**
+     * Encrypt a JSON-serializable value under the active master key
+     * @param context - Associated data naming the record, needed again to decrypt
+     * @returns The envelope to store and the id of the master key it is wrapped with
+     */
+    static async encryptJSON(value: any, context: string): Promise<{ envelope: string; keyId: string }> {
+        const master = await this.getProvider().getActiveKey();
+        return { envelope: EnvelopeUtil.encrypt(JSON.stringify(value), master, context), keyId: master.id };
+    }
+
+    /**
+     * Decrypt a value produced by encryptJSON
+     */
+    static async decryptJSON<T = any>(envelope: string, context: string): Promise<T> {
+        const masterKey = await this.getProvider().getKey(EnvelopeUtil.keyId(envelope));
+        return JSON.parse(EnvelopeUtil.decrypt(envelope, masterKey, context)) as T;
+    }
+
+    /**
+     * Master keys and how many stored records each one wraps
+     */
+    static async getStatus(db: QueryRunner): Promise<EncryptionKeyStatus> {
+        const provider = this.getProvider();
+        const active = await provider.getActiveKey();
+
+        const records = new Map<string, number>();
+        for (const { table, keyColumn } of ENCRYPTED_COLUMNS) {
+            const rows = await db.all<{ key_id: string; count: number }>(
+                `SELECT ${keyColumn} as key_id, COUNT(*) as count FROM ${table}
+                 WHERE ${keyColumn} IS NOT NULL GROUP BY ${keyColumn}`
+            );
+            for (const row of rows) {
+                records.set(row.key_id, (records.get(row.key_id) || 0) + row.count);
+            }
+        }
+
+        let unencryptedFields = 0;
+        for (const field of Object.keys(ENCRYPTED_FIELDS) as EncryptedField[]) {
+            const { table, column } = this.fieldColumn(field);
+            const prefix = FieldEncryptionUtil.tokenPrefix(field);
+
+            // The key id sits between the field prefix and the next colon of each token
+            const rows = await db.all<{ key_id: string | null; count: number }>(
+                `SELECT CASE WHEN ${column} LIKE ? THEN substr(${column}, ?, instr(substr(${column}, ?), ':') - 1) END as key_id,
+                        COUNT(*) as count
+                 FROM ${table} WHERE ${column} IS NOT NULL AND ${column} != '' GROUP BY key_id`,
+                [`${prefix}%`, prefix.length + 1, prefix.length + 1]
+            );
+            for (const row of rows) {
+                if (row.key_id) {
+                    records.set(row.key_id, (records.get(row.key_id) || 0) + row.count);
+                } else {
+                    unencryptedFields += row.count;
+                }
+            }
+        }
+
+        for (const { table, column } of INDEXED_COLUMNS) {
+            const row = await db.get<{ count: number }>(
+                `SELECT COUNT(*) as count FROM ${table} WHERE ${column} IS NOT NULL AND ${column} NOT LIKE ?`,
+                [`${FieldEncryptionUtil.indexPrefix()}%`]
+            );
+            unencryptedFields += row?.count || 0;
+        }
+
+        const legacy = await db.get<{ count: number }>(
+            'SELECT COUNT(*) as count FROM quotations WHERE encryption_key_id IS NULL AND encrypted_data IS NOT NULL'
+        );
+
+        const ids = new Set([...(await provider.listKeyIds()), ...records.keys()]);
+
+        return {
+            provider: provider.name,
+            activeKeyId: active.id,
+            keys: [...ids].sort().map((id) => ({ id, active: id === active.id, records: records.get(id) || 0 })),
+            legacyRecords: legacy?.count || 0,
+            unencryptedFields
+        };
+    }
+
+    /**
+     * Create a new master key, make it active and re-wrap every data key under it
+     * @returns The new key id and how many records were re-wrapped
+     */
+    static async rotate(userId: number): Promise<{ keyId: string; rewrapped: number }> {
+        const provider = this.getProvider();
+        const previous = await provider.getActiveKey();
+
+        let created;
+        try {
+            created = await provider.createKey();
+        } catch (error: any) {
+            throw new DataEncryptionError(error.message);
+        }
+
+        const rewrapped = await this.rewrapAll(userId);
+
+        await AuditService.log(Database, {
+            userId,
+            action: 'encryption_key.rotated',
+            entityType: 'encryption_key',
+            entityId: null,
+            details: { provider: provider.name, keyId: created.id, previousKeyId: previous.id, rewrapped },
+            before: { activeKeyId: previous.id },
+            after: { activeKeyId: created.id }
+        });
+
+        return { keyId: created.id, rewrapped };
+    }
+
+    /**
+     * Re-wrap every data key not yet under the active master key, and re-encrypt personal data fields under it,
+     * including any still in plaintext. Values of indexed columns still in plaintext are replaced by their hash.
+     * Safe to repeat: run it after a rotation was interrupted, or after rotating keys held outside the application.
+     * @param userId - Admin running it; null when run from the command line
+     * @returns Number of records and fields re-wrapped or re-encrypted
+     */
+    static async rewrapAll(userId: number | null): Promise<number> {
+        const provider = this.getProvider();
+        const active = await provider.getActiveKey();
+        let total = 0;
+
+        for (const { table, column, keyColumn } of ENCRYPTED_COLUMNS) {
+            for (;;) {
+                const count = await Database.transaction(async (tx) => {
+                    const rows = await tx.all<any>(
+                        `SELECT id, ${column} as envelope, ${keyColumn} as key_id FROM ${table}
+                         WHERE ${keyColumn} IS NOT NULL AND ${keyColumn} != ? LIMIT ?`,
+                        [active.id, REWRAP_BATCH_SIZE]
+                    );
+
+                    for (const row of rows) {
+                        const envelope = EnvelopeUtil.rewrap(row.envelope, await provider.getKey(row.key_id), active);
+                        await tx.run(`UPDATE ${table} SET ${column} = ?, ${keyColumn} = ? WHERE id = ?`, [
+                            envelope,
+                            active.id,
+                            row.id
+                        ]);
+                    }
+
+                    return rows.length;
+                });
+
+                total += count;
+                if (count < REWRAP_BATCH_SIZE) break;
+            }
+        }
+
+        for (const field of Object.keys(ENCRYPTED_FIELDS) as EncryptedField[]) {
+            total += await this.reencryptField(field, active.id);
+        }
+
+        for (const { field, table, column } of INDEXED_COLUMNS) {
+            total += await this.indexColumn(field, table, column);
+        }
+
+        if (total > 0) {
+            await AuditService.log(Database, {
+                userId,
+                action: 'encryption_key.rewrapped',
+                entityType: 'encryption_key',
+                entityId: null,
+                details: { keyId: active.id, records: total }
+            });
+        }
+
+        return total;
+    }
+
+    /**
+     * Re-encrypt a personal data field under the active key wherever it is in plaintext or under another key.
+     * Rows are read through the database layer, which hands back the decrypted values; the column is selected under
+     * its own name, as only then is it decrypted. Rows are addressed by rowid, as not every table has an id column.
+     */
+    private static async reencryptField(field: EncryptedField, activeKeyId: string): Promise<number> {
+        const { table, column } = this.fieldColumn(field);
+        let total = 0;
+
+        for (;;) {
+            const count = await Database.transaction(async (tx) => {
+                const rows = await tx.all<Record<string, any>>(
+                    `SELECT rowid as row_id, ${column} FROM ${table}
+                     WHERE ${column} IS NOT NULL AND ${column} != '' AND ${column} NOT LIKE ? LIMIT ?`,
+                    [`${FieldEncryptionUtil.tokenPrefix(field, activeKeyId)}%`, REWRAP_BATCH_SIZE]
+                );
+
+                for (const row of rows) {
+                    // Still a token after the read: its master key is gone and re-encrypting would wrap the token itself
+                    if (FieldEncryptionUtil.isEncrypted(row[column])) {
+                        throw new DataEncryptionError(`${field} of record ${row.row_id} could not be decrypted; is its master key available?`);
+                    }
+
+                    await tx.run(`UPDATE ${table} SET ${column} = ? WHERE rowid = ?`, [
+                        await FieldEncryptionUtil.encrypt(field, row[column]),
+                        row.row_id
+                    ]);
+                }
+
+                return rows.length;
+            });
+
+            total += count;
+            if (count < REWRAP_BATCH_SIZE) break;
+        }
+
+        return total;
+    }
+
+    /**
+     * Replace the plaintext values of an indexed column by their blind index
+     */
+    private static async indexColumn(field: IndexedField, table: string, column: string): Promise<number> {
+        let total = 0;
+
+        for (;;) {
+            const count = await Database.transaction(async (tx) => {
+                const rows = await tx.all<{ row_id: number; value: string }>(
+                    `SELECT rowid as row_id, ${column} as value FROM ${table}
+                     WHERE ${column} IS NOT NULL AND ${column} NOT LIKE ? LIMIT ?`,
+                    [`${FieldEncryptionUtil.indexPrefix()}%`, REWRAP_BATCH_SIZE]
+                );
+
+                for (const row of rows) {
+                    await tx.run(`UPDATE ${table} SET ${column} = ? WHERE rowid = ?`, [
+                        await FieldEncryptionUtil.blindIndex(field, row.value),
+                        row.row_id
+                    ]);
+                }
+
+                return rows.length;
+            });
+
+            total += count;
+            if (count < REWRAP_BATCH_SIZE) break;
+        }
+
+        return total;
+    }
+
+    private static fieldColumn(field: EncryptedField): { table: string; column: string } {
+        const [table, column] = field.split('.');
+        return { table, column };
+    }
+
+    private static getProvider(): KeyProvider {
+        return getKeyProvider();
+    }
+}
+
+export { DataEncryptionService };
@@ -415,6 +415,301 @@ Protecting your vendor quotations and procurement approvals
         console.log(`Welcome email sent to ${email}`);
     }
 
+    /**
+     * Remind an approver that an approval is nearing its SLA deadline
+     */
+    static async sendApprovalReminderEmail(
+        email: string,
+        fullName: string,
+        approval: { quoteNumber: string; rfqTitle: string; stepName: string; dueAt: Date; onBehalfOf?: string | null }
+    ): Promise<void> {
+        const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/approver/approvals`;
+        const behalf = approval.onBehalfOf ? ` on behalf of ${approval.onBehalfOf}` : '';
+
+        const html = this.renderNotification(
+            'Approval Reminder',
+            `Hello ${fullName},`,
+            [
+                `Quotation <strong>${approval.quoteNumber}</strong> for "${approval.rfqTitle}" is waiting for your decision${behalf} at the <strong>${approval.stepName}</strong> step.`,
+                `It is due by <strong>${approval.dueAt.toUTCString()}</strong>. After that it will be escalated.`
+            ],
+            { label: 'Review Approvals', href: link }
+        );
+
+        const text = `
+Hello ${fullName},
+
+Quotation ${approval.quoteNumber} for "${approval.rfqTitle}" is waiting for your decision${behalf} at the ${approval.stepName} step.
+It is due by ${approval.dueAt.toUTCString()}. After that it will be escalated.
+
+Review approvals: ${link}
+
+---
+Secure Procurement System
+        `;
+
+        await this.transporter.sendMail({
+            from: process.env.EMAIL_FROM || 'Secure Procurement System <noreply@procurement.com>',
+            to: email,
+            subject: `Reminder: approval due for ${approval.quoteNumber}`,
+            text,
+            html,
+        });
+
+        console.log(`Approval reminder sent to ${email}`);
+    }
+
+    /**
+     * Notify a backup approver or admin that an overdue approval was escalated to them
+     */
+    static async sendApprovalEscalationEmail(
+        email: string,
+        fullName: string,
+        approval: { quoteNumber: string; rfqTitle: string; stepName: string; originalApprover: string; overdueHours: number },
+        reassigned: boolean
+    ): Promise<void> {
+        const path = reassigned ? '/approver/approvals' : '/admin/approvals/overdue';
+        const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}${path}`;
+        const action = reassigned
+            ? 'The approval has been reassigned to you as backup approver.'
+            : 'No backup approver is available. Please reassign it or follow up with the approver.';
+
+        const html = this.renderNotification(
+            'Approval Escalated',
+            `Hello ${fullName},`,
+            [
+                `The approval of quotation <strong>${approval.quoteNumber}</strong> for "${approval.rfqTitle}" at the <strong>${approval.stepName}</strong> step, assigned to ${approval.originalApprover}, is ${approval.overdueHours} hour(s) past its deadline.`,
+                action
+            ],
+            { label: reassigned ? 'Review Approvals' : 'View Overdue Approvals', href: link }
+        );
+
+        const text = `
+Hello ${fullName},
+
+The approval of quotation ${approval.quoteNumber} for "${approval.rfqTitle}" at the ${approval.stepName} step, assigned to ${approval.originalApprover}, is ${approval.overdueHours} hour(s) past its deadline.
+${action}
+
+${link}
+
+---
+Secure Procurement System
+        `;
+
+        await this.transporter.sendMail({
+            from: process.env.EMAIL_FROM || 'Secure Procurement System <noreply@procurement.com>',
+            to: email,
+            subject: `Escalation: overdue approval for ${approval.quoteNumber}`,
+            text,
+            html,
+        });
+
+        console.log(`Approval escalation sent to ${email}`);
+    }
+
+    /**
+     * Tell a vendor whether their quotation won the RFQ award
+     */
+    static async sendAwardNotificationEmail(
+        email: string,
+        fullName: string,
+        award: { rfqTitle: string; quoteNumber: string; awarded: boolean; poNumber?: string; poId?: number }
+    ): Promise<void> {
+        const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+        const link = award.awarded ? `${baseUrl}/vendor/purchase-orders/${award.poId}` : `${baseUrl}/vendor/dashboard`;
+        const outcome = award.awarded
+            ? `Your quotation <strong>${award.quoteNumber}</strong> for "${award.rfqTitle}" has been awarded. Purchase order <strong>${award.poNumber}</strong> has been issued to you.`
+            : `The RFQ "${award.rfqTitle}" has been awarded to another vendor. Your quotation <strong>${award.quoteNumber}</strong> was not selected. Thank you for your submission.`;
+
+        const html = this.renderNotification(
+            award.awarded ? 'Quotation Awarded' : 'RFQ Award Decision',
+            `Hello ${fullName},`,
+            [outcome],
+            { label: award.awarded ? 'View Purchase Order' : 'Go to Dashboard', href: link }
+        );
+
+        const text = `
+Hello ${fullName},
+
+${outcome.replace(/<\/?strong>/g, '')}
+
+${link}
+
+---
+Secure Procurement System
+        `;
+
+        await this.transporter.sendMail({
+            from: process.env.EMAIL_FROM || 'Secure Procurement System <noreply@procurement.com>',
+            to: email,
+            subject: award.awarded
+                ? `Awarded: ${award.rfqTitle} (${award.poNumber})`
+                : `Award decision for ${award.rfqTitle}`,
+            text,
+            html,
+        });
+
+        console.log(`Award notification sent to ${email}`);
+    }
+
+    /**
+     * Tell a vendor that an RFQ deadline has been extended
+     */
+    static async sendDeadlineExtensionEmail(
+        email: string,
+        fullName: string,
+        extension: { rfqId: number; rfqTitle: string; previousDeadline: string; newDeadline: string; reason: string }
+    ): Promise<void> {
+        const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/vendor/rfqs/${extension.rfqId}`;
+        const notice = `The deadline for "${extension.rfqTitle}" has been extended from <strong>${extension.previousDeadline}</strong> to <strong>${extension.newDeadline}</strong>.`;
+
+        const html = this.renderNotification(
+            'RFQ Deadline Extended',
+            `Hello ${fullName},`,
+            [notice, `Reason: ${extension.reason}`],
+            { label: 'View RFQ', href: link }
+        );
+
+        const text = `
+Hello ${fullName},
+
+${notice.replace(/<\/?strong>/g, '')}
+
+Reason: ${extension.reason}
+
+${link}
+
+---
+Secure Procurement System
+        `;
+
+        await this.transporter.sendMail({
+            from: process.env.EMAIL_FROM || 'Secure Procurement System <noreply@procurement.com>',
+            to: email,
+            subject: `Deadline extended: ${extension.rfqTitle}`,
+            text,
+            html,
+        });
+
+        console.log(`Deadline extension notice sent to ${email}`);
+    }
+
+    /**
+     * Send a password reset link
+     */
+    static async sendPasswordResetEmail(email: string, fullName: string, token: string, expiresInMinutes: number): Promise<void> {
+        const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`;
+        const notice = `We received a request to reset the password for your account. The link works once and expires in ${expiresInMinutes} minutes.`;
+        const ignore = 'If you did not ask for this, you can ignore this email; your password will not change.';
+
+        const html = this.renderNotification(
+            'Reset Your Password',
+            `Hello ${fullName},`,
+            [notice, ignore],
+            { label: 'Reset Password', href: link }
+        );
+
+        const text = `
+Hello ${fullName},
+
+${notice}
+
+${link}
+
+${ignore}
+
+---
+Secure Procurement System
+        `;
+
+        await this.transporter.sendMail({
+            from: process.env.EMAIL_FROM || 'Secure Procurement System <noreply@procurement.com>',
+            to: email,
+            subject: 'Reset your password',
+            text,
+            html,
+        });
+
+        console.log(`Password reset email sent to ${email}`);
+    }
+
+    /**
+     * Alert an admin to suspicious activity found by the security detectors
+     */
+    static async sendSecurityAlertEmail(
+        email: string,
+        fullName: string,
+        alerts: { title: string; subject: string; details: string }[]
+    ): Promise<void> {
+        const link = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/admin/security-events`;
+        const summary = `${alerts.length} suspicious activity alert(s) were raised:`;
+
+        const html = this.renderNotification(
+            'Security Alert',
+            `Hello ${fullName},`,
+            [summary, ...alerts.map((alert) => `<strong>${alert.title}</strong> (${alert.subject}): ${alert.details}`)],
+            { label: 'Review Security Events', href: link }
+        );
+
+        const text = `
+Hello ${fullName},
+
+${summary}
+
+${alerts.map((alert) => `- ${alert.title} (${alert.subject}): ${alert.details}`).join('\n')}
+
+${link}
+
+---
+Secure Procurement System
+        `;
+
+        await this.transporter.sendMail({
+            from: process.env.EMAIL_FROM || 'Secure Procurement System <noreply@procurement.com>',
+            to: email,
+            subject: `Security alert: ${[...new Set(alerts.map((alert) => alert.title))].join(', ')}`,
+            text,
+            html,
+        });
+
+        console.log(`Security alert sent to ${email}`);
+    }
+
+    /**
+     * Shared HTML layout for short notification emails
+     */
+    private static renderNotification(
+        title: string,
+        greeting: string,
+        paragraphs: string[],
+        cta?: { label: string; href: string }
+    ): string {
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 20px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 600;">${title}</h1>
+        </div>
+        <div style="padding: 40px 30px;">
+            <p style="font-size: 18px; color: #333333; margin-bottom: 20px;">${greeting}</p>
+            ${paragraphs.map((p) => `<p style="font-size: 16px; color: #666666; line-height: 1.6;">${p}</p>`).join('\n            ')}
+            ${cta ? `<div style="text-align: center; margin: 30px 0;"><a href="${cta.href}" style="display: inline-block; background-color: #667eea; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">${cta.label}</a></div>` : ''}
+        </div>
+        <div style="background-color: #f8f9fa; padding: 30px; text-align: center; border-top: 1px solid #e9ecef;">
+            <p style="margin: 5px 0; font-size: 14px; color: #666666;">Secure Procurement System</p>
+        </div>
+    </div>
+</body>
+</html>
+        `;
+    }
+
     /**
      * Test email configuration
      */
@@ -0,0 +1,420 @@
+/**
+ * Evaluation Service
+ * Weighted multi-criteria evaluation of the quotations on an RFQ. The RFQ's template lists criteria whose weights
+ * add up to 100; price is scored from the quotation totals and every other criterion is scored 0-100 by each
+ * evaluator. Quotations are ranked by their weighted score.
+ */
+
+import Joi from 'joi';
+import { QueryRunner } from '../database/database';
+import { BidOpeningService } from './bid-opening.service';
+
+/**
+ * Raised when a template or scores fail validation, or an evaluation cannot be made
+ */
+export class EvaluationError extends Error {
+    constructor(message: string, public readonly problems: string[] = []) {
+        super(message);
+        this.name = 'EvaluationError';
+    }
+
+    static from(subject: string, problems: string[]): EvaluationError {
+        return new EvaluationError(`Invalid ${subject}: ${problems.join('; ')}`, problems);
+    }
+}
+
+/**
+ * A criterion as the admin writes it
+ */
+export interface EvaluationCriterionInput {
+    name: string;
+    weight: number; // Percent of the weighted score
+    scoring: 'price' | 'manual';
+}
+
+/**
+ * A stored criterion
+ */
+export interface EvaluationCriterion extends EvaluationCriterionInput {
+    id: number;
+    rfq_id: number;
+    sort_order: number;
+}
+
+/**
+ * An evaluator's score on one manual criterion
+ */
+export interface EvaluationScoreInput {
+    criterionId: number;
+    score: number;
+    comment: string | null;
+}
+
+// Drafts were never sent and rejected quotations are out of the running
+const EVALUATED_EXCLUDED_STATUSES = ['draft', 'rejected'];
+
+// Scores can change until the approval decision on the quotation is final
+const SCORABLE_STATUSES = ['submitted', 'under_review', 'revision_requested'];
+
+const MAX_CRITERIA = 20;
+
+const templateSchema = Joi.array()
+    .items(
+        Joi.object({
+            name: Joi.string().trim().max(100).required(),
+            weight: Joi.number().positive().max(100).precision(2).required(),
+            scoring: Joi.string().valid('price', 'manual').default('manual')
+        })
+    )
+    .max(MAX_CRITERIA)
+    .required()
+    .label('criteria');
+
+const scoresSchema = Joi.array()
+    .items(
+        Joi.object({
+            criterionId: Joi.number().integer().positive().required(),
+            score: Joi.number().min(0).max(100).precision(2).required(),
+            comment: Joi.string().trim().max(1000).allow(null).empty('').default(null)
+        })
+    )
+    .min(1)
+    .required()
+    .label('scores')
+    .messages({ 'array.min': 'at least one score is required' });
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+class EvaluationService {
+    /**
+     * Points an evaluator's score may stray from the median of a criterion before it is flagged as an outlier
+     */
+    static getOutlierThreshold(): number {
+        return parseFloat(process.env.EVALUATION_OUTLIER_POINTS || '25');
+    }
+
+    /**
+     * Criteria of an RFQ's evaluation template in order; empty when it has none
+     */
+    static async listCriteria(db: QueryRunner, rfqId: number): Promise<EvaluationCriterion[]> {
+        return db.all<EvaluationCriterion>(
+            'SELECT id, rfq_id, name, weight, scoring, sort_order FROM evaluation_criteria WHERE rfq_id = ? ORDER BY sort_order',
+            [rfqId]
+        );
+    }
+
+    /**
+     * Validate an evaluation template from a request body. An empty list removes the template.
+     * @throws EvaluationError listing every problem found
+     */
+    static validateTemplate(criteria: unknown): EvaluationCriterionInput[] {
+        const { value, error } = templateSchema.validate(criteria, {
+            abortEarly: false,
+            stripUnknown: true,
+            errors: { label: 'key', wrap: { label: false } }
+        });
+
+        if (error) {
+            throw EvaluationError.from(
+                'evaluation template',
+                error.details.map((detail) =>
+                    typeof detail.path[0] === 'number' ? `Criterion ${detail.path[0] + 1}: ${detail.message}` : detail.message
+                )
+            );
+        }
+
+        const problems: string[] = [];
+        const template = value as EvaluationCriterionInput[];
+
+        if (template.length > 0) {
+            const totalWeight = round(template.reduce((sum, criterion) => sum + criterion.weight, 0));
+            if (totalWeight !== 100) {
+                problems.push(`weights must add up to 100 (they add up to ${totalWeight})`);
+            }
+        }
+        if (template.filter((criterion) => criterion.scoring === 'price').length > 1) {
+            problems.push('only one criterion can be scored on price');
+        }
+        const names = template.map((criterion) => criterion.name.toLowerCase());
+        const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+        if (duplicates.length > 0) {
+            problems.push(`criterion names must be unique (${[...new Set(duplicates)].join(', ')})`);
+        }
+
+        if (problems.length > 0) {
+            throw EvaluationError.from('evaluation template', problems);
+        }
+
+        return template;
+    }
+
+    /**
+     * Replace the evaluation template of an RFQ. Scores refer to its criteria, so it is fixed once any are entered.
+     * Must run inside a transaction.
+     */
+    static async replaceTemplate(
+        tx: QueryRunner,
+        rfqId: number,
+        criteria: EvaluationCriterionInput[]
+    ): Promise<EvaluationCriterion[]> {
+        const scored = await tx.get<{ count: number }>(
+            `SELECT COUNT(*) as count FROM evaluation_scores s
+             JOIN evaluation_criteria c ON s.criterion_id = c.id
+             WHERE c.rfq_id = ?`,
+            [rfqId]
+        );
+        if (scored && scored.count > 0) {
+            throw new EvaluationError('The evaluation template cannot be changed once scores have been entered');
+        }
+
+        await tx.run('DELETE FROM evaluation_criteria WHERE rfq_id = ?', [rfqId]);
+
+        for (const [index, criterion] of criteria.entries()) {
+            await tx.run('INSERT INTO evaluation_criteria (rfq_id, name, weight, scoring, sort_order) VALUES (?, ?, ?, ?, ?)', [
+                rfqId,
+                criterion.name,
+                criterion.weight,
+                criterion.scoring,
+                index + 1
+            ]);
+        }
+
+        return this.listCriteria(tx, rfqId);
+    }
+
+    /**
+     * Record an evaluator's scores on a quotation, replacing any they gave before. Price is scored automatically,
+     * so only manual criteria of the quotation's RFQ can be scored. Must run inside a transaction.
+     * @returns The scores as recorded
+     * @throws EvaluationError when the scores are invalid or the quotation can no longer be scored
+     */
+    static async saveScores(tx: QueryRunner, quotation: any, evaluatorId: number, scores: unknown): Promise<EvaluationScoreInput[]> {
+        if (!SCORABLE_STATUSES.includes(quotation.status)) {
+            throw new EvaluationError(`A quotation that is ${quotation.status} cannot be scored`);
+        }
+        if (BidOpeningService.isSealed(quotation)) {
+            throw new EvaluationError('Bids are sealed until the bid opening');
+        }
+
+        const { value, error } = scoresSchema.validate(scores, {
+            abortEarly: false,
+            stripUnknown: true,
+            errors: { label: 'key', wrap: { label: false } }
+        });
+
+        if (error) {
+            throw EvaluationError.from(
+                'scores',
+                error.details.map((detail) =>
+                    typeof detail.path[0] === 'number' ? `Score ${detail.path[0] + 1}: ${detail.message}` : detail.message
+                )
+            );
+        }
+
+        const criteria = await this.listCriteria(tx, quotation.rfq_id);
+        if (criteria.length === 0) {
+            throw new EvaluationError('This RFQ has no evaluation template');
+        }
+
+        const problems: string[] = [];
+        for (const [index, entry] of (value as EvaluationScoreInput[]).entries()) {
+            const criterion = criteria.find((candidate) => candidate.id === entry.criterionId);
+            if (!criterion) {
+                problems.push(`Score ${index + 1}: criterion ${entry.criterionId} is not part of this RFQ's evaluation`);
+            } else if (criterion.scoring === 'price') {
+                problems.push(`Score ${index + 1}: ${criterion.name} is scored from the quotation price`);
+            }
+        }
+        if (problems.length > 0) {
+            throw EvaluationError.from('scores', problems);
+        }
+
+        for (const entry of value as EvaluationScoreInput[]) {
+            await tx.run(
+                `INSERT INTO evaluation_scores (quotation_id, criterion_id, evaluator_id, score, comment)
+                 VALUES (?, ?, ?, ?, ?)
+                 ON CONFLICT (quotation_id, criterion_id, evaluator_id)
+                 DO UPDATE SET score = excluded.score, comment = excluded.comment, updated_at = CURRENT_TIMESTAMP`,
+                [quotation.id, entry.criterionId, evaluatorId, entry.score, entry.comment]
+            );
+        }
+
+        return value;
+    }
+
+    /**
+     * Scoring matrix of an RFQ: each quotation's score per criterion and weighted score, ranked best first.
+     * Price scores 100 for the lowest total and proportionally less for higher ones (lowest / own total).
+     * A manual criterion scores the mean of its evaluators' scores; a score further from their median than the
+     * outlier threshold is flagged. With fewer than three evaluators there is no majority, so nothing is flagged.
+     * @throws EvaluationError while sealed bids are still closed
+     */
+    static async evaluate(db: QueryRunner, rfq: any): Promise<any> {
+        const criteria = await this.listCriteria(db, rfq.id);
+        const quotations = await db.all<any>(
+            `SELECT q.*, u.company_name as vendor_name
+             FROM quotations q JOIN users u ON q.vendor_id = u.id
+             WHERE q.rfq_id = ? AND q.status NOT IN (${EVALUATED_EXCLUDED_STATUSES.map(() => '?').join(', ')})
+             ORDER BY q.submitted_at ASC, q.id ASC`,
+            [rfq.id, ...EVALUATED_EXCLUDED_STATUSES]
+        );
+
+        if (quotations.some((quotation) => BidOpeningService.isSealed(quotation))) {
+            throw new EvaluationError('Bids are sealed until the bid opening');
+        }
+
+        const scores = await db.all<any>(
+            `SELECT s.quotation_id, s.criterion_id, s.evaluator_id, s.score, s.comment, s.updated_at,
+                    u.full_name as evaluator_name
+             FROM evaluation_scores s
+             JOIN evaluation_criteria c ON s.criterion_id = c.id
+             JOIN users u ON s.evaluator_id = u.id
+             WHERE c.rfq_id = ?
+             ORDER BY s.updated_at ASC`,
+            [rfq.id]
+        );
+
+        const threshold = this.getOutlierThreshold();
+        const priced = quotations.filter((quotation) => quotation.total_amount > 0);
+        const lowestTotal = priced.length > 0 ? Math.min(...priced.map((quotation) => quotation.total_amount)) : null;
+
+        const rows = quotations.map((quotation) => {
+            const cells = criteria.map((criterion) => {
+                if (criterion.scoring === 'price') {
+                    const score =
+                        lowestTotal !== null && quotation.total_amount > 0 ? round((lowestTotal / quotation.total_amount) * 100) : null;
+                    return { criterionId: criterion.id, score, evaluations: [], spread: null, outliers: [] };
+                }
+
+                const evaluations = scores
+                    .filter((entry) => entry.quotation_id === quotation.id && entry.criterion_id === criterion.id)
+                    .map((entry) => ({
+                        evaluatorId: entry.evaluator_id,
+                        evaluatorName: entry.evaluator_name,
+                        score: entry.score,
+                        comment: entry.comment,
+                        updatedAt: entry.updated_at
+                    }));
+                const values = evaluations.map((evaluation) => evaluation.score);
+                const middle = values.length > 0 ? median(values) : null;
+
+                return {
+                    criterionId: criterion.id,
+                    score: values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null,
+                    evaluations,
+                    spread: values.length > 1 ? round(Math.max(...values) - Math.min(...values)) : null,
+                    outliers:
+                        values.length >= 3
+                            ? evaluations
+                                .filter((evaluation) => Math.abs(evaluation.score - middle!) > threshold)
+                                .map((evaluation) => evaluation.evaluatorId)
+                            : []
+                };
+            });
+
+            const weightedScore = criteria.reduce(
+                (sum, criterion, index) => sum + ((cells[index].score ?? 0) * criterion.weight) / 100,
+                0
+            );
+
+            return {
+                quotationId: quotation.id,
+                quoteNumber: quotation.quote_number,
+                vendorId: quotation.vendor_id,
+                vendorName: quotation.vendor_name,
+                status: quotation.status,
+                currency: quotation.currency,
+                totalAmount: quotation.total_amount,
+                scores: cells,
+                weightedScore: criteria.length > 0 ? round(weightedScore) : null,
+                // Every criterion has a score; until then the weighted score counts missing ones as zero
+                complete: criteria.length > 0 && cells.every((cell) => cell.score !== null),
+                outlierCount: cells.reduce((sum, cell) => sum + cell.outliers.length, 0)
+            };
+        });
+
+        // Partly scored quotations rank below fully scored ones, whatever their weighted score so far
+        rows.sort(
+            (a, b) =>
+                Number(b.complete) - Number(a.complete) ||
+                (b.weightedScore ?? 0) - (a.weightedScore ?? 0) ||
+                a.totalAmount - b.totalAmount
+        );
+
+        return {
+            rfqId: rfq.id,
+            criteria,
+            quotations: rows.map((row, index) => ({ rank: criteria.length > 0 ? index + 1 : null, ...row })),
+            outlierThreshold: threshold,
+            mixedCurrencies: new Set(quotations.map((quotation) => quotation.currency)).size > 1,
+            evaluatedAt: new Date().toISOString()
+        };
+    }
+
+    /**
+     * One quotation's evaluation as it stands, for keeping with an approval decision
+     * @returns Null when its RFQ has no evaluation template or bids are still sealed
+     */
+    static async snapshot(db: QueryRunner, quotationId: number): Promise<any | null> {
+        const rfq = await db.get<any>('SELECT r.* FROM rfqs r JOIN quotations q ON q.rfq_id = r.id WHERE q.id = ?', [
+            quotationId
+        ]);
+        if (!rfq) {
+            return null;
+        }
+
+        let evaluation: any;
+        try {
+            evaluation = await this.evaluate(db, rfq);
+        } catch (error) {
+            if (error instanceof EvaluationError) return null;
+            throw error;
+        }
+
+        const row = evaluation.quotations.find((entry: any) => entry.quotationId === quotationId);
+        if (evaluation.criteria.length === 0 || !row) {
+            return null;
+        }
+
+        return {
+            evaluatedAt: evaluation.evaluatedAt,
+            rank: row.rank,
+            ranked: evaluation.quotations.length,
+            weightedScore: row.weightedScore,
+            complete: row.complete,
+            outlierCount: row.outlierCount,
+            outlierThreshold: evaluation.outlierThreshold,
+            criteria: evaluation.criteria.map((criterion: EvaluationCriterion, index: number) => ({
+                name: criterion.name,
+                weight: criterion.weight,
+                scoring: criterion.scoring,
+                score: row.scores[index].score,
+                evaluations: row.scores[index].evaluations.length,
+                outliers: row.scores[index].outliers.length
+            }))
+        };
+    }
+
+    /**
+     * Keep a quotation's evaluation as it stands on an approval, so the decision records the scores it was made on.
+     * Must run inside a transaction, before the decision changes the quotation's status.
+     */
+    static async freeze(tx: QueryRunner, approvalId: number, quotationId: number): Promise<any | null> {
+        const snapshot = await this.snapshot(tx, quotationId);
+        await tx.run('UPDATE approvals SET evaluation_snapshot = ? WHERE id = ?', [
+            snapshot ? JSON.stringify(snapshot) : null,
+            approvalId
+        ]);
+        return snapshot;
+    }
+}
+
+export { EvaluationService };
@@ -0,0 +1,509 @@
+/**
+ * Invoice Service
+ * Three-way match of vendor invoices against the purchase order (price and quantity ordered),
+ * goods receipts (quantity received) and the invoiced amount. Mismatches become exceptions
+ * that an admin or approver accepts or rejects; matched invoices are signed with the system key.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { QueryRunner } from '../database/database';
+import { HashUtil } from '../utils/security/hash.util';
+import { SignatureUtil } from '../utils/security/signature.util';
+import { SystemKeyUtil } from '../utils/security/system-key.util';
+import { PurchaseOrderService } from './purchase-order.service';
+import { AuditService } from './audit.service';
+
+/**
+ * Raised when an invoice cannot be submitted or resolved
+ */
+export class InvoiceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvoiceError';
+    }
+}
+
+/**
+ * Raised when an invoice was resolved by someone else between reading it and writing the resolution
+ */
+export class InvoiceConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvoiceConflictError';
+    }
+}
+
+export interface InvoiceLineInput {
+    lineNumber: number;
+    quantity: number;
+    unit_price: number;
+}
+
+export interface InvoiceInput {
+    invoiceNumber: string;
+    invoiceDate?: string;
+    currency?: string;
+    notes?: string;
+    lineItems: InvoiceLineInput[];
+    attachment: { filename: string; content: string };
+}
+
+export type MatchResult = 'matched' | 'price_variance' | 'quantity_variance' | 'unmatched';
+
+export interface MatchTolerances {
+    pricePercent: number;
+    quantityPercent: number;
+    amountPercent: number;
+}
+
+const INVOICEABLE_STATUSES = ['issued', 'acknowledged', 'partially_received', 'closed'];
+
+class InvoiceService {
+    /**
+     * Tolerances applied by the three-way match
+     */
+    static getTolerances(): MatchTolerances {
+        return {
+            pricePercent: parseFloat(process.env.INVOICE_PRICE_TOLERANCE_PERCENT || '2'),
+            quantityPercent: parseFloat(process.env.INVOICE_QUANTITY_TOLERANCE_PERCENT || '0'),
+            amountPercent: parseFloat(process.env.INVOICE_AMOUNT_TOLERANCE_PERCENT || '2')
+        };
+    }
+
+    /**
+     * Store the invoice and its PDF, run the three-way match and either sign it or queue it as an exception.
+     * The purchase order is read inside the transaction, so a concurrent amendment or cancellation is seen.
+     * Must run inside a transaction.
+     */
+    static async submit(
+        tx: QueryRunner,
+        purchaseOrderId: number,
+        input: InvoiceInput,
+        vendorId: number
+    ): Promise<{ id: number; matchResult: MatchResult; status: string; reasons: string[] }> {
+        const po = await tx.get<any>('SELECT * FROM purchase_orders WHERE id = ?', [purchaseOrderId]);
+
+        if (!INVOICEABLE_STATUSES.includes(po.status)) {
+            throw new InvoiceError(`A ${po.status} purchase order cannot be invoiced`);
+        }
+
+        if (!input.invoiceNumber || typeof input.invoiceNumber !== 'string') {
+            throw new InvoiceError('Invoice number is required');
+        }
+
+        const duplicate = await tx.get(
+            'SELECT id FROM invoices WHERE vendor_id = ? AND invoice_number = ?',
+            [vendorId, input.invoiceNumber]
+        );
+        if (duplicate) {
+            throw new InvoiceError(`Invoice ${input.invoiceNumber} has already been submitted`);
+        }
+
+        const lines = this.validateLines(input.lineItems);
+        const attachment = this.storeAttachment(input.attachment);
+        const currency = input.currency || po.currency;
+        const match = await this.match(tx, po, lines, currency);
+
+        const poLines = PurchaseOrderService.numberLines(JSON.parse(po.line_items));
+        const lineItems = lines.map((line) => {
+            const poLine = poLines.find((item) => item.line_number === line.lineNumber);
+            return {
+                line_number: line.lineNumber,
+                description: poLine?.description || null,
+                quantity: line.quantity,
+                unit_price: line.unit_price,
+                ...this.lineAmounts(line.quantity, line.unit_price, poLine)
+            };
+        });
+        const status = match.result === 'matched' ? 'matched' : 'exception';
+
+        const result = await tx.run(
+            `INSERT INTO invoices (
+                invoice_number, purchase_order_id, vendor_id, invoice_date, line_items, total_amount, currency, notes,
+                attachment_name, attachment_hash, attachment_size, match_result, match_details, status
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                input.invoiceNumber,
+                po.id,
+                vendorId,
+                input.invoiceDate || null,
+                JSON.stringify(lineItems),
+                match.details.invoicedAmount,
+                currency,
+                input.notes || null,
+                attachment.name,
+                attachment.hash,
+                attachment.size,
+                match.result,
+                JSON.stringify(match.details),
+                status
+            ]
+        );
+
+        await AuditService.log(tx, {
+            userId: vendorId,
+            action: 'invoice.submitted',
+            entityType: 'invoice',
+            entityId: result.lastID,
+            details: {
+                invoiceNumber: input.invoiceNumber,
+                poNumber: po.po_number,
+                totalAmount: match.details.invoicedAmount,
+                matchResult: match.result,
+                reasons: match.details.reasons
+            }
+        });
+
+        if (status === 'matched') {
+            await this.signRecord(tx, result.lastID);
+        }
+
+        return { id: result.lastID, matchResult: match.result, status, reasons: match.details.reasons };
+    }
+
+    /**
+     * Accept or reject an invoice in the exception queue. Accepted invoices are signed like matched ones;
+     * rejected invoices no longer count towards the quantity already invoiced. Must run inside a transaction.
+     * @throws InvoiceConflictError when the invoice is no longer in the exception queue
+     */
+    static async resolve(
+        tx: QueryRunner,
+        invoiceId: number,
+        action: 'accept' | 'reject',
+        notes: string,
+        userId: number
+    ): Promise<string> {
+        const invoice = await tx.get<any>('SELECT * FROM invoices WHERE id = ?', [invoiceId]);
+
+        if (invoice.status !== 'exception') {
+            throw new InvoiceConflictError(`Only invoices in the exception queue can be resolved (this one is ${invoice.status})`);
+        }
+
+        const status = action === 'accept' ? 'accepted' : 'rejected';
+
+        const result = await tx.run(
+            `UPDATE invoices
+             SET status = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP, resolution_notes = ?,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = ? AND status = 'exception'`,
+            [status, userId, notes, invoice.id]
+        );
+        if (result.changes !== 1) {
+            throw new InvoiceConflictError('Invoice has already been resolved');
+        }
+
+        await AuditService.log(tx, {
+            userId,
+            action: `invoice.${status}`,
+            entityType: 'invoice',
+            entityId: invoice.id,
+            details: { invoiceNumber: invoice.invoice_number, matchResult: invoice.match_result, notes },
+            before: { status: invoice.status },
+            after: { status, resolution_notes: notes }
+        });
+
+        if (status === 'accepted') {
+            await this.signRecord(tx, invoice.id);
+        }
+
+        return status;
+    }
+
+    /**
+     * Compare each invoice line with the PO line it bills and with what has been received so far.
+     * Invoice unit prices are net of discount and before tax, so they are compared with the PO line's net unit
+     * price; the invoiced and expected amounts both include tax at the PO line's rate.
+     * Lines that are not on the PO, or a different currency, make the invoice unmatched;
+     * otherwise quantity variances take precedence over price variances.
+     */
+    private static async match(
+        tx: QueryRunner,
+        po: any,
+        lines: InvoiceLineInput[],
+        currency: string
+    ): Promise<{ result: MatchResult; details: any }> {
+        const tolerances = this.getTolerances();
+        const poLines = PurchaseOrderService.numberLines(JSON.parse(po.line_items));
+        const received = await PurchaseOrderService.getReceivedQuantities(tx, po.id);
+        const invoiced = await this.getInvoicedQuantities(tx, po.id);
+        const reasons: string[] = [];
+        let unmatched = false;
+        let quantityVariance = false;
+        let priceVariance = false;
+        let invoicedAmount = 0;
+        let expectedAmount = 0;
+
+        if (currency !== po.currency) {
+            unmatched = true;
+            reasons.push(`Invoice currency ${currency} differs from purchase order currency ${po.currency}`);
+        }
+
+        const lineResults = lines.map((line) => {
+            const poLine = poLines.find((item: any) => item.line_number === line.lineNumber);
+            invoicedAmount += this.lineAmounts(line.quantity, line.unit_price, poLine).total;
+
+            if (!poLine) {
+                unmatched = true;
+                reasons.push(`Line ${line.lineNumber} is not on purchase order ${po.po_number}`);
+                return { lineNumber: line.lineNumber, result: 'unmatched' };
+            }
+
+            const receivedQuantity = received.get(line.lineNumber) || 0;
+            const previouslyInvoiced = invoiced.get(line.lineNumber) || 0;
+            const allowedQuantity = receivedQuantity * (1 + tolerances.quantityPercent / 100) - previouslyInvoiced;
+            const netUnitPrice = this.netUnitPrice(poLine);
+            const priceVariancePercent = netUnitPrice > 0
+                ? (Math.abs(line.unit_price - netUnitPrice) / netUnitPrice) * 100
+                : line.unit_price > 0 ? Infinity : 0;
+
+            expectedAmount += this.lineAmounts(line.quantity, netUnitPrice, poLine).total;
+
+            let result: MatchResult = 'matched';
+            if (line.quantity > allowedQuantity + 1e-9) {
+                result = 'quantity_variance';
+                quantityVariance = true;
+                reasons.push(
+                    `Line ${line.lineNumber} invoices ${line.quantity} but only ${Math.max(receivedQuantity - previouslyInvoiced, 0)} received and not yet invoiced`
+                );
+            } else if (priceVariancePercent > tolerances.pricePercent) {
+                result = 'price_variance';
+                priceVariance = true;
+                reasons.push(
+                    `Line ${line.lineNumber} unit price ${line.unit_price} differs from PO net price ${netUnitPrice} by ${priceVariancePercent === Infinity ? 'more than 100' : priceVariancePercent.toFixed(2)}%`
+                );
+            }
+
+            return {
+                lineNumber: line.lineNumber,
+                description: poLine.description,
+                orderedQuantity: poLine.quantity,
+                poUnitPrice: netUnitPrice,
+                taxRate: poLine.tax_rate ?? 0,
+                receivedQuantity,
+                previouslyInvoiced,
+                invoicedQuantity: line.quantity,
+                invoicedUnitPrice: line.unit_price,
+                priceVariancePercent: Number.isFinite(priceVariancePercent)
+                    ? Math.round(priceVariancePercent * 100) / 100
+                    : null,
+                result
+            };
+        });
+
+        invoicedAmount = Math.round(invoicedAmount * 100) / 100;
+        expectedAmount = Math.round(expectedAmount * 100) / 100;
+        const amountVariance = Math.round((invoicedAmount - expectedAmount) * 100) / 100;
+
+        const allowedVariance = (expectedAmount * tolerances.amountPercent) / 100;
+        if (!unmatched && Math.abs(amountVariance) > allowedVariance + 0.005) {
+            priceVariance = true;
+            reasons.push(`Invoiced amount ${invoicedAmount} differs from PO value ${expectedAmount} by ${amountVariance}`);
+        }
+
+        const result: MatchResult = unmatched
+            ? 'unmatched'
+            : quantityVariance
+                ? 'quantity_variance'
+                : priceVariance
+                    ? 'price_variance'
+                    : 'matched';
+
+        return {
+            result,
+            details: { tolerances, lines: lineResults, invoicedAmount, expectedAmount, amountVariance, reasons }
+        };
+    }
+
+    /**
+     * Unit price of a PO line after its discount, rounded like the line's amounts
+     */
+    private static netUnitPrice(poLine: any): number {
+        return Math.round(poLine.unit_price * (1 - (poLine.discount_percent ?? 0) / 100) * 10000) / 10000;
+    }
+
+    /**
+     * Amount, tax and total of an invoice line; tax is charged at the rate of the PO line it bills, none for a line
+     * that is not on the PO or was ordered before lines were taxed
+     */
+    private static lineAmounts(
+        quantity: number,
+        unitPrice: number,
+        poLine: any
+    ): { amount: number; tax_amount: number; total: number } {
+        const amount = Math.round(quantity * unitPrice * 100) / 100;
+        const taxAmount = Math.round(((amount * (poLine?.tax_rate ?? 0)) / 100) * 100) / 100;
+
+        return { amount, tax_amount: taxAmount, total: Math.round((amount + taxAmount) * 100) / 100 };
+    }
+
+    /**
+     * Quantity already billed per PO line by invoices that have not been rejected
+     */
+    static async getInvoicedQuantities(db: QueryRunner, purchaseOrderId: number): Promise<Map<number, number>> {
+        const invoices = await db.all<{ line_items: string }>(
+            `SELECT line_items FROM invoices WHERE purchase_order_id = ? AND status != 'rejected'`,
+            [purchaseOrderId]
+        );
+
+        const quantities = new Map<number, number>();
+        for (const invoice of invoices) {
+            for (const line of JSON.parse(invoice.line_items)) {
+                quantities.set(line.line_number, (quantities.get(line.line_number) || 0) + line.quantity);
+            }
+        }
+
+        return quantities;
+    }
+
+    /**
+     * Sign the invoice together with the PO version it was matched against
+     */
+    private static async signRecord(tx: QueryRunner, invoiceId: number): Promise<void> {
+        const invoice = await tx.get<any>(
+            `SELECT i.*, po.po_number, po.amendment_number, po.snapshot_hash as po_snapshot_hash
+             FROM invoices i
+             JOIN purchase_orders po ON i.purchase_order_id = po.id
+             WHERE i.id = ?`,
+            [invoiceId]
+        );
+
+        const snapshot = JSON.stringify({
+            invoiceNumber: invoice.invoice_number,
+            purchaseOrder: {
+                id: invoice.purchase_order_id,
+                poNumber: invoice.po_number,
+                amendmentNumber: invoice.amendment_number,
+                snapshotHash: invoice.po_snapshot_hash
+            },
+            vendorId: invoice.vendor_id,
+            lineItems: JSON.parse(invoice.line_items),
+            totalAmount: invoice.total_amount,
+            currency: invoice.currency,
+            attachmentHash: invoice.attachment_hash,
+            matchResult: invoice.match_result,
+            status: invoice.status,
+            resolution: invoice.resolved_by
+                ? { resolvedBy: invoice.resolved_by, notes: invoice.resolution_notes }
+                : null,
+            signedAt: new Date().toISOString()
+        });
+
+        const { signature, publicKey } = SystemKeyUtil.sign(snapshot);
+
+        await tx.run(
+            `UPDATE invoices SET snapshot = ?, snapshot_hash = ?, signature = ?, public_key = ?, updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [snapshot, HashUtil.sha256(snapshot), signature, publicKey, invoiceId]
+        );
+    }
+
+    /**
+     * Check a signed invoice; null while it is still an exception or was rejected
+     */
+    static verify(invoice: any): { signatureValid: boolean; hashValid: boolean; matchesRecord: boolean } | null {
+        if (!invoice.signature) {
+            return null;
+        }
+
+        const signatureValid = SignatureUtil.verify(invoice.snapshot, invoice.signature, invoice.public_key);
+        const hashValid = HashUtil.sha256(invoice.snapshot) === invoice.snapshot_hash;
+
+        let matchesRecord = false;
+        try {
+            const snapshot = JSON.parse(invoice.snapshot);
+            matchesRecord =
+                snapshot.invoiceNumber === invoice.invoice_number &&
+                snapshot.purchaseOrder.id === invoice.purchase_order_id &&
+                snapshot.vendorId === invoice.vendor_id &&
+                snapshot.totalAmount === invoice.total_amount &&
+                snapshot.attachmentHash === invoice.attachment_hash &&
+                snapshot.status === invoice.status &&
+                JSON.stringify(snapshot.lineItems) === invoice.line_items;
+        } catch {
+            matchesRecord = false;
+        }
+
+        return { signatureValid, hashValid, matchesRecord };
+    }
+
+    /**
+     * Read an invoice PDF back from storage and check it against the stored hash
+     */
+    static readAttachment(invoice: any): { content: Buffer; intact: boolean } {
+        const content = fs.readFileSync(this.attachmentPath(invoice.attachment_hash));
+        return { content, intact: HashUtil.hashFile(content) === invoice.attachment_hash };
+    }
+
+    /**
+     * Decode the Base64 PDF and write it to INVOICE_ATTACHMENT_DIR, named by its SHA-256 hash
+     */
+    private static storeAttachment(attachment: InvoiceInput['attachment']): { name: string; hash: string; size: number } {
+        if (!attachment || !attachment.filename || !attachment.content) {
+            throw new InvoiceError('A PDF copy of the invoice is required');
+        }
+
+        const content = Buffer.from(attachment.content, 'base64');
+        const maxBytes = parseInt(process.env.INVOICE_MAX_ATTACHMENT_BYTES || '5242880'); // 5 MB
+
+        if (content.subarray(0, 5).toString('latin1') !== '%PDF-') {
+            throw new InvoiceError('Invoice attachment must be a PDF');
+        }
+        if (content.length > maxBytes) {
+            throw new InvoiceError(`Invoice attachment exceeds ${Math.floor(maxBytes / 1024 / 1024)} MB`);
+        }
+
+        const hash = HashUtil.hashFile(content);
+        const filePath = this.attachmentPath(hash);
+
+        if (!fs.existsSync(filePath)) {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content);
+        }
+
+        return { name: path.basename(attachment.filename), hash, size: content.length };
+    }
+
+    private static attachmentPath(hash: string): string {
+        return path.join(process.env.INVOICE_ATTACHMENT_DIR || './data/invoices', `${hash}.pdf`);
+    }
+
+    /**
+     * Check invoice lines: each bills one PO line once, with a positive quantity and a non-negative price
+     */
+    private static validateLines(lineItems: InvoiceLineInput[]): InvoiceLineInput[] {
+        if (!Array.isArray(lineItems) || lineItems.length === 0) {
+            throw new InvoiceError('At least one invoice line is required');
+        }
+
+        const seen = new Set<number>();
+
+        return lineItems.map((line, index) => {
+            if (!line || typeof line !== 'object' || Array.isArray(line)) {
+                throw new InvoiceError(`Invoice line ${index + 1} must be an object with lineNumber, quantity and unit_price`);
+            }
+
+            const lineNumber = Number(line.lineNumber);
+            const quantity = Number(line.quantity);
+            const unitPrice = Number(line.unit_price);
+
+            if (!Number.isInteger(lineNumber) || lineNumber < 1) {
+                throw new InvoiceError(`Invalid purchase order line number: ${line.lineNumber}`);
+            }
+            if (seen.has(lineNumber)) {
+                throw new InvoiceError(`Line ${lineNumber} appears more than once`);
+            }
+            if (!(quantity > 0)) {
+                throw new InvoiceError(`Quantity for line ${lineNumber} must be greater than zero`);
+            }
+            if (!(unitPrice >= 0)) {
+                throw new InvoiceError(`Unit price for line ${lineNumber} must not be negative`);
+            }
+            seen.add(lineNumber);
+
+            return { lineNumber, quantity, unit_price: unitPrice };
+        });
+    }
+}
+
+export { InvoiceService };
@@ -0,0 +1,286 @@
+/**
+ * IP Access Service
+ * Blocked addresses and ranges (blocked_ips) and the allowlist that overrides them. Entries are a single
+ * IPv4/IPv6 address or a CIDR range; allowlisted clients also skip the auth rate limiters.
+ */
+
+import net from 'net';
+import { Database, QueryRunner } from '../database/database';
+import { RequestContext } from '../utils/request-context.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Raised when an IP rule is malformed or cannot be applied
+ */
+export class IpRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IpRuleError';
+    }
+}
+
+const ACTIVE_BLOCK = `(is_permanent = 1 OR expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+class IpAccessService {
+    /**
+     * Whether an address is blocked and not allowlisted
+     */
+    static async isBlocked(ip: string, db: QueryRunner = Database): Promise<boolean> {
+        if (await this.isAllowlisted(ip, db)) {
+            return false;
+        }
+
+        const blocks = await db.all<{ ip_address: string }>(`SELECT ip_address FROM blocked_ips WHERE ${ACTIVE_BLOCK}`);
+        return this.matches(ip, blocks.map((block) => block.ip_address));
+    }
+
+    /**
+     * Whether an address falls in an allowlist entry
+     */
+    static async isAllowlisted(ip: string, db: QueryRunner = Database): Promise<boolean> {
+        const allowed = await db.all<{ ip_address: string }>('SELECT ip_address FROM ip_allowlist');
+        return this.matches(ip, allowed.map((entry) => entry.ip_address));
+    }
+
+    /**
+     * Blocked entries, newest first, with whether each is still in force
+     */
+    static async listBlocked(db: QueryRunner): Promise<any[]> {
+        const rows = await db.all<any>(
+            `SELECT b.*, u.full_name as created_by_name, ${ACTIVE_BLOCK} as is_active
+             FROM blocked_ips b
+             LEFT JOIN users u ON b.created_by = u.id
+             ORDER BY b.blocked_at DESC, b.id DESC`
+        );
+
+        return rows.map((row) => ({ ...row, is_permanent: !!row.is_permanent, is_active: !!row.is_active }));
+    }
+
+    /**
+     * Allowlist entries, newest first
+     */
+    static async listAllowlist(db: QueryRunner): Promise<any[]> {
+        return db.all(
+            `SELECT a.*, u.full_name as created_by_name
+             FROM ip_allowlist a
+             LEFT JOIN users u ON a.created_by = u.id
+             ORDER BY a.created_at DESC, a.id DESC`
+        );
+    }
+
+    /**
+     * Block an address or range, replacing any existing entry for it
+     * @param hours - Hours until the block expires; 0 blocks permanently
+     * @param blockedBy - Admin adding the block; null when the rate limiter blocks automatically
+     */
+    static async block(
+        db: QueryRunner,
+        entry: string,
+        reason: string,
+        hours: number,
+        blockedBy: number | null,
+        context: RequestContext
+    ): Promise<number> {
+        const ipAddress = this.normalizeEntry(entry);
+
+        if (!reason || !reason.trim()) {
+            throw new IpRuleError('A reason is required');
+        }
+        if (!Number.isFinite(hours) || hours < 0) {
+            throw new IpRuleError('Hours must be zero (permanent) or more');
+        }
+
+        // Keep an admin from locking themselves out of the auth endpoints
+        if (blockedBy !== null && context.ipAddress && this.matches(context.ipAddress, [ipAddress])
+            && !(await this.isAllowlisted(context.ipAddress, db))) {
+            throw new IpRuleError('This would block your own IP address; allowlist it first');
+        }
+
+        await db.run(
+            `INSERT OR REPLACE INTO blocked_ips (ip_address, reason, expires_at, is_permanent, created_by)
+             VALUES (?, ?, ?, ?, ?)`,
+            [ipAddress, reason.trim(), this.expiryFor(hours), hours === 0 ? 1 : 0, blockedBy]
+        );
+
+        const block = await db.get<{ id: number }>('SELECT id FROM blocked_ips WHERE ip_address = ?', [ipAddress]);
+
+        await AuditService.log(db, {
+            userId: blockedBy,
+            action: 'ip.blocked',
+            entityType: 'blocked_ip',
+            entityId: block!.id,
+            details: { ipAddress, reason: reason.trim(), hours },
+            ipAddress: context.ipAddress
+        });
+
+        return block!.id;
+    }
+
+    /**
+     * Change how long a block lasts
+     * @param hours - Hours from now; 0 makes it permanent
+     */
+    static async setExpiry(db: QueryRunner, id: number, hours: number, updatedBy: number, context: RequestContext): Promise<void> {
+        if (!Number.isFinite(hours) || hours < 0) {
+            throw new IpRuleError('Hours must be zero (permanent) or more');
+        }
+
+        const result = await db.run(
+            'UPDATE blocked_ips SET expires_at = ?, is_permanent = ? WHERE id = ?',
+            [this.expiryFor(hours), hours === 0 ? 1 : 0, id]
+        );
+
+        if (result.changes === 0) {
+            throw new IpRuleError('Blocked IP not found');
+        }
+
+        await AuditService.log(db, {
+            userId: updatedBy,
+            action: 'ip.block_updated',
+            entityType: 'blocked_ip',
+            entityId: id,
+            details: { hours },
+            ipAddress: context.ipAddress
+        });
+    }
+
+    /**
+     * Remove a block
+     */
+    static async unblock(db: QueryRunner, id: number, unblockedBy: number, context: RequestContext): Promise<void> {
+        const block = await db.get<{ ip_address: string }>('SELECT ip_address FROM blocked_ips WHERE id = ?', [id]);
+
+        if (!block) {
+            throw new IpRuleError('Blocked IP not found');
+        }
+
+        await db.run('DELETE FROM blocked_ips WHERE id = ?', [id]);
+
+        await AuditService.log(db, {
+            userId: unblockedBy,
+            action: 'ip.unblocked',
+            entityType: 'blocked_ip',
+            entityId: id,
+            details: { ipAddress: block.ip_address },
+            ipAddress: context.ipAddress
+        });
+    }
+
+    /**
+     * Exempt an address or range from blocks and rate limits
+     */
+    static async allow(db: QueryRunner, entry: string, reason: string, allowedBy: number, context: RequestContext): Promise<number> {
+        const ipAddress = this.normalizeEntry(entry);
+
+        if (!reason || !reason.trim()) {
+            throw new IpRuleError('A reason is required');
+        }
+
+        const existing = await db.get('SELECT id FROM ip_allowlist WHERE ip_address = ?', [ipAddress]);
+        if (existing) {
+            throw new IpRuleError(`${ipAddress} is already allowlisted`);
+        }
+
+        const result = await db.run(
+            'INSERT INTO ip_allowlist (ip_address, reason, created_by) VALUES (?, ?, ?)',
+            [ipAddress, reason.trim(), allowedBy]
+        );
+
+        await AuditService.log(db, {
+            userId: allowedBy,
+            action: 'ip.allowlisted',
+            entityType: 'ip_allowlist',
+            entityId: result.lastID,
+            details: { ipAddress, reason: reason.trim() },
+            ipAddress: context.ipAddress
+        });
+
+        return result.lastID;
+    }
+
+    /**
+     * Remove an allowlist entry
+     */
+    static async removeAllowed(db: QueryRunner, id: number, removedBy: number, context: RequestContext): Promise<void> {
+        const entry = await db.get<{ ip_address: string }>('SELECT ip_address FROM ip_allowlist WHERE id = ?', [id]);
+
+        if (!entry) {
+            throw new IpRuleError('Allowlist entry not found');
+        }
+
+        await db.run('DELETE FROM ip_allowlist WHERE id = ?', [id]);
+
+        await AuditService.log(db, {
+            userId: removedBy,
+            action: 'ip.allowlist_removed',
+            entityType: 'ip_allowlist',
+            entityId: id,
+            details: { ipAddress: entry.ip_address },
+            ipAddress: context.ipAddress
+        });
+    }
+
+    /**
+     * Validate an address or CIDR range and return it in the form it is stored
+     */
+    static normalizeEntry(entry: string): string {
+        const [rawAddress, rawPrefix, ...rest] = String(entry || '').trim().split('/');
+        const address = this.stripMappedPrefix(rawAddress);
+        const family = net.isIP(address);
+
+        if (!family || rest.length > 0) {
+            throw new IpRuleError(`"${entry}" is not an IP address or CIDR range`);
+        }
+
+        if (rawPrefix === undefined) {
+            return address;
+        }
+
+        const prefix = Number(rawPrefix);
+        const maxPrefix = family === 4 ? 32 : 128;
+        if (!/^\d+$/.test(rawPrefix) || prefix > maxPrefix) {
+            throw new IpRuleError(`"${entry}" has an invalid prefix length; use 0-${maxPrefix}`);
+        }
+
+        return `${address}/${prefix}`;
+    }
+
+    /**
+     * Whether an address falls in any of the entries
+     */
+    private static matches(ip: string, entries: string[]): boolean {
+        const address = this.stripMappedPrefix(ip);
+        const family = net.isIP(address);
+
+        if (!family || entries.length === 0) {
+            return false;
+        }
+
+        const list = new net.BlockList();
+        for (const entry of entries) {
+            const [entryAddress, prefix] = entry.split('/');
+            const type = net.isIP(entryAddress) === 6 ? 'ipv6' : 'ipv4';
+
+            if (prefix === undefined) {
+                list.addAddress(entryAddress, type);
+            } else {
+                list.addSubnet(entryAddress, Number(prefix), type);
+            }
+        }
+
+        return list.check(address, family === 6 ? 'ipv6' : 'ipv4');
+    }
+
+    /**
+     * IPv4 clients on a dual-stack socket arrive as ::ffff:a.b.c.d
+     */
+    private static stripMappedPrefix(ip: string): string {
+        return ip.toLowerCase().startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+    }
+
+    private static expiryFor(hours: number): string | null {
+        return hours > 0 ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null;
+    }
+}
+
+export { IpAccessService };
@@ -0,0 +1,228 @@
+/**
+ * Line Item Service
+ * The typed quotation line item: validated with joi on every write, priced on the server (discounts, taxes and
+ * totals), and mapped to a requirement line of the RFQ it answers
+ */
+
+import Joi from 'joi';
+import { RequirementLine } from './requirement-line.service';
+
+/**
+ * Raised when line items fail validation
+ */
+export class LineItemError extends Error {
+    constructor(message: string, public readonly problems: string[] = []) {
+        super(message);
+        this.name = 'LineItemError';
+    }
+
+    static from(problems: string[]): LineItemError {
+        return new LineItemError(`Invalid line items: ${problems.join('; ')}`, problems);
+    }
+}
+
+/**
+ * A line item as the vendor writes it
+ */
+export interface LineItemInput {
+    requirement_line: number | null; // line_number of the RFQ requirement line answered
+    no_bid: boolean; // The vendor declines the requirement line; quantity and price are 0
+    sku: string | null;
+    description: string;
+    quantity: number;
+    unit_of_measure: string;
+    unit_price: number;
+    discount_percent: number;
+    tax_code: string;
+    delivery_date: string | null; // YYYY-MM-DD
+}
+
+/**
+ * A line item as stored: the input plus the amounts the server computed from it
+ */
+export interface LineItem extends LineItemInput {
+    tax_rate: number; // Percent applied for tax_code when the line was priced
+    subtotal: number;
+    discount_amount: number;
+    tax_amount: number;
+    total: number;
+}
+
+export interface LineItemTotals {
+    subtotal: number;
+    discount: number;
+    tax: number;
+    total: number;
+}
+
+const MAX_LINE_ITEMS = 200;
+
+// Percent per tax code, unless TAX_RATES overrides them ("CODE:percent,CODE:percent")
+const DEFAULT_TAX_RATES: Record<string, number> = {
+    EXEMPT: 0,
+    ZERO: 0,
+    REDUCED: 5,
+    STANDARD: 20
+};
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+class LineItemService {
+    /**
+     * Tax rates by code, in percent
+     */
+    static getTaxRates(): Record<string, number> {
+        if (!process.env.TAX_RATES) {
+            return DEFAULT_TAX_RATES;
+        }
+
+        const rates: Record<string, number> = {};
+        for (const entry of process.env.TAX_RATES.split(',').filter((part) => part.trim())) {
+            const [code, rate] = entry.split(':');
+            rates[code.trim().toUpperCase()] = parseFloat(rate);
+        }
+        return rates;
+    }
+
+    /**
+     * Validate line items against an RFQ and compute their amounts.
+     * Amounts sent by the client (subtotal, total, ...) are ignored and recomputed.
+     * When the RFQ has requirement lines, every one of them must be quoted or declined with a no-bid line.
+     * @param requirementLines - Requirement lines of the RFQ the quotation answers
+     * @param lineItems - Line items from the request body
+     * @returns Priced line items and the quotation totals
+     * @throws LineItemError listing every problem found
+     */
+    static price(requirementLines: RequirementLine[], lineItems: unknown): { lineItems: LineItem[]; totals: LineItemTotals } {
+        const taxRates = this.getTaxRates();
+        const { value, error } = this.schema(Object.keys(taxRates)).validate(lineItems, {
+            abortEarly: false,
+            stripUnknown: true,
+            errors: { label: 'key', wrap: { label: false } }
+        });
+
+        if (error) {
+            const problems = error.details.map((detail) =>
+                typeof detail.path[0] === 'number' ? `Line ${detail.path[0] + 1}: ${detail.message}` : detail.message
+            );
+            throw LineItemError.from(problems);
+        }
+
+        const items = (value as LineItemInput[]).map((item) =>
+            item.no_bid ? { ...item, quantity: 0, unit_price: 0, discount_percent: 0 } : item
+        );
+
+        const problems = this.checkRequirementLines(requirementLines, items);
+        if (problems.length > 0) {
+            throw LineItemError.from(problems);
+        }
+
+        const priced = items.map((item) => {
+            const taxRate = taxRates[item.tax_code];
+            const subtotal = round(item.quantity * item.unit_price);
+            const discountAmount = round((subtotal * item.discount_percent) / 100);
+            const taxAmount = round(((subtotal - discountAmount) * taxRate) / 100);
+
+            return {
+                ...item,
+                tax_rate: taxRate,
+                subtotal,
+                discount_amount: discountAmount,
+                tax_amount: taxAmount,
+                total: round(subtotal - discountAmount + taxAmount)
+            };
+        });
+
+        return { lineItems: priced, totals: this.totals(priced) };
+    }
+
+    /**
+     * Sum priced line items. Lines stored before pricing only carry quantity and unit price.
+     */
+    static totals(lineItems: any[]): LineItemTotals {
+        const sum = (amount: (item: any) => number) => round(lineItems.reduce((total, item) => total + amount(item), 0));
+
+        return {
+            subtotal: sum((item) => item.subtotal ?? item.quantity * item.unit_price),
+            discount: sum((item) => item.discount_amount ?? 0),
+            tax: sum((item) => item.tax_amount ?? 0),
+            total: sum((item) => item.total ?? item.quantity * item.unit_price)
+        };
+    }
+
+    /**
+     * Problems with how line items map to the RFQ's requirement lines
+     */
+    private static checkRequirementLines(requirementLines: RequirementLine[], items: LineItemInput[]): string[] {
+        const problems: string[] = [];
+        const numbers = new Set(requirementLines.map((line) => line.line_number));
+
+        items.forEach((item, index) => {
+            if (numbers.size === 0 && item.requirement_line !== null) {
+                problems.push(`Line ${index + 1}: the RFQ lists no requirement lines to map to`);
+            } else if (numbers.size === 0 && item.no_bid) {
+                problems.push(`Line ${index + 1}: no bid applies to a requirement line`);
+            } else if (numbers.size > 0 && item.requirement_line === null) {
+                problems.push(`Line ${index + 1}: requirement_line is required`);
+            } else if (item.requirement_line !== null && !numbers.has(item.requirement_line)) {
+                problems.push(`Line ${index + 1}: the RFQ has no requirement line ${item.requirement_line}`);
+            }
+        });
+
+        for (const line of requirementLines) {
+            const answers = items.filter((item) => item.requirement_line === line.line_number);
+            if (answers.length === 0) {
+                problems.push(`Requirement line ${line.line_number} (${line.item}) is not answered; quote it or mark it no bid`);
+            } else if (answers.length > 1 && answers.some((item) => item.no_bid)) {
+                problems.push(`Requirement line ${line.line_number} cannot be both quoted and marked no bid`);
+            }
+        }
+
+        return problems;
+    }
+
+    private static schema(taxCodes: string[]): Joi.ArraySchema {
+        const taxCode = Joi.string().trim().uppercase().valid(...taxCodes);
+
+        // A no-bid line carries no quantity or price; any sent are dropped
+        const unlessNoBid = (schema: Joi.Schema) =>
+            Joi.alternatives().conditional('no_bid', { is: true, then: Joi.any().strip(), otherwise: schema });
+
+        const item = Joi.object({
+            requirement_line: Joi.number().integer().min(1).allow(null).default(null),
+            no_bid: Joi.boolean().default(false),
+            sku: Joi.string().trim().max(64).allow(null).empty('').default(null),
+            description: Joi.alternatives().conditional('no_bid', {
+                is: true,
+                then: Joi.string().trim().max(500).empty('').default('No bid'),
+                otherwise: Joi.string().trim().max(500).required()
+            }),
+            quantity: unlessNoBid(Joi.number().positive().precision(3).required()),
+            unit_of_measure: Joi.string().trim().uppercase().max(16).default('EA'),
+            unit_price: unlessNoBid(Joi.number().min(0).precision(4).required()),
+            discount_percent: unlessNoBid(Joi.number().min(0).max(100).precision(2).default(0)),
+            tax_code: taxCodes.includes('EXEMPT') ? taxCode.default('EXEMPT') : taxCode.required(),
+            delivery_date: Joi.string()
+                .pattern(/^\d{4}-\d{2}-\d{2}$/)
+                .custom((value, helpers) => (isNaN(Date.parse(value)) ? helpers.error('any.invalid') : value))
+                .allow(null)
+                .default(null)
+                .messages({
+                    'string.pattern.base': 'delivery_date must be a date (YYYY-MM-DD)',
+                    'any.invalid': 'delivery_date must be a date (YYYY-MM-DD)'
+                })
+        });
+
+        return Joi.array()
+            .items(item)
+            .min(1)
+            .max(MAX_LINE_ITEMS)
+            .required()
+            .label('lineItems')
+            .messages({ 'array.min': 'at least one line item is required' });
+    }
+}
+
+export { LineItemService };
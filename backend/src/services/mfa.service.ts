@@ -0,0 +1,230 @@
+/**
+ * MFA Service
+ * Authenticator-app (TOTP) enrollment and verification. The shared secret is held encrypted to the
+ * system key, and field-encrypted on top like other personal data; backup codes are stored as SHA-256 hashes
+ * and each one works once.
+ */
+
+import QRCode from 'qrcode';
+import { Database, QueryRunner } from '../database/database';
+import { HashUtil } from '../utils/security/hash.util';
+import { FieldEncryptionUtil } from '../utils/security/field-encryption.util';
+import { SystemKeyUtil } from '../utils/security/system-key.util';
+import { TOTPUtil } from '../utils/security/totp.util';
+import { RequestContext } from '../utils/request-context.util';
+
+/**
+ * Raised when an MFA enrollment step is not allowed or its code is wrong
+ */
+export class MfaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MfaError';
+    }
+}
+
+class MfaService {
+    /**
+     * Start enrollment: store a fresh pending secret and return it with a scannable QR code.
+     * Starting again replaces any secret that was never confirmed.
+     */
+    static async beginSetup(userId: number): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+        const user = await this.getUser(Database, userId);
+
+        if (user.mfa_enabled) {
+            throw new MfaError('MFA is already enabled');
+        }
+
+        const secret = TOTPUtil.generateSecret();
+        const otpauthUrl = TOTPUtil.generateQRCodeURL(secret, user.email);
+        const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+        await Database.run(
+            'UPDATE users SET mfa_secret = ?, mfa_last_used_step = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [await FieldEncryptionUtil.encrypt('users.mfa_secret', SystemKeyUtil.encrypt(Buffer.from(secret))), userId]
+        );
+
+        return { secret, otpauthUrl, qrCode };
+    }
+
+    /**
+     * Finish enrollment with a code from the authenticator app
+     * @returns Backup codes in plain text; they are not retrievable afterwards
+     */
+    static async confirm(userId: number, code: string, context: RequestContext): Promise<string[]> {
+        return Database.transaction(async (tx) => {
+            const user = await this.getUser(tx, userId);
+
+            if (user.mfa_enabled) {
+                throw new MfaError('MFA is already enabled');
+            }
+            if (!user.mfa_secret) {
+                throw new MfaError('Start MFA setup before confirming it');
+            }
+
+            const step = TOTPUtil.verifyTokenStep(code, this.decryptSecret(user.mfa_secret));
+            if (step === null) {
+                throw new MfaError('Invalid authenticator code');
+            }
+
+            const backupCodes = TOTPUtil.generateBackupCodes();
+
+            await tx.run(
+                `UPDATE users SET mfa_enabled = 1, backup_codes = ?, mfa_last_used_step = ?, updated_at = CURRENT_TIMESTAMP
+                 WHERE id = ?`,
+                [JSON.stringify(backupCodes.map((backupCode) => TOTPUtil.hashBackupCode(backupCode))), step, userId]
+            );
+
+            await this.logEvent(tx, userId, 'mfa_enabled', 'low', context, 'Authenticator app MFA enabled');
+
+            return backupCodes;
+        });
+    }
+
+    /**
+     * Turn MFA off; requires the account password and a current second factor
+     */
+    static async disable(userId: number, password: string, code: string, context: RequestContext): Promise<void> {
+        await Database.transaction(async (tx) => {
+            const user = await this.getUser(tx, userId);
+
+            if (!user.mfa_enabled) {
+                throw new MfaError('MFA is not enabled');
+            }
+            if (!(await HashUtil.verifyPassword(password, user.password_hash))) {
+                throw new MfaError('Password incorrect');
+            }
+            if (!(await this.verifySecondFactor(tx, userId, code))) {
+                throw new MfaError('Invalid authenticator or backup code');
+            }
+
+            await tx.run(
+                `UPDATE users SET mfa_enabled = 0, mfa_secret = NULL, backup_codes = NULL, mfa_last_used_step = NULL,
+                    updated_at = CURRENT_TIMESTAMP
+                 WHERE id = ?`,
+                [userId]
+            );
+
+            await this.logEvent(tx, userId, 'mfa_disabled', 'high', context, 'Authenticator app MFA disabled');
+        });
+    }
+
+    /**
+     * Replace all backup codes; requires a code from the authenticator app
+     * @returns New backup codes in plain text
+     */
+    static async regenerateBackupCodes(userId: number, code: string): Promise<string[]> {
+        return Database.transaction(async (tx) => {
+            const user = await this.getUser(tx, userId);
+
+            if (!user.mfa_enabled) {
+                throw new MfaError('MFA is not enabled');
+            }
+            if (!(await this.verifyTotp(tx, user, code))) {
+                throw new MfaError('Invalid authenticator code');
+            }
+
+            const backupCodes = TOTPUtil.generateBackupCodes();
+
+            await tx.run(
+                'UPDATE users SET backup_codes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+                [JSON.stringify(backupCodes.map((backupCode) => TOTPUtil.hashBackupCode(backupCode))), userId]
+            );
+
+            return backupCodes;
+        });
+    }
+
+    /**
+     * MFA state of a user, for their profile
+     */
+    static async getStatus(db: QueryRunner, userId: number): Promise<{ enabled: boolean; backupCodesRemaining: number }> {
+        const user = await this.getUser(db, userId);
+        return {
+            enabled: !!user.mfa_enabled,
+            backupCodesRemaining: user.mfa_enabled ? this.parseBackupCodes(user.backup_codes).length : 0
+        };
+    }
+
+    /**
+     * Check a second factor at login: a 6-digit authenticator code, or a backup code which is then used up
+     */
+    static async verifySecondFactor(db: QueryRunner, userId: number, code: string): Promise<boolean> {
+        const user = await this.getUser(db, userId);
+
+        if (!user.mfa_enabled || typeof code !== 'string') {
+            return false;
+        }
+
+        const normalized = code.replace(/\s/g, '').toUpperCase();
+
+        if (/^\d{6}$/.test(normalized)) {
+            return this.verifyTotp(db, user, normalized);
+        }
+
+        const hashedCodes = this.parseBackupCodes(user.backup_codes);
+        if (!TOTPUtil.verifyBackupCode(normalized, hashedCodes)) {
+            return false;
+        }
+
+        const hashed = TOTPUtil.hashBackupCode(normalized);
+        const result = await db.run(
+            'UPDATE users SET backup_codes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND backup_codes = ?',
+            [JSON.stringify(hashedCodes.filter((hashedCode) => hashedCode !== hashed)), userId, user.backup_codes]
+        );
+
+        // Someone else used a backup code in between
+        return result.changes > 0;
+    }
+
+    /**
+     * Accept an authenticator code once: codes from the last used time step or earlier are refused
+     */
+    private static async verifyTotp(db: QueryRunner, user: any, code: string): Promise<boolean> {
+        const step = TOTPUtil.verifyTokenStep(code, this.decryptSecret(user.mfa_secret));
+        if (step === null) {
+            return false;
+        }
+
+        const result = await db.run(
+            `UPDATE users SET mfa_last_used_step = ?
+             WHERE id = ? AND (mfa_last_used_step IS NULL OR mfa_last_used_step < ?)`,
+            [step, user.id, step]
+        );
+
+        return result.changes > 0;
+    }
+
+    private static async getUser(db: QueryRunner, userId: number): Promise<any> {
+        const user = await db.get<any>('SELECT * FROM users WHERE id = ?', [userId]);
+        if (!user) {
+            throw new MfaError('User not found');
+        }
+        return user;
+    }
+
+    private static decryptSecret(encrypted: string): string {
+        return SystemKeyUtil.decrypt(encrypted).toString();
+    }
+
+    private static parseBackupCodes(value: string | null): string[] {
+        return value ? JSON.parse(value) : [];
+    }
+
+    private static async logEvent(
+        db: QueryRunner,
+        userId: number,
+        eventType: string,
+        severity: string,
+        context: RequestContext,
+        details: string
+    ): Promise<void> {
+        await db.run(
+            `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [userId, eventType, severity, context.ipAddress, context.userAgent, details]
+        );
+    }
+}
+
+export { MfaService };
@@ -0,0 +1,123 @@
+/**
+ * Password Reset Service
+ * Forgot-password flow: a single-use, expiring link is emailed to the user; using it sets a new password
+ * and signs out every session of the account.
+ */
+
+import crypto from 'crypto';
+import { Database } from '../database/database';
+import { FieldEncryptionUtil } from '../utils/security/field-encryption.util';
+import { HashUtil } from '../utils/security/hash.util';
+import { PasswordUtil } from '../utils/security/password.util';
+import { PasswordHistoryUtil } from '../utils/security/password-history.util';
+import { RequestContext } from '../utils/request-context.util';
+import { EmailService } from './email.service';
+import { SessionService } from './session.service';
+
+const RESET_TOKEN_TTL_MINUTES = 30;
+
+/**
+ * Raised when a reset link is invalid or the new password is not acceptable
+ */
+export class PasswordResetError extends Error {
+    constructor(message: string, readonly details?: Record<string, any>) {
+        super(message);
+        this.name = 'PasswordResetError';
+    }
+}
+
+class PasswordResetService {
+    /**
+     * Email a reset link if the address belongs to an active user. Unknown addresses are ignored silently,
+     * so the response does not reveal which emails have accounts.
+     */
+    static async request(email: string, context: RequestContext): Promise<void> {
+        const byEmail = await FieldEncryptionUtil.matching('email', 'users.email', email);
+        const user = await Database.get<any>(
+            `SELECT id, email, full_name FROM users WHERE ${byEmail.sql} AND is_active = 1`,
+            byEmail.params
+        );
+
+        if (!user) {
+            return;
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+
+        await Database.transaction(async (tx) => {
+            // Only the newest link works
+            await tx.run(
+                'UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND used_at IS NULL',
+                [user.id]
+            );
+
+            await tx.run(
+                `INSERT INTO password_reset_tokens (user_id, token_hash, ip_address, expires_at)
+                 VALUES (?, ?, ?, datetime('now', ?))`,
+                [user.id, HashUtil.sha256(token), context.ipAddress, `+${RESET_TOKEN_TTL_MINUTES} minutes`]
+            );
+        });
+
+        await EmailService.sendPasswordResetEmail(user.email, user.full_name, token, RESET_TOKEN_TTL_MINUTES);
+    }
+
+    /**
+     * Set a new password with a reset token, then sign out every session of the user
+     */
+    static async reset(token: string, newPassword: string, context: RequestContext): Promise<void> {
+        await Database.transaction(async (tx) => {
+            const reset = await tx.get<any>(
+                `SELECT t.id, t.user_id, u.password_hash
+                 FROM password_reset_tokens t
+                 JOIN users u ON t.user_id = u.id
+                 WHERE t.token_hash = ? AND t.used_at IS NULL AND t.expires_at > datetime('now') AND u.is_active = 1`,
+                [HashUtil.sha256(token)]
+            );
+
+            if (!reset) {
+                throw new PasswordResetError('This reset link is invalid or has expired');
+            }
+
+            const analysis = PasswordUtil.analyzeStrength(newPassword);
+            if (analysis.score < 4) {
+                throw new PasswordResetError('New password too weak', { analysis });
+            }
+
+            if (await PasswordHistoryUtil.isPasswordReused(reset.user_id, newPassword)) {
+                throw new PasswordResetError('Password reuse not allowed', {
+                    message: 'You cannot reuse any of your last 5 passwords. Please choose a different password.'
+                });
+            }
+
+            const newPasswordHash = await HashUtil.hashPassword(newPassword);
+            const passwordExpiresAt = PasswordHistoryUtil.calculateExpirationDate();
+
+            await PasswordHistoryUtil.addToHistory(reset.user_id, reset.password_hash);
+
+            // A reset also clears any lockout from failed logins
+            await tx.run(
+                `UPDATE users
+                 SET password_hash = ?,
+                     password_changed_at = CURRENT_TIMESTAMP,
+                     password_expires_at = ?,
+                     failed_login_attempts = 0,
+                     locked_until = NULL,
+                     updated_at = CURRENT_TIMESTAMP
+                 WHERE id = ?`,
+                [newPasswordHash, passwordExpiresAt.toISOString(), reset.user_id]
+            );
+
+            await tx.run('UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ?', [reset.id]);
+
+            await SessionService.revokeAll(tx, reset.user_id, reset.user_id, 'password_reset', context);
+
+            await tx.run(
+                `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [reset.user_id, 'password_changed', 'medium', context.ipAddress, context.userAgent, 'Password reset via emailed link']
+            );
+        });
+    }
+}
+
+export { PasswordResetService };
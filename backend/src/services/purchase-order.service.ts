@@ -0,0 +1,565 @@
+/**
+ * Purchase Order Service
+ * Issues signed purchase orders from awarded quotations and runs their lifecycle:
+ * acknowledgement, amendments, goods receipts and closure
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { QueryRunner } from '../database/database';
+import { Base64Util } from '../utils/security/base64.util';
+import { HashUtil } from '../utils/security/hash.util';
+import { SignatureUtil } from '../utils/security/signature.util';
+import { SystemKeyUtil } from '../utils/security/system-key.util';
+import { ApprovalWorkflowService } from './approval-workflow.service';
+import { AuditService } from './audit.service';
+import { LineItemService } from './line-item.service';
+import { RequirementLine, RequirementLineService } from './requirement-line.service';
+
+/**
+ * Raised when a purchase order change is not allowed in its current state
+ */
+export class PurchaseOrderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PurchaseOrderError';
+    }
+}
+
+export interface ReceiptLine {
+    lineNumber: number;
+    quantity: number;
+}
+
+const OPEN_STATUSES = ['issued', 'acknowledged', 'partially_received'];
+
+class PurchaseOrderService {
+    /**
+     * Quotation line items are Base64-encoded on create but plain JSON after a revision
+     */
+    static parseLineItems(raw: string): any[] {
+        try {
+            return JSON.parse(raw);
+        } catch {
+            return Base64Util.decodeJSON(raw);
+        }
+    }
+
+    /**
+     * PO line items with their line numbers. Receipts, invoices and amendments refer to a line by its number, which
+     * stays with the line when an amendment reorders or removes others; lines stored before they were numbered are
+     * numbered by position.
+     */
+    static numberLines(lineItems: any[]): any[] {
+        return lineItems.map((item, index) => ({ ...item, line_number: item.line_number ?? index + 1 }));
+    }
+
+    /**
+     * Create a purchase order for an awarded quotation and sign its snapshot with the system key.
+     * Lines the vendor declined (no bid) are left out; the others are numbered from 1. Must run inside a transaction.
+     * @param requirementLines - For a split award, the RFQ requirement lines awarded to this quotation;
+     * null orders every line the quotation quoted
+     * @returns ID and number of the new purchase order
+     */
+    static async issue(
+        tx: QueryRunner,
+        quotationId: number,
+        issuedBy: number,
+        notes: string | null,
+        requirementLines: number[] | null = null
+    ): Promise<{ id: number; poNumber: string; totalAmount: number }> {
+        const quotation = await tx.get<any>(
+            `SELECT q.*, r.rfq_number, r.title as rfq_title, u.company_name, u.email as vendor_email
+             FROM quotations q
+             JOIN rfqs r ON q.rfq_id = r.id
+             JOIN users u ON q.vendor_id = u.id
+             WHERE q.id = ?`,
+            [quotationId]
+        );
+
+        const poNumber = `PO-${Date.now()}-${uuidv4().split('-')[0]}`;
+        const lineItems = this.numberLines(
+            this.parseLineItems(quotation.line_items).filter(
+                (item) => !item.no_bid && (!requirementLines || requirementLines.includes(item.requirement_line))
+            )
+        );
+        const totalAmount = requirementLines ? LineItemService.totals(lineItems).total : quotation.total_amount;
+        const issuedAt = new Date().toISOString();
+
+        const snapshot = JSON.stringify({
+            poNumber,
+            amendmentNumber: 0,
+            rfq: { id: quotation.rfq_id, rfqNumber: quotation.rfq_number, title: quotation.rfq_title },
+            vendor: { id: quotation.vendor_id, companyName: quotation.company_name, email: quotation.vendor_email },
+            quotation: {
+                id: quotation.id,
+                quoteNumber: quotation.quote_number,
+                signature: quotation.digital_signature
+            },
+            requirementLines,
+            lineItems,
+            totalAmount,
+            currency: quotation.currency,
+            issuedBy,
+            issuedAt
+        });
+
+        const { signature, publicKey } = SystemKeyUtil.sign(snapshot);
+
+        const result = await tx.run(
+            `INSERT INTO purchase_orders (
+                po_number, rfq_id, quotation_id, vendor_id, total_amount, currency, line_items,
+                notes, snapshot, snapshot_hash, signature, public_key, issued_by, issued_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime(?))`,
+            [
+                poNumber,
+                quotation.rfq_id,
+                quotation.id,
+                quotation.vendor_id,
+                totalAmount,
+                quotation.currency,
+                JSON.stringify(lineItems),
+                notes,
+                snapshot,
+                HashUtil.sha256(snapshot),
+                signature,
+                publicKey,
+                issuedBy,
+                issuedAt
+            ]
+        );
+
+        await AuditService.log(tx, {
+            userId: issuedBy,
+            action: 'purchase_order.issued',
+            entityType: 'purchase_order',
+            entityId: result.lastID,
+            details: { poNumber, quotationId: quotation.id, totalAmount, requirementLines }
+        });
+
+        return { id: result.lastID, poNumber, totalAmount };
+    }
+
+    /**
+     * Vendor confirms receipt of the current version of the purchase order
+     */
+    static async acknowledge(tx: QueryRunner, po: any, userId: number): Promise<void> {
+        if (!OPEN_STATUSES.includes(po.status)) {
+            throw new PurchaseOrderError(`A ${po.status} purchase order cannot be acknowledged`);
+        }
+
+        if (po.acknowledged_at) {
+            throw new PurchaseOrderError('Purchase order already acknowledged');
+        }
+
+        await tx.run(
+            `UPDATE purchase_orders
+             SET acknowledged_at = CURRENT_TIMESTAMP, acknowledged_by = ?,
+                 status = CASE status WHEN 'issued' THEN 'acknowledged' ELSE status END,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [userId, po.id]
+        );
+
+        await AuditService.log(tx, {
+            userId,
+            action: 'purchase_order.acknowledged',
+            entityType: 'purchase_order',
+            entityId: po.id,
+            details: { amendmentNumber: po.amendment_number },
+            before: { status: po.status, acknowledged_by: null },
+            after: { status: po.status === 'issued' ? 'acknowledged' : po.status, acknowledged_by: userId }
+        });
+    }
+
+    /**
+     * Propose a numbered amendment replacing the PO's line items and route it for approval.
+     * The lines are validated and priced like quotation line items, and must answer every requirement line the PO
+     * orders. A line sent with the line_number of a current PO line amends that line; one without is a new line and
+     * gets a number never used on this PO. Lines that already have receipts cannot be removed or reduced below the
+     * received quantity.
+     * @returns The new amendment and the approval policy it was routed through
+     * @throws LineItemError listing every problem with the line items
+     */
+    static async requestAmendment(
+        tx: QueryRunner,
+        po: any,
+        lineItems: any[],
+        reason: string,
+        userId: number
+    ): Promise<{ id: number; amendmentNumber: number; totalAmount: number; approvalPolicy: string }> {
+        if (!OPEN_STATUSES.includes(po.status)) {
+            throw new PurchaseOrderError(`A ${po.status} purchase order cannot be amended`);
+        }
+
+        const pending = await tx.get(
+            `SELECT id FROM po_amendments WHERE purchase_order_id = ? AND status = 'pending_approval'`,
+            [po.id]
+        );
+        if (pending) {
+            throw new PurchaseOrderError('An amendment is already awaiting approval');
+        }
+
+        const { lineItems: priced, totals } = LineItemService.price(await this.orderedRequirementLines(tx, po), lineItems);
+        const items = await this.carryLineNumbers(tx, po, lineItems, priced);
+        const received = await this.getReceivedQuantities(tx, po.id);
+        for (const [lineNumber, quantity] of received) {
+            const line = items.find((item) => item.line_number === lineNumber);
+            if (!line || line.quantity < quantity) {
+                throw new PurchaseOrderError(
+                    `Line ${lineNumber} has ${quantity} received and cannot be removed or reduced below that`
+                );
+            }
+        }
+
+        const totalAmount = totals.total;
+        const last = await tx.get<{ number: number | null }>(
+            'SELECT MAX(amendment_number) as number FROM po_amendments WHERE purchase_order_id = ?',
+            [po.id]
+        );
+        const amendmentNumber = (last?.number || 0) + 1;
+
+        const result = await tx.run(
+            `INSERT INTO po_amendments (purchase_order_id, amendment_number, line_items, total_amount, reason, requested_by)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [po.id, amendmentNumber, JSON.stringify(items), totalAmount, reason, userId]
+        );
+
+        const workflow = await ApprovalWorkflowService.startWorkflow(tx, po.quotation_id, result.lastID);
+
+        await AuditService.log(tx, {
+            userId,
+            action: 'purchase_order.amendment_requested',
+            entityType: 'purchase_order',
+            entityId: po.id,
+            details: {
+                amendmentNumber,
+                previousTotal: po.total_amount,
+                totalAmount,
+                reason,
+                approvalPolicy: workflow.policyName
+            }
+        });
+
+        return { id: result.lastID, amendmentNumber, totalAmount, approvalPolicy: workflow.policyName };
+    }
+
+    /**
+     * Finish an amendment once its approval workflow has decided.
+     * An approved amendment replaces the PO's lines, is re-signed and needs a fresh acknowledgement.
+     */
+    static async completeAmendment(
+        tx: QueryRunner,
+        amendmentId: number,
+        outcome: 'approved' | 'rejected',
+        userId: number
+    ): Promise<void> {
+        const amendment = await tx.get<any>('SELECT * FROM po_amendments WHERE id = ?', [amendmentId]);
+        const po = await tx.get<any>('SELECT * FROM purchase_orders WHERE id = ?', [amendment.purchase_order_id]);
+
+        if (outcome === 'rejected') {
+            await AuditService.log(tx, {
+                userId,
+                action: 'purchase_order.amendment_rejected',
+                entityType: 'purchase_order',
+                entityId: po.id,
+                details: { amendmentNumber: amendment.amendment_number }
+            });
+            return;
+        }
+
+        const lineItems = JSON.parse(amendment.line_items);
+        const snapshot = JSON.stringify({
+            ...JSON.parse(po.snapshot),
+            amendmentNumber: amendment.amendment_number,
+            lineItems,
+            totalAmount: amendment.total_amount,
+            amendedAt: new Date().toISOString()
+        });
+        const { signature, publicKey } = SystemKeyUtil.sign(snapshot);
+
+        await tx.run(
+            `UPDATE purchase_orders
+             SET line_items = ?, total_amount = ?, amendment_number = ?,
+                 snapshot = ?, snapshot_hash = ?, signature = ?, public_key = ?,
+                 acknowledged_at = NULL, acknowledged_by = NULL,
+                 status = CASE status WHEN 'acknowledged' THEN 'issued' ELSE status END,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [
+                amendment.line_items,
+                amendment.total_amount,
+                amendment.amendment_number,
+                snapshot,
+                HashUtil.sha256(snapshot),
+                signature,
+                publicKey,
+                po.id
+            ]
+        );
+
+        await AuditService.log(tx, {
+            userId,
+            action: 'purchase_order.amended',
+            entityType: 'purchase_order',
+            entityId: po.id,
+            details: {
+                amendmentNumber: amendment.amendment_number,
+                previousTotal: po.total_amount,
+                totalAmount: amendment.total_amount
+            },
+            before: {
+                amendment_number: po.amendment_number,
+                total_amount: po.total_amount,
+                line_items: JSON.parse(po.line_items)
+            },
+            after: {
+                amendment_number: amendment.amendment_number,
+                total_amount: amendment.total_amount,
+                line_items: lineItems
+            }
+        });
+
+        // Reducing outstanding lines to what has already arrived completes the order
+        await this.updateReceiptStatus(tx, po.id, lineItems, userId);
+    }
+
+    /**
+     * Record a goods receipt against PO lines; the PO closes once every line is fully received
+     * @returns ID and number of the new receipt, and the resulting PO status
+     */
+    static async recordReceipt(
+        tx: QueryRunner,
+        po: any,
+        lines: ReceiptLine[],
+        notes: string | null,
+        userId: number
+    ): Promise<{ id: number; receiptNumber: string; status: string }> {
+        if (!OPEN_STATUSES.includes(po.status)) {
+            throw new PurchaseOrderError(`Goods cannot be received against a ${po.status} purchase order`);
+        }
+
+        if (!Array.isArray(lines) || lines.length === 0) {
+            throw new PurchaseOrderError('At least one receipt line is required');
+        }
+
+        const lineItems = this.numberLines(JSON.parse(po.line_items));
+        const received = await this.getReceivedQuantities(tx, po.id);
+        const seen = new Set<number>();
+
+        for (const line of lines) {
+            const lineNumber = Number(line.lineNumber);
+            const quantity = Number(line.quantity);
+            const item = lineItems.find((lineItem) => lineItem.line_number === lineNumber);
+
+            if (!Number.isInteger(lineNumber) || !item) {
+                throw new PurchaseOrderError(`Line ${line.lineNumber} does not exist on this purchase order`);
+            }
+            if (seen.has(lineNumber)) {
+                throw new PurchaseOrderError(`Line ${lineNumber} appears more than once`);
+            }
+            if (!(quantity > 0)) {
+                throw new PurchaseOrderError(`Quantity for line ${lineNumber} must be greater than zero`);
+            }
+
+            const outstanding = item.quantity - (received.get(lineNumber) || 0);
+            if (quantity > outstanding) {
+                throw new PurchaseOrderError(`Line ${lineNumber} has only ${outstanding} outstanding`);
+            }
+            seen.add(lineNumber);
+        }
+
+        const receiptNumber = `GR-${Date.now()}-${uuidv4().split('-')[0]}`;
+        const result = await tx.run(
+            `INSERT INTO goods_receipts (purchase_order_id, receipt_number, notes, received_by) VALUES (?, ?, ?, ?)`,
+            [po.id, receiptNumber, notes, userId]
+        );
+
+        for (const line of lines) {
+            await tx.run(
+                'INSERT INTO goods_receipt_items (receipt_id, line_number, quantity) VALUES (?, ?, ?)',
+                [result.lastID, Number(line.lineNumber), Number(line.quantity)]
+            );
+        }
+
+        await AuditService.log(tx, {
+            userId,
+            action: 'purchase_order.goods_received',
+            entityType: 'purchase_order',
+            entityId: po.id,
+            details: {
+                receiptNumber,
+                lines: lines.map((line) => ({ lineNumber: Number(line.lineNumber), quantity: Number(line.quantity) }))
+            }
+        });
+
+        const status = await this.updateReceiptStatus(tx, po.id, lineItems, userId);
+
+        return { id: result.lastID, receiptNumber, status };
+    }
+
+    /**
+     * Total received per line number across all receipts
+     */
+    static async getReceivedQuantities(db: QueryRunner, purchaseOrderId: number): Promise<Map<number, number>> {
+        const rows = await db.all<{ line_number: number; quantity: number }>(
+            `SELECT i.line_number, SUM(i.quantity) as quantity
+             FROM goods_receipt_items i
+             JOIN goods_receipts r ON i.receipt_id = r.id
+             WHERE r.purchase_order_id = ?
+             GROUP BY i.line_number`,
+            [purchaseOrderId]
+        );
+
+        return new Map(rows.map((row) => [row.line_number, row.quantity]));
+    }
+
+    /**
+     * Move an open PO to partially_received or closed based on what has arrived
+     * @returns The PO status after the update
+     */
+    private static async updateReceiptStatus(
+        tx: QueryRunner,
+        purchaseOrderId: number,
+        lineItems: any[],
+        userId: number
+    ): Promise<string> {
+        const po = await tx.get<any>('SELECT status FROM purchase_orders WHERE id = ?', [purchaseOrderId]);
+        const received = await this.getReceivedQuantities(tx, purchaseOrderId);
+
+        if (received.size === 0) {
+            return po.status;
+        }
+
+        const complete = this.numberLines(lineItems).every((item) => (received.get(item.line_number) || 0) >= item.quantity);
+
+        if (complete) {
+            await tx.run(
+                `UPDATE purchase_orders SET status = 'closed', closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+                 WHERE id = ?`,
+                [purchaseOrderId]
+            );
+
+            // A closed order cannot be amended; drop any amendment still awaiting approval
+            const pending = await tx.all<any>(
+                `SELECT id, amendment_number FROM po_amendments WHERE purchase_order_id = ? AND status = 'pending_approval'`,
+                [purchaseOrderId]
+            );
+            for (const amendment of pending) {
+                await tx.run(
+                    `UPDATE po_amendments SET status = 'cancelled', decided_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                    [amendment.id]
+                );
+                await tx.run(
+                    `UPDATE approvals SET status = 'skipped' WHERE amendment_id = ? AND status IN ('waiting', 'pending')`,
+                    [amendment.id]
+                );
+                await tx.run(
+                    `UPDATE quotation_approval_steps SET status = 'skipped', completed_at = CURRENT_TIMESTAMP
+                     WHERE amendment_id = ? AND status IN ('waiting', 'active')`,
+                    [amendment.id]
+                );
+            }
+
+            await AuditService.log(tx, {
+                userId,
+                action: 'purchase_order.closed',
+                entityType: 'purchase_order',
+                entityId: purchaseOrderId,
+                details: {
+                    reason: 'All lines fully received',
+                    cancelledAmendments: pending.map((amendment) => amendment.amendment_number)
+                }
+            });
+            return 'closed';
+        }
+
+        if (po.status !== 'partially_received') {
+            await tx.run(
+                `UPDATE purchase_orders SET status = 'partially_received', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                [purchaseOrderId]
+            );
+            await AuditService.log(tx, {
+                userId,
+                action: 'purchase_order.partially_received',
+                entityType: 'purchase_order',
+                entityId: purchaseOrderId,
+                details: { previousStatus: po.status },
+                before: { status: po.status },
+                after: { status: 'partially_received' }
+            });
+        }
+
+        return 'partially_received';
+    }
+
+    /**
+     * Give priced amendment lines the line numbers they were sent with, checked against the PO's current lines,
+     * and number new lines after every number the PO has used, so a removed line's number is never reused
+     */
+    private static async carryLineNumbers(tx: QueryRunner, po: any, input: any[], priced: any[]): Promise<any[]> {
+        const current = new Set(this.numberLines(JSON.parse(po.line_items)).map((item) => item.line_number));
+        const seen = new Set<number>();
+
+        input.forEach((item, index) => {
+            if (item.line_number === undefined || item.line_number === null) return;
+
+            const lineNumber = Number(item.line_number);
+            if (!current.has(lineNumber)) {
+                throw new PurchaseOrderError(`Line ${index + 1}: line number ${item.line_number} is not on this purchase order`);
+            }
+            if (seen.has(lineNumber)) {
+                throw new PurchaseOrderError(`Line number ${lineNumber} appears more than once`);
+            }
+            seen.add(lineNumber);
+        });
+
+        const amendments = await tx.all<{ line_items: string }>(
+            'SELECT line_items FROM po_amendments WHERE purchase_order_id = ?',
+            [po.id]
+        );
+        const versions: any[][] = [JSON.parse(po.snapshot).lineItems, ...amendments.map((amendment) => JSON.parse(amendment.line_items))];
+        const used = versions.flatMap((lineItems) => this.numberLines(lineItems).map((item) => item.line_number));
+        let next = Math.max(0, ...current, ...used) + 1;
+
+        return priced.map((item, index) => {
+            const lineNumber = input[index].line_number;
+            return { ...item, line_number: lineNumber === undefined || lineNumber === null ? next++ : Number(lineNumber) };
+        });
+    }
+
+    /**
+     * RFQ requirement lines the PO's current line items answer; none for a PO with free-form lines
+     */
+    private static async orderedRequirementLines(db: QueryRunner, po: any): Promise<RequirementLine[]> {
+        const ordered = new Set(JSON.parse(po.line_items).map((item: any) => item.requirement_line ?? null));
+        const requirementLines = await RequirementLineService.list(db, po.rfq_id);
+
+        return requirementLines.filter((line) => ordered.has(line.line_number));
+    }
+
+    /**
+     * Check a purchase order's signature and that its columns still match the signed snapshot
+     */
+    static verify(po: any): { signatureValid: boolean; hashValid: boolean; matchesRecord: boolean } {
+        const signatureValid = SignatureUtil.verify(po.snapshot, po.signature, po.public_key);
+        const hashValid = HashUtil.sha256(po.snapshot) === po.snapshot_hash;
+
+        let matchesRecord = false;
+        try {
+            const snapshot = JSON.parse(po.snapshot);
+            matchesRecord =
+                snapshot.poNumber === po.po_number &&
+                (snapshot.amendmentNumber || 0) === (po.amendment_number || 0) &&
+                snapshot.vendor.id === po.vendor_id &&
+                snapshot.quotation.id === po.quotation_id &&
+                snapshot.totalAmount === po.total_amount &&
+                JSON.stringify(snapshot.lineItems) === po.line_items;
+        } catch {
+            matchesRecord = false;
+        }
+
+        return { signatureValid, hashValid, matchesRecord };
+    }
+}
+
+export { PurchaseOrderService };
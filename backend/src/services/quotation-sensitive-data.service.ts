@@ -0,0 +1,163 @@
+/**
+ * Quotation Sensitive Data Service
+ * A quotation's confidential details (cost breakdown, profit margin, internal notes) are envelope-encrypted under
+ * the platform master key and decrypted on request for the users entitled to them: the vendor who wrote them,
+ * admins, and approvers reviewing the quotation. Quotations from before envelope encryption are XOR-encrypted
+ * under a key only the vendor holds, until the vendor supplies it once to convert them.
+ */
+
+import { QueryRunner, Database } from '../database/database';
+import { HashUtil } from '../utils/security/hash.util';
+import { XORUtil } from '../utils/security/xor.util';
+import { AuditService } from './audit.service';
+import { ApprovalDelegationService } from './approval-delegation.service';
+import { BidOpeningService } from './bid-opening.service';
+import { DataEncryptionService } from './data-encryption.service';
+
+/**
+ * Raised when sensitive data cannot be read or converted
+ */
+export class SensitiveDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SensitiveDataError';
+    }
+}
+
+export interface QuotationSensitiveData {
+    costBreakdown: any;
+    profitMargin: number;
+    internalNotes: string;
+}
+
+class QuotationSensitiveDataService {
+    /**
+     * Encrypt a new quotation's sensitive data
+     * @returns Envelope and master key id to store on the quotation
+     */
+    static async encrypt(quoteNumber: string, data: QuotationSensitiveData): Promise<{ envelope: string; keyId: string }> {
+        return DataEncryptionService.encryptJSON(data, this.context(quoteNumber));
+    }
+
+    /**
+     * Whether a user may read a quotation's sensitive data.
+     * Reviewers are admins and approvers holding a seat on the quotation, directly or as an active delegate,
+     * and only once the bids are open: before that the cost breakdown would reveal a sealed amount.
+     */
+    static async canRead(db: QueryRunner, quotation: any, user: { userId: number; role: string }): Promise<boolean> {
+        if (user.role === 'vendor') {
+            return quotation.vendor_id === user.userId;
+        }
+
+        if (BidOpeningService.isSealed(quotation)) {
+            return false;
+        }
+
+        if (user.role === 'admin') {
+            return true;
+        }
+
+        const assigned = ApprovalDelegationService.assignedOrDelegatedTo('approver_id', user.userId);
+        const seat = await db.get(
+            `SELECT id FROM approvals WHERE quotation_id = ? AND (${assigned.sql} OR acted_by = ?)`,
+            [quotation.id, ...assigned.params, user.userId]
+        );
+
+        return !!seat;
+    }
+
+    /**
+     * Decrypt a quotation's sensitive data for an entitled user, recording the access
+     */
+    static async read(quotation: any, userId: number): Promise<QuotationSensitiveData | null> {
+        if (!quotation.encrypted_data) {
+            return null;
+        }
+
+        if (this.isLegacy(quotation)) {
+            throw new SensitiveDataError(
+                'This quotation predates envelope encryption; the vendor must convert it with their saved encryption key'
+            );
+        }
+
+        let data: QuotationSensitiveData;
+        try {
+            data = await DataEncryptionService.decryptJSON(quotation.encrypted_data, this.context(quotation.quote_number));
+        } catch (error) {
+            console.error(`Sensitive data of quotation ${quotation.id} failed to decrypt:`, error);
+            throw new SensitiveDataError(
+                'Sensitive data could not be decrypted: it was altered or its master key is unavailable'
+            );
+        }
+
+        await AuditService.log(Database, {
+            userId,
+            action: 'quotation.sensitive_data_viewed',
+            entityType: 'quotation',
+            entityId: quotation.id,
+            details: { keyId: quotation.encryption_key_id }
+        });
+
+        return data;
+    }
+
+    /**
+     * Convert a legacy XOR-encrypted quotation to envelope encryption with the key its vendor saved at creation
+     */
+    static async migrateLegacy(quotation: any, legacyKey: string, userId: number): Promise<QuotationSensitiveData> {
+        if (!this.isLegacy(quotation)) {
+            throw new SensitiveDataError('This quotation is already envelope-encrypted');
+        }
+
+        if (!XORUtil.isValidKey(legacyKey) || HashUtil.sha256(legacyKey) !== quotation.encryption_key_hash) {
+            throw new SensitiveDataError('Invalid encryption key');
+        }
+
+        let data: QuotationSensitiveData;
+        try {
+            data = XORUtil.decryptJSON(quotation.encrypted_data, legacyKey);
+        } catch (error) {
+            throw new SensitiveDataError('Decryption failed');
+        }
+
+        const { envelope, keyId } = await this.encrypt(quotation.quote_number, data);
+
+        await Database.transaction(async (tx) => {
+            // The XOR key hash goes with the XOR ciphertext; nothing is left that the old key can open
+            const result = await tx.run(
+                `UPDATE quotations SET encrypted_data = ?, encryption_key_id = ?, encryption_key_hash = NULL
+                 WHERE id = ? AND encryption_key_id IS NULL`,
+                [envelope, keyId, quotation.id]
+            );
+            if (result.changes !== 1) {
+                throw new SensitiveDataError('This quotation is already envelope-encrypted');
+            }
+
+            await AuditService.log(tx, {
+                userId,
+                action: 'quotation.sensitive_data_migrated',
+                entityType: 'quotation',
+                entityId: quotation.id,
+                details: { from: 'xor', keyId },
+                before: { encryption: 'xor' },
+                after: { encryption: 'aes-256-gcm', encryption_key_id: keyId }
+            });
+        });
+
+        return data;
+    }
+
+    /**
+     * Still XOR-encrypted under a vendor-held key
+     */
+    static isLegacy(quotation: any): boolean {
+        return !!quotation.encrypted_data && !quotation.encryption_key_id;
+    }
+
+    // Binds the ciphertext to its quotation, so it cannot be copied onto another one and decrypted there
+    private static context(quoteNumber: string): string {
+        return `quotation:${quoteNumber}`;
+    }
+}
+
+export { QuotationSensitiveDataService };
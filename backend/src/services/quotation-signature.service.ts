@@ -0,0 +1,263 @@
+/**
+ * Quotation Signature Service
+ * The payloads vendors and approvers sign with their signing keys, and verification of a quotation's
+ * signatures: the quotation itself, each revision, and each approval decision. Payloads are canonical JSON
+ * (see CanonicalJsonUtil) rebuilt from the stored records, so a signature only verifies while the record still
+ * holds what was signed. The frontend builds the same payloads in src/lib/signing.ts to sign them in the browser.
+ */
+
+import { QueryRunner } from '../database/database';
+import { CanonicalJsonUtil } from '../utils/security/canonical-json.util';
+import { SignatureUtil } from '../utils/security/signature.util';
+import { PurchaseOrderService } from './purchase-order.service';
+import { SignatureCheck, SigningKeyService, SigningKeyError } from './signing-key.service';
+
+export interface QuotationContents {
+    totalAmount: number;
+    lineItems: any;
+}
+
+export interface SignedRecord {
+    signedAt: string;
+    check: SignatureCheck | null; // null when the record was never signed
+}
+
+export interface QuotationSignatureReport extends SignedRecord {
+    version: number | null; // Revision whose signature covers the current terms; null for the original quotation
+    matchesRecord: boolean; // Current quotation terms are the ones that were signed
+    revisions: (SignedRecord & { version: number })[];
+    approvals: (SignedRecord & { id: number; decision: string; level: number; amendmentId: number | null })[];
+}
+
+class QuotationSignatureService {
+    /**
+     * What a vendor signs when creating a quotation
+     */
+    static quotationPayload(quotation: {
+        rfqId: number;
+        vendorId: number;
+        totalAmount: number;
+        currency: string;
+        lineItems: any;
+    }): string {
+        return CanonicalJsonUtil.stringify({
+            type: 'quotation',
+            rfqId: Number(quotation.rfqId),
+            vendorId: Number(quotation.vendorId),
+            totalAmount: Number(quotation.totalAmount),
+            currency: quotation.currency,
+            lineItems: quotation.lineItems
+        });
+    }
+
+    /**
+     * What a vendor signs when revising a quotation. Values are normalized to the column types they are stored as.
+     */
+    static revisionPayload(revision: {
+        quotationId: number;
+        lineItems: any;
+        deliveryTime?: string | number | null;
+        validityPeriod?: string | number | null;
+        notes?: string | null;
+    }): string {
+        return CanonicalJsonUtil.stringify({
+            type: 'quotation_revision',
+            quotationId: Number(revision.quotationId),
+            lineItems: revision.lineItems,
+            deliveryTime: revision.deliveryTime == null ? null : String(revision.deliveryTime),
+            validityPeriod: revision.validityPeriod == null ? null : Number(revision.validityPeriod),
+            notes: revision.notes ?? null
+        });
+    }
+
+    /**
+     * What an approver signs when approving or rejecting
+     */
+    static decisionPayload(decision: {
+        approvalId: number;
+        quotationId: number;
+        amendmentId: number | null;
+        decision: 'approved' | 'rejected';
+        comments: string | null;
+    }): string {
+        return CanonicalJsonUtil.stringify({
+            type: 'approval_decision',
+            approvalId: Number(decision.approvalId),
+            quotationId: Number(decision.quotationId),
+            amendmentId: decision.amendmentId ?? null,
+            decision: decision.decision,
+            comments: decision.comments ?? null
+        });
+    }
+
+    /**
+     * Check the vendor's signature over a quotation's terms
+     * @param contents - Amount and line items to check; for sealed bids, the unsealed values
+     */
+    static async checkQuotation(db: QueryRunner, quotation: any, contents: QuotationContents): Promise<SignatureCheck> {
+        if (!quotation.signing_key_id) {
+            // Signed with a key pair generated for this quotation alone; nothing ties it to the vendor
+            const payload = JSON.stringify({
+                quoteNumber: quotation.quote_number,
+                rfqId: quotation.rfq_id,
+                totalAmount: contents.totalAmount,
+                lineItems: contents.lineItems
+            });
+            return {
+                valid: SignatureUtil.verify(payload, quotation.digital_signature, quotation.public_key),
+                keyValidAtSigning: null,
+                signer: null,
+                key: null
+            };
+        }
+
+        const payload = this.quotationPayload({
+            rfqId: quotation.rfq_id,
+            vendorId: quotation.vendor_id,
+            totalAmount: contents.totalAmount,
+            currency: quotation.currency,
+            lineItems: contents.lineItems
+        });
+
+        return SigningKeyService.verify(
+            db,
+            quotation.signing_key_id,
+            payload,
+            quotation.digital_signature,
+            quotation.created_at
+        );
+    }
+
+    /**
+     * Verify every signature on an unsealed quotation.
+     * Once revised, the current terms are covered by the latest revision's signature rather than the original one.
+     */
+    static async report(db: QueryRunner, quotation: any): Promise<QuotationSignatureReport> {
+        const lineItems = PurchaseOrderService.parseLineItems(quotation.line_items);
+
+        const revisionRows = await db.all<any>(
+            'SELECT * FROM quotation_revisions WHERE quotation_id = ? ORDER BY version DESC',
+            [quotation.id]
+        );
+
+        const revisions = [];
+        for (const revision of revisionRows) {
+            revisions.push({
+                version: revision.version,
+                signedAt: revision.created_at,
+                check: await this.checkRevision(db, revision)
+            });
+        }
+
+        const approvalRows = await db.all<any>(
+            `SELECT * FROM approvals
+             WHERE quotation_id = ? AND status IN ('approved', 'rejected')
+             ORDER BY approved_at ASC, id ASC`,
+            [quotation.id]
+        );
+
+        const approvals = [];
+        for (const approval of approvalRows) {
+            approvals.push({
+                id: approval.id,
+                decision: approval.status,
+                level: approval.level,
+                amendmentId: approval.amendment_id,
+                signedAt: approval.approved_at,
+                check: await this.checkDecision(db, approval)
+            });
+        }
+
+        const latest = revisionRows[0];
+        if (latest) {
+            return {
+                version: latest.version,
+                signedAt: latest.created_at,
+                check: revisions[0].check,
+                matchesRecord:
+                    quotation.total_amount === latest.total_amount &&
+                    JSON.stringify(lineItems) === JSON.stringify(JSON.parse(latest.line_items)),
+                revisions,
+                approvals
+            };
+        }
+
+        return {
+            version: null,
+            signedAt: quotation.created_at,
+            check: await this.checkQuotation(db, quotation, { totalAmount: quotation.total_amount, lineItems }),
+            matchesRecord: true,
+            revisions,
+            approvals
+        };
+    }
+
+    /**
+     * Refuse submission unless the quotation's current terms carry a valid signature made by the vendor
+     * with a key they registered, i.e. one whose private half never reached the platform.
+     * Sealed bids cannot be checked before the opening, so only the key is checked for them.
+     */
+    static async assertVendorSigned(db: QueryRunner, quotation: any): Promise<void> {
+        if (!quotation.signing_key_id) {
+            throw new SigningKeyError('This quotation is not signed with your key; revise it to sign the current terms');
+        }
+
+        // Same test as BidOpeningService.isSealed, which imports this service
+        const sealed = !!quotation.sealed_payload && !quotation.unsealed_at;
+        const report = sealed ? null : await this.report(db, quotation);
+
+        const keyId = report ? report.check?.key?.id : quotation.signing_key_id;
+        const key = keyId ? await SigningKeyService.getKey(db, keyId) : undefined;
+        const signedAt = report ? report.signedAt : quotation.created_at;
+
+        if (!key || key.user_id !== quotation.vendor_id) {
+            throw new SigningKeyError('The current terms are not signed by the vendor; revise the quotation to sign them');
+        }
+        if (key.source !== 'registered') {
+            throw new SigningKeyError('Quotations must be signed with a key registered from your browser or device');
+        }
+        if (key.status === 'revoked') {
+            throw new SigningKeyError('The key that signed this quotation has been revoked; revise it to sign again');
+        }
+        if (!SigningKeyService.wasActiveAt(key, signedAt)) {
+            throw new SigningKeyError('The key that signed this quotation was not active at the time of signing');
+        }
+        if (report && !(report.check?.valid && report.matchesRecord)) {
+            throw new SigningKeyError('The quotation signature does not match its current terms');
+        }
+    }
+
+    private static async checkRevision(db: QueryRunner, revision: any): Promise<SignatureCheck | null> {
+        if (!revision.signature) {
+            return null;
+        }
+
+        const payload = this.revisionPayload({
+            quotationId: revision.quotation_id,
+            lineItems: JSON.parse(revision.line_items),
+            deliveryTime: revision.delivery_time,
+            validityPeriod: revision.validity_period,
+            notes: revision.notes
+        });
+
+        return SigningKeyService.verify(db, revision.signing_key_id, payload, revision.signature, revision.created_at);
+    }
+
+    private static async checkDecision(db: QueryRunner, approval: any): Promise<SignatureCheck | null> {
+        if (!approval.signature) {
+            return null;
+        }
+
+        const payload = this.decisionPayload({
+            approvalId: approval.id,
+            quotationId: approval.quotation_id,
+            amendmentId: approval.amendment_id,
+            decision: approval.status,
+            comments: approval.comments
+        });
+
+        return SigningKeyService.verify(db, approval.signing_key_id, payload, approval.signature, approval.approved_at);
+    }
+}
+
+export { QuotationSignatureService };
@@ -0,0 +1,143 @@
+/**
+ * Requirement Line Service
+ * The numbered lines an RFQ asks vendors to quote: item, specification, quantity, unit of measure, target date and
+ * whether the line must be supplied. Quotation line items answer them by line number.
+ */
+
+import Joi from 'joi';
+import { QueryRunner } from '../database/database';
+
+/**
+ * Raised when requirement lines fail validation or can no longer be changed
+ */
+export class RequirementLineError extends Error {
+    constructor(message: string, public readonly problems: string[] = []) {
+        super(message);
+        this.name = 'RequirementLineError';
+    }
+
+    static from(problems: string[]): RequirementLineError {
+        return new RequirementLineError(`Invalid requirement lines: ${problems.join('; ')}`, problems);
+    }
+}
+
+/**
+ * A requirement line as the admin writes it
+ */
+export interface RequirementLineInput {
+    item: string;
+    specification: string | null;
+    quantity: number;
+    unit_of_measure: string;
+    target_date: string | null; // YYYY-MM-DD
+    mandatory: boolean;
+}
+
+/**
+ * A stored requirement line
+ */
+export interface RequirementLine extends RequirementLineInput {
+    id: number;
+    rfq_id: number;
+    line_number: number; // 1-based, what quotation line items refer to
+}
+
+const MAX_REQUIREMENT_LINES = 200;
+
+const schema = Joi.array()
+    .items(
+        Joi.object({
+            item: Joi.string().trim().max(200).required(),
+            specification: Joi.string().trim().max(2000).allow(null).empty('').default(null),
+            quantity: Joi.number().positive().precision(3).required(),
+            unit_of_measure: Joi.string().trim().uppercase().max(16).default('EA'),
+            target_date: Joi.string()
+                .pattern(/^\d{4}-\d{2}-\d{2}$/)
+                .allow(null)
+                .empty('')
+                .default(null)
+                .messages({ 'string.pattern.base': 'target_date must be a date (YYYY-MM-DD)' }),
+            mandatory: Joi.boolean().default(true)
+        })
+    )
+    .max(MAX_REQUIREMENT_LINES)
+    .required()
+    .label('requirementLines');
+
+class RequirementLineService {
+    /**
+     * Requirement lines of an RFQ in line order
+     */
+    static async list(db: QueryRunner, rfqId: number): Promise<RequirementLine[]> {
+        const rows = await db.all<any>('SELECT * FROM rfq_requirement_lines WHERE rfq_id = ? ORDER BY line_number', [rfqId]);
+
+        return rows.map((row) => ({
+            id: row.id,
+            rfq_id: row.rfq_id,
+            line_number: row.line_number,
+            item: row.item,
+            specification: row.specification,
+            quantity: row.quantity,
+            unit_of_measure: row.unit_of_measure,
+            target_date: row.target_date,
+            mandatory: !!row.mandatory
+        }));
+    }
+
+    /**
+     * Validate requirement lines from a request body
+     * @throws RequirementLineError listing every problem found
+     */
+    static validate(lines: unknown): RequirementLineInput[] {
+        const { value, error } = schema.validate(lines, {
+            abortEarly: false,
+            stripUnknown: true,
+            errors: { label: 'key', wrap: { label: false } }
+        });
+
+        if (error) {
+            const problems = error.details.map((detail) =>
+                typeof detail.path[0] === 'number' ? `Line ${detail.path[0] + 1}: ${detail.message}` : detail.message
+            );
+            throw RequirementLineError.from(problems);
+        }
+
+        return value;
+    }
+
+    /**
+     * Replace the requirement lines of an RFQ, numbering them in the order given.
+     * Quotations answer lines by number, so the lines are fixed once any quotation exists.
+     * Must run inside a transaction.
+     */
+    static async replace(tx: QueryRunner, rfqId: number, lines: RequirementLineInput[]): Promise<RequirementLine[]> {
+        const quotations = await tx.get<{ count: number }>('SELECT COUNT(*) as count FROM quotations WHERE rfq_id = ?', [rfqId]);
+        if (quotations && quotations.count > 0) {
+            throw new RequirementLineError('Requirement lines cannot be changed once quotations exist');
+        }
+
+        await tx.run('DELETE FROM rfq_requirement_lines WHERE rfq_id = ?', [rfqId]);
+
+        for (const [index, line] of lines.entries()) {
+            await tx.run(
+                `INSERT INTO rfq_requirement_lines
+                    (rfq_id, line_number, item, specification, quantity, unit_of_measure, target_date, mandatory)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    rfqId,
+                    index + 1,
+                    line.item,
+                    line.specification,
+                    line.quantity,
+                    line.unit_of_measure,
+                    line.target_date,
+                    line.mandatory ? 1 : 0
+                ]
+            );
+        }
+
+        return this.list(tx, rfqId);
+    }
+}
+
+export { RequirementLineService };
@@ -0,0 +1,185 @@
+/**
+ * RFQ Deadline Service
+ * Closes published RFQs once their deadline passes and records deadline extensions
+ */
+
+import { Database, QueryRunner } from '../database/database';
+import { AuditService } from './audit.service';
+
+/**
+ * Raised when an RFQ no longer accepts quotations or its deadline cannot be extended
+ */
+export class RfqDeadlineError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RfqDeadlineError';
+    }
+}
+
+class RfqDeadlineService {
+    private static running = false;
+
+    /**
+     * A date-only deadline ('YYYY-MM-DD', as entered in the admin form) runs to the end of that day (UTC)
+     */
+    private static effectiveDeadline(value: string): string {
+        return `CASE WHEN length(${value}) = 10 THEN datetime(${value}, '+1 day') ELSE datetime(${value}) END`;
+    }
+
+    /**
+     * Start the periodic deadline check
+     */
+    static initialize() {
+        const intervalMs = parseInt(process.env.RFQ_DEADLINE_CHECK_INTERVAL_MS || '60000'); // 1 minute
+
+        setInterval(() => {
+            this.closeExpired().catch((error) => console.error('RFQ deadline check error:', error));
+        }, intervalMs);
+    }
+
+    /**
+     * Close every published RFQ whose deadline has passed
+     * @returns Number of RFQs closed
+     */
+    static async closeExpired(): Promise<number> {
+        if (this.running) {
+            return 0;
+        }
+
+        this.running = true;
+        try {
+            const rfqs = await Database.all<any>(
+                `SELECT id, deadline FROM rfqs
+                 WHERE status = 'published' AND ${this.effectiveDeadline('deadline')} <= datetime('now')`
+            );
+
+            let closed = 0;
+            for (const rfq of rfqs) {
+                await Database.transaction(async (tx) => {
+                    // An extension may have landed since the select
+                    const result = await tx.run(
+                        `UPDATE rfqs SET status = 'closed', closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+                         WHERE id = ? AND status = 'published' AND ${this.effectiveDeadline('deadline')} <= datetime('now')`,
+                        [rfq.id]
+                    );
+                    if (result.changes === 0) {
+                        return;
+                    }
+
+                    await AuditService.log(tx, {
+                        userId: null,
+                        action: 'rfq.closed',
+                        entityType: 'rfq',
+                        entityId: rfq.id,
+                        details: { deadline: rfq.deadline },
+                        before: { status: 'published' },
+                        after: { status: 'closed' }
+                    });
+                    closed++;
+                });
+            }
+
+            return closed;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Whether the RFQ deadline has passed
+     */
+    static async deadlinePassed(db: QueryRunner, rfqId: number): Promise<boolean> {
+        const row = await db.get<{ passed: number }>(
+            `SELECT ${this.effectiveDeadline('deadline')} <= datetime('now') as passed FROM rfqs WHERE id = ?`,
+            [rfqId]
+        );
+        return !!row?.passed;
+    }
+
+    /**
+     * Throw unless the RFQ still accepts quotations and revisions
+     */
+    static async assertOpen(db: QueryRunner, rfqId: number): Promise<void> {
+        const rfq = await db.get<any>('SELECT status FROM rfqs WHERE id = ?', [rfqId]);
+
+        if (rfq?.status === 'closed' || (await this.deadlinePassed(db, rfqId))) {
+            throw new RfqDeadlineError('The deadline for this RFQ has passed; it no longer accepts quotations or revisions');
+        }
+    }
+
+    /**
+     * Move an RFQ's deadline later, reopening it if it had closed. Must run inside a transaction.
+     * @returns The recorded extension
+     */
+    static async extend(
+        tx: QueryRunner,
+        rfq: any,
+        newDeadline: string,
+        reason: string,
+        userId: number
+    ): Promise<{ previousDeadline: string; newDeadline: string; reason: string; reopened: boolean }> {
+        if (!['published', 'closed'].includes(rfq.status)) {
+            throw new RfqDeadlineError('Only published or closed RFQs can have their deadline extended');
+        }
+        if (rfq.bids_opened_at) {
+            throw new RfqDeadlineError('Bids have already been opened');
+        }
+
+        const check = await tx.get<{ valid: number; later: number; future: number }>(
+            `SELECT ${this.effectiveDeadline('proposed')} IS NOT NULL as valid,
+                ${this.effectiveDeadline('proposed')} > ${this.effectiveDeadline('existing')} as later,
+                ${this.effectiveDeadline('proposed')} > datetime('now') as future
+             FROM (SELECT ? as proposed, ? as existing)`,
+            [newDeadline, rfq.deadline]
+        );
+
+        if (!check?.valid) {
+            throw new RfqDeadlineError('Invalid deadline');
+        }
+        if (!check.later || !check.future) {
+            throw new RfqDeadlineError('The new deadline must be later than the current deadline and in the future');
+        }
+
+        const reopened = rfq.status === 'closed';
+
+        await tx.run(
+            `UPDATE rfqs SET deadline = ?, status = 'published', closed_at = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [newDeadline, rfq.id]
+        );
+
+        await tx.run(
+            `INSERT INTO rfq_deadline_extensions (rfq_id, previous_deadline, new_deadline, reason, extended_by)
+             VALUES (?, ?, ?, ?, ?)`,
+            [rfq.id, rfq.deadline, newDeadline, reason, userId]
+        );
+
+        await AuditService.log(tx, {
+            userId,
+            action: 'rfq.deadline_extended',
+            entityType: 'rfq',
+            entityId: rfq.id,
+            details: { previousDeadline: rfq.deadline, newDeadline, reason, reopened },
+            before: { deadline: rfq.deadline, status: rfq.status },
+            after: { deadline: newDeadline, status: 'published' }
+        });
+
+        return { previousDeadline: rfq.deadline, newDeadline, reason, reopened };
+    }
+
+    /**
+     * Deadline extensions of an RFQ, oldest first
+     */
+    static async getExtensions(db: QueryRunner, rfqId: number): Promise<any[]> {
+        return db.all(
+            `SELECT e.*, u.full_name as extended_by_name
+             FROM rfq_deadline_extensions e
+             JOIN users u ON e.extended_by = u.id
+             WHERE e.rfq_id = ?
+             ORDER BY e.extended_at ASC, e.id ASC`,
+            [rfqId]
+        );
+    }
+}
+
+export { RfqDeadlineService };
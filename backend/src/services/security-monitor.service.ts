@@ -0,0 +1,272 @@
+/**
+ * Security Monitor Service
+ * Periodically scans security_events and sessions for account-takeover patterns. Each finding is recorded as a
+ * high-severity suspicious_activity event tagged with its detector, and admins are emailed.
+ */
+
+import { Database, QueryRunner } from '../database/database';
+import { EmailService } from './email.service';
+
+/**
+ * Details written on failed_login events for a wrong emailed login code or authenticator / backup code
+ */
+export const OTP_FAILURE_DETAILS = {
+    login: 'Invalid login code',
+    mfa: 'Invalid MFA code'
+};
+
+export type SecurityDetector = 'impossible_travel' | 'credential_stuffing' | 'otp_failures';
+
+export interface SecurityDetection {
+    detector: SecurityDetector;
+    userId: number | null;
+    ipAddress: string | null;
+    details: string;
+}
+
+const DETECTOR_TITLES: Record<SecurityDetector, string> = {
+    impossible_travel: 'Impossible travel',
+    credential_stuffing: 'Credential stuffing',
+    otp_failures: 'Repeated OTP failures'
+};
+
+// Same user signing in or failing to from more than one IP within this window
+const IMPOSSIBLE_TRAVEL_WINDOW_MINUTES = 30;
+// Failed logins for at least this many different emails from one IP
+const CREDENTIAL_STUFFING_WINDOW_MINUTES = 15;
+const CREDENTIAL_STUFFING_MIN_EMAILS = 5;
+// Wrong login or MFA codes for one user
+const OTP_FAILURE_WINDOW_MINUTES = 15;
+const OTP_FAILURE_THRESHOLD = 5;
+
+const BUCKET_FORMATS: Record<string, string> = {
+    hour: '%Y-%m-%d %H:00:00',
+    day: '%Y-%m-%d'
+};
+
+class SecurityMonitorService {
+    private static running = false;
+
+    /**
+     * Start the periodic detector run
+     */
+    static initialize() {
+        const intervalMs = parseInt(process.env.SECURITY_DETECTOR_INTERVAL_MS || '60000'); // 1 minute
+
+        setInterval(() => {
+            this.runDetectors().catch((error) => console.error('Security detector error:', error));
+        }, intervalMs);
+    }
+
+    /**
+     * Run every detector and raise an alert for each new finding.
+     * A finding already alerted on within its detector's window is not raised again.
+     * @returns Alerts raised by this run
+     */
+    static async runDetectors(): Promise<SecurityDetection[]> {
+        if (this.running) {
+            return [];
+        }
+
+        this.running = true;
+        try {
+            const detections = [
+                ...(await this.detectImpossibleTravel()),
+                ...(await this.detectCredentialStuffing()),
+                ...(await this.detectOtpFailures())
+            ];
+
+            const raised: SecurityDetection[] = [];
+            for (const detection of detections) {
+                if (await this.raise(detection)) {
+                    raised.push(detection);
+                }
+            }
+
+            if (raised.length > 0) {
+                await this.notifyAdmins(raised);
+            }
+
+            return raised;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Event counts per time bucket, event type and severity
+     * @param bucket - 'hour' or 'day'
+     * @param from - Start of the range, 'YYYY-MM-DD HH:MM:SS' UTC
+     * @param to - End of the range, 'YYYY-MM-DD HH:MM:SS' UTC
+     */
+    static async getCounts(db: QueryRunner, bucket: 'hour' | 'day', from: string, to: string): Promise<{
+        buckets: { bucket: string; event_type: string; severity: string; count: number }[];
+        byType: { event_type: string; count: number }[];
+        bySeverity: { severity: string; count: number }[];
+    }> {
+        const range = 'WHERE created_at >= ? AND created_at < ?';
+
+        const [buckets, byType, bySeverity] = await Promise.all([
+            db.all<any>(
+                `SELECT strftime(?, created_at) as bucket, event_type, severity, COUNT(*) as count
+                 FROM security_events ${range}
+                 GROUP BY bucket, event_type, severity
+                 ORDER BY bucket ASC`,
+                [BUCKET_FORMATS[bucket], from, to]
+            ),
+            db.all<any>(
+                `SELECT event_type, COUNT(*) as count FROM security_events ${range}
+                 GROUP BY event_type ORDER BY count DESC`,
+                [from, to]
+            ),
+            db.all<any>(
+                `SELECT severity, COUNT(*) as count FROM security_events ${range}
+                 GROUP BY severity ORDER BY count DESC`,
+                [from, to]
+            )
+        ]);
+
+        return { buckets, byType, bySeverity };
+    }
+
+    /**
+     * Users who signed in, or failed to, from more than one IP within the window
+     */
+    private static async detectImpossibleTravel(): Promise<SecurityDetection[]> {
+        const since = `-${IMPOSSIBLE_TRAVEL_WINDOW_MINUTES} minutes`;
+
+        const rows = await Database.all<{ user_id: number; ips: string; ip_count: number }>(
+            `SELECT user_id, GROUP_CONCAT(DISTINCT ip_address) as ips, COUNT(DISTINCT ip_address) as ip_count
+             FROM (
+                 SELECT user_id, ip_address FROM sessions
+                 WHERE ip_address IS NOT NULL AND created_at > datetime('now', ?)
+                 UNION ALL
+                 SELECT user_id, ip_address FROM security_events
+                 WHERE event_type = 'failed_login' AND user_id IS NOT NULL AND ip_address IS NOT NULL
+                    AND created_at > datetime('now', ?)
+             )
+             GROUP BY user_id
+             HAVING ip_count > 1`,
+            [since, since]
+        );
+
+        return rows.map((row) => ({
+            detector: 'impossible_travel' as const,
+            userId: row.user_id,
+            ipAddress: null,
+            details: `Sign-in activity from ${row.ip_count} IP addresses within ${IMPOSSIBLE_TRAVEL_WINDOW_MINUTES} minutes: ${row.ips}`
+        }));
+    }
+
+    /**
+     * IPs with failed logins for many different emails
+     */
+    private static async detectCredentialStuffing(): Promise<SecurityDetection[]> {
+        const rows = await Database.all<{ ip_address: string; emails: number; attempts: number }>(
+            `SELECT ip_address, COUNT(DISTINCT lower(email)) as emails, COUNT(*) as attempts
+             FROM security_events
+             WHERE event_type = 'failed_login' AND email IS NOT NULL AND ip_address IS NOT NULL
+                AND created_at > datetime('now', ?)
+             GROUP BY ip_address
+             HAVING emails >= ?`,
+            [`-${CREDENTIAL_STUFFING_WINDOW_MINUTES} minutes`, CREDENTIAL_STUFFING_MIN_EMAILS]
+        );
+
+        return rows.map((row) => ({
+            detector: 'credential_stuffing' as const,
+            userId: null,
+            ipAddress: row.ip_address,
+            details: `${row.attempts} failed logins for ${row.emails} different emails within ${CREDENTIAL_STUFFING_WINDOW_MINUTES} minutes`
+        }));
+    }
+
+    /**
+     * Users with many wrong login or MFA codes
+     */
+    private static async detectOtpFailures(): Promise<SecurityDetection[]> {
+        const rows = await Database.all<{ user_id: number; failures: number; ips: string }>(
+            `SELECT user_id, COUNT(*) as failures, GROUP_CONCAT(DISTINCT ip_address) as ips
+             FROM security_events
+             WHERE event_type = 'failed_login' AND details IN (?, ?) AND user_id IS NOT NULL
+                AND created_at > datetime('now', ?)
+             GROUP BY user_id
+             HAVING failures >= ?`,
+            [OTP_FAILURE_DETAILS.login, OTP_FAILURE_DETAILS.mfa, `-${OTP_FAILURE_WINDOW_MINUTES} minutes`, OTP_FAILURE_THRESHOLD]
+        );
+
+        return rows.map((row) => ({
+            detector: 'otp_failures' as const,
+            userId: row.user_id,
+            ipAddress: null,
+            details: `${row.failures} wrong verification codes within ${OTP_FAILURE_WINDOW_MINUTES} minutes from ${row.ips || 'unknown IP'}`
+        }));
+    }
+
+    /**
+     * Record a finding unless the same detector already alerted on the same user or IP within its window
+     * @returns Whether an alert was recorded
+     */
+    private static async raise(detection: SecurityDetection): Promise<boolean> {
+        return Database.transaction(async (tx) => {
+            const existing = await tx.get(
+                `SELECT id FROM security_events
+                 WHERE event_type = 'suspicious_activity' AND detector = ? AND user_id IS ? AND ip_address IS ?
+                    AND created_at > datetime('now', ?)`,
+                [detection.detector, detection.userId, detection.ipAddress, `-${this.windowMinutes(detection.detector)} minutes`]
+            );
+
+            if (existing) {
+                return false;
+            }
+
+            await tx.run(
+                `INSERT INTO security_events (user_id, event_type, severity, ip_address, details, detector)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [detection.userId, 'suspicious_activity', 'high', detection.ipAddress, detection.details, detection.detector]
+            );
+
+            return true;
+        });
+    }
+
+    private static windowMinutes(detector: SecurityDetector): number {
+        switch (detector) {
+            case 'impossible_travel':
+                return IMPOSSIBLE_TRAVEL_WINDOW_MINUTES;
+            case 'credential_stuffing':
+                return CREDENTIAL_STUFFING_WINDOW_MINUTES;
+            case 'otp_failures':
+                return OTP_FAILURE_WINDOW_MINUTES;
+        }
+    }
+
+    /**
+     * Email every active admin about new alerts; a failed email does not stop the others
+     */
+    private static async notifyAdmins(detections: SecurityDetection[]): Promise<void> {
+        const admins = await Database.all<any>("SELECT email, full_name FROM users WHERE role = 'admin' AND is_active = 1");
+
+        const userIds = detections.map((detection) => detection.userId).filter((id): id is number => id !== null);
+        const users = userIds.length > 0
+            ? await Database.all<any>(`SELECT id, email FROM users WHERE id IN (${userIds.map(() => '?').join(', ')})`, userIds)
+            : [];
+
+        const alerts = detections.map((detection) => ({
+            title: DETECTOR_TITLES[detection.detector],
+            subject: detection.ipAddress
+                ? `IP ${detection.ipAddress}`
+                : users.find((user) => user.id === detection.userId)?.email || `user #${detection.userId}`,
+            details: detection.details
+        }));
+
+        for (const admin of admins) {
+            try {
+                await EmailService.sendSecurityAlertEmail(admin.email, admin.full_name, alerts);
+            } catch (error) {
+                console.error(`Failed to send security alert to ${admin.email}:`, error);
+            }
+        }
+    }
+}
+
+export { SecurityMonitorService };
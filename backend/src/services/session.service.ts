@@ -0,0 +1,315 @@
+/**
+ * Session Service
+ * Every login creates a sessions row; access and refresh tokens carry its session_token and are only
+ * accepted while the session is unrevoked, unexpired and its user is active.
+ * Refresh tokens rotate: each is accepted once, and presenting a retired one signs the session out.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Database, QueryRunner } from '../database/database';
+import { JWTUtil } from '../utils/jwt.util';
+import { HashUtil } from '../utils/security/hash.util';
+import { RequestContext } from '../utils/request-context.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Raised when a session cannot be revoked or refreshed
+ */
+export class SessionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SessionError';
+    }
+}
+
+export interface SessionUser {
+    id: number;
+    email: string;
+    role: 'admin' | 'vendor' | 'approver';
+}
+
+const BROWSERS: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Chrome\//, 'Chrome'],
+    [/Firefox\//, 'Firefox'],
+    [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: [RegExp, string][] = [
+    [/Windows/, 'Windows'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Mac OS X/, 'macOS'],
+    [/Linux/, 'Linux']
+];
+
+class SessionService {
+    /**
+     * Open a session for a user who has completed login
+     * @returns Tokens bound to the new session
+     */
+    static async create(
+        db: QueryRunner,
+        user: SessionUser,
+        context: RequestContext
+    ): Promise<{ accessToken: string; refreshToken: string; sessionId: string }> {
+        const sessionId = uuidv4();
+        const payload = { userId: user.id, email: user.email, role: user.role, sessionId };
+
+        const accessToken = JWTUtil.generateAccessToken(payload);
+        const refreshToken = JWTUtil.generateRefreshToken(payload, uuidv4());
+
+        // The session lives as long as its first refresh token; rotation does not extend it
+        const { exp } = JWTUtil.decodeToken(refreshToken);
+
+        const result = await db.run(
+            `INSERT INTO sessions (user_id, session_token, device_info, ip_address, user_agent, expires_at)
+             VALUES (?, ?, ?, ?, ?, datetime(?, 'unixepoch'))`,
+            [user.id, sessionId, this.describeDevice(context.userAgent), context.ipAddress, context.userAgent, exp]
+        );
+
+        await db.run('INSERT INTO refresh_tokens (session_id, token_hash) VALUES (?, ?)', [
+            result.lastID,
+            HashUtil.sha256(refreshToken)
+        ]);
+
+        return { accessToken, refreshToken, sessionId };
+    }
+
+    /**
+     * Exchange a refresh token for a new access and refresh token, retiring the one presented.
+     * A retired token presented again means it was copied: the session is revoked and a
+     * high-severity security event is raised.
+     */
+    static async rotate(refreshToken: string, context: RequestContext): Promise<{ accessToken: string; refreshToken: string }> {
+        let payload;
+        try {
+            payload = JWTUtil.verifyRefreshToken(refreshToken);
+        } catch (error) {
+            throw new SessionError('Invalid or expired refresh token');
+        }
+
+        const { userId, email, role, sessionId } = payload;
+
+        const outcome = await Database.transaction(async (tx) => {
+            const token = await tx.get<any>(
+                `SELECT t.id, t.used_at, s.id as session_id, s.revoked_at
+                 FROM refresh_tokens t
+                 JOIN sessions s ON t.session_id = s.id
+                 WHERE t.token_hash = ? AND s.session_token = ? AND s.user_id = ?`,
+                [HashUtil.sha256(refreshToken), sessionId, userId]
+            );
+
+            if (!token) {
+                return { status: 'invalid' as const };
+            }
+
+            if (token.used_at) {
+                if (!token.revoked_at) {
+                    await tx.run(
+                        `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'refresh_token_reuse'
+                         WHERE id = ?`,
+                        [token.session_id]
+                    );
+                }
+
+                await tx.run(
+                    `INSERT INTO security_events (user_id, event_type, severity, ip_address, user_agent, details)
+                     VALUES (?, ?, ?, ?, ?, ?)`,
+                    [
+                        userId,
+                        'suspicious_activity',
+                        'high',
+                        context.ipAddress,
+                        context.userAgent,
+                        token.revoked_at
+                            ? `Retired refresh token presented again for signed-out session ${token.session_id}`
+                            : `Retired refresh token presented again; session ${token.session_id} revoked`
+                    ]
+                );
+
+                return { status: 'reused' as const };
+            }
+
+            if (!(await this.isActive(sessionId, userId, tx))) {
+                return { status: 'invalid' as const };
+            }
+
+            const tokens = {
+                accessToken: JWTUtil.generateAccessToken({ userId, email, role, sessionId }),
+                refreshToken: JWTUtil.generateRefreshToken({ userId, email, role, sessionId }, uuidv4())
+            };
+
+            // Only one concurrent rotation can retire the token
+            const retired = await tx.run(
+                'UPDATE refresh_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL',
+                [token.id]
+            );
+            if (retired.changes === 0) {
+                return { status: 'invalid' as const };
+            }
+
+            await tx.run('INSERT INTO refresh_tokens (session_id, token_hash) VALUES (?, ?)', [
+                token.session_id,
+                HashUtil.sha256(tokens.refreshToken)
+            ]);
+
+            return { status: 'rotated' as const, tokens };
+        });
+
+        if (outcome.status === 'reused') {
+            throw new SessionError('Refresh token has already been used; the session has been signed out');
+        }
+        if (outcome.status === 'invalid') {
+            throw new SessionError('Session has ended');
+        }
+
+        return outcome.tokens;
+    }
+
+    /**
+     * Whether a token's session is still usable; records activity at most once a minute
+     */
+    static async isActive(sessionId: string, userId: number, db: QueryRunner = Database): Promise<boolean> {
+        const session = await db.get<{ id: number }>(
+            `SELECT s.id FROM sessions s
+             JOIN users u ON s.user_id = u.id
+             WHERE s.session_token = ? AND s.user_id = ? AND s.revoked_at IS NULL
+                AND s.expires_at > datetime('now') AND u.is_active = 1`,
+            [sessionId, userId]
+        );
+
+        if (!session) {
+            return false;
+        }
+
+        await db.run(
+            `UPDATE sessions SET last_activity = CURRENT_TIMESTAMP
+             WHERE id = ? AND last_activity < datetime('now', '-1 minute')`,
+            [session.id]
+        );
+
+        return true;
+    }
+
+    /**
+     * Active sessions of a user, most recently used first
+     */
+    static async listForUser(db: QueryRunner, userId: number, currentSessionId?: string): Promise<any[]> {
+        const sessions = await db.all<any>(
+            `SELECT id, session_token, device_info, ip_address, user_agent, last_activity, expires_at, created_at
+             FROM sessions
+             WHERE user_id = ? AND revoked_at IS NULL AND expires_at > datetime('now')
+             ORDER BY last_activity DESC, id DESC`,
+            [userId]
+        );
+
+        return sessions.map(({ session_token, ...session }) => ({
+            ...session,
+            is_current: session_token === currentSessionId
+        }));
+    }
+
+    /**
+     * Active sessions of every user, for admins
+     */
+    static async listAll(db: QueryRunner): Promise<any[]> {
+        return db.all(
+            `SELECT s.id, s.user_id, s.device_info, s.ip_address, s.last_activity, s.expires_at, s.created_at,
+                u.full_name as user_name, u.email as user_email, u.role as user_role
+             FROM sessions s
+             JOIN users u ON s.user_id = u.id
+             WHERE s.revoked_at IS NULL AND s.expires_at > datetime('now')
+             ORDER BY u.full_name ASC, s.last_activity DESC`
+        );
+    }
+
+    /**
+     * Sign out one session of a user
+     */
+    static async revoke(db: QueryRunner, userId: number, id: number, reason: string, context: RequestContext): Promise<void> {
+        const result = await db.run(
+            `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = ?
+             WHERE id = ? AND user_id = ? AND revoked_at IS NULL`,
+            [reason, id, userId]
+        );
+
+        if (result.changes === 0) {
+            throw new SessionError('Session not found or already signed out');
+        }
+
+        await AuditService.log(db, {
+            userId,
+            action: 'session.revoked',
+            entityType: 'session',
+            entityId: id,
+            details: { reason },
+            ipAddress: context.ipAddress
+        });
+    }
+
+    /**
+     * Sign out the current session by its token
+     */
+    static async revokeCurrent(db: QueryRunner, userId: number, sessionId: string, context: RequestContext): Promise<void> {
+        const session = await db.get<{ id: number }>(
+            'SELECT id FROM sessions WHERE session_token = ? AND user_id = ?',
+            [sessionId, userId]
+        );
+
+        if (session) {
+            await this.revoke(db, userId, session.id, 'logout', context);
+        }
+    }
+
+    /**
+     * Sign out every session of a user, optionally keeping one
+     * @param revokedBy - User who asked for it; the user themselves or an admin
+     * @returns Number of sessions signed out
+     */
+    static async revokeAll(
+        db: QueryRunner,
+        userId: number,
+        revokedBy: number,
+        reason: string,
+        context: RequestContext,
+        exceptSessionId?: string
+    ): Promise<number> {
+        const result = await db.run(
+            `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = ?
+             WHERE user_id = ? AND revoked_at IS NULL AND session_token != ?`,
+            [reason, userId, exceptSessionId || '']
+        );
+
+        await AuditService.log(db, {
+            userId: revokedBy,
+            action: 'user.sessions_revoked',
+            entityType: 'user',
+            entityId: userId,
+            details: { reason, sessionsRevoked: result.changes, keptCurrentSession: !!exceptSessionId },
+            ipAddress: context.ipAddress
+        });
+
+        return result.changes;
+    }
+
+    /**
+     * Short device label from a user agent, e.g. "Chrome on Windows"
+     */
+    private static describeDevice(userAgent?: string): string {
+        if (!userAgent) {
+            return 'Unknown device';
+        }
+
+        const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+        const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+        if (browser && platform) {
+            return `${browser} on ${platform}`;
+        }
+        return browser || platform || userAgent.slice(0, 60);
+    }
+}
+
+export { SessionService };
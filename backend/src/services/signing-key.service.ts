@@ -0,0 +1,297 @@
+/**
+ * Signing Key Service
+ * Long-lived per-user RSA signing keys. A user either registers a public key and signs on their own device,
+ * or has the platform generate a key pair whose private key is escrowed under the user's passphrase.
+ * Registering or generating a key rotates out the previous one; rotated and revoked keys are kept as history
+ * so older signatures can still be checked against the key that was valid when they were made.
+ */
+
+import crypto from 'crypto';
+import { Database, QueryRunner } from '../database/database';
+import { SignatureUtil } from '../utils/security/signature.util';
+import { AuditService } from './audit.service';
+
+/**
+ * Raised when a key cannot be registered, generated, revoked or used to sign
+ */
+export class SigningKeyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SigningKeyError';
+    }
+}
+
+export type SigningKeySource = 'registered' | 'escrowed';
+
+/**
+ * What the signer supplies: the passphrase of an escrowed key, or a signature made with a registered key
+ */
+export interface SigningCredentials {
+    passphrase?: string;
+    signature?: string;
+}
+
+export interface SignatureCheck {
+    valid: boolean; // Signature matches the payload under the key
+    keyValidAtSigning: boolean | null; // Key was active when the record was signed; null for records without key history
+    signer: { id: number; name: string; email: string; companyName: string | null } | null;
+    key: { id: number; fingerprint: string; source: SigningKeySource; status: string } | null;
+}
+
+const MIN_PASSPHRASE_LENGTH = 12;
+const MIN_MODULUS_LENGTH = 2048;
+
+// Columns safe to return; the escrowed private key never leaves the service
+const KEY_COLUMNS = `id, user_id, fingerprint, algorithm, source, status, revocation_reason,
+    created_at, rotated_at, revoked_at, public_key`;
+
+class SigningKeyService {
+    /**
+     * The user's active key, or undefined when they have none
+     */
+    static async getActiveKey(db: QueryRunner, userId: number): Promise<any | undefined> {
+        return db.get(`SELECT ${KEY_COLUMNS} FROM signing_keys WHERE user_id = ? AND status = 'active'`, [userId]);
+    }
+
+    /**
+     * A key by id, whatever its status
+     */
+    static async getKey(db: QueryRunner, keyId: number): Promise<any | undefined> {
+        return db.get(`SELECT ${KEY_COLUMNS} FROM signing_keys WHERE id = ?`, [keyId]);
+    }
+
+    /**
+     * Every key the user has held, newest first
+     */
+    static async list(db: QueryRunner, userId: number): Promise<any[]> {
+        return db.all(`SELECT ${KEY_COLUMNS} FROM signing_keys WHERE user_id = ? ORDER BY id DESC`, [userId]);
+    }
+
+    /**
+     * Register a public key the user holds the private half of (RSA, PEM)
+     */
+    static async register(userId: number, publicKeyPem: string): Promise<any> {
+        let publicKey: crypto.KeyObject;
+        try {
+            publicKey = crypto.createPublicKey(publicKeyPem);
+        } catch (error) {
+            throw new SigningKeyError('Public key must be a PEM-encoded RSA public key');
+        }
+
+        const details = publicKey.asymmetricKeyDetails;
+        if (publicKey.asymmetricKeyType !== 'rsa' || (details?.modulusLength || 0) < MIN_MODULUS_LENGTH) {
+            throw new SigningKeyError(`Public key must be an RSA key of at least ${MIN_MODULUS_LENGTH} bits`);
+        }
+
+        const pem = publicKey.export({ type: 'spki', format: 'pem' }) as string;
+        return this.activate(userId, 'registered', pem, null);
+    }
+
+    /**
+     * Generate a key pair whose private key is stored encrypted under the user's passphrase
+     */
+    static async generate(userId: number, passphrase: string): Promise<any> {
+        if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            throw new SigningKeyError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        }
+
+        const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+            modulusLength: MIN_MODULUS_LENGTH,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase }
+        });
+
+        return this.activate(userId, 'escrowed', publicKey, privateKey);
+    }
+
+    /**
+     * Revoke a key so it can no longer sign. Signatures made before the revocation still verify as valid.
+     * @param ownerId - Restrict to keys of this user; null lets an admin revoke any key
+     */
+    static async revoke(
+        keyId: number,
+        ownerId: number | null,
+        reason: string,
+        revokedBy: number
+    ): Promise<void> {
+        await Database.transaction(async (tx) => {
+            const key = await tx.get<any>(`SELECT ${KEY_COLUMNS} FROM signing_keys WHERE id = ?`, [keyId]);
+
+            if (!key || (ownerId !== null && key.user_id !== ownerId)) {
+                throw new SigningKeyError('Signing key not found');
+            }
+
+            if (key.status === 'revoked') {
+                throw new SigningKeyError('Signing key is already revoked');
+            }
+
+            await tx.run(
+                `UPDATE signing_keys
+                 SET status = 'revoked', revoked_at = CURRENT_TIMESTAMP, revocation_reason = ?, encrypted_private_key = NULL
+                 WHERE id = ?`,
+                [reason, keyId]
+            );
+
+            await AuditService.log(tx, {
+                userId: revokedBy,
+                action: 'signing_key.revoked',
+                entityType: 'signing_key',
+                entityId: keyId,
+                details: { ownerId: key.user_id, fingerprint: key.fingerprint, reason },
+                before: { status: key.status },
+                after: { status: 'revoked' }
+            });
+        });
+    }
+
+    /**
+     * Sign a payload with the user's active key.
+     * Escrowed keys are unlocked with the passphrase; for registered keys the client's signature is checked instead.
+     * @param requireRegistered - Refuse escrowed keys, for signatures only the user's own device may make
+     * @returns Hex signature and the key that made it
+     */
+    static async sign(
+        db: QueryRunner,
+        userId: number,
+        payload: string,
+        credentials: SigningCredentials,
+        requireRegistered: boolean = false
+    ): Promise<{ signature: string; keyId: number; publicKey: string }> {
+        const key = await db.get<any>("SELECT * FROM signing_keys WHERE user_id = ? AND status = 'active'", [userId]);
+
+        if (!key) {
+            throw new SigningKeyError('No active signing key: register or generate one on your account page first');
+        }
+
+        if (requireRegistered && key.source !== 'registered') {
+            throw new SigningKeyError('This must be signed with a key registered from your browser or device');
+        }
+
+        if (key.source === 'registered') {
+            if (!credentials.signature) {
+                throw new SigningKeyError('Signature required: sign the payload with your registered key');
+            }
+            if (!SignatureUtil.verify(payload, credentials.signature, key.public_key)) {
+                throw new SigningKeyError('Signature does not verify against your registered key');
+            }
+            return { signature: credentials.signature, keyId: key.id, publicKey: key.public_key };
+        }
+
+        if (!credentials.passphrase) {
+            throw new SigningKeyError('Signing key passphrase required');
+        }
+
+        let privateKey: string;
+        try {
+            privateKey = crypto
+                .createPrivateKey({ key: key.encrypted_private_key, passphrase: credentials.passphrase })
+                .export({ type: 'pkcs8', format: 'pem' }) as string;
+        } catch (error) {
+            throw new SigningKeyError('Incorrect signing key passphrase');
+        }
+
+        return { signature: SignatureUtil.sign(payload, privateKey), keyId: key.id, publicKey: key.public_key };
+    }
+
+    /**
+     * Check a stored signature and whether its key was active at the time of signing
+     * @param signedAt - When the record was signed, 'YYYY-MM-DD HH:MM:SS' UTC
+     */
+    static async verify(
+        db: QueryRunner,
+        keyId: number,
+        payload: string,
+        signature: string,
+        signedAt: string
+    ): Promise<SignatureCheck> {
+        const key = await db.get<any>(
+            `SELECT k.id, k.user_id, k.public_key, k.fingerprint, k.source, k.status, k.created_at, k.rotated_at,
+                    k.revoked_at, u.full_name, u.email, u.company_name
+             FROM signing_keys k
+             JOIN users u ON k.user_id = u.id
+             WHERE k.id = ?`,
+            [keyId]
+        );
+
+        if (!key) {
+            return { valid: false, keyValidAtSigning: false, signer: null, key: null };
+        }
+
+        return {
+            valid: SignatureUtil.verify(payload, signature, key.public_key),
+            keyValidAtSigning: this.wasActiveAt(key, signedAt),
+            signer: { id: key.user_id, name: key.full_name, email: key.email, companyName: key.company_name },
+            key: { id: key.id, fingerprint: key.fingerprint, source: key.source, status: key.status }
+        };
+    }
+
+    /**
+     * Whether a key was active at a point in time: created by then, and neither rotated nor revoked yet
+     * @param at - 'YYYY-MM-DD HH:MM:SS' UTC
+     */
+    static wasActiveAt(
+        key: { created_at: string; rotated_at: string | null; revoked_at: string | null },
+        at: string
+    ): boolean {
+        // A key stops being valid at whichever came first, its rotation or its revocation
+        const retiredAt = [key.rotated_at, key.revoked_at].filter(Boolean).sort()[0];
+        return key.created_at <= at && (!retiredAt || at < retiredAt);
+    }
+
+    /**
+     * SHA-256 of the DER-encoded public key, hex
+     */
+    static fingerprint(publicKeyPem: string): string {
+        const der = crypto.createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+        return crypto.createHash('sha256').update(der).digest('hex');
+    }
+
+    /**
+     * Make a new key the user's active key, rotating out the current one
+     */
+    private static async activate(
+        userId: number,
+        source: SigningKeySource,
+        publicKey: string,
+        encryptedPrivateKey: string | null
+    ): Promise<any> {
+        const fingerprint = this.fingerprint(publicKey);
+
+        return Database.transaction(async (tx) => {
+            const existing = await tx.get('SELECT id FROM signing_keys WHERE fingerprint = ?', [fingerprint]);
+            if (existing) {
+                throw new SigningKeyError('This key has already been registered and cannot be reused');
+            }
+
+            const current = await this.getActiveKey(tx, userId);
+            if (current) {
+                await tx.run(
+                    `UPDATE signing_keys
+                     SET status = 'rotated', rotated_at = CURRENT_TIMESTAMP, encrypted_private_key = NULL
+                     WHERE id = ?`,
+                    [current.id]
+                );
+            }
+
+            const result = await tx.run(
+                `INSERT INTO signing_keys (user_id, public_key, fingerprint, source, encrypted_private_key)
+                 VALUES (?, ?, ?, ?, ?)`,
+                [userId, publicKey, fingerprint, source, encryptedPrivateKey]
+            );
+
+            await AuditService.log(tx, {
+                userId,
+                action: current ? 'signing_key.rotated' : 'signing_key.created',
+                entityType: 'signing_key',
+                entityId: result.lastID,
+                details: { source, fingerprint, previousKeyId: current?.id ?? null },
+                before: current ? { fingerprint: current.fingerprint, source: current.source } : null,
+                after: { fingerprint, source }
+            });
+
+            return tx.get(`SELECT ${KEY_COLUMNS} FROM signing_keys WHERE id = ?`, [result.lastID]);
+        });
+    }
+}
+
+export { SigningKeyService };
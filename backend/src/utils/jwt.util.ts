@@ -13,6 +13,7 @@ export interface TokenPayload {
     userId: number;
     email: string;
     role: 'admin' | 'vendor' | 'approver';
+    sessionId: string; // session_token of the sessions row the token belongs to
 }
 
 export class JWTUtil {
@@ -27,10 +28,12 @@ export class JWTUtil {
 
     /**
      * Generate refresh token
+     * @param tokenId - Unique id (jti), so tokens issued within the same second differ
      */
-    static generateRefreshToken(payload: TokenPayload): string {
+    static generateRefreshToken(payload: TokenPayload, tokenId?: string): string {
         return jwt.sign(payload, JWT_REFRESH_SECRET, {
-            expiresIn: JWT_REFRESH_EXPIRES_IN
+            expiresIn: JWT_REFRESH_EXPIRES_IN,
+            ...(tokenId && { jwtid: tokenId })
         } as jwt.SignOptions);
     }
 
@@ -0,0 +1,170 @@
+/**
+ * OTP Stores
+ * Where pending OTPs live between issue and verification. Records are keyed by the SHA-256 of the
+ * temporary token and hold only a keyed hash of the code; OTPUtil does the hashing.
+ */
+
+import { Database } from '../database/database';
+import { FieldEncryptionUtil } from './security/field-encryption.util';
+
+export type OTPPurpose = 'signup' | 'login' | 'mfa';
+
+export interface OTPRecord {
+    codeHash: string; // Empty for MFA challenges, which have no issued code
+    email: string;
+    purpose: OTPPurpose;
+    data?: any;
+    expiresAt: number; // Epoch milliseconds
+    attempts: number;
+}
+
+export interface OTPStore {
+    get(tokenHash: string): Promise<OTPRecord | null>;
+
+    /**
+     * Create or replace the record for a token
+     */
+    save(tokenHash: string, record: OTPRecord): Promise<void>;
+
+    /**
+     * Count a wrong answer
+     * @returns Attempts after the increment, or 0 if the record is gone
+     */
+    recordFailedAttempt(tokenHash: string): Promise<number>;
+
+    /**
+     * Remove the record if it still holds this code hash, is unexpired and not locked out.
+     * Only one of several concurrent callers can succeed.
+     */
+    consume(tokenHash: string, codeHash: string, maxAttempts: number): Promise<boolean>;
+
+    delete(tokenHash: string): Promise<void>;
+
+    /**
+     * @returns Number of records removed
+     */
+    deleteExpired(now: number): Promise<number>;
+
+    size(): Promise<number>;
+}
+
+/**
+ * Process-local store; pending OTPs are lost on restart and not shared between instances. For tests.
+ */
+export class MemoryOTPStore implements OTPStore {
+    private records = new Map<string, OTPRecord>();
+
+    async get(tokenHash: string): Promise<OTPRecord | null> {
+        const record = this.records.get(tokenHash);
+        return record ? { ...record } : null;
+    }
+
+    async save(tokenHash: string, record: OTPRecord): Promise<void> {
+        this.records.set(tokenHash, { ...record });
+    }
+
+    async recordFailedAttempt(tokenHash: string): Promise<number> {
+        const record = this.records.get(tokenHash);
+        if (!record) return 0;
+        record.attempts++;
+        return record.attempts;
+    }
+
+    async consume(tokenHash: string, codeHash: string, maxAttempts: number): Promise<boolean> {
+        const record = this.records.get(tokenHash);
+        if (!record || record.codeHash !== codeHash || record.attempts >= maxAttempts || Date.now() > record.expiresAt) {
+            return false;
+        }
+        this.records.delete(tokenHash);
+        return true;
+    }
+
+    async delete(tokenHash: string): Promise<void> {
+        this.records.delete(tokenHash);
+    }
+
+    async deleteExpired(now: number): Promise<number> {
+        let count = 0;
+        for (const [tokenHash, record] of this.records.entries()) {
+            if (now > record.expiresAt) {
+                this.records.delete(tokenHash);
+                count++;
+            }
+        }
+        return count;
+    }
+
+    async size(): Promise<number> {
+        return this.records.size;
+    }
+}
+
+/**
+ * Store in the otp_codes table; survives restarts and is shared by every instance using the database.
+ * The email and the pending signup or login payload are field-encrypted; the database layer decrypts them on read.
+ */
+export class SQLiteOTPStore implements OTPStore {
+    async get(tokenHash: string): Promise<OTPRecord | null> {
+        const row = await Database.get<any>(
+            'SELECT code_hash, email, purpose, data, expires_at, attempts FROM otp_codes WHERE token_hash = ?',
+            [tokenHash]
+        );
+
+        if (!row) return null;
+
+        return {
+            codeHash: row.code_hash,
+            email: row.email,
+            purpose: row.purpose,
+            data: row.data ? JSON.parse(row.data) : undefined,
+            expiresAt: row.expires_at,
+            attempts: row.attempts
+        };
+    }
+
+    async save(tokenHash: string, record: OTPRecord): Promise<void> {
+        await Database.run(
+            `INSERT OR REPLACE INTO otp_codes (token_hash, code_hash, email, purpose, data, expires_at, attempts)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+                tokenHash,
+                record.codeHash,
+                await FieldEncryptionUtil.encrypt('otp_codes.email', record.email),
+                record.purpose,
+                record.data === undefined ? null : await FieldEncryptionUtil.encrypt('otp_codes.data', JSON.stringify(record.data)),
+                record.expiresAt,
+                record.attempts
+            ]
+        );
+    }
+
+    async recordFailedAttempt(tokenHash: string): Promise<number> {
+        return Database.transaction(async (tx) => {
+            await tx.run('UPDATE otp_codes SET attempts = attempts + 1 WHERE token_hash = ?', [tokenHash]);
+            const row = await tx.get<{ attempts: number }>('SELECT attempts FROM otp_codes WHERE token_hash = ?', [tokenHash]);
+            return row?.attempts ?? 0;
+        });
+    }
+
+    async consume(tokenHash: string, codeHash: string, maxAttempts: number): Promise<boolean> {
+        const result = await Database.run(
+            'DELETE FROM otp_codes WHERE token_hash = ? AND code_hash = ? AND attempts < ? AND expires_at >= ?',
+            [tokenHash, codeHash, maxAttempts, Date.now()]
+        );
+        return result.changes === 1;
+    }
+
+    async delete(tokenHash: string): Promise<void> {
+        await Database.run('DELETE FROM otp_codes WHERE token_hash = ?', [tokenHash]);
+    }
+
+    async deleteExpired(now: number): Promise<number> {
+        const result = await Database.run('DELETE FROM otp_codes WHERE expires_at < ?', [now]);
+        return result.changes;
+    }
+
+    async size(): Promise<number> {
+        const row = await Database.get<{ count: number }>('SELECT COUNT(*) as count FROM otp_codes');
+        return row?.count ?? 0;
+    }
+}
@@ -1,19 +1,22 @@
 /**
  * OTP (One-Time Password) Utility
- * Handles OTP generation, storage, and verification
+ * Handles OTP generation, storage, and verification. Pending OTPs are kept in an OTPStore,
+ * by default the otp_codes table.
  */
 
+import { HashUtil } from './security/hash.util';
+import { OTPPurpose, OTPRecord, OTPStore, SQLiteOTPStore } from './otp-store.util';
+
 interface OTPData {
-    otp: string;
     email: string;
-    purpose: 'signup' | 'login';
+    purpose: OTPPurpose;
     data?: any; // Additional data for signup (user details)
     expiresAt: number;
     attempts: number;
 }
 
 class OTPUtil {
-    private static otpStore = new Map<string, OTPData>();
+    private static store: OTPStore = new SQLiteOTPStore();
     private static readonly OTP_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
     private static readonly MAX_ATTEMPTS = 3;
     private static readonly CLEANUP_INTERVAL_MS = 60 * 1000; // 1 minute
@@ -24,10 +27,17 @@ class OTPUtil {
     static initialize() {
         // Clean up expired OTPs every minute
         setInterval(() => {
-            this.cleanupExpiredOTPs();
+            this.cleanupExpiredOTPs().catch((error) => console.error('OTP cleanup error:', error));
         }, this.CLEANUP_INTERVAL_MS);
     }
 
+    /**
+     * Replace the OTP store, e.g. with a MemoryOTPStore in tests
+     */
+    static useStore(store: OTPStore) {
+        this.store = store;
+    }
+
     /**
      * Generate a random 6-digit OTP
      */
@@ -38,21 +48,20 @@ class OTPUtil {
     /**
      * Store OTP with associated data
      */
-    static storeOTP(
+    static async storeOTP(
         token: string,
         email: string,
         purpose: 'signup' | 'login',
         additionalData?: any
-    ): string {
+    ): Promise<string> {
         const otp = this.generateOTP();
-        const expiresAt = Date.now() + this.OTP_EXPIRY_MS;
 
-        this.otpStore.set(token, {
-            otp,
+        await this.store.save(this.hashToken(token), {
+            codeHash: this.hashCode(token, otp),
             email,
             purpose,
             data: additionalData,
-            expiresAt,
+            expiresAt: Date.now() + this.OTP_EXPIRY_MS,
             attempts: 0
         });
 
@@ -63,35 +72,36 @@ class OTPUtil {
     /**
      * Verify OTP
      */
-    static verifyOTP(
+    static async verifyOTP(
         token: string,
         otp: string
-    ): { success: boolean; error?: string; data?: OTPData } {
-        const otpData = this.otpStore.get(token);
+    ): Promise<{ success: boolean; error?: string; data?: OTPData }> {
+        const tokenHash = this.hashToken(token);
+        const record = await this.store.get(tokenHash);
 
-        if (!otpData) {
+        if (!record) {
             return { success: false, error: 'Invalid or expired token' };
         }
 
         // Check expiration
-        if (Date.now() > otpData.expiresAt) {
-            this.otpStore.delete(token);
+        if (Date.now() > record.expiresAt) {
+            await this.store.delete(tokenHash);
             return { success: false, error: 'OTP has expired' };
         }
 
         // Check attempts
-        if (otpData.attempts >= this.MAX_ATTEMPTS) {
-            this.otpStore.delete(token);
+        if (record.attempts >= this.MAX_ATTEMPTS) {
+            await this.store.delete(tokenHash);
             return { success: false, error: 'Maximum verification attempts exceeded' };
         }
 
         // Verify OTP
-        if (otpData.otp !== otp) {
-            otpData.attempts++;
-            const remainingAttempts = this.MAX_ATTEMPTS - otpData.attempts;
+        const codeHash = this.hashCode(token, String(otp));
+        if (record.codeHash !== codeHash) {
+            const remainingAttempts = this.MAX_ATTEMPTS - (await this.store.recordFailedAttempt(tokenHash));
 
-            if (remainingAttempts === 0) {
-                this.otpStore.delete(token);
+            if (remainingAttempts <= 0) {
+                await this.store.delete(tokenHash);
                 return { success: false, error: 'Maximum verification attempts exceeded' };
             }
 
@@ -101,70 +111,122 @@ class OTPUtil {
             };
         }
 
-        // OTP verified successfully
-        const data = { ...otpData };
-        this.otpStore.delete(token); // Remove OTP after successful verification
-        return { success: true, data };
+        // OTP verified successfully; remove it so it cannot be used again, even by a concurrent request
+        if (!(await this.store.consume(tokenHash, codeHash, this.MAX_ATTEMPTS))) {
+            return { success: false, error: 'Invalid or expired token' };
+        }
+        return { success: true, data: this.toOTPData(record) };
     }
 
     /**
-     * Check if token exists and is valid
+     * Hold a login that passed the password check until the user's authenticator code arrives.
+     * No code is generated or sent; the challenge is answered through verifyMFAChallenge.
      */
-    static isValidToken(token: string): boolean {
-        const otpData = this.otpStore.get(token);
-        if (!otpData) return false;
-        if (Date.now() > otpData.expiresAt) {
-            this.otpStore.delete(token);
-            return false;
+    static async storeMFAChallenge(token: string, email: string, additionalData?: any): Promise<void> {
+        await this.store.save(this.hashToken(token), {
+            codeHash: '',
+            email,
+            purpose: 'mfa',
+            data: additionalData,
+            expiresAt: Date.now() + this.OTP_EXPIRY_MS,
+            attempts: 0
+        });
+    }
+
+    /**
+     * Answer an MFA challenge, with the same expiry and attempt limits as email OTPs
+     * @param check - Verifies the submitted second factor against the pending login
+     */
+    static async verifyMFAChallenge(
+        token: string,
+        check: (otpData: OTPData) => Promise<boolean>
+    ): Promise<{ success: boolean; error?: string; data?: OTPData }> {
+        const tokenHash = this.hashToken(token);
+        const record = await this.store.get(tokenHash);
+
+        if (!record || record.purpose !== 'mfa') {
+            return { success: false, error: 'Invalid or expired token' };
+        }
+
+        if (Date.now() > record.expiresAt) {
+            await this.store.delete(tokenHash);
+            return { success: false, error: 'Verification code has expired' };
+        }
+
+        if (record.attempts >= this.MAX_ATTEMPTS) {
+            await this.store.delete(tokenHash);
+            return { success: false, error: 'Maximum verification attempts exceeded' };
+        }
+
+        if (!(await check(this.toOTPData(record)))) {
+            const remainingAttempts = this.MAX_ATTEMPTS - (await this.store.recordFailedAttempt(tokenHash));
+
+            if (remainingAttempts <= 0) {
+                await this.store.delete(tokenHash);
+                return { success: false, error: 'Maximum verification attempts exceeded' };
+            }
+
+            return {
+                success: false,
+                error: `Incorrect code. ${remainingAttempts} attempt(s) remaining`
+            };
+        }
+
+        if (!(await this.store.consume(tokenHash, '', this.MAX_ATTEMPTS))) {
+            return { success: false, error: 'Invalid or expired token' };
         }
-        return true;
+        return { success: true, data: this.toOTPData(record) };
+    }
+
+    /**
+     * Check if token exists and is valid
+     */
+    static async isValidToken(token: string): Promise<boolean> {
+        return (await this.getOTPData(token)) !== null;
     }
 
     /**
      * Get OTP data for resending
      */
-    static getOTPData(token: string): OTPData | null {
-        const otpData = this.otpStore.get(token);
-        if (!otpData) return null;
+    static async getOTPData(token: string): Promise<OTPData | null> {
+        const tokenHash = this.hashToken(token);
+        const record = await this.store.get(tokenHash);
+        if (!record) return null;
 
         // Check expiration
-        if (Date.now() > otpData.expiresAt) {
-            this.otpStore.delete(token);
+        if (Date.now() > record.expiresAt) {
+            await this.store.delete(tokenHash);
             return null;
         }
 
-        return otpData;
+        return this.toOTPData(record);
     }
 
     /**
      * Regenerate OTP for existing token
      */
-    static regenerateOTP(token: string): string | null {
-        const otpData = this.otpStore.get(token);
-        if (!otpData) return null;
+    static async regenerateOTP(token: string): Promise<string | null> {
+        const tokenHash = this.hashToken(token);
+        const record = await this.store.get(tokenHash);
+        if (!record) return null;
 
         const newOTP = this.generateOTP();
-        otpData.otp = newOTP;
-        otpData.expiresAt = Date.now() + this.OTP_EXPIRY_MS;
-        otpData.attempts = 0; // Reset attempts on resend
+        await this.store.save(tokenHash, {
+            ...record,
+            codeHash: this.hashCode(token, newOTP),
+            expiresAt: Date.now() + this.OTP_EXPIRY_MS,
+            attempts: 0 // Reset attempts on resend
+        });
 
-        console.log(`OTP regenerated for ${otpData.email}: ${newOTP}`);
+        console.log(`OTP regenerated for ${record.email}: ${newOTP}`);
         return newOTP;
     }
 
     /**
      * Clean up expired OTPs
      */
-    private static cleanupExpiredOTPs() {
-        const now = Date.now();
-        let cleanupCount = 0;
-
-        for (const [token, data] of this.otpStore.entries()) {
-            if (now > data.expiresAt) {
-                this.otpStore.delete(token);
-                cleanupCount++;
-            }
-        }
+    private static async cleanupExpiredOTPs() {
+        const cleanupCount = await this.store.deleteExpired(Date.now());
 
         if (cleanupCount > 0) {
             console.log(`Cleaned up ${cleanupCount} expired OTP(s)`);
@@ -174,8 +236,32 @@ class OTPUtil {
     /**
      * Get OTP store size (for debugging)
      */
-    static getStoreSize(): number {
-        return this.otpStore.size;
+    static async getStoreSize(): Promise<number> {
+        return this.store.size();
+    }
+
+    /**
+     * Store key for a temporary token, so the store never holds the token itself
+     */
+    private static hashToken(token: string): string {
+        return HashUtil.sha256(token);
+    }
+
+    /**
+     * Code hash keyed by its token; a 6-digit code cannot be looked up from the hash without the token
+     */
+    private static hashCode(token: string, otp: string): string {
+        return HashUtil.hmac(otp, token);
+    }
+
+    private static toOTPData(record: OTPRecord): OTPData {
+        return {
+            email: record.email,
+            purpose: record.purpose,
+            data: record.data,
+            expiresAt: record.expiresAt,
+            attempts: record.attempts
+        };
     }
 }
 
@@ -0,0 +1,13 @@
+/**
+ * Query Utilities
+ * Parsing of list-endpoint query parameters
+ */
+
+/**
+ * Parse a query date into SQLite's UTC timestamp format, or null if missing or invalid
+ */
+export function parseQueryDate(value: unknown): string | null {
+    if (!value) return null;
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? null : date.toISOString().replace('T', ' ').slice(0, 19);
+}
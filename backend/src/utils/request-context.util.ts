@@ -0,0 +1,33 @@
+/**
+ * Request Context Utility
+ * Client details recorded with sessions, security events and audit entries
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+
+export interface RequestContext {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Context of the request being handled on the current async call chain, if any
+const requestStore = new AsyncLocalStorage<RequestContext>();
+
+export function requestContext(req: Request): RequestContext {
+    return { ipAddress: req.ip || req.socket.remoteAddress, userAgent: req.headers['user-agent'] };
+}
+
+/**
+ * Middleware making the request's context available to services that are not handed the request
+ */
+export function bindRequestContext(req: Request, _res: Response, next: NextFunction): void {
+    requestStore.run(requestContext(req), next);
+}
+
+/**
+ * Context of the request being handled; undefined in background jobs
+ */
+export function currentRequestContext(): RequestContext | undefined {
+    return requestStore.getStore();
+}
@@ -0,0 +1,46 @@
+/**
+ * Canonical JSON Utility
+ * Deterministic JSON for signed payloads, so the signer and the verifier serialize the same data to the same bytes.
+ * Follows RFC 8785 (JCS): object keys sorted by UTF-16 code units, no whitespace, strings and numbers as
+ * JSON.stringify writes them. The frontend has the same implementation in src/lib/canonical-json.ts;
+ * the two must stay identical.
+ */
+
+export class CanonicalJsonUtil {
+    /**
+     * Serialize a value canonically.
+     * As with JSON.stringify, undefined properties are left out and non-finite numbers become null,
+     * so a payload canonicalizes the same before and after a JSON round trip.
+     * @param value - JSON-compatible value
+     * @returns Canonical JSON string
+     */
+    static stringify(value: unknown): string {
+        if (value === null || value === undefined) {
+            return 'null';
+        }
+
+        switch (typeof value) {
+            case 'boolean':
+            case 'string':
+                return JSON.stringify(value);
+            case 'number':
+                return Number.isFinite(value) ? JSON.stringify(value) : 'null';
+            case 'object':
+                break;
+            default:
+                throw new TypeError(`Cannot canonicalize a value of type ${typeof value}`);
+        }
+
+        if (Array.isArray(value)) {
+            return `[${value.map((item) => this.stringify(item)).join(',')}]`;
+        }
+
+        const record = value as Record<string, unknown>;
+        const members = Object.keys(record)
+            .filter((key) => record[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${this.stringify(record[key])}`);
+
+        return `{${members.join(',')}}`;
+    }
+}
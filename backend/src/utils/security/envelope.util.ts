@@ -0,0 +1,131 @@
+/**
+ * Envelope Encryption Utility
+ * AES-256-GCM envelope encryption: each record is encrypted with its own random data key, and the data key
+ * is stored wrapped (itself AES-256-GCM encrypted) under a master key. Rotating the master key only re-wraps
+ * data keys; record ciphertexts are left as they are.
+ */
+
+import crypto from 'crypto';
+import { MasterKey } from './key-provider.util';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+export interface Envelope {
+    v: 1;
+    kid: string; // Master key that wraps the data key
+    dek: string; // Wrapped data key: IV, auth tag and ciphertext, Base64
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+export class EnvelopeUtil {
+    /**
+     * Encrypt data under a fresh data key wrapped by the master key
+     * @param plaintext - Data to encrypt
+     * @param master - Master key to wrap the data key with
+     * @param context - Associated data binding the ciphertext to its record, e.g. "quotation:QT-123"; required to decrypt
+     * @returns Envelope as a JSON string
+     */
+    static encrypt(plaintext: string, master: MasterKey, context: string): string {
+        const dataKey = crypto.randomBytes(32);
+        const { iv, tag, data } = this.seal(dataKey, Buffer.from(plaintext, 'utf8'), Buffer.from(context, 'utf8'));
+
+        const envelope: Envelope = {
+            v: 1,
+            kid: master.id,
+            dek: this.wrap(dataKey, master),
+            iv: iv.toString('base64'),
+            tag: tag.toString('base64'),
+            data: data.toString('base64')
+        };
+
+        return JSON.stringify(envelope);
+    }
+
+    /**
+     * Decrypt an envelope
+     * @param envelope - Output of encrypt()
+     * @param masterKey - The master key named by the envelope's kid
+     * @param context - Associated data given to encrypt()
+     * @returns Original plaintext
+     * @throws Error when the key or context is wrong or the envelope was altered
+     */
+    static decrypt(envelope: string, masterKey: Buffer, context: string): string {
+        const parsed = this.parse(envelope);
+        const dataKey = this.unwrap(parsed.dek, masterKey, parsed.kid);
+
+        const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, Buffer.from(parsed.iv, 'base64'));
+        decipher.setAAD(Buffer.from(context, 'utf8'));
+        decipher.setAuthTag(Buffer.from(parsed.tag, 'base64'));
+
+        return Buffer.concat([decipher.update(Buffer.from(parsed.data, 'base64')), decipher.final()]).toString('utf8');
+    }
+
+    /**
+     * Re-wrap an envelope's data key under another master key, leaving the data ciphertext untouched
+     * @param envelope - Envelope to re-wrap
+     * @param currentKey - The master key named by the envelope's kid
+     * @param master - New master key
+     * @returns Re-wrapped envelope as a JSON string
+     */
+    static rewrap(envelope: string, currentKey: Buffer, master: MasterKey): string {
+        const parsed = this.parse(envelope);
+        const dataKey = this.unwrap(parsed.dek, currentKey, parsed.kid);
+
+        return JSON.stringify({ ...parsed, kid: master.id, dek: this.wrap(dataKey, master) });
+    }
+
+    /**
+     * Id of the master key an envelope is wrapped with
+     */
+    static keyId(envelope: string): string {
+        return this.parse(envelope).kid;
+    }
+
+    /**
+     * Whether a stored value is an envelope, as opposed to data from before envelope encryption
+     */
+    static isEnvelope(value: string | null | undefined): boolean {
+        if (!value || !value.startsWith('{')) return false;
+        try {
+            const parsed = JSON.parse(value);
+            return parsed.v === 1 && typeof parsed.kid === 'string' && typeof parsed.dek === 'string';
+        } catch {
+            return false;
+        }
+    }
+
+    private static parse(envelope: string): Envelope {
+        const parsed = JSON.parse(envelope);
+        if (parsed.v !== 1) {
+            throw new Error(`Unsupported envelope version ${parsed.v}`);
+        }
+        return parsed;
+    }
+
+    // The wrapped key is bound to the id of the master key that wraps it
+    private static wrap(dataKey: Buffer, master: MasterKey): string {
+        const { iv, tag, data } = this.seal(master.key, dataKey, Buffer.from(master.id, 'utf8'));
+        return Buffer.concat([iv, tag, data]).toString('base64');
+    }
+
+    private static unwrap(wrapped: string, masterKey: Buffer, keyId: string): Buffer {
+        const raw = Buffer.from(wrapped, 'base64');
+        const decipher = crypto.createDecipheriv(ALGORITHM, masterKey, raw.subarray(0, IV_LENGTH));
+        decipher.setAAD(Buffer.from(keyId, 'utf8'));
+        decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + 16));
+
+        return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + 16)), decipher.final()]);
+    }
+
+    private static seal(key: Buffer, plaintext: Buffer, aad: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+        const iv = crypto.randomBytes(IV_LENGTH);
+        const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+        cipher.setAAD(aad);
+        const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+        return { iv, tag: cipher.getAuthTag(), data };
+    }
+}
@@ -0,0 +1,242 @@
+/**
+ * Field Encryption Utility
+ * AES-256-GCM encryption of personal data columns at rest. Each value is stored as a token naming its field and
+ * the master key it is encrypted under, so the database layer can decrypt rows transparently whatever the query
+ * or column alias. Email is encrypted deterministically (the IV is derived from the value) so `WHERE email = ?`
+ * lookups keep working; every other field gets a random IV.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { MasterKey, getKeyProvider } from './key-provider.util';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const TOKEN_PREFIX = 'enc1:';
+
+const INDEX_PREFIX = 'hmac1:';
+const INDEX_KEY_LENGTH = 32;
+
+// Loaded on first use; it never rotates, or stored hashes would stop matching new ones
+let indexKey: Buffer | null = null;
+
+export type EncryptedField =
+    | 'users.email'
+    | 'users.phone'
+    | 'users.company_name'
+    | 'users.mfa_secret'
+    | 'otp_codes.email'
+    | 'otp_codes.data';
+
+/**
+ * Columns stored as a keyed hash only, for counting or grouping values without keeping them
+ */
+export type IndexedField = 'security_events.email';
+
+/**
+ * Encrypted columns. Deterministic ones can be matched for equality, at the cost of revealing which rows share a value.
+ * A token is only decrypted in a result column named like its field's column or one of its aliases, so a token
+ * copied into another column (a note, a description) comes back as it was stored.
+ */
+export const ENCRYPTED_FIELDS: Record<EncryptedField, { deterministic: boolean; aliases?: string[] }> = {
+    'users.email': {
+        deterministic: true,
+        aliases: ['approver_email', 'creator_email', 'delegate_email', 'delegator_email', 'user_email', 'vendor_email']
+    },
+    'users.phone': { deterministic: false },
+    'users.company_name': { deterministic: false, aliases: ['vendor_name'] },
+    'users.mfa_secret': { deterministic: false },
+    // Pending signup and login payloads: email, phone and company name typed before the account exists
+    'otp_codes.email': { deterministic: false },
+    'otp_codes.data': { deterministic: false }
+};
+
+export class FieldEncryptionUtil {
+    /**
+     * Encrypt a value for storage under the active master key
+     * @param field - Column the value is stored in; bound to the ciphertext as associated data
+     * @param value - Plaintext; null and empty values are stored as they are
+     * @returns Token to store
+     */
+    static async encrypt(field: EncryptedField, value: string | null | undefined): Promise<string | null> {
+        if (value === null || value === undefined || value === '') {
+            return value ?? null;
+        }
+
+        return this.seal(field, await getKeyProvider().getActiveKey(), value);
+    }
+
+    /**
+     * SQL condition matching a deterministically encrypted column against a plaintext value.
+     * The value is encrypted under every master key the provider holds, so rows not yet re-encrypted after
+     * a rotation still match.
+     * @param column - Column as written in the query, e.g. "email" or "u.email"
+     * @returns SQL fragment and its parameters, e.g. { sql: 'email IN (?, ?)', params: [...] }
+     */
+    static async matching(column: string, field: EncryptedField, value: string): Promise<{ sql: string; params: string[] }> {
+        if (!ENCRYPTED_FIELDS[field].deterministic) {
+            throw new Error(`${field} is not deterministically encrypted and cannot be matched`);
+        }
+
+        const provider = getKeyProvider();
+        const active = await provider.getActiveKey();
+        const ids = new Set([active.id, ...(await provider.listKeyIds())]);
+
+        const params: string[] = [];
+        for (const id of ids) {
+            params.push(this.seal(field, { id, key: await provider.getKey(id) }, value));
+        }
+
+        return { sql: `${column} IN (${params.map(() => '?').join(', ')})`, params };
+    }
+
+    /**
+     * Decrypt a stored token
+     * @throws Error when the token is malformed, altered, or its master key is unavailable
+     */
+    static async decrypt(token: string): Promise<string> {
+        const { field, keyId, raw } = this.parse(token);
+        const { encryptionKey } = this.deriveKeys(await getKeyProvider().getKey(keyId), field);
+
+        const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey, raw.subarray(0, IV_LENGTH));
+        decipher.setAAD(Buffer.from(field, 'utf8'));
+        decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+        return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+    }
+
+    /**
+     * Keyed hash of a value, for columns that only need equal values to compare equal (e.g. counting distinct
+     * emails). Values are trimmed and lower-cased first. The key comes from a dedicated index key rather than a
+     * master key, so hashes stay comparable across master key rotations.
+     */
+    static async blindIndex(field: IndexedField, value: string): Promise<string> {
+        const key = Buffer.from(crypto.hkdfSync('sha256', this.getIndexKey(), Buffer.alloc(0), `field-index:${field}`, 32));
+
+        return `${INDEX_PREFIX}${crypto.createHmac('sha256', key).update(value.trim().toLowerCase(), 'utf8').digest('hex')}`;
+    }
+
+    /**
+     * Start of every blind index, for finding values not yet hashed
+     */
+    static indexPrefix(): string {
+        return INDEX_PREFIX;
+    }
+
+    /**
+     * Decrypt the tokens of encrypted columns in a result row, in place.
+     * A token in a column its field is not stored under, or one that fails to decrypt, is logged and left as it is,
+     * so one stray or damaged value does not fail the query.
+     */
+    static async decryptRow(row: Record<string, unknown> | undefined): Promise<Record<string, unknown> | undefined> {
+        if (!row || typeof row !== 'object') {
+            return row;
+        }
+
+        for (const [column, value] of Object.entries(row)) {
+            if (!this.isEncrypted(value)) continue;
+
+            try {
+                const { field } = this.parse(value);
+                if (!this.storedIn(field, column)) {
+                    console.error(`Column ${column} holds a ${field} token; left encrypted`);
+                    continue;
+                }
+
+                row[column] = await this.decrypt(value);
+            } catch (error) {
+                console.error(`Encrypted column ${column} could not be decrypted:`, error);
+            }
+        }
+
+        return row;
+    }
+
+    /**
+     * Whether a stored value is a field encryption token
+     */
+    static isEncrypted(value: unknown): value is string {
+        return typeof value === 'string' && value.startsWith(TOKEN_PREFIX);
+    }
+
+    /**
+     * Start of every token of a field encrypted under a master key, for finding values still under other keys
+     */
+    static tokenPrefix(field: EncryptedField, keyId?: string): string {
+        return keyId ? `${TOKEN_PREFIX}${field}:${keyId}:` : `${TOKEN_PREFIX}${field}:`;
+    }
+
+    /**
+     * The blind index key: FIELD_INDEX_KEY (Base64, 32 bytes) when set, else SYSTEM_KEY_DIR/field-index.key,
+     * generated on first use like the system signing key
+     */
+    private static getIndexKey(): Buffer {
+        if (indexKey) return indexKey;
+
+        let encoded = process.env.FIELD_INDEX_KEY;
+        if (!encoded) {
+            const keyDir = process.env.SYSTEM_KEY_DIR || './data/keys';
+            const keyPath = path.join(keyDir, 'field-index.key');
+
+            if (!fs.existsSync(keyPath)) {
+                fs.mkdirSync(keyDir, { recursive: true });
+                try {
+                    // Another process may create it first; its key is then the one everyone uses
+                    fs.writeFileSync(keyPath, crypto.randomBytes(INDEX_KEY_LENGTH).toString('base64'), { mode: 0o600, flag: 'wx' });
+                    console.log(`✓ Generated field index key in ${keyDir}`);
+                } catch (error: any) {
+                    if (error.code !== 'EEXIST') throw error;
+                }
+            }
+            encoded = fs.readFileSync(keyPath, 'utf-8');
+        }
+
+        const key = Buffer.from(encoded.trim(), 'base64');
+        if (key.length !== INDEX_KEY_LENGTH) {
+            throw new Error(`Field index key must be ${INDEX_KEY_LENGTH} bytes, Base64-encoded`);
+        }
+
+        indexKey = key;
+        return key;
+    }
+
+    // Result columns a field's tokens may be read back through: its own column and the aliases queries select it as
+    private static storedIn(field: EncryptedField, column: string): boolean {
+        return field.split('.')[1] === column || !!ENCRYPTED_FIELDS[field].aliases?.includes(column);
+    }
+
+    private static seal(field: EncryptedField, master: MasterKey, value: string): string {
+        const { encryptionKey, ivKey } = this.deriveKeys(master.key, field);
+        const plaintext = Buffer.from(value, 'utf8');
+
+        // Deterministic fields take a synthetic IV, so equal values under one key give equal tokens
+        const iv = ENCRYPTED_FIELDS[field].deterministic
+            ? crypto.createHmac('sha256', ivKey).update(plaintext).digest().subarray(0, IV_LENGTH)
+            : crypto.randomBytes(IV_LENGTH);
+
+        const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey, iv);
+        cipher.setAAD(Buffer.from(field, 'utf8'));
+        const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+        return `${this.tokenPrefix(field, master.id)}${Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64')}`;
+    }
+
+    private static parse(token: string): { field: EncryptedField; keyId: string; raw: Buffer } {
+        const [field, keyId, data, ...rest] = token.slice(TOKEN_PREFIX.length).split(':');
+        if (!Object.keys(ENCRYPTED_FIELDS).includes(field) || !keyId || !data || rest.length > 0) {
+            throw new Error('Malformed field encryption token');
+        }
+
+        return { field: field as EncryptedField, keyId, raw: Buffer.from(data, 'base64') };
+    }
+
+    // Keys per field, derived from the master key: equal values in different columns give unrelated tokens
+    private static deriveKeys(masterKey: Buffer, field: EncryptedField): { encryptionKey: Buffer; ivKey: Buffer } {
+        const derive = (purpose: string) =>
+            Buffer.from(crypto.hkdfSync('sha256', masterKey, Buffer.alloc(0), `field-encryption:${field}:${purpose}`, 32));
+
+        return { encryptionKey: derive('encryption'), ivKey: derive('iv') };
+    }
+}
@@ -0,0 +1,194 @@
+/**
+ * Master Key Providers
+ * Where the master keys that wrap per-record data keys come from. A provider holds several keys by id:
+ * the active one wraps new data keys, older ones stay available to unwrap what they wrapped until it is re-wrapped.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface MasterKey {
+    id: string;
+    key: Buffer; // 32 bytes, AES-256
+}
+
+export interface KeyProvider {
+    readonly name: string;
+
+    /**
+     * The key new data keys are wrapped with
+     */
+    getActiveKey(): Promise<MasterKey>;
+
+    /**
+     * A key by id, whether active or retired
+     * @throws Error when the provider does not hold the key
+     */
+    getKey(id: string): Promise<Buffer>;
+
+    listKeyIds(): Promise<string[]>;
+
+    /**
+     * Create a key and make it the active one.
+     * Providers whose keys are managed outside the application throw; rotate those at the source instead.
+     */
+    createKey(): Promise<MasterKey>;
+}
+
+const KEY_LENGTH = 32;
+
+function newKeyId(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `mk-${date}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+function decodeKey(id: string, encoded: string): Buffer {
+    const key = Buffer.from(encoded.trim(), 'base64');
+    if (key.length !== KEY_LENGTH) {
+        throw new Error(`Master key ${id} must be ${KEY_LENGTH} bytes, Base64-encoded`);
+    }
+    return key;
+}
+
+/**
+ * Keys in files under SYSTEM_KEY_DIR/master-keys, one Base64 key per <id>.key and the active id in ACTIVE.
+ * The first key is generated on first use, like the system signing key.
+ */
+export class FileKeyProvider implements KeyProvider {
+    readonly name = 'file';
+    private cache = new Map<string, Buffer>();
+
+    constructor(private readonly dir: string) {}
+
+    async getActiveKey(): Promise<MasterKey> {
+        const activePath = path.join(this.dir, 'ACTIVE');
+        if (!fs.existsSync(activePath)) {
+            const created = await this.createKey();
+            console.log(`✓ Generated master encryption key in ${this.dir}`);
+            return created;
+        }
+
+        const id = fs.readFileSync(activePath, 'utf-8').trim();
+        return { id, key: await this.getKey(id) };
+    }
+
+    async getKey(id: string): Promise<Buffer> {
+        const cached = this.cache.get(id);
+        if (cached) return cached;
+
+        const keyPath = path.join(this.dir, `${path.basename(id)}.key`);
+        if (!fs.existsSync(keyPath)) {
+            throw new Error(`Master key ${id} not found in ${this.dir}`);
+        }
+
+        const key = decodeKey(id, fs.readFileSync(keyPath, 'utf-8'));
+        this.cache.set(id, key);
+        return key;
+    }
+
+    async listKeyIds(): Promise<string[]> {
+        if (!fs.existsSync(this.dir)) return [];
+        return fs
+            .readdirSync(this.dir)
+            .filter((file) => file.endsWith('.key'))
+            .map((file) => file.slice(0, -'.key'.length))
+            .sort();
+    }
+
+    async createKey(): Promise<MasterKey> {
+        const id = newKeyId();
+        const key = crypto.randomBytes(KEY_LENGTH);
+
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.writeFileSync(path.join(this.dir, `${id}.key`), key.toString('base64'), { mode: 0o600 });
+        fs.writeFileSync(path.join(this.dir, 'ACTIVE'), id);
+
+        this.cache.set(id, key);
+        return { id, key };
+    }
+}
+
+/**
+ * Keys from the environment: DATA_ENCRYPTION_KEYS="<id>:<base64>,<id>:<base64>", the last one active
+ * unless DATA_ENCRYPTION_ACTIVE_KEY names another. Rotate by adding a key and restarting.
+ */
+export class EnvKeyProvider implements KeyProvider {
+    readonly name = 'env';
+    private keys = new Map<string, Buffer>();
+    private activeId: string;
+
+    constructor(spec: string, activeId?: string) {
+        for (const entry of spec.split(',').filter((part) => part.trim())) {
+            const separator = entry.indexOf(':');
+            if (separator < 1) {
+                throw new Error('DATA_ENCRYPTION_KEYS entries must look like <id>:<base64 key>');
+            }
+            const id = entry.slice(0, separator).trim();
+            this.keys.set(id, decodeKey(id, entry.slice(separator + 1)));
+        }
+
+        const ids = [...this.keys.keys()];
+        if (ids.length === 0) {
+            throw new Error('DATA_ENCRYPTION_KEYS holds no keys');
+        }
+
+        this.activeId = activeId || ids[ids.length - 1];
+        if (!this.keys.has(this.activeId)) {
+            throw new Error(`DATA_ENCRYPTION_ACTIVE_KEY ${this.activeId} is not in DATA_ENCRYPTION_KEYS`);
+        }
+    }
+
+    async getActiveKey(): Promise<MasterKey> {
+        return { id: this.activeId, key: this.keys.get(this.activeId)! };
+    }
+
+    async getKey(id: string): Promise<Buffer> {
+        const key = this.keys.get(id);
+        if (!key) {
+            throw new Error(`Master key ${id} is not in DATA_ENCRYPTION_KEYS`);
+        }
+        return key;
+    }
+
+    async listKeyIds(): Promise<string[]> {
+        return [...this.keys.keys()];
+    }
+
+    async createKey(): Promise<MasterKey> {
+        throw new Error('Keys from DATA_ENCRYPTION_KEYS are rotated by adding a key to the variable and restarting');
+    }
+}
+
+/**
+ * The provider selected by KEY_PROVIDER: "file" (default) or "env"
+ */
+export function createKeyProvider(): KeyProvider {
+    switch (process.env.KEY_PROVIDER || 'file') {
+        case 'file':
+            return new FileKeyProvider(path.join(process.env.SYSTEM_KEY_DIR || './data/keys', 'master-keys'));
+        case 'env':
+            return new EnvKeyProvider(process.env.DATA_ENCRYPTION_KEYS || '', process.env.DATA_ENCRYPTION_ACTIVE_KEY);
+        default:
+            throw new Error(`Unknown KEY_PROVIDER "${process.env.KEY_PROVIDER}". Expected "file" or "env"`);
+    }
+}
+
+let sharedProvider: KeyProvider | null = null;
+
+/**
+ * The provider every encryption feature shares, created from the environment on first use
+ */
+export function getKeyProvider(): KeyProvider {
+    if (!sharedProvider) {
+        sharedProvider = createKeyProvider();
+    }
+    return sharedProvider;
+}
+
+/**
+ * Replace the shared provider, e.g. with an EnvKeyProvider holding fixed keys in tests
+ */
+export function useKeyProvider(provider: KeyProvider) {
+    sharedProvider = provider;
+}
@@ -55,13 +55,15 @@ export class PasswordHistoryUtil {
      * @param passwordHash - Hash of the old password
      */
     static async addToHistory(userId: number, passwordHash: string): Promise<void> {
-        await Database.run(
-            'INSERT INTO password_history (user_id, password_hash) VALUES (?, ?)',
-            [userId, passwordHash]
-        );
-
-        // Keep only the last N passwords
-        await this.cleanupOldHistory(userId);
+        await Database.transaction(async (tx) => {
+            await tx.run(
+                'INSERT INTO password_history (user_id, password_hash) VALUES (?, ?)',
+                [userId, passwordHash]
+            );
+
+            // Keep only the last N passwords
+            await this.cleanupOldHistory(userId);
+        });
     }
 
     /**
@@ -0,0 +1,69 @@
+/**
+ * Sealed Bid Utility
+ * Hybrid encryption for sealed quotations: each bid is encrypted with a fresh AES-256-GCM key,
+ * and that key is encrypted to the RFQ's RSA opening key. Only the opening key's private half,
+ * released at the bid opening, can read the bids.
+ */
+
+import crypto from 'crypto';
+
+export interface OpeningKey {
+    publicKey: string;
+    encryptedPrivateKey: string;
+}
+
+export class SealedBidUtil {
+    /**
+     * Generate an RSA opening key whose private key is protected by a passphrase
+     * @param passphrase - Secret that unlocks the private key at opening time
+     * @returns Public key and passphrase-encrypted private key (PEM)
+     */
+    static generateOpeningKey(passphrase: string): OpeningKey {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase }
+        });
+
+        return { publicKey, encryptedPrivateKey: privateKey };
+    }
+
+    /**
+     * Encrypt a bid to the opening key
+     * @param data - Bid contents (JSON-serializable)
+     * @param publicKey - RFQ opening public key
+     * @returns Sealed bid as a JSON string
+     */
+    static seal(data: any, publicKey: string): string {
+        const key = crypto.randomBytes(32);
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+        const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+
+        return JSON.stringify({
+            key: crypto.publicEncrypt({ key: publicKey, oaepHash: 'sha256' }, key).toString('base64'),
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: ciphertext.toString('base64')
+        });
+    }
+
+    /**
+     * Decrypt a sealed bid
+     * @param sealed - Output of seal()
+     * @param encryptedPrivateKey - Passphrase-encrypted opening private key
+     * @param passphrase - Passphrase released at the bid opening
+     * @returns Original bid contents
+     */
+    static open<T = any>(sealed: string, encryptedPrivateKey: string, passphrase: string): T {
+        const envelope = JSON.parse(sealed);
+        const privateKey = crypto.createPrivateKey({ key: encryptedPrivateKey, passphrase });
+        const key = crypto.privateDecrypt({ key: privateKey, oaepHash: 'sha256' }, Buffer.from(envelope.key, 'base64'));
+
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+
+        return JSON.parse(plaintext.toString('utf8'));
+    }
+}
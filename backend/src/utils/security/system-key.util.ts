@@ -0,0 +1,74 @@
+/**
+ * System Signing Key Utility
+ * Long-lived RSA key pair the platform uses to sign documents it issues (e.g. purchase orders)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SignatureUtil } from './signature.util';
+
+export class SystemKeyUtil {
+    private static keyPair: { publicKey: string; privateKey: string } | null = null;
+
+    /**
+     * Load the system key pair, generating and persisting one on first use
+     * @returns Public and private key in PEM format
+     */
+    static getKeyPair(): { publicKey: string; privateKey: string } {
+        if (this.keyPair) {
+            return this.keyPair;
+        }
+
+        const keyDir = process.env.SYSTEM_KEY_DIR || './data/keys';
+        const publicKeyPath = path.join(keyDir, 'system-public.pem');
+        const privateKeyPath = path.join(keyDir, 'system-private.pem');
+
+        if (fs.existsSync(publicKeyPath) && fs.existsSync(privateKeyPath)) {
+            this.keyPair = {
+                publicKey: fs.readFileSync(publicKeyPath, 'utf-8'),
+                privateKey: fs.readFileSync(privateKeyPath, 'utf-8')
+            };
+            return this.keyPair;
+        }
+
+        const { publicKey, privateKey } = SignatureUtil.generateKeyPair();
+
+        fs.mkdirSync(keyDir, { recursive: true });
+        fs.writeFileSync(publicKeyPath, publicKey);
+        fs.writeFileSync(privateKeyPath, privateKey, { mode: 0o600 });
+        console.log(`✓ Generated system signing key in ${keyDir}`);
+
+        this.keyPair = { publicKey, privateKey };
+        return this.keyPair;
+    }
+
+    /**
+     * Sign data with the system private key
+     * @param data - Data to sign
+     * @returns Signature (hex) and the public key that verifies it
+     */
+    static sign(data: string): { signature: string; publicKey: string } {
+        const { publicKey, privateKey } = this.getKeyPair();
+        return { signature: SignatureUtil.sign(data, privateKey), publicKey };
+    }
+
+    /**
+     * Encrypt a short secret to the system public key (RSA-OAEP)
+     * @param data - Secret to protect, at most a few hundred bytes
+     * @returns Ciphertext as Base64
+     */
+    static encrypt(data: Buffer): string {
+        const { publicKey } = this.getKeyPair();
+        return crypto.publicEncrypt({ key: publicKey, oaepHash: 'sha256' }, data).toString('base64');
+    }
+
+    /**
+     * Decrypt a secret produced by encrypt()
+     * @param encrypted - Base64 ciphertext
+     */
+    static decrypt(encrypted: string): Buffer {
+        const { privateKey } = this.getKeyPair();
+        return crypto.privateDecrypt({ key: privateKey, oaepHash: 'sha256' }, Buffer.from(encrypted, 'base64'));
+    }
+}
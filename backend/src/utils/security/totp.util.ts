@@ -56,6 +56,17 @@ export class TOTPUtil {
      * @returns True if token is valid
      */
     static verifyToken(token: string, secret: string, window: number = 1): boolean {
+        return this.verifyTokenStep(token, secret, window) !== null;
+    }
+
+    /**
+     * Verify TOTP token and report which time step it belongs to, so a used code can be refused
+     * @param token - Token to verify
+     * @param secret - Base32 encoded secret
+     * @param window - Time window tolerance (default 1 = ±30 seconds)
+     * @returns Matching time step, or null if the token is invalid
+     */
+    static verifyTokenStep(token: string, secret: string, window: number = 1): number | null {
         const now = Date.now();
 
         for (let i = -window; i <= window; i++) {
@@ -63,11 +74,11 @@ export class TOTPUtil {
             const expectedToken = this.generateToken(secret, testTime);
 
             if (token === expectedToken) {
-                return true;
+                return Math.floor(testTime / 1000 / this.TOTP_WINDOW);
             }
         }
 
-        return false;
+        return null;
     }
 
     /**
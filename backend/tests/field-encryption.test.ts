@@ -0,0 +1,188 @@
+/**
+ * Field encryption: after `npm run encrypt-fields`, the raw database file holds none of the personal data in plaintext
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { Request, Response } from 'express';
+import { Database, DB_PATH } from '../src/database/database';
+import { Migrator } from '../src/database/migrator';
+import { seedDatabase } from '../src/database/seed';
+import { AuthController } from '../src/controllers/auth.controller';
+import { MfaService } from '../src/services/mfa.service';
+import { SQLiteOTPStore } from '../src/utils/otp-store.util';
+import { FieldEncryptionUtil } from '../src/utils/security/field-encryption.util';
+import { getKeyProvider } from '../src/utils/security/key-provider.util';
+
+const BACKEND_DIR = path.join(__dirname, '..');
+
+// Values written through the application
+const REGISTERED = {
+    email: 'registered.vendor@widgets.example',
+    password: 'Correct-Horse-Battery-9',
+    fullName: 'Registered Vendor',
+    role: 'vendor',
+    companyName: 'Registered Widgets Ltd',
+    phone: '+441632960001'
+};
+
+const PENDING_SIGNUP = {
+    email: 'pending.signup@gadgets.example',
+    companyName: 'Pending Gadgets GmbH',
+    phone: '+491632960002'
+};
+
+const SEEDED = ['admin@procurement.com', 'vendor1@techsolutions.com', 'Tech Solutions Inc', '+1234567891'];
+
+// Values of a database created before field encryption
+const LEGACY = {
+    email: 'legacy.buyer@oldco.example',
+    companyName: 'Old Company Holdings',
+    phone: '+15551230003',
+    mfaSecret: 'LEGACYMFASECRETVALUE7',
+    typedEmail: 'mistyped.login@oldco.example',
+    otpEmail: 'legacy.otp@oldco.example',
+    otpCompanyName: 'Legacy Pending Traders'
+};
+
+function runEncryptFields(command: string): Promise<{ code: number; output: string }> {
+    return new Promise((resolve) => {
+        execFile(
+            process.execPath,
+            ['-r', 'ts-node/register/transpile-only', 'src/database/encrypt-fields.ts', command],
+            { cwd: BACKEND_DIR, env: process.env, timeout: 120000 },
+            (error, stdout, stderr) => resolve({ code: error ? Number(error.code) || 1 : 0, output: stdout + stderr })
+        );
+    });
+}
+
+function rawDatabase(): Buffer {
+    return Buffer.concat(
+        [DB_PATH, `${DB_PATH}-journal`, `${DB_PATH}-wal`].filter((file) => fs.existsSync(file)).map((file) => fs.readFileSync(file))
+    );
+}
+
+async function register(body: typeof REGISTERED): Promise<number> {
+    let status = 200;
+    let payload: any;
+
+    const req = { body, ip: '127.0.0.1', headers: {}, socket: {} } as unknown as Request;
+    const res = {
+        status(code: number) {
+            status = code;
+            return this;
+        },
+        json(data: unknown) {
+            payload = data;
+            return this;
+        }
+    } as unknown as Response;
+
+    await AuthController.register(req, res);
+
+    if (status !== 201) {
+        throw new Error(`Registration failed with ${status}: ${JSON.stringify(payload)}`);
+    }
+    return payload.user.id;
+}
+
+describe('encrypt-fields', () => {
+    let mfaSecret: string;
+    let storedMfaSecret: string;
+
+    beforeAll(async () => {
+        await Migrator.migrate();
+        await seedDatabase();
+
+        const userId = await register(REGISTERED);
+        ({ secret: mfaSecret } = await MfaService.beginSetup(userId));
+        storedMfaSecret = (await Database.get<{ mfa_secret: string }>('SELECT mfa_secret FROM users WHERE id = ?', [userId]))!.mfa_secret;
+
+        await new SQLiteOTPStore().save('pending-signup', {
+            codeHash: 'code-hash',
+            email: PENDING_SIGNUP.email,
+            purpose: 'signup',
+            data: PENDING_SIGNUP,
+            expiresAt: Date.now() + 600000,
+            attempts: 0
+        });
+
+        await Database.run(
+            `INSERT INTO users (email, password_hash, full_name, role, company_name, phone, mfa_secret)
+             VALUES (?, 'hash', 'Legacy Buyer', 'approver', ?, ?, ?)`,
+            [LEGACY.email, LEGACY.companyName, LEGACY.phone, LEGACY.mfaSecret]
+        );
+        await Database.run(
+            `INSERT INTO security_events (event_type, severity, details, email) VALUES ('failed_login', 'medium', 'Failed login', ?)`,
+            [LEGACY.typedEmail]
+        );
+        await Database.run(
+            `INSERT INTO otp_codes (token_hash, code_hash, email, purpose, data, expires_at, attempts)
+             VALUES ('legacy-signup', 'code-hash', ?, 'signup', ?, ?, 0)`,
+            [LEGACY.otpEmail, JSON.stringify({ email: LEGACY.otpEmail, companyName: LEGACY.otpCompanyName }), Date.now() + 600000]
+        );
+
+        // The command line rebuilds the file; nothing may hold it open meanwhile
+        await Database.close();
+    });
+
+    afterAll(async () => {
+        await Database.close();
+    });
+
+    it('encrypts the plaintext values and verifies the file', async () => {
+        const encrypted = await runEncryptFields('encrypt');
+        expect(encrypted.output).toContain('encrypted or re-encrypted');
+        expect(encrypted.code).toBe(0);
+
+        const verified = await runEncryptFields('verify');
+        expect(verified.output).toContain('No personal data found in plaintext');
+        expect(verified.code).toBe(0);
+    });
+
+    it('leaves no plaintext email, phone, company name or MFA secret in the raw database file', () => {
+        const raw = rawDatabase();
+        const values = [
+            REGISTERED.email,
+            REGISTERED.companyName,
+            REGISTERED.phone,
+            ...Object.values(PENDING_SIGNUP),
+            ...SEEDED,
+            ...Object.values(LEGACY),
+            mfaSecret,
+            storedMfaSecret
+        ];
+
+        for (const value of values) {
+            expect({ value, found: raw.includes(Buffer.from(value, 'utf8')) }).toEqual({ value, found: false });
+        }
+    });
+
+    it('still reads the values back through the database layer', async () => {
+        const legacy = await Database.get<any>('SELECT email, company_name, phone, mfa_secret FROM users WHERE full_name = ?', [
+            'Legacy Buyer'
+        ]);
+        expect(legacy).toEqual({
+            email: LEGACY.email,
+            company_name: LEGACY.companyName,
+            phone: LEGACY.phone,
+            mfa_secret: LEGACY.mfaSecret
+        });
+
+        const pending = await new SQLiteOTPStore().get('legacy-signup');
+        expect(pending?.email).toBe(LEGACY.otpEmail);
+        expect(pending?.data).toEqual({ email: LEGACY.otpEmail, companyName: LEGACY.otpCompanyName });
+    });
+});
+
+describe('blindIndex', () => {
+    it('hashes the same address the same way across a master key rotation', async () => {
+        const before = await FieldEncryptionUtil.blindIndex('security_events.email', 'Rotating@Example.com');
+        await getKeyProvider().createKey();
+        const after = await FieldEncryptionUtil.blindIndex('security_events.email', ' rotating@example.com ');
+
+        expect(after).toBe(before);
+        expect(before).not.toContain('rotating');
+    });
+});
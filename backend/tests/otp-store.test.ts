@@ -0,0 +1,132 @@
+/**
+ * OTP stores: a code is consumed once, and never after it expired or was locked out by wrong answers.
+ * Both stores run the same cases; OTPUtil is checked on top of the in-memory one.
+ */
+
+import { Database } from '../src/database/database';
+import { Migrator } from '../src/database/migrator';
+import { MemoryOTPStore, OTPRecord, OTPStore, SQLiteOTPStore } from '../src/utils/otp-store.util';
+import { OTPUtil } from '../src/utils/otp.util';
+
+const MAX_ATTEMPTS = 3;
+
+function record(overrides: Partial<OTPRecord> = {}): OTPRecord {
+    return {
+        codeHash: 'code-hash',
+        email: 'pending@example.com',
+        purpose: 'signup',
+        data: { fullName: 'Pending User' },
+        expiresAt: Date.now() + 60000,
+        attempts: 0,
+        ...overrides
+    };
+}
+
+beforeAll(async () => {
+    await Migrator.migrate();
+});
+
+afterAll(async () => {
+    await Database.close();
+});
+
+describe.each([
+    ['MemoryOTPStore', () => new MemoryOTPStore()],
+    ['SQLiteOTPStore', () => new SQLiteOTPStore()]
+])('%s', (_name, createStore: () => OTPStore) => {
+    let store: OTPStore;
+
+    beforeEach(async () => {
+        store = createStore();
+        await Database.run('DELETE FROM otp_codes');
+    });
+
+    it('returns a saved record', async () => {
+        await store.save('token', record());
+
+        expect(await store.get('token')).toEqual(record({ expiresAt: expect.any(Number) }));
+        expect(await store.get('other-token')).toBeNull();
+    });
+
+    it('consumes a code only once', async () => {
+        await store.save('token', record());
+
+        expect(await store.consume('token', 'code-hash', MAX_ATTEMPTS)).toBe(true);
+        expect(await store.consume('token', 'code-hash', MAX_ATTEMPTS)).toBe(false);
+        expect(await store.get('token')).toBeNull();
+    });
+
+    it('lets only one of two concurrent callers consume a code', async () => {
+        await store.save('token', record());
+
+        const results = await Promise.all([
+            store.consume('token', 'code-hash', MAX_ATTEMPTS),
+            store.consume('token', 'code-hash', MAX_ATTEMPTS)
+        ]);
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('keeps the record when the code does not match', async () => {
+        await store.save('token', record());
+
+        expect(await store.consume('token', 'wrong-hash', MAX_ATTEMPTS)).toBe(false);
+        expect(await store.get('token')).not.toBeNull();
+    });
+
+    it('does not consume an expired code', async () => {
+        await store.save('token', record({ expiresAt: Date.now() - 1 }));
+
+        expect(await store.consume('token', 'code-hash', MAX_ATTEMPTS)).toBe(false);
+    });
+
+    it('does not consume a code once the attempts are used up', async () => {
+        await store.save('token', record());
+
+        expect(await store.recordFailedAttempt('token')).toBe(1);
+        expect(await store.recordFailedAttempt('token')).toBe(2);
+        expect(await store.recordFailedAttempt('token')).toBe(3);
+        expect(await store.consume('token', 'code-hash', MAX_ATTEMPTS)).toBe(false);
+        expect(await store.recordFailedAttempt('missing-token')).toBe(0);
+    });
+
+    it('deletes only expired records', async () => {
+        const now = Date.now();
+        await store.save('expired', record({ expiresAt: now - 1 }));
+        await store.save('current', record({ expiresAt: now + 60000 }));
+
+        expect(await store.deleteExpired(now)).toBe(1);
+        expect(await store.size()).toBe(1);
+        expect(await store.get('current')).not.toBeNull();
+    });
+});
+
+describe('OTPUtil with a MemoryOTPStore', () => {
+    beforeEach(() => {
+        OTPUtil.useStore(new MemoryOTPStore());
+    });
+
+    it('accepts the issued code once', async () => {
+        const otp = await OTPUtil.storeOTP('temp-token', 'pending@example.com', 'signup', { fullName: 'Pending User' });
+
+        const verification = await OTPUtil.verifyOTP('temp-token', otp);
+        expect(verification.success).toBe(true);
+        expect(verification.data?.data).toEqual({ fullName: 'Pending User' });
+
+        expect((await OTPUtil.verifyOTP('temp-token', otp)).success).toBe(false);
+    });
+
+    it('locks the token out after three wrong codes', async () => {
+        const otp = await OTPUtil.storeOTP('temp-token', 'pending@example.com', 'login');
+        const wrong = otp === '000000' ? '111111' : '000000';
+
+        await OTPUtil.verifyOTP('temp-token', wrong);
+        await OTPUtil.verifyOTP('temp-token', wrong);
+        expect(await OTPUtil.verifyOTP('temp-token', wrong)).toEqual({
+            success: false,
+            error: 'Maximum verification attempts exceeded'
+        });
+
+        expect((await OTPUtil.verifyOTP('temp-token', otp)).success).toBe(false);
+    });
+});
@@ -0,0 +1,16 @@
+/**
+ * Runs before each test file: point the database and key files at a fresh temporary directory, removed afterwards
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'procurement-test-'));
+
+process.env.DATABASE_PATH = path.join(dir, 'procurement.db');
+process.env.SYSTEM_KEY_DIR = path.join(dir, 'keys');
+
+afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
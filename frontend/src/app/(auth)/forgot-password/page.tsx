@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { KeyRound, Mail, AlertCircle, CheckCircle } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+
+export default function ForgotPasswordPage() {
+    const [email, setEmail] = useState('');
+    const [sent, setSent] = useState(false);
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setLoading(true);
+
+        try {
+            await apiClient.forgotPassword(email);
+            setSent(true);
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to send reset link. Please try again.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background p-4">
+            <div className="w-full max-w-md">
+                {/* Header */}
+                <div className="text-center mb-8">
+                    <div className="inline-flex items-center justify-center w-16 h-16 bg-primary rounded-2xl mb-4">
+                        <KeyRound className="w-8 h-8 text-primary-foreground" />
+                    </div>
+                    <h1 className="text-3xl font-bold text-foreground mb-2">Forgot Password</h1>
+                    <p className="text-muted-foreground">We&apos;ll email you a link to set a new password</p>
+                </div>
+
+                <div className="bg-card rounded-2xl p-8 shadow-2xl border border-border">
+                    {sent ? (
+                        <div className="space-y-4 text-center">
+                            <CheckCircle className="w-12 h-12 text-primary mx-auto" />
+                            <p className="text-foreground">
+                                If an account exists for <span className="font-medium">{email}</span>, a reset link is on its way.
+                            </p>
+                            <p className="text-muted-foreground text-sm">The link works once and expires in 30 minutes.</p>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-6">
+                            {error && (
+                                <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                                    <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                                    <p className="text-sm text-destructive">{error}</p>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-medium text-foreground mb-2">
+                                    Email Address
+                                </label>
+                                <div className="relative">
+                                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                                    <input
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        className="w-full pl-10 pr-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition"
+                                        placeholder="you@company.com"
+                                        required
+                                    />
+                                </div>
+                            </div>
+
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="w-full py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {loading ? 'Sending...' : 'Send Reset Link'}
+                            </button>
+                        </form>
+                    )}
+                </div>
+
+                <p className="text-center text-muted-foreground text-sm mt-6">
+                    <Link href="/login" className="text-primary hover:text-primary/80 transition">
+                        ← Back to Login
+                    </Link>
+                </p>
+            </div>
+        </div>
+    );
+}
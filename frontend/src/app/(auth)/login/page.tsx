@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Shield, Mail, Lock, AlertCircle } from 'lucide-react';
+import { Shield, ShieldCheck, Mail, Lock, AlertCircle } from 'lucide-react';
 import { apiClient } from '@/lib/api-client';
 import { useAuthStore } from '@/store/auth.store';
 import OTPInput from '@/components/auth/OTPInput';
@@ -16,6 +16,8 @@ export default function LoginPage() {
     const [password, setPassword] = useState('');
     const [tempToken, setTempToken] = useState('');
     const [otp, setOtp] = useState('');
+    const [mfaRequired, setMfaRequired] = useState(false);
+    const [useBackupCode, setUseBackupCode] = useState(false);
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
     const [resendCooldown, setResendCooldown] = useState(0);
@@ -28,17 +30,21 @@ export default function LoginPage() {
         try {
             const { data } = await apiClient.initiateLogin(email, password);
             setTempToken(data.tempToken);
+            setMfaRequired(!!data.mfaRequired);
+            setUseBackupCode(false);
+            setOtp('');
             setStep('otp');
         } catch (err: any) {
-            setError(err.response?.data?.error || 'Login failed. Please try again.');
+            const data = err.response?.data;
+            setError(data?.requiresPasswordChange ? data.message : data?.error || 'Login failed. Please try again.');
         } finally {
             setLoading(false);
         }
     };
 
     const handleVerifyOTP = async () => {
-        if (otp.length !== 6) {
-            setError('Please enter the complete 6-digit code');
+        if (useBackupCode ? !otp.trim() : otp.length !== 6) {
+            setError(useBackupCode ? 'Please enter a backup code' : 'Please enter the complete 6-digit code');
             return;
         }
 
@@ -99,13 +105,25 @@ export default function LoginPage() {
                     {/* Header */}
                     <div className="text-center mb-8">
                         <div className="inline-flex items-center justify-center w-16 h-16 bg-primary rounded-2xl mb-4">
-                            <Mail className="w-8 h-8 text-primary-foreground" />
+                            {mfaRequired
+                                ? <ShieldCheck className="w-8 h-8 text-primary-foreground" />
+                                : <Mail className="w-8 h-8 text-primary-foreground" />}
                         </div>
                         <h1 className="text-3xl font-bold text-foreground mb-2">Verify Your Login</h1>
-                        <p className="text-muted-foreground">
-                            We&apos;ve sent a 6-digit verification code to
-                        </p>
-                        <p className="text-foreground font-medium mt-1">{email}</p>
+                        {mfaRequired ? (
+                            <p className="text-muted-foreground">
+                                {useBackupCode
+                                    ? 'Enter one of your backup codes'
+                                    : 'Enter the 6-digit code from your authenticator app'}
+                            </p>
+                        ) : (
+                            <>
+                                <p className="text-muted-foreground">
+                                    We&apos;ve sent a 6-digit verification code to
+                                </p>
+                                <p className="text-foreground font-medium mt-1">{email}</p>
+                            </>
+                        )}
                     </div>
 
                     {/* OTP Form */}
@@ -120,38 +138,66 @@ export default function LoginPage() {
                         <div className="space-y-6">
                             <div>
                                 <label className="block text-sm font-medium text-foreground mb-4 text-center">
-                                    Enter Verification Code
+                                    {useBackupCode ? 'Enter Backup Code' : 'Enter Verification Code'}
                                 </label>
-                                <OTPInput
-                                    value={otp}
-                                    onChange={setOtp}
-                                    disabled={loading}
-                                    error={!!error}
-                                />
+                                {useBackupCode ? (
+                                    <input
+                                        type="text"
+                                        value={otp}
+                                        onChange={(e) => setOtp(e.target.value)}
+                                        disabled={loading}
+                                        className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground text-center font-mono tracking-widest placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition"
+                                        placeholder="XXXX-XXXX"
+                                        autoComplete="off"
+                                    />
+                                ) : (
+                                    <OTPInput
+                                        value={otp}
+                                        onChange={setOtp}
+                                        disabled={loading}
+                                        error={!!error}
+                                    />
+                                )}
                             </div>
 
                             <button
                                 onClick={handleVerifyOTP}
-                                disabled={loading || otp.length !== 6}
+                                disabled={loading || (useBackupCode ? !otp.trim() : otp.length !== 6)}
                                 className="w-full py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {loading ? 'Verifying...' : 'Verify & Sign In'}
                             </button>
 
-                            <div className="text-center pt-4 border-t border-border">
-                                <p className="text-muted-foreground text-sm mb-2">
-                                    Didn&apos;t receive the code?
-                                </p>
-                                <button
-                                    onClick={handleResendOTP}
-                                    disabled={loading || resendCooldown > 0}
-                                    className="text-primary hover:text-primary/80 font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed transition"
-                                >
-                                    {resendCooldown > 0
-                                        ? `Resend in ${resendCooldown}s`
-                                        : 'Resend Code'}
-                                </button>
-                            </div>
+                            {mfaRequired ? (
+                                <div className="text-center pt-4 border-t border-border">
+                                    <button
+                                        onClick={() => {
+                                            setUseBackupCode(!useBackupCode);
+                                            setOtp('');
+                                            setError('');
+                                        }}
+                                        disabled={loading}
+                                        className="text-primary hover:text-primary/80 font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed transition"
+                                    >
+                                        {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+                                    </button>
+                                </div>
+                            ) : (
+                                <div className="text-center pt-4 border-t border-border">
+                                    <p className="text-muted-foreground text-sm mb-2">
+                                        Didn&apos;t receive the code?
+                                    </p>
+                                    <button
+                                        onClick={handleResendOTP}
+                                        disabled={loading || resendCooldown > 0}
+                                        className="text-primary hover:text-primary/80 font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed transition"
+                                    >
+                                        {resendCooldown > 0
+                                            ? `Resend in ${resendCooldown}s`
+                                            : 'Resend Code'}
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -213,9 +259,14 @@ export default function LoginPage() {
 
                         {/* Password Field */}
                         <div>
-                            <label className="block text-sm font-medium text-foreground mb-2">
-                                Password
-                            </label>
+                            <div className="flex justify-between items-center mb-2">
+                                <label className="block text-sm font-medium text-foreground">
+                                    Password
+                                </label>
+                                <Link href="/forgot-password" className="text-sm text-primary hover:text-primary/80 transition">
+                                    Forgot password?
+                                </Link>
+                            </div>
                             <div className="relative">
                                 <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                                 <input
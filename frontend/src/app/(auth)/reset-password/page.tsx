@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { KeyRound, Lock, AlertCircle, CheckCircle } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+
+function ResetPasswordForm() {
+    const searchParams = useSearchParams();
+    const token = searchParams.get('token') || '';
+
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [done, setDone] = useState(false);
+    const [error, setError] = useState('');
+    const [feedback, setFeedback] = useState<string[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setFeedback([]);
+
+        if (password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            await apiClient.resetPassword(token, password);
+            setDone(true);
+        } catch (err: any) {
+            const data = err.response?.data;
+            setError(data?.message || data?.error || 'Failed to reset password. Please try again.');
+            setFeedback(data?.analysis?.feedback || []);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (!token) {
+        return (
+            <div className="space-y-4 text-center">
+                <AlertCircle className="w-12 h-12 text-destructive mx-auto" />
+                <p className="text-foreground">This reset link is incomplete.</p>
+                <Link href="/forgot-password" className="text-primary hover:text-primary/80 font-medium transition">
+                    Request a new link
+                </Link>
+            </div>
+        );
+    }
+
+    if (done) {
+        return (
+            <div className="space-y-4 text-center">
+                <CheckCircle className="w-12 h-12 text-primary mx-auto" />
+                <p className="text-foreground">Your password has been reset and all devices have been signed out.</p>
+                <Link
+                    href="/login"
+                    className="inline-block px-6 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg transition"
+                >
+                    Sign In
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+                <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                    <div>
+                        <p className="text-sm text-destructive">{error}</p>
+                        {feedback.length > 0 && (
+                            <ul className="text-sm text-destructive/80 list-disc list-inside mt-2">
+                                {feedback.map((item) => (
+                                    <li key={item}>{item}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                    New Password
+                </label>
+                <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                    <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition"
+                        placeholder="••••••••"
+                        required
+                    />
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                    Confirm New Password
+                </label>
+                <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                    <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition"
+                        placeholder="••••••••"
+                        required
+                    />
+                </div>
+            </div>
+
+            <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {loading ? 'Resetting...' : 'Reset Password'}
+            </button>
+        </form>
+    );
+}
+
+export default function ResetPasswordPage() {
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background p-4">
+            <div className="w-full max-w-md">
+                {/* Header */}
+                <div className="text-center mb-8">
+                    <div className="inline-flex items-center justify-center w-16 h-16 bg-primary rounded-2xl mb-4">
+                        <KeyRound className="w-8 h-8 text-primary-foreground" />
+                    </div>
+                    <h1 className="text-3xl font-bold text-foreground mb-2">Reset Password</h1>
+                    <p className="text-muted-foreground">Choose a strong password you haven&apos;t used before</p>
+                </div>
+
+                <div className="bg-card rounded-2xl p-8 shadow-2xl border border-border">
+                    <Suspense fallback={<p className="text-muted-foreground text-center">Loading...</p>}>
+                        <ResetPasswordForm />
+                    </Suspense>
+                </div>
+
+                <p className="text-center text-muted-foreground text-sm mt-6">
+                    <Link href="/login" className="text-primary hover:text-primary/80 transition">
+                        ← Back to Login
+                    </Link>
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -214,11 +214,7 @@ export default function AdminApprovalDetailPage() {
                                                     ) : (
                                                         <XCircle className="w-4 h-4 text-destructive" />
                                                     )}
-                                                    <p className="text-xs text-muted-foreground">
-                                                        {quotation.signature?.isValid
-                                                            ? 'Verified Authenticity'
-                                                            : 'Signature Invalid'}
-                                                    </p>
+                                                    <p className="text-xs text-muted-foreground">{quotation.signature?.message}</p>
                                                 </div>
                                             </div>
                                         </div>
@@ -238,6 +234,11 @@ export default function AdminApprovalDetailPage() {
                                             <span className="text-sm">Assigned Approver</span>
                                         </div>
                                         <p className="text-foreground font-semibold">{approval.approver_name}</p>
+                                        {approval.acted_by_name && approval.acted_by !== approval.approver_id && (
+                                            <p className="text-muted-foreground text-sm mt-1">
+                                                {approval.status === 'approved' ? 'Approved' : 'Rejected'} by {approval.acted_by_name} on behalf of {approval.approver_name}
+                                            </p>
+                                        )}
                                     </div>
 
                                     <div>
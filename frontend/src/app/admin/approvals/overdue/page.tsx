@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { AlertTriangle, ArrowLeft, Eye, UserCheck } from 'lucide-react';
+
+export default function OverdueApprovalsPage() {
+    const [approvals, setApprovals] = useState<any[]>([]);
+    const [approvers, setApprovers] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [reassignTo, setReassignTo] = useState<Record<number, string>>({});
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    const fetchData = async () => {
+        try {
+            setLoading(true);
+            const [overdueRes, approversRes] = await Promise.all([
+                apiClient.getOverdueApprovals(),
+                apiClient.getDelegateCandidates(),
+            ]);
+            setApprovals(overdueRes.data.approvals || []);
+            setApprovers(approversRes.data.approvers || []);
+        } catch (error) {
+            console.error('Error fetching overdue approvals:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleReassign = async (approvalId: number) => {
+        const approverId = reassignTo[approvalId];
+        if (!approverId) return;
+
+        try {
+            await apiClient.reassignApproval(String(approvalId), Number(approverId));
+            fetchData();
+        } catch (error: any) {
+            alert(error.response?.data?.error || 'Failed to reassign approval');
+        }
+    };
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div>
+                        <Link
+                            href="/admin/approvals"
+                            className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-all"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Back to Approvals
+                        </Link>
+                        <h1 className="text-3xl font-bold text-foreground mb-2">Overdue Approvals</h1>
+                        <p className="text-muted-foreground">Pending approvals past their SLA deadline</p>
+                    </div>
+
+                    <div className="bg-card rounded-xl border border-border">
+                        {loading ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                            </div>
+                        ) : approvals.length === 0 ? (
+                            <div className="text-center py-12">
+                                <AlertTriangle className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                                <p className="text-muted-foreground">No overdue approvals</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border">
+                                {approvals.map((approval) => (
+                                    <div key={approval.id} className="p-6">
+                                        <div className="flex justify-between items-start gap-4">
+                                            <div className="flex-1">
+                                                <div className="flex items-center gap-3 mb-2">
+                                                    <h3 className="text-xl font-semibold text-foreground">{approval.rfq_title || 'Untitled RFQ'}</h3>
+                                                    <span className="px-3 py-1 bg-destructive/10 text-destructive text-xs font-medium rounded-full">
+                                                        {approval.overdue_hours}h overdue
+                                                    </span>
+                                                    {approval.escalated_at && (
+                                                        <span className="px-3 py-1 bg-secondary text-foreground text-xs font-medium rounded-full">
+                                                            Escalated
+                                                        </span>
+                                                    )}
+                                                </div>
+
+                                                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-3">
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Quote Number</p>
+                                                        <p className="text-foreground font-mono">{approval.quote_number || 'N/A'}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Step</p>
+                                                        <p className="text-foreground">{approval.step_name || `Level ${approval.level}`}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Assigned Approver</p>
+                                                        <p className="text-foreground">{approval.approver_name || 'Unknown'}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Age</p>
+                                                        <p className="text-foreground">{approval.age_hours}h</p>
+                                                    </div>
+                                                </div>
+                                            </div>
+
+                                            <div className="flex flex-col gap-2 ml-4 min-w-[220px]">
+                                                <select
+                                                    value={reassignTo[approval.id] || ''}
+                                                    onChange={(e) => setReassignTo({ ...reassignTo, [approval.id]: e.target.value })}
+                                                    className="px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                                >
+                                                    <option value="">Reassign to...</option>
+                                                    {approvers
+                                                        .filter((approver) => approver.id !== approval.approver_id)
+                                                        .map((approver) => (
+                                                            <option key={approver.id} value={approver.id}>
+                                                                {approver.full_name}
+                                                            </option>
+                                                        ))}
+                                                </select>
+                                                <button
+                                                    onClick={() => handleReassign(approval.id)}
+                                                    disabled={!reassignTo[approval.id]}
+                                                    className="flex items-center gap-2 px-4 py-2 bg-primary/10 hover:bg-primary/20 text-primary rounded-lg transition-all justify-center disabled:opacity-50"
+                                                >
+                                                    <UserCheck className="w-4 h-4" />
+                                                    Reassign
+                                                </button>
+                                                <Link
+                                                    href={`/admin/approvals/${approval.id}`}
+                                                    className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all justify-center"
+                                                >
+                                                    <Eye className="w-4 h-4" />
+                                                    View
+                                                </Link>
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
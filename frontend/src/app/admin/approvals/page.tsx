@@ -5,7 +5,7 @@ import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
-import { CheckCircle, XCircle, Clock, Eye, Search, Filter } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Eye, Search, Filter, AlertTriangle } from 'lucide-react';
 
 export default function AdminApprovalsPage() {
     const [approvals, setApprovals] = useState<any[]>([]);
@@ -46,9 +46,18 @@ export default function AdminApprovalsPage() {
             <DashboardLayout>
                 <div className="space-y-6">
                     {/* Header */}
-                    <div>
-                        <h1 className="text-3xl font-bold text-foreground mb-2">System Approvals</h1>
-                        <p className="text-muted-foreground">Monitor all quotation approvals</p>
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h1 className="text-3xl font-bold text-foreground mb-2">System Approvals</h1>
+                            <p className="text-muted-foreground">Monitor all quotation approvals</p>
+                        </div>
+                        <Link
+                            href="/admin/approvals/overdue"
+                            className="flex items-center gap-2 px-4 py-2 bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all"
+                        >
+                            <AlertTriangle className="w-4 h-4" />
+                            Overdue
+                        </Link>
                     </div>
 
                     {/* Filters */}
@@ -127,6 +136,9 @@ export default function AdminApprovalsPage() {
                                                     <div>
                                                         <p className="text-xs text-muted-foreground">Assigned Approver</p>
                                                         <p className="text-foreground">{approval.approver_name || 'Unknown'}</p>
+                                                        {approval.acted_by_name && approval.acted_by !== approval.approver_id && (
+                                                            <p className="text-xs text-muted-foreground">Signed by {approval.acted_by_name}</p>
+                                                        )}
                                                     </div>
                                                     <div>
                                                         <p className="text-xs text-muted-foreground">Amount</p>
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { parseTimestamp } from '@/lib/purchase-orders';
+import { ScrollText, Download, ShieldCheck, ShieldAlert, ChevronLeft, ChevronRight } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+const formatValue = (value: any) => {
+    if (value === null || value === undefined) return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export default function AdminAuditLogsPage() {
+    const [logs, setLogs] = useState<any[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [facets, setFacets] = useState<{ actions: string[]; entityTypes: string[] }>({ actions: [], entityTypes: [] });
+    const [filters, setFilters] = useState({ action: '', entity_type: '', entity_id: '', from: '', to: '' });
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [verification, setVerification] = useState<any>(null);
+    const [loading, setLoading] = useState(true);
+    const [verifying, setVerifying] = useState(false);
+    const [exporting, setExporting] = useState(false);
+
+    useEffect(() => {
+        fetchFacets();
+    }, []);
+
+    useEffect(() => {
+        fetchLogs();
+    }, [page, filters]);
+
+    // Only set filters are sent; dates are local and converted to UTC
+    const queryParams = () => ({
+        action: filters.action || undefined,
+        entity_type: filters.entity_type || undefined,
+        entity_id: filters.entity_id || undefined,
+        from: filters.from ? new Date(filters.from).toISOString() : undefined,
+        to: filters.to ? new Date(filters.to).toISOString() : undefined,
+    });
+
+    const fetchLogs = async () => {
+        try {
+            setLoading(true);
+            const { data } = await apiClient.getAuditLogs({ ...queryParams(), page, limit: PAGE_SIZE });
+            setLogs(data.logs || []);
+            setTotal(data.pagination?.total || 0);
+        } catch (error) {
+            console.error('Error fetching audit logs:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchFacets = async () => {
+        try {
+            const { data } = await apiClient.getAuditLogFacets();
+            setFacets(data);
+        } catch (error) {
+            console.error('Error fetching audit log filters:', error);
+        }
+    };
+
+    const updateFilter = (name: string, value: string) => {
+        setFilters({ ...filters, [name]: value });
+        setPage(1);
+    };
+
+    const handleVerify = async () => {
+        try {
+            setVerifying(true);
+            const { data } = await apiClient.verifyAuditLog();
+            setVerification(data);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to verify the audit log');
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    const handleExport = async () => {
+        try {
+            setExporting(true);
+            const response = await apiClient.exportAuditLogs(queryParams());
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            alert('Failed to export the audit log');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    const inputClassName =
+        'px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h1 className="text-3xl font-bold text-foreground mb-2">Audit Log</h1>
+                            <p className="text-muted-foreground">
+                                Every business action with its before/after changes, hash-chained against tampering
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleExport}
+                                disabled={exporting}
+                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <Download className="w-4 h-4" />
+                                {exporting ? 'Exporting...' : 'Export CSV'}
+                            </button>
+                            <button
+                                onClick={handleVerify}
+                                disabled={verifying}
+                                className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <ShieldCheck className="w-4 h-4" />
+                                {verifying ? 'Verifying...' : 'Verify Chain'}
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Verification result */}
+                    {verification && (
+                        <div
+                            className={`rounded-lg p-4 border flex items-start gap-3 ${
+                                verification.valid ? 'bg-secondary border-primary/20' : 'bg-destructive/10 border-destructive'
+                            }`}
+                        >
+                            {verification.valid ? (
+                                <ShieldCheck className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+                            ) : (
+                                <ShieldAlert className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                            )}
+                            <div>
+                                <p className={`text-sm font-medium ${verification.valid ? 'text-foreground' : 'text-destructive'}`}>
+                                    {verification.message}
+                                </p>
+                                {verification.problems.length > 0 && (
+                                    <ul className="mt-2 space-y-1 text-sm text-destructive list-disc list-inside">
+                                        {verification.problems.map((problem: any) => (
+                                            <li key={`${problem.issue}-${problem.id}`}>
+                                                <span className="font-medium capitalize">{problem.issue}:</span> {problem.message}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Filters */}
+                    <div className="flex flex-wrap gap-4">
+                        <select
+                            value={filters.action}
+                            onChange={(e) => updateFilter('action', e.target.value)}
+                            className={inputClassName}
+                        >
+                            <option value="">All Actions</option>
+                            {facets.actions.map((action) => (
+                                <option key={action} value={action}>{action}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={filters.entity_type}
+                            onChange={(e) => updateFilter('entity_type', e.target.value)}
+                            className={inputClassName}
+                        >
+                            <option value="">All Entities</option>
+                            {facets.entityTypes.map((type) => (
+                                <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="number"
+                            min="1"
+                            value={filters.entity_id}
+                            onChange={(e) => updateFilter('entity_id', e.target.value)}
+                            className={`${inputClassName} w-32`}
+                            placeholder="Entity ID"
+                        />
+                        <input
+                            type="datetime-local"
+                            value={filters.from}
+                            onChange={(e) => updateFilter('from', e.target.value)}
+                            className={inputClassName}
+                            title="From"
+                        />
+                        <input
+                            type="datetime-local"
+                            value={filters.to}
+                            onChange={(e) => updateFilter('to', e.target.value)}
+                            className={inputClassName}
+                            title="To"
+                        />
+                    </div>
+
+                    <div className="bg-card rounded-xl border border-border">
+                        {loading ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                            </div>
+                        ) : logs.length === 0 ? (
+                            <div className="text-center py-12">
+                                <ScrollText className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                                <p className="text-muted-foreground">No audit entries found</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border">
+                                {logs.map((log) => (
+                                    <div key={log.id} className="p-4">
+                                        <button
+                                            onClick={() => setExpanded(expanded === log.id ? null : log.id)}
+                                            className="w-full flex justify-between items-start gap-4 text-left"
+                                        >
+                                            <div className="min-w-0">
+                                                <div className="flex items-center gap-2 mb-1">
+                                                    <span className="font-medium text-foreground">{log.action}</span>
+                                                    <span className="px-2 py-0.5 rounded-full text-xs bg-secondary text-muted-foreground">
+                                                        {log.entity_type.replace(/_/g, ' ')} #{log.entity_id ?? '—'}
+                                                    </span>
+                                                </div>
+                                                <p className="text-xs text-muted-foreground">
+                                                    #{log.id} · {log.user_name ? `${log.user_name} (${log.user_email})` : 'System'} ·{' '}
+                                                    {log.ip_address || 'No IP'}
+                                                </p>
+                                            </div>
+                                            <span className="text-sm text-muted-foreground whitespace-nowrap">
+                                                {parseTimestamp(log.created_at).toLocaleString()}
+                                            </span>
+                                        </button>
+
+                                        {expanded === log.id && (
+                                            <div className="mt-3 space-y-3 text-sm">
+                                                {log.changes && Object.keys(log.changes).length > 0 && (
+                                                    <table className="w-full">
+                                                        <thead>
+                                                            <tr className="text-left text-muted-foreground">
+                                                                <th className="py-1 pr-4 font-medium">Field</th>
+                                                                <th className="py-1 pr-4 font-medium">Before</th>
+                                                                <th className="py-1 font-medium">After</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {Object.entries(log.changes).map(([field, change]: [string, any]) => (
+                                                                <tr key={field} className="border-t border-border align-top">
+                                                                    <td className="py-1 pr-4 font-mono text-foreground">{field}</td>
+                                                                    <td className="py-1 pr-4 text-muted-foreground break-all">{formatValue(change.from)}</td>
+                                                                    <td className="py-1 text-foreground break-all">{formatValue(change.to)}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                )}
+                                                {log.details && (
+                                                    <pre className="p-3 bg-secondary rounded-lg text-xs text-foreground overflow-x-auto">
+                                                        {JSON.stringify(log.details, null, 2)}
+                                                    </pre>
+                                                )}
+                                                <p className="font-mono text-xs text-muted-foreground break-all">
+                                                    hash {log.hash}
+                                                    <br />
+                                                    prev {log.prev_hash}
+                                                </p>
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Pagination */}
+                    <div className="flex justify-between items-center">
+                        <p className="text-sm text-muted-foreground">
+                            {total} entr{total === 1 ? 'y' : 'ies'} · page {page} of {totalPages}
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setPage(page - 1)}
+                                disabled={page <= 1}
+                                className="p-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => setPage(page + 1)}
+                                disabled={page >= totalPages}
+                                className="p-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <ChevronRight className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { KeyRound, RefreshCw, Layers, AlertCircle } from 'lucide-react';
+
+export default function AdminEncryptionKeysPage() {
+    const [status, setStatus] = useState<any>(null);
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        fetchStatus();
+    }, []);
+
+    const fetchStatus = async () => {
+        try {
+            const { data } = await apiClient.getEncryptionKeys();
+            setStatus(data);
+        } catch (error) {
+            console.error('Error fetching encryption keys:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRotate = async () => {
+        if (!confirm('Create a new master key and re-wrap every stored data key under it?')) return;
+
+        try {
+            setWorking(true);
+            const { data } = await apiClient.rotateEncryptionKey();
+            setMessage(data.message);
+            await fetchStatus();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to rotate the master key');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleRewrap = async () => {
+        try {
+            setWorking(true);
+            const { data } = await apiClient.rewrapEncryptionKeys();
+            setMessage(data.message);
+            await fetchStatus();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to re-wrap data keys');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const pending = status?.keys.filter((key: any) => !key.active).reduce((sum: number, key: any) => sum + key.records, 0) || 0;
+    const unencrypted = status?.unencryptedFields || 0;
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h1 className="text-3xl font-bold text-foreground mb-2">Encryption Keys</h1>
+                            <p className="text-muted-foreground">
+                                Master keys protecting confidential quotation data and personal data of users
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleRewrap}
+                                disabled={working || pending + unencrypted === 0}
+                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <Layers className="w-4 h-4" />
+                                Re-wrap
+                            </button>
+                            {status?.provider === 'file' && (
+                                <button
+                                    onClick={handleRotate}
+                                    disabled={working}
+                                    className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                                >
+                                    <RefreshCw className="w-4 h-4" />
+                                    {working ? 'Working...' : 'Rotate Master Key'}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+
+                    {message && (
+                        <div className="bg-secondary rounded-lg p-4 border border-primary/20 text-sm text-foreground">{message}</div>
+                    )}
+
+                    {loading ? (
+                        <div className="flex justify-center py-12">
+                            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                        </div>
+                    ) : (
+                        status && (
+                            <>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                    <div className="bg-card rounded-xl p-6 border border-border">
+                                        <p className="text-sm text-muted-foreground">Key Provider</p>
+                                        <p className="text-2xl font-bold text-foreground capitalize">{status.provider}</p>
+                                    </div>
+                                    <div className="bg-card rounded-xl p-6 border border-border">
+                                        <p className="text-sm text-muted-foreground">Active Master Key</p>
+                                        <p className="text-lg font-mono font-bold text-foreground break-all">{status.activeKeyId}</p>
+                                    </div>
+                                    <div className="bg-card rounded-xl p-6 border border-border">
+                                        <p className="text-sm text-muted-foreground">Awaiting Re-wrap</p>
+                                        <p className="text-2xl font-bold text-foreground">{pending}</p>
+                                    </div>
+                                </div>
+
+                                {unencrypted > 0 && (
+                                    <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                                        <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                                        <p className="text-sm text-destructive">
+                                            {unencrypted} personal data value(s) in the users table are stored in plaintext.
+                                            Re-wrap encrypts them under the active key.
+                                        </p>
+                                    </div>
+                                )}
+
+                                {status.legacyRecords > 0 && (
+                                    <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                                        <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                                        <p className="text-sm text-destructive">
+                                            {status.legacyRecords} quotation(s) are still XOR-encrypted under keys only their
+                                            vendors hold. Each vendor converts theirs from the quotation page with the key they saved.
+                                        </p>
+                                    </div>
+                                )}
+
+                                <div className="bg-card rounded-xl border border-border divide-y divide-border">
+                                    {status.keys.map((key: any) => (
+                                        <div key={key.id} className="p-4 flex justify-between items-center gap-4">
+                                            <div className="flex items-center gap-3">
+                                                <KeyRound className="w-5 h-5 text-muted-foreground" />
+                                                <span className="font-mono text-sm text-foreground">{key.id}</span>
+                                                {key.active && (
+                                                    <span className="px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary">Active</span>
+                                                )}
+                                            </div>
+                                            <span className="text-sm text-muted-foreground">
+                                                {key.records} record{key.records === 1 ? '' : 's'}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {status.provider !== 'file' && (
+                                    <p className="text-sm text-muted-foreground">
+                                        Keys from the {status.provider} provider are rotated at the source: add a key, restart,
+                                        then re-wrap.
+                                    </p>
+                                )}
+                            </>
+                        )
+                    )}
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import InvoiceDetail from '@/components/InvoiceDetail';
+
+export default function AdminInvoiceDetailPage() {
+    const params = useParams();
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <InvoiceDetail
+                    id={params.id as string}
+                    backHref="/admin/invoices"
+                    purchaseOrderHref={(purchaseOrderId) => `/admin/purchase-orders/${purchaseOrderId}`}
+                    canResolve
+                />
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
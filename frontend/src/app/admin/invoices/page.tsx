@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { MATCH_RESULT_LABELS, parseTimestamp } from '@/lib/purchase-orders';
+import { Receipt, Eye } from 'lucide-react';
+
+export default function AdminInvoicesPage() {
+    const [invoices, setInvoices] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState('exception');
+
+    useEffect(() => {
+        fetchInvoices();
+    }, [statusFilter]);
+
+    const fetchInvoices = async () => {
+        try {
+            setLoading(true);
+            const { data } = await apiClient.getInvoices({
+                status: statusFilter === 'all' ? undefined : statusFilter,
+                limit: 100,
+            });
+            setInvoices(data.invoices || []);
+        } catch (error) {
+            console.error('Error fetching invoices:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const getStatusColor = (status: string) => {
+        switch (status) {
+            case 'matched':
+            case 'accepted':
+                return 'bg-primary text-primary-foreground';
+            case 'rejected':
+                return 'bg-destructive/10 text-destructive';
+            default:
+                return 'bg-secondary text-foreground border border-primary/20';
+        }
+    };
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h1 className="text-3xl font-bold text-foreground mb-2">Invoices</h1>
+                            <p className="text-muted-foreground">Three-way match results and the exception queue</p>
+                        </div>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value)}
+                            className="px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                        >
+                            <option value="all">All Status</option>
+                            <option value="exception">Exceptions</option>
+                            <option value="matched">Matched</option>
+                            <option value="accepted">Accepted</option>
+                            <option value="rejected">Rejected</option>
+                        </select>
+                    </div>
+
+                    <div className="bg-card rounded-xl border border-border">
+                        {loading ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                            </div>
+                        ) : invoices.length === 0 ? (
+                            <div className="text-center py-12">
+                                <Receipt className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                                <p className="text-muted-foreground">No invoices found</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border">
+                                {invoices.map((invoice) => (
+                                    <div key={invoice.id} className="p-6 hover:bg-secondary/30 transition-all">
+                                        <div className="flex justify-between items-start">
+                                            <div className="flex-1">
+                                                <div className="flex items-center gap-3 mb-3">
+                                                    <h3 className="text-lg font-semibold text-foreground">Invoice {invoice.invoice_number}</h3>
+                                                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(invoice.status)}`}>
+                                                        {invoice.status}
+                                                    </span>
+                                                    {invoice.match_result !== 'matched' && (
+                                                        <span className="px-3 py-1 bg-destructive/10 text-destructive text-xs font-medium rounded-full">
+                                                            {MATCH_RESULT_LABELS[invoice.match_result]}
+                                                        </span>
+                                                    )}
+                                                </div>
+
+                                                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Purchase Order</p>
+                                                        <p className="text-foreground">PO #{invoice.po_number}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Vendor</p>
+                                                        <p className="text-foreground">{invoice.vendor_name}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Amount</p>
+                                                        <p className="text-foreground font-semibold">
+                                                            {invoice.currency} ${invoice.total_amount?.toLocaleString()}
+                                                        </p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Submitted</p>
+                                                        <p className="text-foreground">{parseTimestamp(invoice.submitted_at).toLocaleDateString()}</p>
+                                                    </div>
+                                                </div>
+                                            </div>
+
+                                            <Link
+                                                href={`/admin/invoices/${invoice.id}`}
+                                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all ml-4"
+                                            >
+                                                <Eye className="w-4 h-4" />
+                                                View
+                                            </Link>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
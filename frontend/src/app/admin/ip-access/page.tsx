@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { parseTimestamp } from '@/lib/purchase-orders';
+import { Ban, ShieldCheck, Trash2, AlertCircle } from 'lucide-react';
+
+const DURATIONS = [
+    { label: '1 hour', hours: 1 },
+    { label: '24 hours', hours: 24 },
+    { label: '7 days', hours: 24 * 7 },
+    { label: '30 days', hours: 24 * 30 },
+    { label: 'Permanent', hours: 0 }
+];
+
+export default function AdminIpAccessPage() {
+    const [blocked, setBlocked] = useState<any[]>([]);
+    const [allowlist, setAllowlist] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+    const [error, setError] = useState('');
+    const [blockForm, setBlockForm] = useState({ ipAddress: '', reason: '', hours: 24 });
+    const [allowForm, setAllowForm] = useState({ ipAddress: '', reason: '' });
+
+    useEffect(() => {
+        fetchRules();
+    }, []);
+
+    const fetchRules = async () => {
+        try {
+            const { data } = await apiClient.getIpRules();
+            setBlocked(data.blocked || []);
+            setAllowlist(data.allowlist || []);
+        } catch (error) {
+            console.error('Error fetching IP rules:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const run = async (work: () => Promise<unknown>) => {
+        setError('');
+        setWorking(true);
+        try {
+            await work();
+            await fetchRules();
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Request failed');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleBlock = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await apiClient.blockIp(blockForm);
+            setBlockForm({ ipAddress: '', reason: '', hours: 24 });
+        });
+    };
+
+    const handleAllow = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await apiClient.allowIp(allowForm);
+            setAllowForm({ ipAddress: '', reason: '' });
+        });
+    };
+
+    const handleUnblock = (id: number, ipAddress: string) => {
+        if (!confirm(`Unblock ${ipAddress}?`)) return;
+        run(() => apiClient.unblockIp(id));
+    };
+
+    const handleRemoveAllowed = (id: number, ipAddress: string) => {
+        if (!confirm(`Remove ${ipAddress} from the allowlist?`)) return;
+        run(() => apiClient.removeAllowedIp(id));
+    };
+
+    const inputClassName =
+        'w-full px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div>
+                        <h1 className="text-3xl font-bold text-foreground mb-2">IP Access</h1>
+                        <p className="text-muted-foreground">
+                            Block addresses or CIDR ranges from the sign-in endpoints, and allowlist trusted ones
+                        </p>
+                    </div>
+
+                    {error && (
+                        <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                            <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                            <p className="text-sm text-destructive">{error}</p>
+                        </div>
+                    )}
+
+                    {/* Blocked */}
+                    <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+                        <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                            <Ban className="w-5 h-5" />
+                            Blocked
+                        </h2>
+
+                        <form onSubmit={handleBlock} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                            <input
+                                type="text"
+                                value={blockForm.ipAddress}
+                                onChange={(e) => setBlockForm({ ...blockForm, ipAddress: e.target.value })}
+                                className={inputClassName}
+                                placeholder="203.0.113.7 or 203.0.113.0/24"
+                                required
+                            />
+                            <input
+                                type="text"
+                                value={blockForm.reason}
+                                onChange={(e) => setBlockForm({ ...blockForm, reason: e.target.value })}
+                                className={inputClassName}
+                                placeholder="Reason"
+                                required
+                            />
+                            <select
+                                value={blockForm.hours}
+                                onChange={(e) => setBlockForm({ ...blockForm, hours: Number(e.target.value) })}
+                                className={inputClassName}
+                            >
+                                {DURATIONS.map((duration) => (
+                                    <option key={duration.hours} value={duration.hours}>
+                                        {duration.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                type="submit"
+                                disabled={working}
+                                className="px-4 py-2 bg-destructive hover:bg-destructive/90 text-destructive-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                Block
+                            </button>
+                        </form>
+
+                        {loading ? (
+                            <p className="text-muted-foreground">Loading...</p>
+                        ) : blocked.length === 0 ? (
+                            <p className="text-muted-foreground">No blocked addresses</p>
+                        ) : (
+                            <ul className="divide-y divide-border">
+                                {blocked.map((block) => (
+                                    <li key={block.id} className="py-3 flex justify-between items-center gap-4">
+                                        <div className="min-w-0">
+                                            <p className="text-foreground font-medium font-mono">
+                                                {block.ip_address}
+                                                {!block.is_active && (
+                                                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-sans bg-secondary text-muted-foreground">
+                                                        Expired
+                                                    </span>
+                                                )}
+                                            </p>
+                                            <p className="text-sm text-muted-foreground">
+                                                {block.reason} · {block.created_by_name ? `by ${block.created_by_name}` : 'automatic'} ·{' '}
+                                                {block.is_permanent
+                                                    ? 'Permanent'
+                                                    : `Until ${new Date(block.expires_at).toLocaleString()}`}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <select
+                                                value=""
+                                                onChange={(e) => run(() => apiClient.updateIpBlock(block.id, Number(e.target.value)))}
+                                                disabled={working}
+                                                className="px-3 py-1.5 text-sm bg-secondary text-foreground rounded-lg disabled:opacity-50"
+                                            >
+                                                <option value="" disabled>
+                                                    Set expiry...
+                                                </option>
+                                                {DURATIONS.map((duration) => (
+                                                    <option key={duration.hours} value={duration.hours}>
+                                                        {duration.hours === 0 ? 'Permanent' : `${duration.label} from now`}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                onClick={() => handleUnblock(block.id, block.ip_address)}
+                                                disabled={working}
+                                                className="px-3 py-1.5 text-sm bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all disabled:opacity-50"
+                                            >
+                                                Unblock
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* Allowlist */}
+                    <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+                        <div>
+                            <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                                <ShieldCheck className="w-5 h-5" />
+                                Allowlist
+                            </h2>
+                            <p className="text-sm text-muted-foreground">
+                                Allowlisted addresses are never blocked or rate limited
+                            </p>
+                        </div>
+
+                        <form onSubmit={handleAllow} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <input
+                                type="text"
+                                value={allowForm.ipAddress}
+                                onChange={(e) => setAllowForm({ ...allowForm, ipAddress: e.target.value })}
+                                className={inputClassName}
+                                placeholder="198.51.100.0/24"
+                                required
+                            />
+                            <input
+                                type="text"
+                                value={allowForm.reason}
+                                onChange={(e) => setAllowForm({ ...allowForm, reason: e.target.value })}
+                                className={inputClassName}
+                                placeholder="Reason, e.g. office network"
+                                required
+                            />
+                            <button
+                                type="submit"
+                                disabled={working}
+                                className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                Allowlist
+                            </button>
+                        </form>
+
+                        {!loading && allowlist.length === 0 ? (
+                            <p className="text-muted-foreground">No allowlisted addresses</p>
+                        ) : (
+                            <ul className="divide-y divide-border">
+                                {allowlist.map((entry) => (
+                                    <li key={entry.id} className="py-3 flex justify-between items-center gap-4">
+                                        <div className="min-w-0">
+                                            <p className="text-foreground font-medium font-mono">{entry.ip_address}</p>
+                                            <p className="text-sm text-muted-foreground">
+                                                {entry.reason} · by {entry.created_by_name || 'unknown'} ·{' '}
+                                                {parseTimestamp(entry.created_at).toLocaleString()}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleRemoveAllowed(entry.id, entry.ip_address)}
+                                            disabled={working}
+                                            className="p-2 text-destructive hover:bg-destructive/10 rounded-lg transition-all disabled:opacity-50"
+                                            title="Remove"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
@@ -0,0 +1,606 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { MATCH_RESULT_LABELS, describeAuditEntry, isOpenPurchaseOrder, parseTimestamp } from '@/lib/purchase-orders';
+import {
+    ArrowLeft,
+    Calendar,
+    DollarSign,
+    FileText,
+    CheckCircle,
+    AlertCircle,
+    Edit,
+    Package,
+    Plus,
+    Trash2,
+    History
+} from 'lucide-react';
+
+export default function AdminPurchaseOrderDetailPage() {
+    const params = useParams();
+    const [purchaseOrder, setPurchaseOrder] = useState<any>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [actionLoading, setActionLoading] = useState(false);
+    const [showAmendForm, setShowAmendForm] = useState(false);
+    const [amendLines, setAmendLines] = useState<any[]>([]);
+    const [amendReason, setAmendReason] = useState('');
+    const [showReceiptForm, setShowReceiptForm] = useState(false);
+    const [receiptQuantities, setReceiptQuantities] = useState<Record<number, string>>({});
+    const [receiptNotes, setReceiptNotes] = useState('');
+
+    useEffect(() => {
+        fetchPurchaseOrder();
+    }, [params.id]);
+
+    const fetchPurchaseOrder = async () => {
+        try {
+            const { data } = await apiClient.getPurchaseOrderById(params.id as string);
+            setPurchaseOrder(data.purchaseOrder);
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to load purchase order');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openAmendForm = () => {
+        setAmendLines(
+            // The other typed fields (requirement line, discount, tax code, ...) carry over unchanged; amounts are repriced
+            purchaseOrder.line_items.map((item: any) => ({
+                ...item,
+                quantity: String(item.quantity),
+                unit_price: String(item.unit_price)
+            }))
+        );
+        setAmendReason('');
+        setShowAmendForm(true);
+    };
+
+    const updateAmendLine = (index: number, field: string, value: string) => {
+        setAmendLines(amendLines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+    };
+
+    const handleAmend = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            setActionLoading(true);
+            await apiClient.amendPurchaseOrder(params.id as string, {
+                lineItems: amendLines.map((line) => ({
+                    ...line,
+                    quantity: Number(line.quantity),
+                    unit_price: Number(line.unit_price)
+                })),
+                reason: amendReason
+            });
+            setShowAmendForm(false);
+            fetchPurchaseOrder();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to submit amendment');
+        } finally {
+            setActionLoading(false);
+        }
+    };
+
+    const handleReceive = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const lines = Object.entries(receiptQuantities)
+            .map(([lineNumber, quantity]) => ({ lineNumber: Number(lineNumber), quantity: Number(quantity) }))
+            .filter((line) => line.quantity > 0);
+
+        if (lines.length === 0) {
+            alert('Enter a received quantity for at least one line');
+            return;
+        }
+
+        try {
+            setActionLoading(true);
+            await apiClient.recordGoodsReceipt(params.id as string, { lines, notes: receiptNotes || undefined });
+            setShowReceiptForm(false);
+            setReceiptQuantities({});
+            setReceiptNotes('');
+            fetchPurchaseOrder();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to record goods receipt');
+        } finally {
+            setActionLoading(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <ProtectedRoute allowedRoles={['admin']}>
+                <DashboardLayout>
+                    <div className="flex justify-center items-center min-h-[400px]">
+                        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+                    </div>
+                </DashboardLayout>
+            </ProtectedRoute>
+        );
+    }
+
+    if (error || !purchaseOrder) {
+        return (
+            <ProtectedRoute allowedRoles={['admin']}>
+                <DashboardLayout>
+                    <div className="text-center py-12">
+                        <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+                        <h2 className="text-2xl font-bold text-foreground mb-2">Error Loading Purchase Order</h2>
+                        <p className="text-muted-foreground mb-6">{error || 'Purchase order not found'}</p>
+                        <Link
+                            href="/admin/purchase-orders"
+                            className="inline-flex items-center gap-2 px-6 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-all"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Back to Purchase Orders
+                        </Link>
+                    </div>
+                </DashboardLayout>
+            </ProtectedRoute>
+        );
+    }
+
+    const isOpen = isOpenPurchaseOrder(purchaseOrder.status);
+    const hasPendingAmendment = purchaseOrder.amendments.some((amendment: any) => amendment.status === 'pending_approval');
+    const verification = purchaseOrder.verification;
+    const verified = verification.signatureValid && verification.hashValid && verification.matchesRecord;
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <Link
+                                href="/admin/purchase-orders"
+                                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+                            >
+                                <ArrowLeft className="w-4 h-4" />
+                                Back to Purchase Orders
+                            </Link>
+                            <div className="flex items-center gap-3 mb-2">
+                                <h1 className="text-3xl font-bold text-foreground">PO #{purchaseOrder.po_number}</h1>
+                                <span
+                                    className={`px-3 py-1 rounded-full text-xs font-medium ${purchaseOrder.status === 'closed'
+                                        ? 'bg-primary text-primary-foreground'
+                                        : purchaseOrder.status === 'cancelled'
+                                            ? 'bg-destructive/10 text-destructive'
+                                            : 'bg-secondary text-foreground'
+                                        }`}
+                                >
+                                    {purchaseOrder.status.replace('_', ' ')}
+                                </span>
+                            </div>
+                            <p className="text-muted-foreground">
+                                {purchaseOrder.vendor_name} · {purchaseOrder.rfq_title} · RFQ #{purchaseOrder.rfq_number}
+                            </p>
+                        </div>
+
+                        {isOpen && (
+                            <div className="flex gap-3">
+                                {!hasPendingAmendment && (
+                                    <button
+                                        onClick={openAmendForm}
+                                        className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                    >
+                                        <Edit className="w-4 h-4" />
+                                        Amend
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setShowReceiptForm(true)}
+                                    className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all"
+                                >
+                                    <Package className="w-4 h-4" />
+                                    Record Receipt
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {hasPendingAmendment && (
+                        <div className="bg-secondary/50 rounded-xl p-4 border border-border text-sm text-muted-foreground">
+                            An amendment is awaiting approval. Further amendments can be requested once it is decided.
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        {/* Main Details */}
+                        <div className="lg:col-span-2 space-y-6">
+                            {showAmendForm && (
+                                <form onSubmit={handleAmend} className="bg-card rounded-xl p-6 border border-border space-y-4">
+                                    <h2 className="text-xl font-bold text-foreground">Request Amendment</h2>
+                                    <p className="text-sm text-muted-foreground">
+                                        The amended lines replace the current ones once the amendment is approved. Lines that have
+                                        already been received cannot be removed or reduced below the received quantity.
+                                    </p>
+                                    {amendLines.map((line, index) => (
+                                        <div key={index} className="grid grid-cols-12 gap-3 items-center">
+                                            <input
+                                                type="text"
+                                                value={line.description}
+                                                onChange={(e) => updateAmendLine(index, 'description', e.target.value)}
+                                                placeholder="Description"
+                                                required
+                                                className="col-span-6 px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="any"
+                                                value={line.quantity}
+                                                onChange={(e) => updateAmendLine(index, 'quantity', e.target.value)}
+                                                placeholder="Qty"
+                                                required
+                                                className="col-span-2 px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="any"
+                                                value={line.unit_price}
+                                                onChange={(e) => updateAmendLine(index, 'unit_price', e.target.value)}
+                                                placeholder="Unit price"
+                                                required
+                                                className="col-span-3 px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none"
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => setAmendLines(amendLines.filter((_, i) => i !== index))}
+                                                disabled={amendLines.length === 1}
+                                                className="col-span-1 flex justify-center text-destructive disabled:opacity-30"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        type="button"
+                                        onClick={() => setAmendLines([...amendLines, { description: '', quantity: '1', unit_price: '0' }])}
+                                        className="flex items-center gap-2 text-sm text-primary hover:underline"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                        Add line
+                                    </button>
+                                    <textarea
+                                        value={amendReason}
+                                        onChange={(e) => setAmendReason(e.target.value)}
+                                        placeholder="Reason for the amendment"
+                                        rows={3}
+                                        required
+                                        className="w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none"
+                                    />
+                                    <div className="flex justify-end gap-3">
+                                        <button
+                                            type="button"
+                                            onClick={() => setShowAmendForm(false)}
+                                            className="px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            type="submit"
+                                            disabled={actionLoading}
+                                            className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                                        >
+                                            Submit for Approval
+                                        </button>
+                                    </div>
+                                </form>
+                            )}
+
+                            {showReceiptForm && (
+                                <form onSubmit={handleReceive} className="bg-card rounded-xl p-6 border border-border space-y-4">
+                                    <h2 className="text-xl font-bold text-foreground">Record Goods Receipt</h2>
+                                    {purchaseOrder.line_items.map((item: any) => {
+                                        const outstanding = item.quantity - item.quantity_received;
+                                        return (
+                                            <div key={item.line_number} className="flex items-center gap-4">
+                                                <div className="flex-1">
+                                                    <p className="text-foreground">{item.description}</p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {item.quantity_received} of {item.quantity} received
+                                                    </p>
+                                                </div>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    max={outstanding}
+                                                    step="any"
+                                                    disabled={outstanding <= 0}
+                                                    value={receiptQuantities[item.line_number] || ''}
+                                                    onChange={(e) =>
+                                                        setReceiptQuantities({ ...receiptQuantities, [item.line_number]: e.target.value })
+                                                    }
+                                                    placeholder="0"
+                                                    className="w-32 px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none disabled:opacity-50"
+                                                />
+                                            </div>
+                                        );
+                                    })}
+                                    <textarea
+                                        value={receiptNotes}
+                                        onChange={(e) => setReceiptNotes(e.target.value)}
+                                        placeholder="Notes (optional)"
+                                        rows={2}
+                                        className="w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none"
+                                    />
+                                    <div className="flex justify-end gap-3">
+                                        <button
+                                            type="button"
+                                            onClick={() => setShowReceiptForm(false)}
+                                            className="px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            type="submit"
+                                            disabled={actionLoading}
+                                            className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                                        >
+                                            Record Receipt
+                                        </button>
+                                    </div>
+                                </form>
+                            )}
+
+                            {/* Line Items */}
+                            <div className="bg-card rounded-xl p-6 border border-border">
+                                <h2 className="text-xl font-bold text-foreground mb-4">Line Items</h2>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full">
+                                        <thead>
+                                            <tr className="border-b border-border">
+                                                <th className="text-left py-3 px-4 text-muted-foreground font-medium">Item</th>
+                                                <th className="text-right py-3 px-4 text-muted-foreground font-medium">Quantity</th>
+                                                <th className="text-right py-3 px-4 text-muted-foreground font-medium">Received</th>
+                                                <th className="text-right py-3 px-4 text-muted-foreground font-medium">Unit Price</th>
+                                                <th className="text-right py-3 px-4 text-muted-foreground font-medium">Total</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {purchaseOrder.line_items.map((item: any) => (
+                                                <tr key={item.line_number} className="border-b border-border">
+                                                    <td className="py-3 px-4 text-foreground">{item.description}</td>
+                                                    <td className="py-3 px-4 text-right text-foreground">{item.quantity}</td>
+                                                    <td className="py-3 px-4 text-right text-muted-foreground">{item.quantity_received}</td>
+                                                    <td className="py-3 px-4 text-right text-foreground">
+                                                        ${item.unit_price?.toLocaleString()}
+                                                    </td>
+                                                    <td className="py-3 px-4 text-right text-foreground font-semibold">
+                                                        ${(item.total ?? item.quantity * item.unit_price).toLocaleString()}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                        <tfoot>
+                                            <tr>
+                                                <td colSpan={4} className="py-4 px-4 text-right text-foreground font-bold">
+                                                    Total:
+                                                </td>
+                                                <td className="py-4 px-4 text-right text-foreground font-bold text-lg">
+                                                    {purchaseOrder.currency} ${purchaseOrder.total_amount?.toLocaleString()}
+                                                </td>
+                                            </tr>
+                                        </tfoot>
+                                    </table>
+                                </div>
+                            </div>
+
+                            {/* Amendments */}
+                            <div className="bg-card rounded-xl p-6 border border-border">
+                                <h2 className="text-xl font-bold text-foreground mb-4">
+                                    Amendments ({purchaseOrder.amendments.length})
+                                </h2>
+                                {purchaseOrder.amendments.length === 0 ? (
+                                    <p className="text-muted-foreground text-center py-4">No amendments</p>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {purchaseOrder.amendments.map((amendment: any) => (
+                                            <div key={amendment.id} className="p-4 bg-secondary/30 rounded-lg">
+                                                <div className="flex justify-between items-start mb-1">
+                                                    <p className="text-foreground font-semibold">Amendment #{amendment.amendment_number}</p>
+                                                    <span
+                                                        className={`px-2 py-1 rounded text-xs font-medium ${amendment.status === 'approved'
+                                                            ? 'bg-primary text-primary-foreground'
+                                                            : amendment.status === 'rejected'
+                                                                ? 'bg-destructive/10 text-destructive'
+                                                                : 'bg-secondary text-foreground'
+                                                            }`}
+                                                    >
+                                                        {amendment.status.replace('_', ' ')}
+                                                    </span>
+                                                </div>
+                                                <p className="text-muted-foreground text-sm">{amendment.reason}</p>
+                                                <p className="text-xs text-muted-foreground mt-1">
+                                                    {amendment.line_items.length} line(s) · {purchaseOrder.currency} $
+                                                    {amendment.total_amount?.toLocaleString()} · Requested by {amendment.requested_by_name} on{' '}
+                                                    {parseTimestamp(amendment.created_at).toLocaleDateString()}
+                                                </p>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Goods Receipts */}
+                            <div className="bg-card rounded-xl p-6 border border-border">
+                                <h2 className="text-xl font-bold text-foreground mb-4">
+                                    Goods Receipts ({purchaseOrder.receipts.length})
+                                </h2>
+                                {purchaseOrder.receipts.length === 0 ? (
+                                    <p className="text-muted-foreground text-center py-4">Nothing received yet</p>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {purchaseOrder.receipts.map((receipt: any) => (
+                                            <div key={receipt.id} className="p-4 bg-secondary/30 rounded-lg">
+                                                <div className="flex justify-between items-start mb-1">
+                                                    <p className="text-foreground font-mono text-sm">{receipt.receipt_number}</p>
+                                                    <span className="text-xs text-muted-foreground">
+                                                        {parseTimestamp(receipt.received_at).toLocaleString()}
+                                                        {receipt.received_by_name && ` · ${receipt.received_by_name}`}
+                                                    </span>
+                                                </div>
+                                                <p className="text-muted-foreground text-sm">
+                                                    {receipt.items
+                                                        .map((item: any) => `Line ${item.line_number}: ${item.quantity}`)
+                                                        .join(' · ')}
+                                                </p>
+                                                {receipt.notes && <p className="text-xs text-muted-foreground mt-1">{receipt.notes}</p>}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Invoices */}
+                            <div className="bg-card rounded-xl p-6 border border-border">
+                                <h2 className="text-xl font-bold text-foreground mb-4">
+                                    Invoices ({purchaseOrder.invoices.length})
+                                </h2>
+                                {purchaseOrder.invoices.length === 0 ? (
+                                    <p className="text-muted-foreground text-center py-4">No invoices submitted</p>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {purchaseOrder.invoices.map((invoice: any) => (
+                                            <Link
+                                                key={invoice.id}
+                                                href={`/admin/invoices/${invoice.id}`}
+                                                className="block p-4 bg-secondary/30 hover:bg-secondary/50 rounded-lg transition-all"
+                                            >
+                                                <div className="flex justify-between items-start">
+                                                    <div>
+                                                        <p className="text-foreground font-semibold">Invoice {invoice.invoice_number}</p>
+                                                        <p className="text-muted-foreground text-sm">
+                                                            {MATCH_RESULT_LABELS[invoice.match_result]} ·{' '}
+                                                            {parseTimestamp(invoice.submitted_at).toLocaleDateString()}
+                                                        </p>
+                                                    </div>
+                                                    <div className="text-right">
+                                                        <p className="text-foreground font-semibold">
+                                                            {invoice.currency} ${invoice.total_amount?.toLocaleString()}
+                                                        </p>
+                                                        <span
+                                                            className={`inline-block px-2 py-1 rounded text-xs font-medium ${['matched', 'accepted'].includes(invoice.status)
+                                                                ? 'bg-primary text-primary-foreground'
+                                                                : invoice.status === 'rejected'
+                                                                    ? 'bg-destructive/10 text-destructive'
+                                                                    : 'bg-secondary text-foreground'
+                                                                }`}
+                                                        >
+                                                            {invoice.status}
+                                                        </span>
+                                                    </div>
+                                                </div>
+                                            </Link>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Sidebar */}
+                        <div className="space-y-6">
+                            <div className="bg-card rounded-xl p-6 border border-border">
+                                <h3 className="text-lg font-bold text-foreground mb-4">Details</h3>
+                                <div className="space-y-4">
+                                    <div>
+                                        <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                            <DollarSign className="w-4 h-4" />
+                                            <span className="text-sm">Total Amount</span>
+                                        </div>
+                                        <p className="text-foreground font-semibold">
+                                            {purchaseOrder.currency} ${purchaseOrder.total_amount?.toLocaleString()}
+                                        </p>
+                                    </div>
+
+                                    <div>
+                                        <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                            <FileText className="w-4 h-4" />
+                                            <span className="text-sm">Quotation</span>
+                                        </div>
+                                        <Link
+                                            href={`/admin/quotations/${purchaseOrder.quotation_id}`}
+                                            className="text-foreground hover:underline"
+                                        >
+                                            Quote #{purchaseOrder.quote_number}
+                                        </Link>
+                                    </div>
+
+                                    <div>
+                                        <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                            <Calendar className="w-4 h-4" />
+                                            <span className="text-sm">Issued</span>
+                                        </div>
+                                        <p className="text-foreground">
+                                            {parseTimestamp(purchaseOrder.issued_at).toLocaleString()}
+                                            {purchaseOrder.issued_by_name && ` by ${purchaseOrder.issued_by_name}`}
+                                        </p>
+                                    </div>
+
+                                    <div>
+                                        <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                            <CheckCircle className="w-4 h-4" />
+                                            <span className="text-sm">Acknowledged</span>
+                                        </div>
+                                        <p className="text-foreground">
+                                            {purchaseOrder.acknowledged_at
+                                                ? `${parseTimestamp(purchaseOrder.acknowledged_at).toLocaleString()} by ${purchaseOrder.acknowledged_by_name}`
+                                                : 'Awaiting vendor'}
+                                        </p>
+                                    </div>
+
+                                    {purchaseOrder.closed_at && (
+                                        <div>
+                                            <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                                <Package className="w-4 h-4" />
+                                                <span className="text-sm">Closed</span>
+                                            </div>
+                                            <p className="text-foreground">{parseTimestamp(purchaseOrder.closed_at).toLocaleString()}</p>
+                                        </div>
+                                    )}
+
+                                    <div>
+                                        <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                            <FileText className="w-4 h-4" />
+                                            <span className="text-sm">Signature</span>
+                                        </div>
+                                        <p className={verified ? 'text-foreground' : 'text-destructive'}>
+                                            {verified ? 'Verified' : 'Verification failed'}
+                                        </p>
+                                    </div>
+                                </div>
+                            </div>
+
+                            <div className="bg-card rounded-xl p-6 border border-border">
+                                <div className="flex items-center gap-2 mb-4">
+                                    <History className="w-5 h-5 text-muted-foreground" />
+                                    <h3 className="text-lg font-bold text-foreground">Activity</h3>
+                                </div>
+                                <div className="space-y-3">
+                                    {purchaseOrder.history.map((entry: any) => (
+                                        <div key={entry.id} className="border-l-2 border-border pl-3">
+                                            <p className="text-foreground text-sm">{describeAuditEntry(entry)}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {parseTimestamp(entry.created_at).toLocaleString()}
+                                                {entry.user_name && ` · ${entry.user_name}`}
+                                            </p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { isOpenPurchaseOrder, parseTimestamp } from '@/lib/purchase-orders';
+import { ShoppingCart, Eye } from 'lucide-react';
+
+export default function AdminPurchaseOrdersPage() {
+    const [purchaseOrders, setPurchaseOrders] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState('all');
+
+    useEffect(() => {
+        fetchPurchaseOrders();
+    }, [statusFilter]);
+
+    const fetchPurchaseOrders = async () => {
+        try {
+            setLoading(true);
+            const { data } = await apiClient.getPurchaseOrders({
+                status: statusFilter === 'all' ? undefined : statusFilter,
+                limit: 100,
+            });
+            setPurchaseOrders(data.purchaseOrders || []);
+        } catch (error) {
+            console.error('Error fetching purchase orders:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const getStatusColor = (status: string) => {
+        switch (status) {
+            case 'closed':
+                return 'bg-primary text-primary-foreground';
+            case 'cancelled':
+                return 'bg-destructive/10 text-destructive';
+            case 'issued':
+                return 'bg-secondary text-foreground border border-primary/20';
+            default:
+                return 'bg-secondary text-muted-foreground';
+        }
+    };
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h1 className="text-3xl font-bold text-foreground mb-2">Purchase Orders</h1>
+                            <p className="text-muted-foreground">Track acknowledgement, amendments and goods receipts of issued orders</p>
+                        </div>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value)}
+                            className="px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                        >
+                            <option value="all">All Status</option>
+                            <option value="issued">Issued</option>
+                            <option value="acknowledged">Acknowledged</option>
+                            <option value="partially_received">Partially Received</option>
+                            <option value="closed">Closed</option>
+                            <option value="cancelled">Cancelled</option>
+                        </select>
+                    </div>
+
+                    <div className="bg-card rounded-xl border border-border">
+                        {loading ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                            </div>
+                        ) : purchaseOrders.length === 0 ? (
+                            <div className="text-center py-12">
+                                <ShoppingCart className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                                <p className="text-muted-foreground">No purchase orders found</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border">
+                                {purchaseOrders.map((po) => (
+                                    <div key={po.id} className="p-6 hover:bg-secondary/30 transition-all">
+                                        <div className="flex justify-between items-start">
+                                            <div className="flex-1">
+                                                <div className="flex items-center gap-3 mb-3">
+                                                    <h3 className="text-lg font-semibold text-foreground">PO #{po.po_number}</h3>
+                                                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(po.status)}`}>
+                                                        {po.status.replace('_', ' ')}
+                                                    </span>
+                                                    {!po.acknowledged_at && isOpenPurchaseOrder(po.status) && (
+                                                        <span className="px-3 py-1 bg-destructive/10 text-destructive text-xs font-medium rounded-full">
+                                                            Awaiting acknowledgement
+                                                        </span>
+                                                    )}
+                                                </div>
+
+                                                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">RFQ</p>
+                                                        <p className="text-foreground">{po.rfq_title}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Vendor</p>
+                                                        <p className="text-foreground">{po.vendor_name}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Total Amount</p>
+                                                        <p className="text-foreground font-semibold">
+                                                            {po.currency} ${po.total_amount?.toLocaleString()}
+                                                        </p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Amendment</p>
+                                                        <p className="text-foreground">{po.amendment_number > 0 ? `#${po.amendment_number}` : 'Original'}</p>
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-xs text-muted-foreground">Issued</p>
+                                                        <p className="text-foreground">{parseTimestamp(po.issued_at).toLocaleDateString()}</p>
+                                                    </div>
+                                                </div>
+                                            </div>
+
+                                            <Link
+                                                href={`/admin/purchase-orders/${po.id}`}
+                                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all ml-4"
+                                            >
+                                                <Eye className="w-4 h-4" />
+                                                View
+                                            </Link>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
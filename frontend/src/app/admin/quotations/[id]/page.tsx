@@ -6,6 +6,7 @@ import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
+import SensitiveDataPanel from '@/components/SensitiveDataPanel';
 import {
     ArrowLeft,
     FileText,
@@ -135,7 +136,7 @@ export default function AdminQuotationDetailPage() {
                                         <div>
                                             <p className="text-muted-foreground text-sm">Total Amount</p>
                                             <p className="text-2xl font-bold text-foreground">
-                                                {quotation.currency} ${quotation.total_amount?.toLocaleString()}
+                                                {quotation.sealed ? 'Sealed' : `${quotation.currency} $${quotation.total_amount?.toLocaleString()}`}
                                             </p>
                                         </div>
                                     </div>
@@ -168,10 +169,28 @@ export default function AdminQuotationDetailPage() {
                                             </tr>
                                         </thead>
                                         <tbody>
+                                            {quotation.sealed && (
+                                                <tr>
+                                                    <td colSpan={4} className="py-4 text-center text-muted-foreground">
+                                                        Line items are sealed until the bid opening
+                                                    </td>
+                                                </tr>
+                                            )}
                                             {quotation.line_items?.map((item: any, index: number) => (
                                                 <tr key={index} className="border-b border-border/50">
-                                                    <td className="py-3 text-foreground">{item.description}</td>
-                                                    <td className="py-3 text-foreground text-right">{item.quantity}</td>
+                                                    <td className="py-3 text-foreground">
+                                                        {item.description}
+                                                        {(item.sku || item.requirement_line) && (
+                                                            <p className="text-xs text-muted-foreground">
+                                                                {[item.sku, item.requirement_line && `Requirement ${item.requirement_line}`]
+                                                                    .filter(Boolean)
+                                                                    .join(' · ')}
+                                                            </p>
+                                                        )}
+                                                    </td>
+                                                    <td className="py-3 text-foreground text-right">
+                                                        {item.quantity} {item.unit_of_measure}
+                                                    </td>
                                                     <td className="py-3 text-foreground text-right">
                                                         ${item.unit_price?.toLocaleString()}
                                                     </td>
@@ -180,12 +199,23 @@ export default function AdminQuotationDetailPage() {
                                                     </td>
                                                 </tr>
                                             ))}
+                                            {!quotation.sealed && (quotation.totals?.discount > 0 || quotation.totals?.tax > 0) && (
+                                                <tr>
+                                                    <td colSpan={3} className="pt-4 text-right text-sm text-muted-foreground">
+                                                        Subtotal / Discount / Tax:
+                                                    </td>
+                                                    <td className="pt-4 text-right text-sm text-muted-foreground">
+                                                        ${quotation.totals.subtotal.toLocaleString()} / -${quotation.totals.discount.toLocaleString()} / $
+                                                        {quotation.totals.tax.toLocaleString()}
+                                                    </td>
+                                                </tr>
+                                            )}
                                             <tr>
                                                 <td colSpan={3} className="py-4 text-right text-muted-foreground font-semibold">
                                                     Grand Total:
                                                 </td>
                                                 <td className="py-4 text-right text-2xl font-bold text-foreground">
-                                                    {quotation.currency} ${quotation.total_amount?.toLocaleString()}
+                                                    {quotation.sealed ? 'Sealed' : `${quotation.currency} $${quotation.total_amount?.toLocaleString()}`}
                                                 </td>
                                             </tr>
                                         </tbody>
@@ -201,6 +231,8 @@ export default function AdminQuotationDetailPage() {
                                 </div>
                             )}
 
+                            <SensitiveDataPanel quotationId={String(quotation.id)} encryption={quotation.encryption} />
+
                             {/* Security Information */}
                             <div className="bg-card rounded-xl p-6 border border-border bg-secondary/5">
                                 <h2 className="text-xl font-bold text-foreground mb-4 flex items-center gap-2">
@@ -213,14 +245,14 @@ export default function AdminQuotationDetailPage() {
                                             <Shield className="w-4 h-4 text-primary" />
                                             <span className="text-sm font-medium text-primary">Encryption</span>
                                         </div>
-                                        <p className="text-xs text-muted-foreground">XOR encryption applied</p>
+                                        <p className="text-xs text-muted-foreground">{quotation.encryption?.algorithm} applied to confidential data</p>
                                     </div>
                                     <div className="p-4 bg-secondary/30 rounded-lg">
                                         <div className="flex items-center gap-2 mb-2">
                                             <Shield className="w-4 h-4 text-primary" />
                                             <span className="text-sm font-medium text-primary">Digital Signature</span>
                                         </div>
-                                        <p className="text-xs text-muted-foreground">RSA-2048 verified</p>
+                                        <p className="text-xs text-muted-foreground">{quotation.signature?.message}</p>
                                     </div>
                                 </div>
                             </div>
@@ -0,0 +1,415 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/store/auth.store';
+import EvaluationTemplateEditor, {
+    EvaluationCriterionDraft,
+    toEvaluationCriterionDraft,
+    toEvaluationCriterionInput,
+} from '@/components/EvaluationTemplateEditor';
+import { ArrowLeft, AlertCircle, AlertTriangle, Save, Trophy } from 'lucide-react';
+
+// Scores can change until the approval decision on the quotation is final
+const SCORABLE_STATUSES = ['submitted', 'under_review', 'revision_requested'];
+
+function QuotationEvaluation() {
+    const searchParams = useSearchParams();
+    const { user } = useAuthStore();
+    const isAdmin = user?.role === 'admin';
+
+    const [rfqs, setRfqs] = useState<any[]>([]);
+    const [rfqId, setRfqId] = useState(searchParams.get('rfqId') || '');
+    const [criteria, setCriteria] = useState<EvaluationCriterionDraft[]>([]);
+    const [evaluation, setEvaluation] = useState<any>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [problems, setProblems] = useState<string[]>([]);
+    const [savingTemplate, setSavingTemplate] = useState(false);
+    // The current user's scores on one quotation, by criterion ID
+    const [scoringId, setScoringId] = useState('');
+    const [scores, setScores] = useState<Record<number, { score: string; comment: string }>>({});
+    const [savingScores, setSavingScores] = useState(false);
+
+    useEffect(() => {
+        fetchRfqs();
+    }, []);
+
+    useEffect(() => {
+        if (rfqId) fetchEvaluation();
+    }, [rfqId]);
+
+    const fetchRfqs = async () => {
+        try {
+            const { data } = await apiClient.getRFQs({ limit: 100 });
+            setRfqs((data.rfqs || []).filter((rfq: any) => rfq.status !== 'draft'));
+        } catch (err) {
+            console.error('Error fetching RFQs:', err);
+        }
+    };
+
+    const fetchEvaluation = async () => {
+        setLoading(true);
+        setError('');
+        setProblems([]);
+        try {
+            const { data } = await apiClient.getEvaluationTemplate(rfqId);
+            setCriteria(data.criteria.map(toEvaluationCriterionDraft));
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to load evaluation template');
+        }
+        try {
+            const { data } = await apiClient.getEvaluation(rfqId);
+            setEvaluation(data.evaluation);
+        } catch (err: any) {
+            setEvaluation(null);
+            setError(err.response?.data?.error || 'Failed to load evaluation');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSaveTemplate = async () => {
+        setError('');
+        setProblems([]);
+        try {
+            setSavingTemplate(true);
+            await apiClient.updateEvaluationTemplate(rfqId, criteria.map(toEvaluationCriterionInput));
+            fetchEvaluation();
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to save evaluation template');
+            setProblems(err.response?.data?.problems || []);
+        } finally {
+            setSavingTemplate(false);
+        }
+    };
+
+    const selectQuotation = (quotationId: string) => {
+        setScoringId(quotationId);
+        const row = evaluation?.quotations.find((entry: any) => String(entry.quotationId) === quotationId);
+        const mine: Record<number, { score: string; comment: string }> = {};
+        for (const cell of row?.scores || []) {
+            const own = cell.evaluations.find((entry: any) => entry.evaluatorId === user?.id);
+            mine[cell.criterionId] = { score: own ? String(own.score) : '', comment: own?.comment || '' };
+        }
+        setScores(mine);
+    };
+
+    const handleSaveScores = async () => {
+        setError('');
+        setProblems([]);
+        try {
+            setSavingScores(true);
+            const entries = Object.entries(scores)
+                .filter(([, entry]) => entry.score !== '')
+                .map(([criterionId, entry]) => ({
+                    criterionId: Number(criterionId),
+                    score: parseFloat(entry.score),
+                    comment: entry.comment || null,
+                }));
+            await apiClient.saveEvaluationScores(Number(scoringId), entries);
+            await fetchEvaluation();
+            setScoringId('');
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to save scores');
+            setProblems(err.response?.data?.problems || []);
+        } finally {
+            setSavingScores(false);
+        }
+    };
+
+    const score = (value: number | null | undefined) => (value != null ? value.toFixed(2) : '—');
+
+    const manualCriteria = evaluation?.criteria.filter((criterion: any) => criterion.scoring === 'manual') || [];
+    const templateLocked = !!evaluation?.quotations.some((row: any) => row.scores.some((cell: any) => cell.evaluations.length > 0));
+    const outliers =
+        evaluation?.quotations.flatMap((row: any) =>
+            row.scores
+                .filter((cell: any) => cell.outliers.length > 0)
+                .map((cell: any) => ({
+                    key: `${row.quotationId}-${cell.criterionId}`,
+                    vendorName: row.vendorName,
+                    criterion: evaluation.criteria.find((criterion: any) => criterion.id === cell.criterionId)?.name,
+                    evaluators: cell.evaluations
+                        .filter((entry: any) => cell.outliers.includes(entry.evaluatorId))
+                        .map((entry: any) => `${entry.evaluatorName} (${entry.score})`),
+                }))
+        ) || [];
+
+    const inputClassName =
+        'w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    return (
+        <ProtectedRoute allowedRoles={['admin', 'approver']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div>
+                        {isAdmin && (
+                            <Link
+                                href="/admin/quotations"
+                                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+                            >
+                                <ArrowLeft className="w-4 h-4" />
+                                Back to Quotations
+                            </Link>
+                        )}
+                        <h1 className="text-3xl font-bold text-foreground mb-2">Quotation Evaluation</h1>
+                        <p className="text-muted-foreground">
+                            Weighted scores per criterion for every quotation on an RFQ, best ranked first
+                        </p>
+                    </div>
+
+                    <div className="bg-card rounded-xl p-4 border border-border">
+                        <select value={rfqId} onChange={(e) => setRfqId(e.target.value)} className={inputClassName}>
+                            <option value="">Select RFQ...</option>
+                            {rfqs.map((rfq) => (
+                                <option key={rfq.id} value={rfq.id}>
+                                    {rfq.rfq_number} · {rfq.title}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {error && (
+                        <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                            <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                            <div className="text-sm text-destructive">
+                                <p>{error}</p>
+                                {problems.length > 0 && (
+                                    <ul className="list-disc ml-5 mt-1">
+                                        {problems.map((problem) => (
+                                            <li key={problem}>{problem}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {loading && (
+                        <div className="flex justify-center py-12">
+                            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                        </div>
+                    )}
+
+                    {rfqId && !loading && (
+                        <>
+                            {/* Template */}
+                            <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+                                <EvaluationTemplateEditor
+                                    criteria={criteria}
+                                    onChange={setCriteria}
+                                    disabled={!isAdmin || templateLocked}
+                                />
+                                {isAdmin && !templateLocked && (
+                                    <div className="flex justify-end">
+                                        <button
+                                            onClick={handleSaveTemplate}
+                                            disabled={savingTemplate}
+                                            className="flex items-center gap-2 px-6 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg shadow-sm transition-all disabled:opacity-50"
+                                        >
+                                            <Save className="w-4 h-4" />
+                                            {savingTemplate ? 'Saving...' : 'Save Template'}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+
+                            {evaluation?.mixedCurrencies && (
+                                <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                                    <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                                    <p className="text-sm text-destructive">
+                                        Quotations use different currencies; prices are scored as quoted, without conversion.
+                                    </p>
+                                </div>
+                            )}
+
+                            {outliers.length > 0 && (
+                                <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                                    <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                                    <div className="text-sm text-destructive">
+                                        <p>
+                                            Scores more than {evaluation.outlierThreshold} points from the other evaluators&apos; median:
+                                        </p>
+                                        <ul className="list-disc ml-5 mt-1">
+                                            {outliers.map((outlier: any) => (
+                                                <li key={outlier.key}>
+                                                    {outlier.vendorName} · {outlier.criterion}: {outlier.evaluators.join(', ')}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Matrix */}
+                            {evaluation && evaluation.criteria.length > 0 && (
+                                <div className="bg-card rounded-xl p-6 border border-border overflow-x-auto">
+                                    {evaluation.quotations.length === 0 ? (
+                                        <p className="text-muted-foreground">No quotations to evaluate yet</p>
+                                    ) : (
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="border-b border-border align-bottom">
+                                                    <th className="text-left py-3 pr-4 text-muted-foreground font-medium">Rank</th>
+                                                    <th className="text-left py-3 pr-4 text-muted-foreground font-medium">Quotation</th>
+                                                    <th className="text-right py-3 px-3 text-muted-foreground font-medium">Total</th>
+                                                    {evaluation.criteria.map((criterion: any) => (
+                                                        <th key={criterion.id} className="text-right py-3 px-3 text-muted-foreground font-medium">
+                                                            {criterion.name}
+                                                            <p className="text-xs font-normal">
+                                                                {criterion.weight}% · {criterion.scoring === 'price' ? 'price' : 'evaluators'}
+                                                            </p>
+                                                        </th>
+                                                    ))}
+                                                    <th className="text-right py-3 pl-3 text-muted-foreground font-medium">Weighted Score</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {evaluation.quotations.map((row: any) => (
+                                                    <tr key={row.quotationId} className="border-b border-border/50 align-top">
+                                                        <td className="py-3 pr-4 text-foreground font-semibold">
+                                                            <span className="inline-flex items-center gap-1">
+                                                                {row.rank === 1 && row.complete && <Trophy className="w-4 h-4 text-primary" />}
+                                                                {row.rank}
+                                                            </span>
+                                                        </td>
+                                                        <td className="py-3 pr-4">
+                                                            {isAdmin ? (
+                                                                <Link
+                                                                    href={`/admin/quotations/${row.quotationId}`}
+                                                                    className="text-foreground hover:underline"
+                                                                >
+                                                                    {row.vendorName}
+                                                                </Link>
+                                                            ) : (
+                                                                <span className="text-foreground">{row.vendorName}</span>
+                                                            )}
+                                                            <p className="text-xs text-muted-foreground">
+                                                                {row.quoteNumber} · {row.status}
+                                                            </p>
+                                                        </td>
+                                                        <td className="py-3 px-3 text-right text-foreground">
+                                                            {row.currency} ${row.totalAmount?.toLocaleString()}
+                                                        </td>
+                                                        {row.scores.map((cell: any) => (
+                                                            <td key={cell.criterionId} className="py-3 px-3 text-right">
+                                                                <p className="text-foreground">{score(cell.score)}</p>
+                                                                {cell.evaluations.length > 0 && (
+                                                                    <p
+                                                                        className={`text-xs inline-flex items-center gap-1 ${cell.outliers.length > 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+                                                                    >
+                                                                        {cell.outliers.length > 0 && <AlertTriangle className="w-3 h-3" />}
+                                                                        {cell.evaluations.length} score(s)
+                                                                        {cell.spread != null && ` · spread ${cell.spread}`}
+                                                                    </p>
+                                                                )}
+                                                            </td>
+                                                        ))}
+                                                        <td className="py-3 pl-3 text-right">
+                                                            <p className="text-foreground font-bold">{score(row.weightedScore)}</p>
+                                                            {!row.complete && <p className="text-xs text-muted-foreground">partly scored</p>}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Score entry */}
+                            {manualCriteria.length > 0 && (
+                                <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+                                    <h2 className="text-xl font-bold text-foreground">Your Scores</h2>
+                                    <select
+                                        value={scoringId}
+                                        onChange={(e) => selectQuotation(e.target.value)}
+                                        className={inputClassName}
+                                    >
+                                        <option value="">Select quotation to score...</option>
+                                        {evaluation.quotations
+                                            .filter((row: any) => SCORABLE_STATUSES.includes(row.status))
+                                            .map((row: any) => (
+                                                <option key={row.quotationId} value={row.quotationId}>
+                                                    {row.vendorName} · {row.quoteNumber}
+                                                </option>
+                                            ))}
+                                    </select>
+
+                                    {scoringId && (
+                                        <>
+                                            {manualCriteria.map((criterion: any) => (
+                                                <div key={criterion.id} className="grid grid-cols-12 gap-3 items-center">
+                                                    <label className="col-span-3 text-sm text-foreground">
+                                                        {criterion.name} ({criterion.weight}%)
+                                                    </label>
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        max={100}
+                                                        placeholder="0-100"
+                                                        value={scores[criterion.id]?.score || ''}
+                                                        onChange={(e) =>
+                                                            setScores({ ...scores, [criterion.id]: { ...scores[criterion.id], score: e.target.value } })
+                                                        }
+                                                        className={`col-span-2 ${inputClassName}`}
+                                                    />
+                                                    <input
+                                                        type="text"
+                                                        placeholder="Comment (optional)"
+                                                        value={scores[criterion.id]?.comment || ''}
+                                                        onChange={(e) =>
+                                                            setScores({ ...scores, [criterion.id]: { ...scores[criterion.id], comment: e.target.value } })
+                                                        }
+                                                        className={`col-span-7 ${inputClassName}`}
+                                                    />
+                                                </div>
+                                            ))}
+                                            <div className="flex justify-end">
+                                                <button
+                                                    onClick={handleSaveScores}
+                                                    disabled={savingScores}
+                                                    className="flex items-center gap-2 px-6 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg shadow-sm transition-all disabled:opacity-50"
+                                                >
+                                                    <Save className="w-4 h-4" />
+                                                    {savingScores ? 'Saving...' : 'Save Scores'}
+                                                </button>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
+
+export default function QuotationEvaluationPage() {
+    return (
+        <Suspense
+            fallback={
+                <ProtectedRoute allowedRoles={['admin', 'approver']}>
+                    <DashboardLayout>
+                        <div className="space-y-6">
+                            <div>
+                                <h1 className="text-3xl font-bold text-foreground mb-2">Quotation Evaluation</h1>
+                                <p className="text-muted-foreground">Loading...</p>
+                            </div>
+                        </div>
+                    </DashboardLayout>
+                </ProtectedRoute>
+            }
+        >
+            <QuotationEvaluation />
+        </Suspense>
+    );
+}
@@ -5,7 +5,7 @@ import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
-import { Search, MessageSquare, Eye } from 'lucide-react';
+import { Search, MessageSquare, Eye, BarChart3 } from 'lucide-react';
 
 export default function AdminQuotationsPage() {
     const [quotations, setQuotations] = useState<any[]>([]);
@@ -55,9 +55,18 @@ export default function AdminQuotationsPage() {
             <DashboardLayout>
                 <div className="space-y-6">
                     {/* Header */}
-                    <div>
-                        <h1 className="text-3xl font-bold text-foreground mb-2">All Quotations</h1>
-                        <p className="text-muted-foreground">View and manage all submitted quotations</p>
+                    <div className="flex justify-between items-center">
+                        <div>
+                            <h1 className="text-3xl font-bold text-foreground mb-2">All Quotations</h1>
+                            <p className="text-muted-foreground">View and manage all submitted quotations</p>
+                        </div>
+                        <Link
+                            href="/admin/quotations/evaluation"
+                            className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                        >
+                            <BarChart3 className="w-4 h-4" />
+                            Evaluation
+                        </Link>
                     </div>
 
                     {/* Filters */}
@@ -126,7 +135,7 @@ export default function AdminQuotationsPage() {
                                                     <div>
                                                         <p className="text-xs text-muted-foreground">Total Amount</p>
                                                         <p className="text-foreground font-semibold">
-                                                            {quote.currency} ${quote.total_amount?.toLocaleString() || '0.00'}
+                                                            {quote.sealed ? 'Sealed' : `${quote.currency} $${quote.total_amount?.toLocaleString() || '0.00'}`}
                                                         </p>
                                                     </div>
                                                     <div>
@@ -6,6 +6,11 @@ import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
+import RequirementLinesEditor, {
+    toRequirementLineDraft,
+    toRequirementLineInput,
+    RequirementLineDraft,
+} from '@/components/RequirementLinesEditor';
 import { ArrowLeft, Save, AlertCircle } from 'lucide-react';
 
 export default function EditRFQPage() {
@@ -20,8 +25,16 @@ export default function EditRFQPage() {
         requirements: '',
         deadline: '',
         budget: '',
-        status: 'draft'
+        category: '',
+        department: '',
+        status: 'draft',
+        sealedBids: false,
+        openingApprovalsRequired: '1'
     });
+    const [requirementLines, setRequirementLines] = useState<RequirementLineDraft[]>([]);
+    // Sealed-bid mode and requirement lines are fixed once vendors have quoted
+    const [hasQuotations, setHasQuotations] = useState(false);
+    const [bidsOpened, setBidsOpened] = useState(false);
 
     useEffect(() => {
         fetchRFQ();
@@ -37,8 +50,15 @@ export default function EditRFQPage() {
                 requirements: rfq.requirements,
                 deadline: rfq.deadline.split('T')[0],
                 budget: rfq.budget || '',
-                status: rfq.status
+                category: rfq.category || '',
+                department: rfq.department || '',
+                status: rfq.status,
+                sealedBids: !!rfq.sealed_bids,
+                openingApprovalsRequired: String(rfq.opening_approvals_required || 1)
             });
+            setRequirementLines((rfq.requirementLines || []).map(toRequirementLineDraft));
+            setHasQuotations((rfq.quotations || []).length > 0);
+            setBidsOpened(!!rfq.bids_opened_at);
         } catch (err: any) {
             setError(err.response?.data?.error || 'Failed to load RFQ');
         } finally {
@@ -55,10 +75,14 @@ export default function EditRFQPage() {
             await apiClient.updateRFQ(params.id as string, {
                 ...formData,
                 budget: formData.budget ? parseFloat(formData.budget) : undefined,
+                // Published deadlines only move through a recorded extension
+                deadline: formData.status === 'draft' ? formData.deadline : undefined,
+                openingApprovalsRequired: bidsOpened ? undefined : parseInt(formData.openingApprovalsRequired),
+                requirementLines: hasQuotations ? undefined : requirementLines.map(toRequirementLineInput),
             });
             router.push(`/admin/rfqs/${params.id}`);
         } catch (err: any) {
-            setError(err.response?.data?.error || 'Failed to update RFQ');
+            setError(err.response?.data?.problems?.join('; ') || err.response?.data?.error || 'Failed to update RFQ');
         } finally {
             setSaving(false);
         }
@@ -129,17 +153,22 @@ export default function EditRFQPage() {
                                 />
                             </div>
 
+                            <RequirementLinesEditor
+                                lines={requirementLines}
+                                onChange={setRequirementLines}
+                                disabled={hasQuotations}
+                            />
+
                             <div>
                                 <label className="block text-sm font-medium text-foreground mb-2">
-                                    Requirements <span className="text-destructive">*</span>
+                                    Additional Requirements (Optional)
                                 </label>
                                 <textarea
                                     value={formData.requirements}
                                     onChange={(e) => setFormData({ ...formData, requirements: e.target.value })}
-                                    rows={6}
+                                    rows={4}
                                     className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
-                                    placeholder="List detailed requirements and specifications"
-                                    required
+                                    placeholder="General terms, criteria and anything that applies to every line"
                                 />
                             </div>
 
@@ -152,9 +181,15 @@ export default function EditRFQPage() {
                                         type="date"
                                         value={formData.deadline}
                                         onChange={(e) => setFormData({ ...formData, deadline: e.target.value })}
-                                        className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                        disabled={formData.status !== 'draft'}
+                                        className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-60"
                                         required
                                     />
+                                    {formData.status !== 'draft' && (
+                                        <p className="text-xs text-muted-foreground mt-1">
+                                            Use Extend on the RFQ page to move the deadline of a published RFQ
+                                        </p>
+                                    )}
                                 </div>
 
                                 <div>
@@ -171,6 +206,69 @@ export default function EditRFQPage() {
                                     />
                                 </div>
                             </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-foreground mb-2">
+                                        Category (Optional)
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formData.category}
+                                        onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                                        className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                        placeholder="e.g. IT Hardware"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-foreground mb-2">
+                                        Department (Optional)
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formData.department}
+                                        onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                                        className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                        placeholder="e.g. Finance"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <label className={`flex items-start gap-3 p-4 bg-secondary rounded-lg ${hasQuotations ? 'opacity-60' : 'cursor-pointer'}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.sealedBids}
+                                        disabled={hasQuotations}
+                                        onChange={(e) => setFormData({ ...formData, sealedBids: e.target.checked })}
+                                        className="mt-1"
+                                    />
+                                    <span>
+                                        <span className="block text-sm font-medium text-foreground">Sealed bids</span>
+                                        <span className="block text-xs text-muted-foreground">
+                                            {hasQuotations
+                                                ? 'Cannot be changed once quotations have been received'
+                                                : 'Quotation amounts stay encrypted until the deadline has passed and the bids are opened'}
+                                        </span>
+                                    </span>
+                                </label>
+                                {formData.sealedBids && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-foreground mb-2">
+                                            Admins Required to Open Bids
+                                        </label>
+                                        <select
+                                            value={formData.openingApprovalsRequired}
+                                            disabled={bidsOpened}
+                                            onChange={(e) => setFormData({ ...formData, openingApprovalsRequired: e.target.value })}
+                                            className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-60"
+                                        >
+                                            <option value="1">One admin</option>
+                                            <option value="2">Two admins</option>
+                                        </select>
+                                    </div>
+                                )}
+                            </div>
                         </div>
 
                         <div className="flex justify-end gap-4">
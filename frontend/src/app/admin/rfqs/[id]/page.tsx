@@ -6,6 +6,9 @@ import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
+import RequirementLinesTable from '@/components/RequirementLinesTable';
+import BidOpeningPanel from '@/components/BidOpeningPanel';
+import { parseTimestamp } from '@/lib/purchase-orders';
 import {
     ArrowLeft,
     Calendar,
@@ -14,7 +17,13 @@ import {
     Edit,
     Trash2,
     CheckCircle,
-    AlertCircle
+    AlertCircle,
+    Award,
+    Lock,
+    Clock,
+    CalendarPlus,
+    Table,
+    BarChart3
 } from 'lucide-react';
 
 export default function RFQDetailPage() {
@@ -24,6 +33,9 @@ export default function RFQDetailPage() {
     const [quotations, setQuotations] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
+    const [showExtend, setShowExtend] = useState(false);
+    const [extendForm, setExtendForm] = useState({ deadline: '', reason: '' });
+    const [extending, setExtending] = useState(false);
 
     useEffect(() => {
         fetchRFQDetails();
@@ -65,6 +77,38 @@ export default function RFQDetailPage() {
         }
     };
 
+    const handleAward = async (quote: any) => {
+        if (!confirm(`Award this RFQ to ${quote.vendor_name} (Quote #${quote.quote_number})? All other quotations will be closed.`)) return;
+
+        try {
+            const response = await apiClient.awardRFQ(params.id as string, { quotationId: quote.id });
+            alert(`Purchase order ${response.data.purchaseOrder.poNumber} issued`);
+            fetchRFQDetails();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to award RFQ');
+        }
+    };
+
+    const handleExtend = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            setExtending(true);
+            const { data } = await apiClient.extendRFQDeadline(params.id as string, extendForm);
+            alert(`${data.message}; ${data.notifiedVendors} vendor(s) notified`);
+            setShowExtend(false);
+            setExtendForm({ deadline: '', reason: '' });
+            fetchRFQDetails();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to extend deadline');
+        } finally {
+            setExtending(false);
+        }
+    };
+
+    const canAward = rfq && ['published', 'closed'].includes(rfq.status);
+    const canExtend = rfq && ['published', 'closed'].includes(rfq.status) && !rfq.bids_opened_at;
+
     if (loading) {
         return (
             <ProtectedRoute allowedRoles={['admin']}>
@@ -115,7 +159,7 @@ export default function RFQDetailPage() {
                             <div className="flex items-center gap-3 mb-2">
                                 <h1 className="text-3xl font-bold text-foreground">{rfq.title}</h1>
                                 <span
-                                    className={`px-3 py-1 rounded-full text-xs font-medium ${rfq.status === 'published'
+                                    className={`px-3 py-1 rounded-full text-xs font-medium ${['published', 'awarded'].includes(rfq.status)
                                         ? 'bg-primary text-primary-foreground'
                                         : rfq.status === 'draft'
                                             ? 'bg-secondary text-foreground'
@@ -165,47 +209,86 @@ export default function RFQDetailPage() {
                             </div>
 
                             <div className="bg-card rounded-xl p-6 border border-border">
-                                <h2 className="text-xl font-bold text-foreground mb-4">Requirements</h2>
-                                <p className="text-muted-foreground whitespace-pre-wrap">{rfq.requirements}</p>
+                                <h2 className="text-xl font-bold text-foreground mb-4">Requirement Lines</h2>
+                                <RequirementLinesTable lines={rfq.requirementLines || []} />
                             </div>
 
+                            {rfq.requirements?.length > 0 && (
+                                <div className="bg-card rounded-xl p-6 border border-border">
+                                    <h2 className="text-xl font-bold text-foreground mb-4">Additional Requirements</h2>
+                                    <p className="text-muted-foreground whitespace-pre-wrap">{rfq.requirements}</p>
+                                </div>
+                            )}
+
+                            {!!rfq.sealed_bids && <BidOpeningPanel rfqId={params.id as string} onOpened={fetchRFQDetails} />}
+
                             {/* Quotations */}
                             <div className="bg-card rounded-xl p-6 border border-border">
-                                <h2 className="text-xl font-bold text-foreground mb-4">
-                                    Received Quotations ({quotations.length})
-                                </h2>
+                                <div className="flex justify-between items-center mb-4">
+                                    <h2 className="text-xl font-bold text-foreground">Received Quotations ({quotations.length})</h2>
+                                    <div className="flex gap-2">
+                                        <Link
+                                            href={`/admin/quotations/evaluation?rfqId=${params.id}`}
+                                            className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                        >
+                                            <BarChart3 className="w-4 h-4" />
+                                            Evaluation
+                                        </Link>
+                                        {rfq.requirementLines?.length > 0 && quotations.length > 0 && (
+                                            <Link
+                                                href={`/admin/rfqs/${params.id}/tabulation`}
+                                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                            >
+                                                <Table className="w-4 h-4" />
+                                                Bid Tabulation
+                                            </Link>
+                                        )}
+                                    </div>
+                                </div>
                                 {quotations.length === 0 ? (
                                     <p className="text-muted-foreground text-center py-8">No quotations received yet</p>
                                 ) : (
                                     <div className="space-y-3">
                                         {quotations.map((quote) => (
-                                            <Link
-                                                key={quote.id}
-                                                href={`/admin/quotations/${quote.id}`}
-                                                className="block p-4 bg-secondary/30 hover:bg-secondary/50 rounded-lg transition-all"
-                                            >
-                                                <div className="flex justify-between items-start">
-                                                    <div>
-                                                        <p className="text-foreground font-semibold">Quote #{quote.quote_number}</p>
-                                                        <p className="text-muted-foreground text-sm">Vendor: {quote.vendor_name}</p>
-                                                    </div>
-                                                    <div className="text-right">
-                                                        <p className="text-foreground font-semibold">
-                                                            {quote.currency} ${quote.total_amount?.toLocaleString()}
-                                                        </p>
-                                                        <span
-                                                            className={`inline-block px-2 py-1 rounded text-xs font-medium ${quote.status === 'approved'
-                                                                ? 'bg-primary text-primary-foreground'
-                                                                : quote.status === 'rejected'
-                                                                    ? 'bg-destructive/10 text-destructive'
-                                                                    : 'bg-secondary text-foreground'
-                                                                }`}
-                                                        >
-                                                            {quote.status}
-                                                        </span>
+                                            <div key={quote.id} className="flex items-stretch gap-3">
+                                                <Link
+                                                    href={`/admin/quotations/${quote.id}`}
+                                                    className="flex-1 block p-4 bg-secondary/30 hover:bg-secondary/50 rounded-lg transition-all"
+                                                >
+                                                    <div className="flex justify-between items-start">
+                                                        <div>
+                                                            <p className="text-foreground font-semibold">Quote #{quote.quote_number}</p>
+                                                            <p className="text-muted-foreground text-sm">Vendor: {quote.vendor_name}</p>
+                                                        </div>
+                                                        <div className="text-right">
+                                                            <p className="text-foreground font-semibold">
+                                                                {quote.sealed
+                                                                    ? 'Sealed'
+                                                                    : `${quote.currency} $${quote.total_amount?.toLocaleString()}`}
+                                                            </p>
+                                                            <span
+                                                                className={`inline-block px-2 py-1 rounded text-xs font-medium ${['approved', 'awarded'].includes(quote.status)
+                                                                    ? 'bg-primary text-primary-foreground'
+                                                                    : quote.status === 'rejected'
+                                                                        ? 'bg-destructive/10 text-destructive'
+                                                                        : 'bg-secondary text-foreground'
+                                                                    }`}
+                                                            >
+                                                                {quote.status}
+                                                            </span>
+                                                        </div>
                                                     </div>
-                                                </div>
-                                            </Link>
+                                                </Link>
+                                                {canAward && quote.status === 'approved' && (
+                                                    <button
+                                                        onClick={() => handleAward(quote)}
+                                                        className="flex items-center gap-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all"
+                                                    >
+                                                        <Award className="w-4 h-4" />
+                                                        Award
+                                                    </button>
+                                                )}
+                                            </div>
                                         ))}
                                     </div>
                                 )}
@@ -231,6 +314,30 @@ export default function RFQDetailPage() {
                                         </p>
                                     </div>
 
+                                    {!!rfq.sealed_bids && (
+                                        <div>
+                                            <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                                <Lock className="w-4 h-4" />
+                                                <span className="text-sm">Sealed Bids</span>
+                                            </div>
+                                            <p className="text-foreground">
+                                                {rfq.bids_opened_at
+                                                    ? 'Opened'
+                                                    : `Opened by ${rfq.opening_approvals_required === 2 ? 'two admins' : 'one admin'} after the deadline`}
+                                            </p>
+                                        </div>
+                                    )}
+
+                                    {rfq.closed_at && (
+                                        <div>
+                                            <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                                                <Clock className="w-4 h-4" />
+                                                <span className="text-sm">Closed</span>
+                                            </div>
+                                            <p className="text-foreground">{parseTimestamp(rfq.closed_at).toLocaleString()}</p>
+                                        </div>
+                                    )}
+
                                     {rfq.budget && (
                                         <div>
                                             <div className="flex items-center gap-2 text-muted-foreground mb-1">
@@ -262,6 +369,77 @@ export default function RFQDetailPage() {
                                     </div>
                                 </div>
                             </div>
+
+                            {(canExtend || rfq.deadlineExtensions?.length > 0) && (
+                                <div className="bg-card rounded-xl p-6 border border-border">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-bold text-foreground">Deadline Extensions</h3>
+                                        {canExtend && !showExtend && (
+                                            <button
+                                                onClick={() => setShowExtend(true)}
+                                                className="flex items-center gap-2 px-3 py-1.5 bg-secondary hover:bg-secondary/80 text-foreground text-sm rounded-lg transition-all"
+                                            >
+                                                <CalendarPlus className="w-4 h-4" />
+                                                Extend
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    {showExtend && (
+                                        <form onSubmit={handleExtend} className="space-y-3 mb-4">
+                                            <input
+                                                type="date"
+                                                value={extendForm.deadline}
+                                                onChange={(e) => setExtendForm({ ...extendForm, deadline: e.target.value })}
+                                                className="w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                                required
+                                            />
+                                            <textarea
+                                                value={extendForm.reason}
+                                                onChange={(e) => setExtendForm({ ...extendForm, reason: e.target.value })}
+                                                rows={2}
+                                                className="w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                                placeholder="Reason (sent to all vendors)"
+                                                required
+                                            />
+                                            <div className="flex gap-2">
+                                                <button
+                                                    type="submit"
+                                                    disabled={extending}
+                                                    className="flex-1 px-3 py-2 bg-primary hover:bg-primary/90 text-primary-foreground text-sm rounded-lg transition-all disabled:opacity-50"
+                                                >
+                                                    {extending ? 'Extending...' : 'Extend Deadline'}
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setShowExtend(false)}
+                                                    className="px-3 py-2 bg-secondary hover:bg-secondary/80 text-foreground text-sm rounded-lg transition-all"
+                                                >
+                                                    Cancel
+                                                </button>
+                                            </div>
+                                        </form>
+                                    )}
+
+                                    {rfq.deadlineExtensions?.length > 0 ? (
+                                        <ul className="space-y-3">
+                                            {rfq.deadlineExtensions.map((extension: any) => (
+                                                <li key={extension.id} className="text-sm">
+                                                    <p className="text-foreground">
+                                                        {extension.previous_deadline} → {extension.new_deadline}
+                                                    </p>
+                                                    <p className="text-muted-foreground">{extension.reason}</p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {extension.extended_by_name} · {parseTimestamp(extension.extended_at).toLocaleString()}
+                                                    </p>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        !showExtend && <p className="text-sm text-muted-foreground">The deadline has not been extended</p>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,282 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { ArrowLeft, AlertCircle, Award, TrendingDown } from 'lucide-react';
+
+export default function BidTabulationPage() {
+    const params = useParams();
+    const [rfq, setRfq] = useState<any>(null);
+    const [tabulation, setTabulation] = useState<any>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    // Winning quotation per requirement line, by line number
+    const [selection, setSelection] = useState<Record<number, string>>({});
+    const [awarding, setAwarding] = useState(false);
+
+    useEffect(() => {
+        fetchTabulation();
+    }, [params.id]);
+
+    const fetchTabulation = async () => {
+        try {
+            const [rfqRes, tabulationRes] = await Promise.all([
+                apiClient.getRFQById(params.id as string),
+                apiClient.getBidTabulation(params.id as string),
+            ]);
+
+            const result = tabulationRes.data.tabulation;
+            setRfq(rfqRes.data.rfq);
+            setTabulation(result);
+
+            // Preselect the cheapest bid wherever its quotation can be awarded
+            const approved = result.vendors
+                .filter((vendor: any) => vendor.status === 'approved')
+                .map((vendor: any) => vendor.quotationId);
+            const initial: Record<number, string> = {};
+            for (const line of result.lines) {
+                if (line.cheapest && approved.includes(line.cheapest.quotationId)) {
+                    initial[line.line_number] = String(line.cheapest.quotationId);
+                }
+            }
+            setSelection(initial);
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to load bid tabulation');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleAward = async () => {
+        const lines = Object.entries(selection)
+            .filter(([, quotationId]) => quotationId)
+            .map(([lineNumber, quotationId]) => ({ lineNumber: Number(lineNumber), quotationId: Number(quotationId) }));
+        const vendorCount = new Set(lines.map((line) => line.quotationId)).size;
+
+        if (!confirm(`Award ${lines.length} line(s) to ${vendorCount} vendor(s)? All other quotations will be closed.`)) return;
+
+        try {
+            setAwarding(true);
+            const { data } = await apiClient.awardRFQ(params.id as string, { lines });
+            alert(`Purchase order(s) ${data.purchaseOrders.map((po: any) => po.poNumber).join(', ')} issued`);
+            fetchTabulation();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to award RFQ');
+        } finally {
+            setAwarding(false);
+        }
+    };
+
+    const money = (amount: number | null | undefined) =>
+        amount != null ? amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '—';
+
+    const canAward = rfq && ['published', 'closed'].includes(rfq.status);
+    const approvedIds = tabulation?.vendors.filter((vendor: any) => vendor.status === 'approved').map((vendor: any) => vendor.quotationId) || [];
+    const selectedTotal = tabulation
+        ? tabulation.lines.reduce((sum: number, line: any) => {
+            const bid = line.bids.find((entry: any) => String(entry.quotationId) === selection[line.line_number]);
+            return sum + (bid?.total || 0);
+        }, 0)
+        : 0;
+
+    if (loading) {
+        return (
+            <ProtectedRoute allowedRoles={['admin']}>
+                <DashboardLayout>
+                    <div className="flex justify-center items-center min-h-[400px]">
+                        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+                    </div>
+                </DashboardLayout>
+            </ProtectedRoute>
+        );
+    }
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div>
+                        <Link
+                            href={`/admin/rfqs/${params.id}`}
+                            className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Back to RFQ
+                        </Link>
+                        <h1 className="text-3xl font-bold text-foreground mb-2">Bid Tabulation</h1>
+                        <p className="text-muted-foreground">
+                            {rfq?.title} · each vendor&apos;s price per requirement line, cheapest per line highlighted
+                        </p>
+                    </div>
+
+                    {error && (
+                        <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                            <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                            <p className="text-sm text-destructive">{error}</p>
+                        </div>
+                    )}
+
+                    {tabulation?.mixedCurrencies && (
+                        <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                            <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                            <p className="text-sm text-destructive">
+                                Quotations use different currencies; prices are compared as quoted, without conversion.
+                            </p>
+                        </div>
+                    )}
+
+                    {tabulation && (
+                        <>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div className="bg-card rounded-xl p-6 border border-border">
+                                    <p className="text-sm text-muted-foreground">Requirement Lines</p>
+                                    <p className="text-2xl font-bold text-foreground">{tabulation.lines.length}</p>
+                                </div>
+                                <div className="bg-card rounded-xl p-6 border border-border">
+                                    <p className="text-sm text-muted-foreground">Quotations Compared</p>
+                                    <p className="text-2xl font-bold text-foreground">{tabulation.vendors.length}</p>
+                                </div>
+                                <div className="bg-card rounded-xl p-6 border border-border">
+                                    <div className="flex items-center gap-2 text-muted-foreground">
+                                        <TrendingDown className="w-4 h-4" />
+                                        <p className="text-sm">Cheapest Per Line, Combined</p>
+                                    </div>
+                                    <p className="text-2xl font-bold text-foreground">${money(tabulation.cheapestTotal)}</p>
+                                </div>
+                            </div>
+
+                            <div className="bg-card rounded-xl p-6 border border-border overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b border-border align-bottom">
+                                            <th className="text-left py-3 pr-4 text-muted-foreground font-medium">Requirement Line</th>
+                                            {tabulation.vendors.map((vendor: any) => (
+                                                <th key={vendor.quotationId} className="text-right py-3 px-3 text-muted-foreground font-medium">
+                                                    <Link href={`/admin/quotations/${vendor.quotationId}`} className="text-foreground hover:underline">
+                                                        {vendor.vendorName}
+                                                    </Link>
+                                                    <p className="text-xs font-normal">
+                                                        {vendor.quoteNumber} · {vendor.status}
+                                                    </p>
+                                                </th>
+                                            ))}
+                                            <th className="text-left py-3 pl-4 text-muted-foreground font-medium">Award</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {tabulation.lines.map((line: any) => (
+                                            <tr key={line.id} className="border-b border-border/50 align-top">
+                                                <td className="py-3 pr-4 text-foreground">
+                                                    <span className="text-muted-foreground">{line.line_number}.</span> {line.item}
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {line.quantity} {line.unit_of_measure}
+                                                        {line.mandatory ? '' : ' · optional'}
+                                                    </p>
+                                                </td>
+                                                {tabulation.vendors.map((vendor: any) => {
+                                                    const bid = line.bids.find((entry: any) => entry.quotationId === vendor.quotationId);
+                                                    const cheapest = line.cheapest?.quotationId === vendor.quotationId;
+
+                                                    return (
+                                                        <td
+                                                            key={vendor.quotationId}
+                                                            className={`py-3 px-3 text-right ${cheapest ? 'bg-primary/10' : ''}`}
+                                                        >
+                                                            {!bid ? (
+                                                                <span className="text-muted-foreground">—</span>
+                                                            ) : bid.noBid ? (
+                                                                <span className="text-muted-foreground italic">No bid</span>
+                                                            ) : (
+                                                                <>
+                                                                    <p className={`font-semibold ${cheapest ? 'text-primary' : 'text-foreground'}`}>
+                                                                        {bid.currency} ${money(bid.total)}
+                                                                    </p>
+                                                                    <p className="text-xs text-muted-foreground">
+                                                                        ${money(bid.unitPrice)} / unit
+                                                                        {bid.shortfall && ` · only ${bid.quantity}`}
+                                                                    </p>
+                                                                </>
+                                                            )}
+                                                        </td>
+                                                    );
+                                                })}
+                                                <td className="py-3 pl-4">
+                                                    {line.award ? (
+                                                        <span className="inline-flex items-center gap-1 text-foreground">
+                                                            <Award className="w-4 h-4 text-primary" />
+                                                            {line.award.vendorName}
+                                                        </span>
+                                                    ) : canAward ? (
+                                                        <select
+                                                            value={selection[line.line_number] || ''}
+                                                            onChange={(e) => setSelection({ ...selection, [line.line_number]: e.target.value })}
+                                                            className="w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none"
+                                                        >
+                                                            <option value="">{line.mandatory ? 'Select vendor...' : 'Do not award'}</option>
+                                                            {line.bids
+                                                                .filter((bid: any) => !bid.noBid && approvedIds.includes(bid.quotationId))
+                                                                .map((bid: any) => (
+                                                                    <option key={bid.quotationId} value={bid.quotationId}>
+                                                                        {bid.vendorName}
+                                                                    </option>
+                                                                ))}
+                                                        </select>
+                                                    ) : (
+                                                        <span className="text-muted-foreground">—</span>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                        <tr>
+                                            <td className="py-4 pr-4 text-muted-foreground font-semibold">Quotation Total</td>
+                                            {tabulation.vendors.map((vendor: any) => (
+                                                <td key={vendor.quotationId} className="py-4 px-3 text-right">
+                                                    <p className="text-foreground font-bold">
+                                                        {vendor.currency} ${money(vendor.totalAmount)}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {vendor.linesQuoted} quoted · {vendor.linesNoBid} no bid
+                                                    </p>
+                                                    {vendor.missingMandatory.length > 0 && (
+                                                        <p className="text-xs text-destructive">
+                                                            Missing mandatory line(s) {vendor.missingMandatory.join(', ')}
+                                                        </p>
+                                                    )}
+                                                </td>
+                                            ))}
+                                            <td className="py-4 pl-4 text-foreground font-bold">
+                                                {canAward && `$${money(selectedTotal)}`}
+                                            </td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {canAward && (
+                                <div className="flex justify-between items-center gap-4">
+                                    <p className="text-sm text-muted-foreground">
+                                        Only approved quotations can be awarded. Each winning vendor receives one purchase order
+                                        for the lines awarded to them.
+                                    </p>
+                                    <button
+                                        onClick={handleAward}
+                                        disabled={awarding || Object.values(selection).every((value) => !value)}
+                                        className="flex items-center gap-2 px-6 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg shadow-sm transition-all disabled:opacity-50"
+                                    >
+                                        <Award className="w-4 h-4" />
+                                        {awarding ? 'Awarding...' : 'Award Selected Lines'}
+                                    </button>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
@@ -5,6 +5,11 @@ import { useRouter } from 'next/navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
+import RequirementLinesEditor, {
+    emptyRequirementLine,
+    toRequirementLineInput,
+    RequirementLineDraft,
+} from '@/components/RequirementLinesEditor';
 import { Save, X, AlertCircle } from 'lucide-react';
 
 export default function CreateRFQPage() {
@@ -17,7 +22,12 @@ export default function CreateRFQPage() {
         requirements: '',
         deadline: '',
         budget: '',
+        category: '',
+        department: '',
+        sealedBids: false,
+        openingApprovalsRequired: '1',
     });
+    const [requirementLines, setRequirementLines] = useState<RequirementLineDraft[]>([emptyRequirementLine()]);
 
     const handleSubmit = async (e: React.FormEvent, publish = false) => {
         e.preventDefault();
@@ -28,6 +38,8 @@ export default function CreateRFQPage() {
             const { data } = await apiClient.createRFQ({
                 ...formData,
                 budget: formData.budget ? parseFloat(formData.budget) : undefined,
+                openingApprovalsRequired: parseInt(formData.openingApprovalsRequired),
+                requirementLines: requirementLines.map(toRequirementLineInput),
                 status: publish ? 'published' : 'draft',
             });
 
@@ -37,7 +49,7 @@ export default function CreateRFQPage() {
 
             router.push('/admin/rfqs');
         } catch (err: any) {
-            setError(err.response?.data?.error || 'Failed to create RFQ');
+            setError(err.response?.data?.problems?.join('; ') || err.response?.data?.error || 'Failed to create RFQ');
         } finally {
             setLoading(false);
         }
@@ -92,18 +104,20 @@ export default function CreateRFQPage() {
                             />
                         </div>
 
+                        {/* Requirement lines - what vendors quote, line by line */}
+                        <RequirementLinesEditor lines={requirementLines} onChange={setRequirementLines} />
+
                         {/* Requirements */}
                         <div>
                             <label className="block text-sm font-medium text-foreground mb-2">
-                                Requirements <span className="text-destructive">*</span>
+                                Additional Requirements (Optional)
                             </label>
                             <textarea
                                 value={formData.requirements}
                                 onChange={(e) => setFormData({ ...formData, requirements: e.target.value })}
-                                rows={6}
+                                rows={4}
                                 className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
-                                placeholder="List all specific requirements, specifications, and criteria..."
-                                required
+                                placeholder="General terms, criteria and anything that applies to every line..."
                             />
                         </div>
 
@@ -137,6 +151,67 @@ export default function CreateRFQPage() {
                             </div>
                         </div>
 
+                        {/* Category & Department - used to select the approval policy */}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div>
+                                <label className="block text-sm font-medium text-foreground mb-2">
+                                    Category (Optional)
+                                </label>
+                                <input
+                                    type="text"
+                                    value={formData.category}
+                                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                                    className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                    placeholder="e.g. IT Hardware"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-foreground mb-2">
+                                    Department (Optional)
+                                </label>
+                                <input
+                                    type="text"
+                                    value={formData.department}
+                                    onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                                    className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                    placeholder="e.g. Finance"
+                                />
+                            </div>
+                        </div>
+
+                        {/* Sealed bids - amounts stay encrypted until the deadline and a bid opening */}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <label className="flex items-start gap-3 p-4 bg-secondary rounded-lg cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.sealedBids}
+                                    onChange={(e) => setFormData({ ...formData, sealedBids: e.target.checked })}
+                                    className="mt-1"
+                                />
+                                <span>
+                                    <span className="block text-sm font-medium text-foreground">Sealed bids</span>
+                                    <span className="block text-xs text-muted-foreground">
+                                        Quotation amounts stay encrypted until the deadline has passed and the bids are opened
+                                    </span>
+                                </span>
+                            </label>
+                            {formData.sealedBids && (
+                                <div>
+                                    <label className="block text-sm font-medium text-foreground mb-2">
+                                        Admins Required to Open Bids
+                                    </label>
+                                    <select
+                                        value={formData.openingApprovalsRequired}
+                                        onChange={(e) => setFormData({ ...formData, openingApprovalsRequired: e.target.value })}
+                                        className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                    >
+                                        <option value="1">One admin</option>
+                                        <option value="2">Two admins</option>
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+
                         {/* Actions */}
                         <div className="flex justify-end gap-4 pt-4">
                             <button
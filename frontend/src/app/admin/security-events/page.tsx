@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { parseTimestamp } from '@/lib/purchase-orders';
+import { ShieldAlert, Radar, ChevronLeft, ChevronRight } from 'lucide-react';
+
+const EVENT_TYPES = [
+    'failed_login',
+    'account_locked',
+    'password_changed',
+    'mfa_enabled',
+    'mfa_disabled',
+    'suspicious_activity',
+    'brute_force_attempt'
+];
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+const PAGE_SIZE = 25;
+
+export default function AdminSecurityEventsPage() {
+    const [events, setEvents] = useState<any[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [typeFilter, setTypeFilter] = useState('all');
+    const [severityFilter, setSeverityFilter] = useState('all');
+    const [stats, setStats] = useState<any>(null);
+    const [loading, setLoading] = useState(true);
+    const [detecting, setDetecting] = useState(false);
+
+    useEffect(() => {
+        fetchStats();
+    }, []);
+
+    useEffect(() => {
+        fetchEvents();
+    }, [page, typeFilter, severityFilter]);
+
+    const fetchEvents = async () => {
+        try {
+            setLoading(true);
+            const { data } = await apiClient.getSecurityEvents({
+                event_type: typeFilter === 'all' ? undefined : typeFilter,
+                severity: severityFilter === 'all' ? undefined : severityFilter,
+                page,
+                limit: PAGE_SIZE,
+            });
+            setEvents(data.events || []);
+            setTotal(data.pagination?.total || 0);
+        } catch (error) {
+            console.error('Error fetching security events:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchStats = async () => {
+        try {
+            const { data } = await apiClient.getSecurityEventStats({ bucket: 'hour' });
+            setStats(data);
+        } catch (error) {
+            console.error('Error fetching security event stats:', error);
+        }
+    };
+
+    const handleRunDetectors = async () => {
+        try {
+            setDetecting(true);
+            const { data } = await apiClient.runSecurityDetectors();
+            alert(data.message);
+            await Promise.all([fetchEvents(), fetchStats()]);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to run detectors');
+        } finally {
+            setDetecting(false);
+        }
+    };
+
+    const getSeverityColor = (severity: string) => {
+        switch (severity) {
+            case 'critical':
+            case 'high':
+                return 'bg-destructive/10 text-destructive';
+            case 'medium':
+                return 'bg-secondary text-foreground border border-primary/20';
+            default:
+                return 'bg-secondary text-muted-foreground';
+        }
+    };
+
+    // Hourly totals across types and severities
+    const hourly = (stats?.buckets || []).reduce((totals: Record<string, number>, row: any) => {
+        totals[row.bucket] = (totals[row.bucket] || 0) + row.count;
+        return totals;
+    }, {});
+    const peak = Math.max(1, ...Object.values(hourly as Record<string, number>));
+    const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    const selectClassName =
+        'px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h1 className="text-3xl font-bold text-foreground mb-2">Security Events</h1>
+                            <p className="text-muted-foreground">Failed logins, lockouts, rate-limit hits and detector alerts</p>
+                        </div>
+                        <button
+                            onClick={handleRunDetectors}
+                            disabled={detecting}
+                            className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                        >
+                            <Radar className="w-4 h-4" />
+                            {detecting ? 'Running...' : 'Run Detectors'}
+                        </button>
+                    </div>
+
+                    {/* Last 24 hours */}
+                    {stats && (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                            <div className="bg-card rounded-xl p-6 border border-border lg:col-span-2">
+                                <h2 className="text-lg font-semibold text-foreground mb-4">Last 24 Hours</h2>
+                                {Object.keys(hourly).length === 0 ? (
+                                    <p className="text-muted-foreground">No events</p>
+                                ) : (
+                                    <div className="flex items-end gap-1 h-32">
+                                        {Object.entries(hourly as Record<string, number>).map(([bucket, count]) => (
+                                            <div
+                                                key={bucket}
+                                                className="flex-1 bg-primary rounded-t"
+                                                style={{ height: `${(count / peak) * 100}%` }}
+                                                title={`${parseTimestamp(bucket).toLocaleString()}: ${count}`}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+                                <div>
+                                    <h2 className="text-lg font-semibold text-foreground mb-2">By Type</h2>
+                                    {stats.byType.map((row: any) => (
+                                        <div key={row.event_type} className="flex justify-between text-sm">
+                                            <span className="text-muted-foreground">{row.event_type.replace(/_/g, ' ')}</span>
+                                            <span className="text-foreground font-medium">{row.count}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div>
+                                    <h2 className="text-lg font-semibold text-foreground mb-2">By Severity</h2>
+                                    {stats.bySeverity.map((row: any) => (
+                                        <div key={row.severity} className="flex justify-between text-sm">
+                                            <span className="text-muted-foreground capitalize">{row.severity}</span>
+                                            <span className="text-foreground font-medium">{row.count}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Filters */}
+                    <div className="flex gap-4">
+                        <select
+                            value={typeFilter}
+                            onChange={(e) => { setTypeFilter(e.target.value); setPage(1); }}
+                            className={selectClassName}
+                        >
+                            <option value="all">All Types</option>
+                            {EVENT_TYPES.map((type) => (
+                                <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={severityFilter}
+                            onChange={(e) => { setSeverityFilter(e.target.value); setPage(1); }}
+                            className={selectClassName}
+                        >
+                            <option value="all">All Severities</option>
+                            {SEVERITIES.map((severity) => (
+                                <option key={severity} value={severity} className="capitalize">{severity}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="bg-card rounded-xl border border-border">
+                        {loading ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                            </div>
+                        ) : events.length === 0 ? (
+                            <div className="text-center py-12">
+                                <ShieldAlert className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                                <p className="text-muted-foreground">No security events found</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border">
+                                {events.map((event) => (
+                                    <div key={event.id} className="p-4 flex justify-between items-start gap-4">
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <span className="font-medium text-foreground">{event.event_type.replace(/_/g, ' ')}</span>
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getSeverityColor(event.severity)}`}>
+                                                    {event.severity}
+                                                </span>
+                                                {event.detector && (
+                                                    <span className="px-2 py-0.5 rounded-full text-xs bg-primary text-primary-foreground">
+                                                        {event.detector.replace(/_/g, ' ')}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <p className="text-sm text-foreground break-words">{event.details}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {event.user_email || 'Unknown user'} · {event.ip_address || 'Unknown IP'}
+                                            </p>
+                                        </div>
+                                        <span className="text-sm text-muted-foreground whitespace-nowrap">
+                                            {parseTimestamp(event.created_at).toLocaleString()}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Pagination */}
+                    <div className="flex justify-between items-center">
+                        <p className="text-sm text-muted-foreground">
+                            {total} event(s) · page {page} of {totalPages}
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setPage(page - 1)}
+                                disabled={page <= 1}
+                                className="p-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => setPage(page + 1)}
+                                disabled={page >= totalPages}
+                                className="p-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <ChevronRight className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
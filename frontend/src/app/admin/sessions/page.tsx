@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { parseTimestamp } from '@/lib/purchase-orders';
+import { Laptop, LogOut } from 'lucide-react';
+
+export default function AdminSessionsPage() {
+    const [sessions, setSessions] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+
+    useEffect(() => {
+        fetchSessions();
+    }, []);
+
+    const fetchSessions = async () => {
+        try {
+            const { data } = await apiClient.getAllSessions();
+            setSessions(data.sessions || []);
+        } catch (error) {
+            console.error('Error fetching sessions:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRevokeUser = async (userId: number, userName: string) => {
+        if (!confirm(`Sign ${userName} out of every device?`)) return;
+
+        try {
+            setWorking(true);
+            await apiClient.revokeUserSessions(userId);
+            await fetchSessions();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to sign out the user');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    // Sessions arrive ordered by user
+    const users = sessions.reduce((groups: any[], session) => {
+        const last = groups[groups.length - 1];
+        if (last && last.userId === session.user_id) {
+            last.sessions.push(session);
+        } else {
+            groups.push({
+                userId: session.user_id,
+                name: session.user_name,
+                email: session.user_email,
+                role: session.user_role,
+                sessions: [session]
+            });
+        }
+        return groups;
+    }, []);
+
+    return (
+        <ProtectedRoute allowedRoles={['admin']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div>
+                        <h1 className="text-3xl font-bold text-foreground mb-2">Active Sessions</h1>
+                        <p className="text-muted-foreground">Devices currently signed in, by user</p>
+                    </div>
+
+                    <div className="bg-card rounded-xl border border-border">
+                        {loading ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                            </div>
+                        ) : users.length === 0 ? (
+                            <div className="text-center py-12">
+                                <Laptop className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                                <p className="text-muted-foreground">No active sessions</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border">
+                                {users.map((user: any) => (
+                                    <div key={user.userId} className="p-6">
+                                        <div className="flex justify-between items-start mb-3">
+                                            <div>
+                                                <h3 className="text-lg font-semibold text-foreground">{user.name}</h3>
+                                                <p className="text-sm text-muted-foreground">
+                                                    {user.email} · <span className="capitalize">{user.role}</span>
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => handleRevokeUser(user.userId, user.name)}
+                                                disabled={working}
+                                                className="flex items-center gap-2 px-4 py-2 bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all disabled:opacity-50"
+                                            >
+                                                <LogOut className="w-4 h-4" />
+                                                Sign Out Everywhere
+                                            </button>
+                                        </div>
+                                        <ul className="text-sm space-y-1">
+                                            {user.sessions.map((session: any) => (
+                                                <li key={session.id} className="text-muted-foreground">
+                                                    <span className="text-foreground">{session.device_info}</span> ·{' '}
+                                                    {session.ip_address || 'Unknown IP'} · Last active{' '}
+                                                    {parseTimestamp(session.last_activity).toLocaleString()}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
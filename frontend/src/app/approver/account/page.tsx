@@ -0,0 +1,15 @@
+'use client';
+
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import AccountSecurity from '@/components/AccountSecurity';
+
+export default function ApproverAccountPage() {
+    return (
+        <ProtectedRoute allowedRoles={['approver']}>
+            <DashboardLayout>
+                <AccountSecurity />
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
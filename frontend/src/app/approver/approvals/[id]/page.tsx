@@ -7,6 +7,9 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
 import { useAuthStore } from '@/store/auth.store';
+import { decisionPayload, SigningCredentials } from '@/lib/signing';
+import SigningCredentialsInput from '@/components/SigningCredentialsInput';
+import SensitiveDataPanel from '@/components/SensitiveDataPanel';
 import {
     ArrowLeft,
     FileText,
@@ -15,7 +18,9 @@ import {
     AlertCircle,
     DollarSign,
     Calendar,
-    User
+    User,
+    BarChart3,
+    AlertTriangle
 } from 'lucide-react';
 
 export default function ApprovalDetailPage() {
@@ -26,6 +31,9 @@ export default function ApprovalDetailPage() {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
     const [actionLoading, setActionLoading] = useState(false);
+    const [decision, setDecision] = useState<'approved' | 'rejected' | null>(null);
+    const [comments, setComments] = useState('');
+    const [credentials, setCredentials] = useState<SigningCredentials>({});
 
     useEffect(() => {
         fetchApprovalDetails();
@@ -48,30 +56,29 @@ export default function ApprovalDetailPage() {
         }
     };
 
-    const handleApprove = async () => {
-        const comments = prompt('Add approval comments (optional):') || 'Approved';
-        setActionLoading(true);
-
-        try {
-            await apiClient.approveQuotation(params.id as string, comments);
-            fetchApprovalDetails();
-        } catch (err: any) {
-            alert(err.response?.data?.error || 'Failed to approve');
-        } finally {
-            setActionLoading(false);
-        }
+    const openDecision = (value: 'approved' | 'rejected') => {
+        setDecision(value);
+        setComments('');
+        setCredentials({});
     };
 
-    const handleReject = async () => {
-        const comments = prompt('Please provide a reason for rejection:');
-        if (!comments) return;
+    // An empty approval comment is recorded as 'Approved'; rejections need a reason
+    const decisionComments = decision === 'approved' ? comments || 'Approved' : comments;
 
+    const handleDecision = async (e: React.FormEvent) => {
+        e.preventDefault();
         setActionLoading(true);
+
         try {
-            await apiClient.rejectQuotation(params.id as string, comments);
+            if (decision === 'approved') {
+                await apiClient.approveQuotation(params.id as string, decisionComments, credentials);
+            } else {
+                await apiClient.rejectQuotation(params.id as string, decisionComments, credentials);
+            }
+            setDecision(null);
             fetchApprovalDetails();
         } catch (err: any) {
-            alert(err.response?.data?.error || 'Failed to reject');
+            alert(err.response?.data?.error || `Failed to ${decision === 'approved' ? 'approve' : 'reject'}`);
         } finally {
             setActionLoading(false);
         }
@@ -131,7 +138,11 @@ export default function ApprovalDetailPage() {
                                 <h1 className="text-3xl font-bold text-foreground mb-2">
                                     Approval Review - Level {approval.level}
                                 </h1>
-                                <p className="text-muted-foreground">Quote #{approval.quote_number}</p>
+                                <p className="text-muted-foreground">
+                                    {approval.amendment
+                                        ? `PO #${approval.amendment.po_number} · Amendment #${approval.amendment.amendment_number}`
+                                        : `Quote #${approval.quote_number}`}
+                                </p>
                             </div>
                             <span
                                 className={`px-4 py-2 rounded-lg text-sm font-semibold ${approval.status === 'approved'
@@ -147,10 +158,10 @@ export default function ApprovalDetailPage() {
                     </div>
 
                     {/* Action Buttons */}
-                    {canTakeAction && (
+                    {canTakeAction && !decision && (
                         <div className="flex gap-4">
                             <button
-                                onClick={handleApprove}
+                                onClick={() => openDecision('approved')}
                                 disabled={actionLoading}
                                 className="flex-1 flex items-center justify-center gap-2 px-6 py-4 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg transition-all disabled:opacity-50"
                             >
@@ -158,7 +169,7 @@ export default function ApprovalDetailPage() {
                                 Approve Quotation
                             </button>
                             <button
-                                onClick={handleReject}
+                                onClick={() => openDecision('rejected')}
                                 disabled={actionLoading}
                                 className="flex-1 flex items-center justify-center gap-2 px-6 py-4 bg-destructive/10 hover:bg-destructive/20 text-destructive font-semibold rounded-lg transition-all disabled:opacity-50"
                             >
@@ -168,9 +179,110 @@ export default function ApprovalDetailPage() {
                         </div>
                     )}
 
+                    {/* Signed decision */}
+                    {canTakeAction && decision && (
+                        <form onSubmit={handleDecision} className="bg-card rounded-xl p-6 border border-border space-y-4">
+                            <h2 className="text-xl font-bold text-foreground">
+                                {decision === 'approved' ? 'Approve Quotation' : 'Reject Quotation'}
+                            </h2>
+                            <textarea
+                                value={comments}
+                                onChange={(e) => setComments(e.target.value)}
+                                rows={3}
+                                className="w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                placeholder={decision === 'approved' ? 'Approval comments (optional)' : 'Reason for rejection'}
+                                required={decision === 'rejected'}
+                            />
+                            <SigningCredentialsInput
+                                payload={decisionPayload({
+                                    approvalId: approval.id,
+                                    quotationId: approval.quotation_id,
+                                    amendmentId: approval.amendment_id ?? null,
+                                    decision,
+                                    comments: decisionComments,
+                                })}
+                                value={credentials}
+                                onChange={setCredentials}
+                            />
+                            <div className="flex justify-end gap-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setDecision(null)}
+                                    className="px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={actionLoading}
+                                    className={`px-4 py-2 rounded-lg transition-all disabled:opacity-50 ${
+                                        decision === 'approved'
+                                            ? 'bg-primary hover:bg-primary/90 text-primary-foreground'
+                                            : 'bg-destructive hover:bg-destructive/90 text-destructive-foreground'
+                                    }`}
+                                >
+                                    {actionLoading ? 'Signing...' : decision === 'approved' ? 'Sign & Approve' : 'Sign & Reject'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                         {/* Main Content */}
                         <div className="lg:col-span-2 space-y-6">
+                            {/* Purchase Order Amendment */}
+                            {approval.amendment && (
+                                <div className="bg-card rounded-xl p-6 border border-border">
+                                    <h2 className="text-xl font-bold text-foreground mb-4">
+                                        Purchase Order Amendment #{approval.amendment.amendment_number}
+                                    </h2>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                                        <div className="p-4 bg-secondary/30 rounded-lg">
+                                            <p className="text-muted-foreground text-sm mb-1">Current Total</p>
+                                            <p className="text-xl font-semibold text-foreground">
+                                                ${approval.amendment.current_total_amount?.toLocaleString()}
+                                            </p>
+                                        </div>
+                                        <div className="p-4 bg-secondary/30 rounded-lg">
+                                            <p className="text-muted-foreground text-sm mb-1">Amended Total</p>
+                                            <p className="text-xl font-bold text-foreground">
+                                                ${approval.amendment.total_amount?.toLocaleString()}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <p className="text-muted-foreground text-sm">Reason</p>
+                                    <p className="text-foreground mb-4 whitespace-pre-wrap">{approval.amendment.reason}</p>
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full">
+                                            <thead>
+                                                <tr className="border-b border-border">
+                                                    <th className="text-left py-3 text-muted-foreground font-medium">Line</th>
+                                                    <th className="text-left py-3 text-muted-foreground font-medium">Description</th>
+                                                    <th className="text-right py-3 text-muted-foreground font-medium">Current Qty</th>
+                                                    <th className="text-right py-3 text-muted-foreground font-medium">Amended Qty</th>
+                                                    <th className="text-right py-3 text-muted-foreground font-medium">Unit Price</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {approval.amendment.line_items.map((item: any, index: number) => (
+                                                    <tr key={index} className="border-b border-border">
+                                                        <td className="py-3 text-foreground">{index + 1}</td>
+                                                        <td className="py-3 text-foreground">{item.description}</td>
+                                                        <td className="py-3 text-muted-foreground text-right">
+                                                            {approval.amendment.current_line_items[index]?.quantity ?? '—'}
+                                                        </td>
+                                                        <td className="py-3 text-foreground text-right font-semibold">{item.quantity}</td>
+                                                        <td className="py-3 text-foreground text-right">
+                                                            ${item.unit_price?.toLocaleString()}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* RFQ Information */}
                             <div className="bg-card rounded-xl p-6 border border-border">
                                 <h2 className="text-xl font-bold text-foreground mb-4">RFQ Information</h2>
@@ -192,6 +304,82 @@ export default function ApprovalDetailPage() {
                                 </div>
                             </div>
 
+                            {/* Weighted evaluation: as it stands while open, as frozen with the decision once made */}
+                            {approval.evaluation && (
+                                <div className="bg-card rounded-xl p-6 border border-border">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h2 className="text-xl font-bold text-foreground">Evaluation</h2>
+                                        {quotation?.rfq_id && approval.status === 'pending' && (
+                                            <Link
+                                                href={`/admin/quotations/evaluation?rfqId=${quotation.rfq_id}`}
+                                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                            >
+                                                <BarChart3 className="w-4 h-4" />
+                                                Scoring Matrix
+                                            </Link>
+                                        )}
+                                    </div>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                                        <div className="p-4 bg-secondary/30 rounded-lg">
+                                            <p className="text-muted-foreground text-sm mb-1">Weighted Score</p>
+                                            <p className="text-2xl font-bold text-foreground">
+                                                {approval.evaluation.weightedScore?.toFixed(2)}
+                                            </p>
+                                            {!approval.evaluation.complete && (
+                                                <p className="text-xs text-muted-foreground">Not every criterion has been scored</p>
+                                            )}
+                                        </div>
+                                        <div className="p-4 bg-secondary/30 rounded-lg">
+                                            <p className="text-muted-foreground text-sm mb-1">Rank</p>
+                                            <p className="text-2xl font-bold text-foreground">
+                                                {approval.evaluation.rank} of {approval.evaluation.ranked}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <table className="w-full">
+                                        <thead>
+                                            <tr className="border-b border-border">
+                                                <th className="text-left py-3 text-muted-foreground font-medium">Criterion</th>
+                                                <th className="text-right py-3 text-muted-foreground font-medium">Weight</th>
+                                                <th className="text-right py-3 text-muted-foreground font-medium">Score</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {approval.evaluation.criteria.map((criterion: any) => (
+                                                <tr key={criterion.name} className="border-b border-border">
+                                                    <td className="py-3 text-foreground">
+                                                        {criterion.name}
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {criterion.scoring === 'price'
+                                                                ? 'Scored from price'
+                                                                : `${criterion.evaluations} evaluator score(s)`}
+                                                        </p>
+                                                    </td>
+                                                    <td className="py-3 text-foreground text-right">{criterion.weight}%</td>
+                                                    <td className="py-3 text-foreground text-right">
+                                                        <span className="inline-flex items-center gap-1">
+                                                            {criterion.outliers > 0 && <AlertTriangle className="w-4 h-4 text-destructive" />}
+                                                            {criterion.score != null ? criterion.score.toFixed(2) : '—'}
+                                                        </span>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    {approval.evaluation.outlierCount > 0 && (
+                                        <p className="text-sm text-destructive mt-3">
+                                            Evaluators disagree: {approval.evaluation.outlierCount} score(s) lie more than{' '}
+                                            {approval.evaluation.outlierThreshold} points from the median.
+                                        </p>
+                                    )}
+                                    {approval.status !== 'pending' && approval.status !== 'waiting' && (
+                                        <p className="text-xs text-muted-foreground mt-3">
+                                            Frozen with the decision on {new Date(approval.evaluation.evaluatedAt).toLocaleString()}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Quotation Details */}
                             {quotation && (
                                 <>
@@ -252,6 +440,8 @@ export default function ApprovalDetailPage() {
                                             <p className="text-muted-foreground whitespace-pre-wrap">{quotation.notes}</p>
                                         </div>
                                     )}
+
+                                    <SensitiveDataPanel quotationId={String(quotation.id)} encryption={quotation.encryption} />
                                 </>
                             )}
                         </div>
@@ -267,6 +457,11 @@ export default function ApprovalDetailPage() {
                                             <span className="text-sm">Approver</span>
                                         </div>
                                         <p className="text-foreground font-semibold">{approval.approver_name}</p>
+                                        {approval.acted_by_name && approval.acted_by !== approval.approver_id && (
+                                            <p className="text-muted-foreground text-sm mt-1">
+                                                {approval.status === 'approved' ? 'Approved' : 'Rejected'} by {approval.acted_by_name} on behalf of {approval.approver_name}
+                                            </p>
+                                        )}
                                     </div>
 
                                     <div>
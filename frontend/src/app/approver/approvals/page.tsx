@@ -5,7 +5,7 @@ import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/lib/api-client';
-import { CheckCircle, XCircle, Clock, Eye, Search } from 'lucide-react';
+import { CheckCircle, Clock, Eye, Search } from 'lucide-react';
 
 export default function ApprovalsPage() {
     const [approvals, setApprovals] = useState<any[]>([]);
@@ -30,29 +30,6 @@ export default function ApprovalsPage() {
         }
     };
 
-    const handleApprove = async (approvalId: number) => {
-        if (!confirm('Are you sure you want to approve this quotation?')) return;
-
-        try {
-            await apiClient.approveQuotation(String(approvalId), 'Approved');
-            fetchApprovals();
-        } catch (error: any) {
-            alert(error.response?.data?.error || 'Failed to approve');
-        }
-    };
-
-    const handleReject = async (approvalId: number) => {
-        const comments = prompt('Please provide a reason for rejection:');
-        if (!comments) return;
-
-        try {
-            await apiClient.rejectQuotation(String(approvalId), comments);
-            fetchApprovals();
-        } catch (error: any) {
-            alert(error.response?.data?.error || 'Failed to reject');
-        }
-    };
-
     const filteredApprovals = approvals.filter((approval) => {
         const matchesSearch =
             approval.rfq_title?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -130,6 +107,26 @@ export default function ApprovalsPage() {
                                                     <span className="px-3 py-1 bg-secondary text-foreground text-xs font-medium rounded-full">
                                                         Level {approval.level}
                                                     </span>
+                                                    {approval.amendment_number && (
+                                                        <span className="px-3 py-1 bg-primary/10 text-primary text-xs font-medium rounded-full">
+                                                            PO {approval.po_number} · Amendment #{approval.amendment_number}
+                                                        </span>
+                                                    )}
+                                                    {approval.status === 'pending' && approval.due_at && (
+                                                        <span
+                                                            className={`px-3 py-1 text-xs font-medium rounded-full ${new Date(approval.due_at.replace(' ', 'T') + 'Z') < new Date()
+                                                                ? 'bg-destructive/10 text-destructive'
+                                                                : 'bg-secondary text-foreground'
+                                                                }`}
+                                                        >
+                                                            Due {new Date(approval.due_at.replace(' ', 'T') + 'Z').toLocaleString()}
+                                                        </span>
+                                                    )}
+                                                    {approval.on_behalf_of_name && (
+                                                        <span className="px-3 py-1 bg-secondary text-muted-foreground text-xs font-medium rounded-full">
+                                                            On behalf of {approval.on_behalf_of_name}
+                                                        </span>
+                                                    )}
                                                 </div>
 
                                                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
@@ -150,22 +147,14 @@ export default function ApprovalsPage() {
 
                                             <div className="flex flex-col gap-2 ml-4">
                                                 {approval.status === 'pending' && (
-                                                    <>
-                                                        <button
-                                                            onClick={() => handleApprove(approval.id)}
-                                                            className="flex items-center gap-2 px-4 py-2 bg-primary/10 hover:bg-primary/20 text-primary rounded-lg transition-all"
-                                                        >
-                                                            <CheckCircle className="w-4 h-4" />
-                                                            Approve
-                                                        </button>
-                                                        <button
-                                                            onClick={() => handleReject(approval.id)}
-                                                            className="flex items-center gap-2 px-4 py-2 bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all"
-                                                        >
-                                                            <XCircle className="w-4 h-4" />
-                                                            Reject
-                                                        </button>
-                                                    </>
+                                                    // Decisions are signed with the approver's key on the review page
+                                                    <Link
+                                                        href={`/approver/approvals/${approval.id}`}
+                                                        className="flex items-center gap-2 px-4 py-2 bg-primary/10 hover:bg-primary/20 text-primary rounded-lg transition-all text-center justify-center"
+                                                    >
+                                                        <CheckCircle className="w-4 h-4" />
+                                                        Review &amp; Sign
+                                                    </Link>
                                                 )}
                                                 <Link
                                                     href={`/approver/approvals/${approval.id}`}
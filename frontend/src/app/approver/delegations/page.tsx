@@ -0,0 +1,259 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/store/auth.store';
+import { UserCheck, Plus, XCircle, Calendar } from 'lucide-react';
+
+export default function DelegationsPage() {
+    const { user } = useAuthStore();
+    const [delegations, setDelegations] = useState<any[]>([]);
+    const [candidates, setCandidates] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [formData, setFormData] = useState({
+        delegateId: '',
+        startsAt: '',
+        endsAt: '',
+        reason: '',
+    });
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    const fetchData = async () => {
+        try {
+            setLoading(true);
+            const [delegationsRes, candidatesRes] = await Promise.all([
+                apiClient.getDelegations(),
+                apiClient.getDelegateCandidates(),
+            ]);
+            setDelegations(delegationsRes.data.delegations || []);
+            setCandidates(candidatesRes.data.approvers || []);
+        } catch (error) {
+            console.error('Error fetching delegations:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSaving(true);
+
+        try {
+            await apiClient.createDelegation({
+                delegateId: Number(formData.delegateId),
+                startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : undefined,
+                endsAt: new Date(formData.endsAt).toISOString(),
+                reason: formData.reason || undefined,
+            });
+            setFormData({ delegateId: '', startsAt: '', endsAt: '', reason: '' });
+            fetchData();
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to create delegation');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRevoke = async (delegationId: number) => {
+        if (!confirm('Revoke this delegation? Approvals already signed stay signed.')) return;
+
+        try {
+            await apiClient.revokeDelegation(String(delegationId));
+            fetchData();
+        } catch (error: any) {
+            alert(error.response?.data?.error || 'Failed to revoke delegation');
+        }
+    };
+
+    // Stored as UTC "YYYY-MM-DD HH:MM:SS"
+    const formatDate = (value: string) => new Date(value.replace(' ', 'T') + 'Z').toLocaleString();
+
+    const given = delegations.filter((d) => d.delegator_id === user?.id);
+    const received = delegations.filter((d) => d.delegate_id === user?.id);
+
+    const stateBadge = (state: string) => (
+        <span
+            className={`px-3 py-1 rounded-full text-xs font-medium ${state === 'active'
+                ? 'bg-primary text-primary-foreground'
+                : state === 'scheduled'
+                    ? 'bg-secondary text-foreground'
+                    : 'bg-secondary text-muted-foreground'
+                }`}
+        >
+            {state}
+        </span>
+    );
+
+    return (
+        <ProtectedRoute allowedRoles={['approver']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div>
+                        <h1 className="text-3xl font-bold text-foreground mb-2">Delegations</h1>
+                        <p className="text-muted-foreground">
+                            Name a substitute to sign your approvals while you are out of office
+                        </p>
+                    </div>
+
+                    {/* New Delegation */}
+                    <form onSubmit={handleSubmit} className="bg-card rounded-xl p-6 border border-border space-y-4">
+                        <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+                            <Plus className="w-5 h-5" />
+                            New Delegation
+                        </h2>
+
+                        {error && (
+                            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-foreground mb-2">
+                                    Delegate <span className="text-destructive">*</span>
+                                </label>
+                                <select
+                                    value={formData.delegateId}
+                                    onChange={(e) => setFormData({ ...formData, delegateId: e.target.value })}
+                                    className="w-full px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                    required
+                                >
+                                    <option value="">Select approver</option>
+                                    {candidates.map((candidate) => (
+                                        <option key={candidate.id} value={candidate.id}>
+                                            {candidate.full_name} ({candidate.email})
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-foreground mb-2">From</label>
+                                <input
+                                    type="datetime-local"
+                                    value={formData.startsAt}
+                                    onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                                    className="w-full px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-foreground mb-2">
+                                    Until <span className="text-destructive">*</span>
+                                </label>
+                                <input
+                                    type="datetime-local"
+                                    value={formData.endsAt}
+                                    onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                                    className="w-full px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                    required
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-foreground mb-2">Reason</label>
+                            <input
+                                type="text"
+                                value={formData.reason}
+                                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                                className="w-full px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                                placeholder="e.g. Annual leave"
+                            />
+                        </div>
+
+                        <div className="flex justify-end">
+                            <button
+                                type="submit"
+                                disabled={saving}
+                                className="flex items-center gap-2 px-6 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <UserCheck className="w-4 h-4" />
+                                {saving ? 'Saving...' : 'Delegate'}
+                            </button>
+                        </div>
+                    </form>
+
+                    {loading ? (
+                        <div className="flex justify-center py-12">
+                            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {/* Given */}
+                            <div className="bg-card rounded-xl border border-border">
+                                <h2 className="text-lg font-bold text-foreground p-6 border-b border-border">My Delegations</h2>
+                                {given.length === 0 ? (
+                                    <p className="text-muted-foreground text-center py-8">No delegations</p>
+                                ) : (
+                                    <div className="divide-y divide-border">
+                                        {given.map((delegation) => (
+                                            <div key={delegation.id} className="p-6 flex justify-between items-start gap-4">
+                                                <div>
+                                                    <div className="flex items-center gap-3 mb-2">
+                                                        <p className="text-foreground font-semibold">{delegation.delegate_name}</p>
+                                                        {stateBadge(delegation.state)}
+                                                    </div>
+                                                    <p className="text-sm text-muted-foreground flex items-center gap-2">
+                                                        <Calendar className="w-4 h-4" />
+                                                        {formatDate(delegation.starts_at)} – {formatDate(delegation.ends_at)}
+                                                    </p>
+                                                    {delegation.reason && (
+                                                        <p className="text-sm text-muted-foreground mt-1">{delegation.reason}</p>
+                                                    )}
+                                                </div>
+                                                {(delegation.state === 'active' || delegation.state === 'scheduled') && (
+                                                    <button
+                                                        onClick={() => handleRevoke(delegation.id)}
+                                                        className="flex items-center gap-2 px-4 py-2 bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all"
+                                                    >
+                                                        <XCircle className="w-4 h-4" />
+                                                        Revoke
+                                                    </button>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Received */}
+                            <div className="bg-card rounded-xl border border-border">
+                                <h2 className="text-lg font-bold text-foreground p-6 border-b border-border">Acting On Behalf Of</h2>
+                                {received.length === 0 ? (
+                                    <p className="text-muted-foreground text-center py-8">Nobody has delegated to you</p>
+                                ) : (
+                                    <div className="divide-y divide-border">
+                                        {received.map((delegation) => (
+                                            <div key={delegation.id} className="p-6">
+                                                <div className="flex items-center gap-3 mb-2">
+                                                    <p className="text-foreground font-semibold">{delegation.delegator_name}</p>
+                                                    {stateBadge(delegation.state)}
+                                                </div>
+                                                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                                                    <Calendar className="w-4 h-4" />
+                                                    {formatDate(delegation.starts_at)} – {formatDate(delegation.ends_at)}
+                                                </p>
+                                                {delegation.reason && (
+                                                    <p className="text-sm text-muted-foreground mt-1">{delegation.reason}</p>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import InvoiceDetail from '@/components/InvoiceDetail';
+
+export default function ApproverInvoiceDetailPage() {
+    const params = useParams();
+
+    return (
+        <ProtectedRoute allowedRoles={['approver']}>
+            <DashboardLayout>
+                <InvoiceDetail
+                    id={params.id as string}
+                    backHref="/approver/invoices"
+                    canResolve
+                />
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { apiClient } from '@/lib/api-client';
+import { MATCH_RESULT_LABELS, parseTimestamp } from '@/lib/purchase-orders';
+import { Receipt, Eye } from 'lucide-react';
+
+export default function ApproverInvoicesPage() {
+    const [invoices, setInvoices] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchExceptions();
+    }, []);
+
+    const fetchExceptions = async () => {
+        try {
+            const { data } = await apiClient.getInvoiceExceptions();
+            setInvoices(data.invoices || []);
+        } catch (error) {
+            console.error('Error fetching invoice exceptions:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <ProtectedRoute allowedRoles={['approver']}>
+            <DashboardLayout>
+                <div className="space-y-6">
+                    {/* Header */}
+                    <div>
+                        <h1 className="text-3xl font-bold text-foreground mb-2">Invoice Exceptions</h1>
+                        <p className="text-muted-foreground">Invoices that failed the three-way match, oldest first</p>
+                    </div>
+
+                    <div className="bg-card rounded-xl border border-border">
+                        {loading ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                            </div>
+                        ) : invoices.length === 0 ? (
+                            <div className="text-center py-12">
+                                <Receipt className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                                <p className="text-muted-foreground">No invoices waiting for review</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-border">
+                                {invoices.map((invoice) => (
+                                    <div key={invoice.id} className="p-6 hover:bg-secondary/30 transition-all">
+                                        <div className="flex justify-between items-start">
+                                            <div className="flex-1">
+                                                <div className="flex items-center gap-3 mb-2">
+                                                    <h3 className="text-lg font-semibold text-foreground">Invoice {invoice.invoice_number}</h3>
+                                                    <span className="px-3 py-1 bg-destructive/10 text-destructive text-xs font-medium rounded-full">
+                                                        {MATCH_RESULT_LABELS[invoice.match_result]}
+                                                    </span>
+                                                </div>
+                                                <p className="text-sm text-muted-foreground mb-2">
+                                                    {invoice.vendor_name} · PO #{invoice.po_number} · {invoice.currency} $
+                                                    {invoice.total_amount?.toLocaleString()} · Submitted{' '}
+                                                    {parseTimestamp(invoice.submitted_at).toLocaleDateString()}
+                                                </p>
+                                                <ul className="text-sm text-foreground list-disc list-inside">
+                                                    {invoice.reasons.map((reason: string, index: number) => (
+                                                        <li key={index}>{reason}</li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+
+                                            <Link
+                                                href={`/approver/invoices/${invoice.id}`}
+                                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all ml-4"
+                                            >
+                                                <Eye className="w-4 h-4" />
+                                                Review
+                                            </Link>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </DashboardLayout>
+        </ProtectedRoute>
+    );
+}
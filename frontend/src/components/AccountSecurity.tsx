@@ -0,0 +1,338 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { apiClient } from '@/lib/api-client';
+import DeviceSessions from '@/components/DeviceSessions';
+import SigningKeys from '@/components/SigningKeys';
+import { ShieldCheck, ShieldOff, KeyRound, AlertCircle, CheckCircle, Copy } from 'lucide-react';
+
+/**
+ * Authenticator-app MFA enrollment, signing key and signed-in devices of the current user, shared by the admin, vendor and approver pages
+ */
+export default function AccountSecurity() {
+    const [mfa, setMfa] = useState<{ enabled: boolean; backupCodesRemaining: number } | null>(null);
+    const [setup, setSetup] = useState<{ secret: string; qrCode: string } | null>(null);
+    const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState('');
+    const [password, setPassword] = useState('');
+    const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        fetchStatus();
+    }, []);
+
+    const fetchStatus = async () => {
+        try {
+            const { data } = await apiClient.getMFAStatus();
+            setMfa(data.mfa);
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to load MFA status');
+        }
+    };
+
+    const run = async (work: () => Promise<void>) => {
+        setError('');
+        setMessage('');
+        setLoading(true);
+        try {
+            await work();
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Request failed');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleStartSetup = () =>
+        run(async () => {
+            const { data } = await apiClient.setupMFA();
+            setSetup({ secret: data.secret, qrCode: data.qrCode });
+            setBackupCodes(null);
+            setCode('');
+        });
+
+    const handleConfirm = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const { data } = await apiClient.confirmMFA(code);
+            setSetup(null);
+            setCode('');
+            setBackupCodes(data.backupCodes);
+            setMessage(data.message);
+            await fetchStatus();
+        });
+    };
+
+    const handleDisable = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const { data } = await apiClient.disableMFA(password, code);
+            setAction(null);
+            setPassword('');
+            setCode('');
+            setBackupCodes(null);
+            setMessage(data.message);
+            await fetchStatus();
+        });
+    };
+
+    const handleRegenerate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const { data } = await apiClient.regenerateBackupCodes(code);
+            setAction(null);
+            setCode('');
+            setBackupCodes(data.backupCodes);
+            setMessage(data.message);
+            await fetchStatus();
+        });
+    };
+
+    const inputClassName =
+        'w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    if (!mfa) {
+        return (
+            <div className="flex justify-center items-center min-h-[400px]">
+                {error ? (
+                    <p className="text-destructive">{error}</p>
+                ) : (
+                    <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-3xl mx-auto space-y-6">
+            {/* Header */}
+            <div>
+                <h1 className="text-3xl font-bold text-foreground mb-2">Account Security</h1>
+                <p className="text-muted-foreground">Two-factor authentication, signing key and signed-in devices</p>
+            </div>
+
+            {error && (
+                <div className="bg-destructive/10 border border-destructive rounded-lg p-4 flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-destructive">{error}</p>
+                </div>
+            )}
+
+            {message && (
+                <div className="bg-secondary border border-border rounded-lg p-4 flex items-start gap-3">
+                    <CheckCircle className="w-5 h-5 text-foreground flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-foreground">{message}</p>
+                </div>
+            )}
+
+            <div className="bg-card rounded-xl p-6 border border-border space-y-6">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                            {mfa.enabled ? <ShieldCheck className="w-5 h-5" /> : <ShieldOff className="w-5 h-5" />}
+                            Two-Factor Authentication
+                        </h2>
+                        <p className="text-sm text-muted-foreground">
+                            {mfa.enabled
+                                ? `Enabled · ${mfa.backupCodesRemaining} backup code(s) remaining`
+                                : 'Not enabled · sign-in codes are sent by email'}
+                        </p>
+                    </div>
+                    {!mfa.enabled && !setup && (
+                        <button
+                            onClick={handleStartSetup}
+                            disabled={loading}
+                            className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                        >
+                            <ShieldCheck className="w-4 h-4" />
+                            Set Up Authenticator
+                        </button>
+                    )}
+                </div>
+
+                {/* Enrollment */}
+                {setup && (
+                    <form onSubmit={handleConfirm} className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            Scan this QR code with Google Authenticator, 1Password or another authenticator app, then enter the
+                            6-digit code it shows.
+                        </p>
+                        <div className="flex flex-col sm:flex-row gap-6 items-start">
+                            <Image
+                                src={setup.qrCode}
+                                alt="Authenticator QR code"
+                                width={192}
+                                height={192}
+                                unoptimized
+                                className="rounded-lg bg-white p-2"
+                            />
+                            <div className="space-y-2 min-w-0">
+                                <p className="text-sm text-muted-foreground">Can&apos;t scan? Enter this key manually:</p>
+                                <p className="font-mono text-sm text-foreground break-all">{setup.secret}</p>
+                            </div>
+                        </div>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            value={code}
+                            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                            className={inputClassName}
+                            placeholder="123456"
+                            required
+                        />
+                        <div className="flex justify-end gap-4">
+                            <button
+                                type="button"
+                                onClick={() => setSetup(null)}
+                                className="px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={loading || code.length !== 6}
+                                className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                {loading ? 'Verifying...' : 'Enable MFA'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {/* Backup codes, shown once */}
+                {backupCodes && (
+                    <div className="bg-secondary rounded-lg p-4 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h3 className="font-semibold text-foreground flex items-center gap-2">
+                                <KeyRound className="w-4 h-4" />
+                                Backup Codes
+                            </h3>
+                            <button
+                                onClick={() => navigator.clipboard.writeText(backupCodes.join('\n'))}
+                                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                            >
+                                <Copy className="w-4 h-4" />
+                                Copy
+                            </button>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                            Each code signs you in once if you lose your authenticator. They will not be shown again.
+                        </p>
+                        <div className="grid grid-cols-2 gap-2 font-mono text-foreground">
+                            {backupCodes.map((backupCode) => (
+                                <span key={backupCode}>{backupCode}</span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Manage */}
+                {mfa.enabled && !action && (
+                    <div className="flex flex-wrap gap-4">
+                        <button
+                            onClick={() => { setAction('regenerate'); setCode(''); }}
+                            className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                        >
+                            <KeyRound className="w-4 h-4" />
+                            Regenerate Backup Codes
+                        </button>
+                        <button
+                            onClick={() => { setAction('disable'); setCode(''); }}
+                            className="flex items-center gap-2 px-4 py-2 bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all"
+                        >
+                            <ShieldOff className="w-4 h-4" />
+                            Disable MFA
+                        </button>
+                    </div>
+                )}
+
+                {action === 'regenerate' && (
+                    <form onSubmit={handleRegenerate} className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            Enter a code from your authenticator app. Your current backup codes will stop working.
+                        </p>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            value={code}
+                            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                            className={inputClassName}
+                            placeholder="123456"
+                            required
+                        />
+                        <div className="flex justify-end gap-4">
+                            <button
+                                type="button"
+                                onClick={() => setAction(null)}
+                                className="px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={loading || code.length !== 6}
+                                className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                {loading ? 'Generating...' : 'Regenerate'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {action === 'disable' && (
+                    <form onSubmit={handleDisable} className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            Confirm with your password and an authenticator or backup code.
+                        </p>
+                        <input
+                            type="password"
+                            autoComplete="current-password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className={inputClassName}
+                            placeholder="Password"
+                            required
+                        />
+                        <input
+                            type="text"
+                            autoComplete="one-time-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            className={inputClassName}
+                            placeholder="Authenticator or backup code"
+                            required
+                        />
+                        <div className="flex justify-end gap-4">
+                            <button
+                                type="button"
+                                onClick={() => setAction(null)}
+                                className="px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="px-4 py-2 bg-destructive hover:bg-destructive/90 text-destructive-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                {loading ? 'Disabling...' : 'Disable MFA'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </div>
+
+            <SigningKeys />
+
+            <DeviceSessions />
+        </div>
+    );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { parseTimestamp } from '@/lib/purchase-orders';
+import { Lock, Unlock, Shield } from 'lucide-react';
+
+interface BidOpeningPanelProps {
+    rfqId: string;
+    onOpened?: () => void;
+}
+
+/**
+ * Bid opening ceremony for a sealed-bid RFQ: key releases, then the signed opening report
+ */
+export default function BidOpeningPanel({ rfqId, onOpened }: BidOpeningPanelProps) {
+    const [opening, setOpening] = useState<any>(null);
+    const [releasing, setReleasing] = useState(false);
+
+    useEffect(() => {
+        fetchOpening();
+    }, [rfqId]);
+
+    const fetchOpening = async () => {
+        try {
+            const { data } = await apiClient.getBidOpening(rfqId);
+            setOpening(data.opening);
+        } catch (error) {
+            console.error('Error fetching bid opening:', error);
+        }
+    };
+
+    const handleRelease = async () => {
+        const last = opening.releases.length + 1 >= opening.approvalsRequired;
+        if (!confirm(last ? 'Open all sealed bids now? This cannot be undone.' : 'Release your half of the opening key?')) return;
+
+        try {
+            setReleasing(true);
+            const { data } = await apiClient.releaseBidOpening(rfqId);
+            setOpening(data.opening);
+            if (data.opening.report) {
+                onOpened?.();
+            }
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to release the opening key');
+        } finally {
+            setReleasing(false);
+        }
+    };
+
+    if (!opening) {
+        return null;
+    }
+
+    const report = opening.report;
+
+    return (
+        <div className="bg-card rounded-xl p-6 border border-border">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                        {report ? <Unlock className="w-5 h-5" /> : <Lock className="w-5 h-5" />}
+                        Bid Opening
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                        {report
+                            ? `Opened ${new Date(report.openedAt).toLocaleString()}`
+                            : `${opening.sealedQuotations} sealed bid(s) · ${opening.releases.length} of ${opening.approvalsRequired} admin release(s)`}
+                    </p>
+                </div>
+                {!report && (
+                    <button
+                        onClick={handleRelease}
+                        disabled={releasing || !opening.deadlinePassed}
+                        className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                    >
+                        <Unlock className="w-4 h-4" />
+                        {releasing ? 'Releasing...' : 'Release Opening Key'}
+                    </button>
+                )}
+            </div>
+
+            {!report && !opening.deadlinePassed && (
+                <p className="text-sm text-muted-foreground">Bids can be opened once the deadline has passed.</p>
+            )}
+
+            {!report && opening.releases.length > 0 && (
+                <ul className="text-sm text-foreground space-y-1">
+                    {opening.releases.map((release: any) => (
+                        <li key={release.released_by}>
+                            Released by {release.released_by_name} on {parseTimestamp(release.released_at).toLocaleString()}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {report && (
+                <div className="space-y-4">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-muted-foreground border-b border-border">
+                                    <th className="py-2 pr-4">Rank</th>
+                                    <th className="py-2 pr-4">Vendor</th>
+                                    <th className="py-2 pr-4">Quote</th>
+                                    <th className="py-2 pr-4 text-right">Total</th>
+                                    <th className="py-2">Vendor Signature</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.bids.map((bid: any, index: number) => (
+                                    <tr key={bid.quotationId} className="border-b border-border last:border-0">
+                                        <td className="py-2 pr-4 text-foreground">{index + 1}</td>
+                                        <td className="py-2 pr-4 text-foreground">{bid.vendor.companyName}</td>
+                                        <td className="py-2 pr-4 text-muted-foreground">#{bid.quoteNumber}</td>
+                                        <td className="py-2 pr-4 text-right text-foreground font-semibold">
+                                            {bid.currency} ${bid.totalAmount?.toLocaleString()}
+                                        </td>
+                                        <td className={`py-2 ${bid.signatureValid ? 'text-foreground' : 'text-destructive'}`}>
+                                            {bid.signatureValid ? 'Valid' : 'Invalid'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {report.bids.length === 0 && (
+                            <p className="text-muted-foreground text-center py-4">No bids were submitted</p>
+                        )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                        <span>Released by {report.releasedBy.map((release: any) => release.name).join(' and ')}</span>
+                        <span className={`flex items-center gap-1 ${report.verification.signatureValid && report.verification.hashValid ? '' : 'text-destructive'}`}>
+                            <Shield className="w-4 h-4" />
+                            {report.verification.signatureValid && report.verification.hashValid
+                                ? 'Report signature verified'
+                                : 'Report signature invalid'}
+                        </span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -12,9 +12,19 @@ import {
     Menu,
     X,
     User,
-    Building2
+    Building2,
+    UserCheck,
+    ShoppingCart,
+    Receipt,
+    ShieldCheck,
+    Laptop,
+    Ban,
+    ShieldAlert,
+    ScrollText,
+    KeyRound
 } from 'lucide-react';
 import { useAuthStore } from '@/store/auth.store';
+import { apiClient } from '@/lib/api-client';
 
 interface NavItem {
     name: string;
@@ -28,6 +38,15 @@ const navigation: NavItem[] = [
     { name: 'RFQs', href: '/rfqs', icon: FileText, roles: ['admin', 'vendor'] },
     { name: 'Quotations', href: '/quotations', icon: MessageSquare, roles: ['vendor', 'admin'] },
     { name: 'Approvals', href: '/approvals', icon: CheckSquare, roles: ['approver', 'admin'] },
+    { name: 'Purchase Orders', href: '/purchase-orders', icon: ShoppingCart, roles: ['admin', 'vendor'] },
+    { name: 'Invoices', href: '/invoices', icon: Receipt, roles: ['admin', 'vendor', 'approver'] },
+    { name: 'Delegations', href: '/delegations', icon: UserCheck, roles: ['approver'] },
+    { name: 'Sessions', href: '/sessions', icon: Laptop, roles: ['admin'] },
+    { name: 'IP Access', href: '/ip-access', icon: Ban, roles: ['admin'] },
+    { name: 'Security Events', href: '/security-events', icon: ShieldAlert, roles: ['admin'] },
+    { name: 'Audit Log', href: '/audit-logs', icon: ScrollText, roles: ['admin'] },
+    { name: 'Encryption Keys', href: '/encryption-keys', icon: KeyRound, roles: ['admin'] },
+    { name: 'Account Security', href: '/account', icon: ShieldCheck, roles: ['admin', 'vendor', 'approver'] },
 ];
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
@@ -36,7 +55,12 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
     const router = useRouter();
     const { user, logout } = useAuthStore();
 
-    const handleLogout = () => {
+    const handleLogout = async () => {
+        try {
+            await apiClient.logout();
+        } catch (error) {
+            // Sign out locally even if the session could not be ended on the server
+        }
         logout();
         router.push('/login');
     };
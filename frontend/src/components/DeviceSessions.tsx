@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { parseTimestamp } from '@/lib/purchase-orders';
+import { Laptop, LogOut } from 'lucide-react';
+
+/**
+ * Devices signed in to the current account, each of which can be signed out remotely
+ */
+export default function DeviceSessions() {
+    const [sessions, setSessions] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+
+    useEffect(() => {
+        fetchSessions();
+    }, []);
+
+    const fetchSessions = async () => {
+        try {
+            const { data } = await apiClient.getSessions();
+            setSessions(data.sessions || []);
+        } catch (error) {
+            console.error('Error fetching sessions:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRevoke = async (id: number) => {
+        if (!confirm('Sign out this device?')) return;
+
+        try {
+            setWorking(true);
+            await apiClient.revokeSession(id);
+            await fetchSessions();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to sign out the device');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleRevokeOthers = async () => {
+        if (!confirm('Sign out every other device?')) return;
+
+        try {
+            setWorking(true);
+            await apiClient.revokeOtherSessions();
+            await fetchSessions();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to sign out other devices');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    return (
+        <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+            <div className="flex justify-between items-start">
+                <div>
+                    <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                        <Laptop className="w-5 h-5" />
+                        Signed-in Devices
+                    </h2>
+                    <p className="text-sm text-muted-foreground">Sign out anything you don&apos;t recognise</p>
+                </div>
+                {sessions.length > 1 && (
+                    <button
+                        onClick={handleRevokeOthers}
+                        disabled={working}
+                        className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all disabled:opacity-50"
+                    >
+                        <LogOut className="w-4 h-4" />
+                        Sign Out Other Devices
+                    </button>
+                )}
+            </div>
+
+            {loading ? (
+                <p className="text-muted-foreground">Loading...</p>
+            ) : (
+                <ul className="divide-y divide-border">
+                    {sessions.map((session) => (
+                        <li key={session.id} className="py-3 flex justify-between items-center gap-4">
+                            <div className="min-w-0">
+                                <p className="text-foreground font-medium">
+                                    {session.device_info}
+                                    {session.is_current && (
+                                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-primary text-primary-foreground">
+                                            This device
+                                        </span>
+                                    )}
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                    {session.ip_address || 'Unknown IP'} · Signed in{' '}
+                                    {parseTimestamp(session.created_at).toLocaleString()} · Last active{' '}
+                                    {parseTimestamp(session.last_activity).toLocaleString()}
+                                </p>
+                            </div>
+                            {!session.is_current && (
+                                <button
+                                    onClick={() => handleRevoke(session.id)}
+                                    disabled={working}
+                                    className="px-3 py-1.5 text-sm bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all disabled:opacity-50"
+                                >
+                                    Sign Out
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+
+/**
+ * An evaluation criterion as typed into the form
+ */
+export interface EvaluationCriterionDraft {
+    name: string;
+    weight: string;
+    scoring: 'price' | 'manual';
+}
+
+/**
+ * Price 50%, delivery 20%, quality 20% and compliance 10%
+ */
+export function defaultEvaluationTemplate(): EvaluationCriterionDraft[] {
+    return [
+        { name: 'Price', weight: '50', scoring: 'price' },
+        { name: 'Delivery', weight: '20', scoring: 'manual' },
+        { name: 'Quality', weight: '20', scoring: 'manual' },
+        { name: 'Compliance', weight: '10', scoring: 'manual' },
+    ];
+}
+
+/**
+ * Form values of a stored criterion
+ */
+export function toEvaluationCriterionDraft(criterion: any): EvaluationCriterionDraft {
+    return { name: criterion.name, weight: String(criterion.weight), scoring: criterion.scoring };
+}
+
+/**
+ * Request body values; the server validates them
+ */
+export function toEvaluationCriterionInput(draft: EvaluationCriterionDraft) {
+    return { name: draft.name, weight: parseFloat(draft.weight), scoring: draft.scoring };
+}
+
+interface EvaluationTemplateEditorProps {
+    criteria: EvaluationCriterionDraft[];
+    onChange: (criteria: EvaluationCriterionDraft[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Weighted criteria quotations are scored on. Weights must add up to 100.
+ */
+export default function EvaluationTemplateEditor({ criteria, onChange, disabled = false }: EvaluationTemplateEditorProps) {
+    const updateCriterion = (index: number, field: keyof EvaluationCriterionDraft, value: string) => {
+        const updated = [...criteria];
+        updated[index] = { ...updated[index], [field]: value };
+        onChange(updated);
+    };
+
+    const totalWeight = criteria.reduce((sum, criterion) => sum + (parseFloat(criterion.weight) || 0), 0);
+
+    const inputClassName =
+        'w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50';
+
+    return (
+        <div className="space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="block text-sm font-medium text-foreground">Evaluation Criteria</label>
+                {!disabled && (
+                    <div className="flex gap-2">
+                        {criteria.length === 0 && (
+                            <button
+                                type="button"
+                                onClick={() => onChange(defaultEvaluationTemplate())}
+                                className="px-3 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                            >
+                                Use Default
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => onChange([...criteria, { name: '', weight: '', scoring: 'manual' }])}
+                            className="flex items-center gap-2 px-3 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add Criterion
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {disabled && <p className="text-xs text-muted-foreground">The criteria are fixed once scores have been entered.</p>}
+
+            {criteria.length === 0 && <p className="text-sm text-muted-foreground">No evaluation criteria yet.</p>}
+
+            {criteria.map((criterion, index) => (
+                <div key={index} className="grid grid-cols-12 gap-3 items-center">
+                    <input
+                        type="text"
+                        placeholder="Criterion"
+                        value={criterion.name}
+                        onChange={(e) => updateCriterion(index, 'name', e.target.value)}
+                        className={`col-span-5 ${inputClassName}`}
+                        disabled={disabled}
+                    />
+                    <input
+                        type="number"
+                        placeholder="Weight %"
+                        value={criterion.weight}
+                        onChange={(e) => updateCriterion(index, 'weight', e.target.value)}
+                        className={`col-span-2 ${inputClassName}`}
+                        disabled={disabled}
+                    />
+                    <select
+                        value={criterion.scoring}
+                        onChange={(e) => updateCriterion(index, 'scoring', e.target.value)}
+                        className={`col-span-4 ${inputClassName}`}
+                        disabled={disabled}
+                    >
+                        <option value="manual">Scored by evaluators</option>
+                        <option value="price">Scored from price</option>
+                    </select>
+                    {!disabled && (
+                        <button
+                            type="button"
+                            onClick={() => onChange(criteria.filter((_, i) => i !== index))}
+                            className="col-span-1 p-2 text-destructive hover:bg-destructive/10 rounded-lg transition-all"
+                        >
+                            <Trash2 className="w-5 h-5" />
+                        </button>
+                    )}
+                </div>
+            ))}
+
+            {criteria.length > 0 && (
+                <p className={`text-sm ${Math.round(totalWeight * 100) / 100 === 100 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                    Total weight: {Math.round(totalWeight * 100) / 100}%
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiClient } from '@/lib/api-client';
+import { MATCH_RESULT_LABELS, describeAuditEntry, parseTimestamp } from '@/lib/purchase-orders';
+import { ArrowLeft, AlertCircle, CheckCircle, XCircle, Download, History, Shield } from 'lucide-react';
+
+interface InvoiceDetailProps {
+    id: string;
+    backHref: string;
+    purchaseOrderHref?: (purchaseOrderId: number) => string;
+    canResolve?: boolean;
+}
+
+/**
+ * Invoice with its three-way match breakdown, shared by the vendor, admin and approver pages
+ */
+export default function InvoiceDetail({ id, backHref, purchaseOrderHref, canResolve = false }: InvoiceDetailProps) {
+    const [invoice, setInvoice] = useState<any>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [notes, setNotes] = useState('');
+    const [actionLoading, setActionLoading] = useState(false);
+
+    useEffect(() => {
+        fetchInvoice();
+    }, [id]);
+
+    const fetchInvoice = async () => {
+        try {
+            const { data } = await apiClient.getInvoiceById(id);
+            setInvoice(data.invoice);
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to load invoice');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDownload = async () => {
+        try {
+            const response = await apiClient.downloadInvoiceAttachment(id);
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = invoice.attachment_name;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            alert('Failed to download invoice PDF');
+        }
+    };
+
+    const handleResolve = async (action: 'accept' | 'reject') => {
+        if (!notes.trim()) {
+            alert('Please explain how this exception was resolved');
+            return;
+        }
+
+        try {
+            setActionLoading(true);
+            await apiClient.resolveInvoice(id, action, notes);
+            setNotes('');
+            fetchInvoice();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to resolve invoice');
+        } finally {
+            setActionLoading(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center items-center min-h-[400px]">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+            </div>
+        );
+    }
+
+    if (error || !invoice) {
+        return (
+            <div className="text-center py-12">
+                <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-foreground mb-2">Error Loading Invoice</h2>
+                <p className="text-muted-foreground mb-6">{error || 'Invoice not found'}</p>
+                <Link
+                    href={backHref}
+                    className="inline-flex items-center gap-2 px-6 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-all"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to Invoices
+                </Link>
+            </div>
+        );
+    }
+
+    const details = invoice.match_details;
+    const verification = invoice.verification;
+    const verified = verification && verification.signatureValid && verification.hashValid && verification.matchesRecord;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link
+                    href={backHref}
+                    className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4 transition-colors"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to Invoices
+                </Link>
+                <div className="flex items-center gap-3 mb-2">
+                    <h1 className="text-3xl font-bold text-foreground">Invoice {invoice.invoice_number}</h1>
+                    <span
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${['matched', 'accepted'].includes(invoice.status)
+                            ? 'bg-primary text-primary-foreground'
+                            : invoice.status === 'rejected'
+                                ? 'bg-destructive/10 text-destructive'
+                                : 'bg-secondary text-foreground border border-primary/20'
+                            }`}
+                    >
+                        {invoice.status}
+                    </span>
+                </div>
+                <p className="text-muted-foreground">
+                    {invoice.vendor_name} ·{' '}
+                    {purchaseOrderHref ? (
+                        <Link href={purchaseOrderHref(invoice.purchase_order_id)} className="hover:underline">
+                            PO #{invoice.po_number}
+                        </Link>
+                    ) : (
+                        `PO #${invoice.po_number}`
+                    )}
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 space-y-6">
+                    {/* Match */}
+                    <div className="bg-card rounded-xl p-6 border border-border">
+                        <div className="flex justify-between items-center mb-4">
+                            <h2 className="text-xl font-bold text-foreground">Three-Way Match</h2>
+                            <span
+                                className={`px-3 py-1 rounded-full text-xs font-medium ${invoice.match_result === 'matched'
+                                    ? 'bg-primary text-primary-foreground'
+                                    : 'bg-destructive/10 text-destructive'
+                                    }`}
+                            >
+                                {MATCH_RESULT_LABELS[invoice.match_result]}
+                            </span>
+                        </div>
+
+                        {details.reasons.length > 0 && (
+                            <ul className="mb-4 space-y-1">
+                                {details.reasons.map((reason: string, index: number) => (
+                                    <li key={index} className="flex items-start gap-2 text-sm text-destructive">
+                                        <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                        {reason}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b border-border">
+                                        <th className="text-left py-2 px-3 text-muted-foreground font-medium">Line</th>
+                                        <th className="text-right py-2 px-3 text-muted-foreground font-medium">Ordered</th>
+                                        <th className="text-right py-2 px-3 text-muted-foreground font-medium">Received</th>
+                                        <th className="text-right py-2 px-3 text-muted-foreground font-medium">Invoiced</th>
+                                        <th className="text-right py-2 px-3 text-muted-foreground font-medium">PO Net Price</th>
+                                        <th className="text-right py-2 px-3 text-muted-foreground font-medium">Invoice Price</th>
+                                        <th className="text-right py-2 px-3 text-muted-foreground font-medium">Result</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {details.lines.map((line: any) => (
+                                        <tr key={line.lineNumber} className="border-b border-border">
+                                            <td className="py-2 px-3 text-foreground">
+                                                {line.lineNumber}. {line.description || '—'}
+                                            </td>
+                                            <td className="py-2 px-3 text-right text-foreground">{line.orderedQuantity ?? '—'}</td>
+                                            <td className="py-2 px-3 text-right text-foreground">
+                                                {line.receivedQuantity ?? '—'}
+                                                {line.previouslyInvoiced > 0 && (
+                                                    <span className="text-xs text-muted-foreground"> ({line.previouslyInvoiced} billed)</span>
+                                                )}
+                                            </td>
+                                            <td className="py-2 px-3 text-right text-foreground">
+                                                {invoice.line_items.find((item: any) => item.line_number === line.lineNumber)?.quantity}
+                                            </td>
+                                            <td className="py-2 px-3 text-right text-foreground">
+                                                {line.poUnitPrice !== undefined ? `$${line.poUnitPrice.toLocaleString()}` : '—'}
+                                            </td>
+                                            <td className="py-2 px-3 text-right text-foreground">
+                                                $
+                                                {invoice.line_items
+                                                    .find((item: any) => item.line_number === line.lineNumber)
+                                                    ?.unit_price.toLocaleString()}
+                                            </td>
+                                            <td
+                                                className={`py-2 px-3 text-right ${line.result === 'matched' ? 'text-foreground' : 'text-destructive'}`}
+                                            >
+                                                {MATCH_RESULT_LABELS[line.result]}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4 mt-4 text-sm">
+                            <div>
+                                <p className="text-muted-foreground">Invoiced</p>
+                                <p className="text-foreground font-semibold">
+                                    {invoice.currency} ${details.invoicedAmount.toLocaleString()}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">At PO prices, incl. tax</p>
+                                <p className="text-foreground font-semibold">${details.expectedAmount.toLocaleString()}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Tolerances</p>
+                                <p className="text-foreground">
+                                    Price {details.tolerances.pricePercent}% · Qty {details.tolerances.quantityPercent}% · Amount{' '}
+                                    {details.tolerances.amountPercent}%
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Resolution */}
+                    {invoice.status === 'exception' && canResolve && (
+                        <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+                            <h2 className="text-xl font-bold text-foreground">Resolve Exception</h2>
+                            <textarea
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="Resolution notes (required)"
+                                rows={3}
+                                className="w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground focus:outline-none"
+                            />
+                            <div className="flex justify-end gap-3">
+                                <button
+                                    onClick={() => handleResolve('reject')}
+                                    disabled={actionLoading}
+                                    className="flex items-center gap-2 px-4 py-2 bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all disabled:opacity-50"
+                                >
+                                    <XCircle className="w-4 h-4" />
+                                    Reject Invoice
+                                </button>
+                                <button
+                                    onClick={() => handleResolve('accept')}
+                                    disabled={actionLoading}
+                                    className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                                >
+                                    <CheckCircle className="w-4 h-4" />
+                                    Accept Variance
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {invoice.resolved_at && (
+                        <div className="bg-card rounded-xl p-6 border border-border">
+                            <h2 className="text-xl font-bold text-foreground mb-2">Resolution</h2>
+                            <p className="text-muted-foreground whitespace-pre-wrap">{invoice.resolution_notes}</p>
+                            <p className="text-xs text-muted-foreground mt-2">
+                                {invoice.status === 'accepted' ? 'Accepted' : 'Rejected'} by {invoice.resolved_by_name} on{' '}
+                                {parseTimestamp(invoice.resolved_at).toLocaleString()}
+                            </p>
+                        </div>
+                    )}
+
+                    {invoice.notes && (
+                        <div className="bg-card rounded-xl p-6 border border-border">
+                            <h2 className="text-xl font-bold text-foreground mb-2">Vendor Notes</h2>
+                            <p className="text-muted-foreground whitespace-pre-wrap">{invoice.notes}</p>
+                        </div>
+                    )}
+                </div>
+
+                {/* Sidebar */}
+                <div className="space-y-6">
+                    <div className="bg-card rounded-xl p-6 border border-border">
+                        <h3 className="text-lg font-bold text-foreground mb-4">Details</h3>
+                        <div className="space-y-4 text-sm">
+                            {invoice.invoice_date && (
+                                <div>
+                                    <p className="text-muted-foreground">Invoice Date</p>
+                                    <p className="text-foreground">{new Date(invoice.invoice_date).toLocaleDateString()}</p>
+                                </div>
+                            )}
+                            <div>
+                                <p className="text-muted-foreground">Submitted</p>
+                                <p className="text-foreground">{parseTimestamp(invoice.submitted_at).toLocaleString()}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground mb-1">Attachment</p>
+                                <button
+                                    onClick={handleDownload}
+                                    className="flex items-center gap-2 px-3 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                                >
+                                    <Download className="w-4 h-4" />
+                                    {invoice.attachment_name}
+                                </button>
+                                <p className="text-xs text-muted-foreground font-mono break-all mt-1">
+                                    SHA-256 {invoice.attachment_hash}
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-card rounded-xl p-6 border border-border">
+                        <div className="flex items-center gap-2 mb-3">
+                            <Shield className="w-5 h-5 text-muted-foreground" />
+                            <h3 className="text-lg font-bold text-foreground">Signature</h3>
+                        </div>
+                        {!verification ? (
+                            <p className="text-sm text-muted-foreground">
+                                Signed once the invoice is matched or its exception is accepted
+                            </p>
+                        ) : (
+                            <>
+                                <p className={`flex items-center gap-2 ${verified ? 'text-foreground' : 'text-destructive'}`}>
+                                    {verified ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                                    {verified ? 'Signature verified' : 'Verification failed'}
+                                </p>
+                                <p className="text-xs text-muted-foreground font-mono break-all mt-2">{invoice.snapshot_hash}</p>
+                            </>
+                        )}
+                    </div>
+
+                    <div className="bg-card rounded-xl p-6 border border-border">
+                        <div className="flex items-center gap-2 mb-4">
+                            <History className="w-5 h-5 text-muted-foreground" />
+                            <h3 className="text-lg font-bold text-foreground">Activity</h3>
+                        </div>
+                        <div className="space-y-3">
+                            {invoice.history.map((entry: any) => (
+                                <div key={entry.id} className="border-l-2 border-border pl-3">
+                                    <p className="text-foreground text-sm">{describeAuditEntry(entry)}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {parseTimestamp(entry.created_at).toLocaleString()}
+                                        {entry.user_name && ` · ${entry.user_name}`}
+                                    </p>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Plus, Trash2 } from 'lucide-react';
+
+/**
+ * A line item as typed into the form
+ */
+export interface LineItemDraft {
+    requirement_line: string;
+    no_bid: boolean;
+    sku: string;
+    description: string;
+    quantity: string;
+    unit_of_measure: string;
+    unit_price: string;
+    discount_percent: string;
+    tax_code: string;
+    delivery_date: string;
+}
+
+/**
+ * Line items as the server priced them, with the quotation totals
+ */
+export interface PricedLineItems {
+    lineItems: any[];
+    totals: { subtotal: number; discount: number; tax: number; total: number };
+}
+
+export function emptyLineItem(): LineItemDraft {
+    return {
+        requirement_line: '',
+        no_bid: false,
+        sku: '',
+        description: '',
+        quantity: '',
+        unit_of_measure: 'EA',
+        unit_price: '',
+        discount_percent: '0',
+        tax_code: 'EXEMPT',
+        delivery_date: '',
+    };
+}
+
+/**
+ * Form values of a stored line item, e.g. to revise it
+ */
+export function toLineItemDraft(item: any): LineItemDraft {
+    return {
+        requirement_line: item.requirement_line != null ? String(item.requirement_line) : '',
+        no_bid: !!item.no_bid,
+        sku: item.sku || '',
+        description: item.description || '',
+        quantity: String(item.quantity ?? ''),
+        unit_of_measure: item.unit_of_measure || 'EA',
+        unit_price: String(item.unit_price ?? ''),
+        discount_percent: String(item.discount_percent ?? 0),
+        tax_code: item.tax_code || 'EXEMPT',
+        delivery_date: item.delivery_date || '',
+    };
+}
+
+/**
+ * One line per RFQ requirement line, to start a quotation from
+ */
+export function lineItemsForRequirements(requirementLines: any[]): LineItemDraft[] {
+    return requirementLines.map((line) => ({
+        ...emptyLineItem(),
+        requirement_line: String(line.line_number),
+        description: line.item,
+        quantity: String(line.quantity),
+        unit_of_measure: line.unit_of_measure,
+        delivery_date: line.target_date || '',
+    }));
+}
+
+function toLineItemInput(draft: LineItemDraft) {
+    const requirementLine = draft.requirement_line ? Number(draft.requirement_line) : null;
+
+    if (draft.no_bid) {
+        return { requirement_line: requirementLine, no_bid: true, description: draft.description };
+    }
+
+    return {
+        requirement_line: requirementLine,
+        no_bid: false,
+        sku: draft.sku || null,
+        description: draft.description,
+        quantity: parseFloat(draft.quantity),
+        unit_of_measure: draft.unit_of_measure,
+        unit_price: parseFloat(draft.unit_price),
+        discount_percent: parseFloat(draft.discount_percent) || 0,
+        tax_code: draft.tax_code,
+        delivery_date: draft.delivery_date || null,
+    };
+}
+
+interface LineItemsEditorProps {
+    rfqId: number | string;
+    requirementLines: any[];
+    currency: string;
+    items: LineItemDraft[];
+    onChange: (items: LineItemDraft[]) => void;
+    onPriced: (priced: PricedLineItems | null) => void;
+}
+
+/**
+ * Line item entry. Amounts, discounts and taxes are computed by the server as the lines change,
+ * so the totals shown (and signed) are exactly the ones the quotation will store.
+ */
+export default function LineItemsEditor({ rfqId, requirementLines, currency, items, onChange, onPriced }: LineItemsEditorProps) {
+    const [taxCodes, setTaxCodes] = useState<{ code: string; rate: number }[]>([]);
+    const [priced, setPriced] = useState<PricedLineItems | null>(null);
+    const [problems, setProblems] = useState<string[]>([]);
+
+    useEffect(() => {
+        apiClient
+            .getTaxCodes()
+            .then(({ data }) => setTaxCodes(data.taxCodes))
+            .catch((error) => console.error('Error fetching tax codes:', error));
+    }, []);
+
+    useEffect(() => {
+        if (!rfqId) return;
+
+        // Wait for typing to pause, and drop the result if the lines change again before it arrives
+        let cancelled = false;
+        onPriced(null);
+        const timer = setTimeout(async () => {
+            try {
+                const { data } = await apiClient.priceLineItems(rfqId, items.map(toLineItemInput));
+                if (cancelled) return;
+                setPriced(data);
+                setProblems([]);
+                onPriced(data);
+            } catch (err: any) {
+                if (cancelled) return;
+                setPriced(null);
+                setProblems(err.response?.data?.problems || [err.response?.data?.error || 'Failed to price line items']);
+            }
+        }, 400);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [rfqId, items]);
+
+    const updateLineItem = (index: number, field: keyof LineItemDraft, value: string | boolean) => {
+        const updated = [...items];
+        updated[index] = { ...updated[index], [field]: value };
+        onChange(updated);
+    };
+
+    const inputClassName =
+        'w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    const money = (amount: number | undefined) =>
+        amount != null ? amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '—';
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-foreground">Line Items</h3>
+                <button
+                    type="button"
+                    onClick={() => onChange([...items, emptyLineItem()])}
+                    className="flex items-center gap-2 px-3 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Item
+                </button>
+            </div>
+
+            <div className="space-y-4">
+                {items.map((item, index) => (
+                    <div key={index} className="p-4 rounded-lg border border-border space-y-3">
+                        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+                            {requirementLines.length > 0 && (
+                                <select
+                                    value={item.requirement_line}
+                                    onChange={(e) => updateLineItem(index, 'requirement_line', e.target.value)}
+                                    className={`${inputClassName} md:col-span-2`}
+                                    required
+                                >
+                                    <option value="">Requirement line...</option>
+                                    {requirementLines.map((line) => (
+                                        <option key={line.line_number} value={line.line_number}>
+                                            {line.line_number}. {line.item} ({line.quantity} {line.unit_of_measure}
+                                            {line.mandatory ? '' : ', optional'})
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                            <input
+                                type="text"
+                                placeholder="SKU"
+                                value={item.sku}
+                                onChange={(e) => updateLineItem(index, 'sku', e.target.value)}
+                                className={inputClassName}
+                            />
+                            <input
+                                type="text"
+                                placeholder="Description"
+                                value={item.description}
+                                onChange={(e) => updateLineItem(index, 'description', e.target.value)}
+                                className={`${inputClassName} ${requirementLines.length > 0 ? 'md:col-span-3' : 'md:col-span-5'}`}
+                                required={!item.no_bid}
+                            />
+                        </div>
+                        {requirementLines.length > 0 && (
+                            <label className="flex items-center gap-2 text-sm text-foreground">
+                                <input
+                                    type="checkbox"
+                                    checked={item.no_bid}
+                                    onChange={(e) => updateLineItem(index, 'no_bid', e.target.checked)}
+                                />
+                                No bid on this requirement line
+                            </label>
+                        )}
+                        {item.no_bid ? (
+                            <div className="flex justify-end">
+                                {items.length > 1 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange(items.filter((_, i) => i !== index))}
+                                        className="p-2 text-destructive hover:bg-destructive/10 rounded-lg transition-all"
+                                    >
+                                        <Trash2 className="w-5 h-5" />
+                                    </button>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-2 md:grid-cols-7 gap-3 items-center">
+                                <input
+                                    type="number"
+                                    placeholder="Qty"
+                                    value={item.quantity}
+                                    onChange={(e) => updateLineItem(index, 'quantity', e.target.value)}
+                                    className={inputClassName}
+                                    required
+                                />
+                                <input
+                                    type="text"
+                                    placeholder="UoM"
+                                    value={item.unit_of_measure}
+                                    onChange={(e) => updateLineItem(index, 'unit_of_measure', e.target.value)}
+                                    className={inputClassName}
+                                />
+                                <input
+                                    type="number"
+                                    placeholder="Unit price"
+                                    value={item.unit_price}
+                                    onChange={(e) => updateLineItem(index, 'unit_price', e.target.value)}
+                                    className={inputClassName}
+                                    required
+                                />
+                                <input
+                                    type="number"
+                                    placeholder="Discount %"
+                                    value={item.discount_percent}
+                                    onChange={(e) => updateLineItem(index, 'discount_percent', e.target.value)}
+                                    className={inputClassName}
+                                />
+                                <select
+                                    value={item.tax_code}
+                                    onChange={(e) => updateLineItem(index, 'tax_code', e.target.value)}
+                                    className={inputClassName}
+                                >
+                                    {(taxCodes.length > 0 ? taxCodes : [{ code: item.tax_code, rate: 0 }]).map((tax) => (
+                                        <option key={tax.code} value={tax.code}>
+                                            {tax.code} ({tax.rate}%)
+                                        </option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="date"
+                                    value={item.delivery_date}
+                                    onChange={(e) => updateLineItem(index, 'delivery_date', e.target.value)}
+                                    className={inputClassName}
+                                />
+                                <div className="flex items-center justify-end gap-2">
+                                    <span className="text-foreground font-semibold">${money(priced?.lineItems[index]?.total)}</span>
+                                    {items.length > 1 && (
+                                        <button
+                                            type="button"
+                                            onClick={() => onChange(items.filter((_, i) => i !== index))}
+                                            className="p-2 text-destructive hover:bg-destructive/10 rounded-lg transition-all"
+                                        >
+                                            <Trash2 className="w-5 h-5" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {problems.length > 0 && (
+                <ul className="text-sm text-destructive space-y-1">
+                    {problems.map((problem, index) => (
+                        <li key={index}>{problem}</li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex justify-end pt-4 border-t border-border">
+                <div className="text-right space-y-1">
+                    <p className="text-sm text-muted-foreground">Subtotal: ${money(priced?.totals.subtotal)}</p>
+                    <p className="text-sm text-muted-foreground">Discount: -${money(priced?.totals.discount)}</p>
+                    <p className="text-sm text-muted-foreground">Tax: ${money(priced?.totals.tax)}</p>
+                    <p className="text-sm text-muted-foreground mt-2">Total Amount</p>
+                    <p className="text-2xl font-bold text-foreground">
+                        {currency} ${money(priced?.totals.total)}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
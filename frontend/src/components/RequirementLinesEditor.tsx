@@ -0,0 +1,160 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+
+/**
+ * A requirement line as typed into the form
+ */
+export interface RequirementLineDraft {
+    item: string;
+    specification: string;
+    quantity: string;
+    unit_of_measure: string;
+    target_date: string;
+    mandatory: boolean;
+}
+
+export function emptyRequirementLine(): RequirementLineDraft {
+    return { item: '', specification: '', quantity: '1', unit_of_measure: 'EA', target_date: '', mandatory: true };
+}
+
+/**
+ * Form values of a stored requirement line
+ */
+export function toRequirementLineDraft(line: any): RequirementLineDraft {
+    return {
+        item: line.item || '',
+        specification: line.specification || '',
+        quantity: String(line.quantity ?? ''),
+        unit_of_measure: line.unit_of_measure || 'EA',
+        target_date: line.target_date || '',
+        mandatory: !!line.mandatory,
+    };
+}
+
+/**
+ * Request body values; the server validates them
+ */
+export function toRequirementLineInput(draft: RequirementLineDraft) {
+    return {
+        item: draft.item,
+        specification: draft.specification || null,
+        quantity: parseFloat(draft.quantity),
+        unit_of_measure: draft.unit_of_measure,
+        target_date: draft.target_date || null,
+        mandatory: draft.mandatory,
+    };
+}
+
+interface RequirementLinesEditorProps {
+    lines: RequirementLineDraft[];
+    onChange: (lines: RequirementLineDraft[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Numbered lines vendors quote against. Numbers follow the order of the lines.
+ */
+export default function RequirementLinesEditor({ lines, onChange, disabled = false }: RequirementLinesEditorProps) {
+    const updateLine = (index: number, field: keyof RequirementLineDraft, value: string | boolean) => {
+        const updated = [...lines];
+        updated[index] = { ...updated[index], [field]: value };
+        onChange(updated);
+    };
+
+    const inputClassName =
+        'w-full px-3 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50';
+
+    return (
+        <div className="space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="block text-sm font-medium text-foreground">Requirement Lines</label>
+                {!disabled && (
+                    <button
+                        type="button"
+                        onClick={() => onChange([...lines, emptyRequirementLine()])}
+                        className="flex items-center gap-2 px-3 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add Line
+                    </button>
+                )}
+            </div>
+
+            {disabled && (
+                <p className="text-xs text-muted-foreground">Requirement lines are fixed once quotations have been received.</p>
+            )}
+
+            {lines.length === 0 && <p className="text-sm text-muted-foreground">No requirement lines yet.</p>}
+
+            {lines.map((line, index) => (
+                <div key={index} className="p-4 rounded-lg border border-border space-y-3">
+                    <div className="flex items-center gap-3">
+                        <span className="text-sm font-semibold text-muted-foreground w-6">{index + 1}.</span>
+                        <input
+                            type="text"
+                            placeholder="Item"
+                            value={line.item}
+                            onChange={(e) => updateLine(index, 'item', e.target.value)}
+                            className={inputClassName}
+                            disabled={disabled}
+                            required
+                        />
+                        {!disabled && (
+                            <button
+                                type="button"
+                                onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                                className="p-2 text-destructive hover:bg-destructive/10 rounded-lg transition-all"
+                            >
+                                <Trash2 className="w-5 h-5" />
+                            </button>
+                        )}
+                    </div>
+                    <textarea
+                        placeholder="Specification"
+                        value={line.specification}
+                        onChange={(e) => updateLine(index, 'specification', e.target.value)}
+                        rows={2}
+                        className={inputClassName}
+                        disabled={disabled}
+                    />
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-center">
+                        <input
+                            type="number"
+                            placeholder="Quantity"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                            className={inputClassName}
+                            disabled={disabled}
+                            required
+                        />
+                        <input
+                            type="text"
+                            placeholder="UoM"
+                            value={line.unit_of_measure}
+                            onChange={(e) => updateLine(index, 'unit_of_measure', e.target.value)}
+                            className={inputClassName}
+                            disabled={disabled}
+                        />
+                        <input
+                            type="date"
+                            value={line.target_date}
+                            onChange={(e) => updateLine(index, 'target_date', e.target.value)}
+                            className={inputClassName}
+                            disabled={disabled}
+                        />
+                        <label className="flex items-center gap-2 text-sm text-foreground">
+                            <input
+                                type="checkbox"
+                                checked={line.mandatory}
+                                onChange={(e) => updateLine(index, 'mandatory', e.target.checked)}
+                                disabled={disabled}
+                            />
+                            Mandatory
+                        </label>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
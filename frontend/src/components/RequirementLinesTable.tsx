@@ -0,0 +1,56 @@
+'use client';
+
+interface RequirementLinesTableProps {
+    lines: any[];
+}
+
+/**
+ * An RFQ's requirement lines, numbered as quotation line items refer to them
+ */
+export default function RequirementLinesTable({ lines }: RequirementLinesTableProps) {
+    if (lines.length === 0) {
+        return <p className="text-muted-foreground">No requirement lines</p>;
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full">
+                <thead>
+                    <tr className="border-b border-border">
+                        <th className="text-left py-3 text-muted-foreground font-medium">#</th>
+                        <th className="text-left py-3 text-muted-foreground font-medium">Item</th>
+                        <th className="text-right py-3 text-muted-foreground font-medium">Qty</th>
+                        <th className="text-right py-3 text-muted-foreground font-medium">Target Date</th>
+                        <th className="text-right py-3 text-muted-foreground font-medium"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {lines.map((line) => (
+                        <tr key={line.id} className="border-b border-border/50 align-top">
+                            <td className="py-3 text-muted-foreground">{line.line_number}</td>
+                            <td className="py-3 text-foreground">
+                                {line.item}
+                                {line.specification && (
+                                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">{line.specification}</p>
+                                )}
+                            </td>
+                            <td className="py-3 text-foreground text-right">
+                                {line.quantity} {line.unit_of_measure}
+                            </td>
+                            <td className="py-3 text-foreground text-right">
+                                {line.target_date ? new Date(line.target_date).toLocaleDateString() : '—'}
+                            </td>
+                            <td className="py-3 text-right">
+                                <span
+                                    className={`inline-block px-2 py-1 rounded text-xs font-medium ${line.mandatory ? 'bg-primary/10 text-primary' : 'bg-secondary text-muted-foreground'}`}
+                                >
+                                    {line.mandatory ? 'Mandatory' : 'Optional'}
+                                </span>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
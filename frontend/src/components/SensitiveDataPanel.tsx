@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/store/auth.store';
+import { Lock, Unlock } from 'lucide-react';
+
+interface SensitiveDataPanelProps {
+    quotationId: string;
+    encryption?: { algorithm: string; keyId: string | null; legacy: boolean; canDecrypt: boolean };
+}
+
+/**
+ * A quotation's confidential details, decrypted on request for users entitled to them.
+ * Quotations from before envelope encryption are converted by their vendor with the key saved at creation.
+ */
+export default function SensitiveDataPanel({ quotationId, encryption }: SensitiveDataPanelProps) {
+    const { user } = useAuthStore();
+    const [data, setData] = useState<any>(null);
+    const [legacyKey, setLegacyKey] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    if (!encryption?.canDecrypt || (encryption.legacy && user?.role !== 'vendor' && !data)) {
+        return null;
+    }
+
+    const handleDecrypt = async () => {
+        try {
+            setLoading(true);
+            setError('');
+            const { data } = await apiClient.getQuotationSensitiveData(quotationId);
+            setData(data.sensitiveData);
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to decrypt');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleMigrate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            setLoading(true);
+            setError('');
+            const { data } = await apiClient.migrateQuotationSensitiveData(quotationId, legacyKey.trim());
+            setData(data.sensitiveData);
+            setLegacyKey('');
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to convert');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                        <Lock className="w-5 h-5" />
+                        Confidential Data
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                        {encryption.legacy && !data
+                            ? 'Encrypted with the key you saved when creating this quotation'
+                            : `AES-256-GCM envelope encryption${encryption.keyId ? ` · master key ${encryption.keyId}` : ''}`}
+                    </p>
+                </div>
+                {!encryption.legacy && !data && (
+                    <button
+                        onClick={handleDecrypt}
+                        disabled={loading}
+                        className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                    >
+                        <Unlock className="w-4 h-4" />
+                        {loading ? 'Decrypting...' : 'Decrypt'}
+                    </button>
+                )}
+            </div>
+
+            {encryption.legacy && !data && (
+                <form onSubmit={handleMigrate} className="space-y-3">
+                    <p className="text-sm text-muted-foreground">
+                        Enter that key once to convert this data to platform encryption. Reviewers can then read it,
+                        and you will no longer need the key.
+                    </p>
+                    <div className="flex gap-2">
+                        <input
+                            type="password"
+                            autoComplete="off"
+                            value={legacyKey}
+                            onChange={(e) => setLegacyKey(e.target.value)}
+                            className="flex-1 px-4 py-2 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground font-mono text-sm placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+                            placeholder="Encryption key (hex)"
+                            required
+                        />
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                        >
+                            {loading ? 'Converting...' : 'Convert'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {data && (
+                <div className="space-y-3 text-sm">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <p className="text-muted-foreground">Profit Margin</p>
+                            <p className="text-foreground font-semibold">{data.profitMargin}%</p>
+                        </div>
+                        <div>
+                            <p className="text-muted-foreground">Internal Notes</p>
+                            <p className="text-foreground whitespace-pre-wrap">{data.internalNotes || '—'}</p>
+                        </div>
+                    </div>
+                    {Array.isArray(data.costBreakdown) && data.costBreakdown.length > 0 && (
+                        <table className="w-full">
+                            <thead>
+                                <tr className="text-left text-muted-foreground border-b border-border">
+                                    <th className="py-2 font-medium">Cost Item</th>
+                                    <th className="py-2 font-medium text-right">Qty</th>
+                                    <th className="py-2 font-medium text-right">Unit Price</th>
+                                    <th className="py-2 font-medium text-right">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {data.costBreakdown.map((item: any, index: number) => (
+                                    <tr key={index} className="border-b border-border/50">
+                                        <td className="py-2 text-foreground">{item.description}</td>
+                                        <td className="py-2 text-foreground text-right">{item.quantity}</td>
+                                        <td className="py-2 text-foreground text-right">${item.unit_price?.toLocaleString()}</td>
+                                        <td className="py-2 text-foreground text-right">${item.total?.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
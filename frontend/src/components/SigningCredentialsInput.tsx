@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/store/auth.store';
+import type { SigningCredentials } from '@/lib/signing';
+import { getBrowserKeyFingerprint, signWithBrowserKey } from '@/lib/browser-keys';
+import { KeyRound, Copy, ShieldCheck } from 'lucide-react';
+
+interface SigningCredentialsInputProps {
+    payload: string;
+    value: SigningCredentials;
+    onChange: (value: SigningCredentials) => void;
+    requireRegistered?: boolean; // Platform-held keys are refused, as for vendor quotations
+}
+
+/**
+ * Asks for what the current user's signing key needs: the passphrase of a platform-held key,
+ * or a signature over the payload made with a registered key.
+ * When this browser holds the registered key, the payload is signed here as it changes.
+ */
+export default function SigningCredentialsInput({
+    payload,
+    value,
+    onChange,
+    requireRegistered = false,
+}: SigningCredentialsInputProps) {
+    const { user } = useAuthStore();
+    const [activeKey, setActiveKey] = useState<any>(undefined);
+    const [inBrowser, setInBrowser] = useState(false);
+    const [signError, setSignError] = useState('');
+
+    useEffect(() => {
+        fetchKey();
+    }, []);
+
+    useEffect(() => {
+        if (!inBrowser || !user) return;
+
+        // Drop the result if the payload changes again before signing finishes
+        let cancelled = false;
+        signWithBrowserKey(user.id, payload)
+            .then((signature) => {
+                if (!cancelled) {
+                    setSignError('');
+                    onChange({ signature });
+                }
+            })
+            .catch((error) => {
+                console.error('Error signing in the browser:', error);
+                if (!cancelled) setSignError('Could not sign with the key held in this browser');
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [inBrowser, payload]);
+
+    const fetchKey = async () => {
+        try {
+            const { data } = await apiClient.getSigningKeys();
+            setActiveKey(data.activeKey);
+            if (data.activeKey?.source === 'registered' && user) {
+                setInBrowser((await getBrowserKeyFingerprint(user.id)) === data.activeKey.fingerprint);
+            }
+        } catch (error) {
+            console.error('Error fetching signing key:', error);
+            setActiveKey(null);
+        }
+    };
+
+    const inputClassName =
+        'w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    if (activeKey === undefined) {
+        return null;
+    }
+
+    if (!activeKey || (requireRegistered && activeKey.source !== 'registered')) {
+        return (
+            <div className="bg-secondary rounded-lg p-4 text-sm text-muted-foreground flex items-start gap-2">
+                <KeyRound className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <p>
+                    {activeKey
+                        ? 'This must be signed with a key held in your browser or device, not one held by the platform.'
+                        : 'You need a signing key to sign this.'}{' '}
+                    <Link href={`/${user?.role}/account`} className="text-primary hover:underline">
+                        {requireRegistered ? 'Create a browser key on your account page' : 'Set one up on your account page'}
+                    </Link>
+                    .
+                </p>
+            </div>
+        );
+    }
+
+    if (inBrowser) {
+        return (
+            <div className="bg-secondary rounded-lg p-4 text-sm flex items-start gap-2">
+                <ShieldCheck className="w-4 h-4 flex-shrink-0 mt-0.5 text-primary" />
+                <div>
+                    <p className="text-foreground">
+                        Signed in this browser with key {activeKey.fingerprint.slice(0, 16)}
+                        {value.signature ? '' : '...'}
+                    </p>
+                    <p className="text-muted-foreground">Your private key never leaves this browser.</p>
+                    {signError && <p className="text-destructive">{signError}</p>}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-foreground flex items-center gap-2">
+                <KeyRound className="w-4 h-4" />
+                Sign with key {activeKey.fingerprint.slice(0, 16)}
+            </label>
+            {activeKey.source === 'escrowed' ? (
+                <input
+                    type="password"
+                    autoComplete="off"
+                    value={value.passphrase || ''}
+                    onChange={(e) => onChange({ passphrase: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Signing key passphrase"
+                    required
+                />
+            ) : (
+                <>
+                    <p className="text-sm text-muted-foreground">
+                        Sign this exact text with your private key (RSA-SHA256) and paste the hex signature:
+                    </p>
+                    <div className="flex gap-2 items-start">
+                        <pre className="flex-1 p-3 bg-secondary rounded-lg text-xs text-foreground overflow-x-auto">{payload}</pre>
+                        <button
+                            type="button"
+                            onClick={() => navigator.clipboard.writeText(payload)}
+                            className="p-2 text-muted-foreground hover:text-foreground"
+                            title="Copy"
+                        >
+                            <Copy className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <textarea
+                        value={value.signature || ''}
+                        onChange={(e) => onChange({ signature: e.target.value.trim() })}
+                        rows={3}
+                        className={`${inputClassName} font-mono text-xs`}
+                        placeholder="Signature (hex)"
+                        required
+                    />
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { parseTimestamp } from '@/lib/purchase-orders';
+import { useAuthStore } from '@/store/auth.store';
+import { browserKeysSupported, generateBrowserKey, getBrowserKeyFingerprint, saveBrowserKey } from '@/lib/browser-keys';
+import { KeyRound, RefreshCw, Upload, Ban, Monitor } from 'lucide-react';
+
+const STATUS_STYLES: Record<string, string> = {
+    active: 'bg-primary/10 text-primary',
+    rotated: 'bg-secondary text-muted-foreground',
+    revoked: 'bg-destructive/10 text-destructive',
+};
+
+/**
+ * The signing key the current user signs quotations, revisions and approvals with, and the keys they held before.
+ * Vendors sign quotations in their own browser or device, so platform-held keys are not offered to them.
+ */
+export default function SigningKeys() {
+    const { user } = useAuthStore();
+    const [keys, setKeys] = useState<any[]>([]);
+    const [browserFingerprint, setBrowserFingerprint] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+    const [mode, setMode] = useState<'generate' | 'register' | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [publicKey, setPublicKey] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchKeys();
+    }, []);
+
+    const fetchKeys = async () => {
+        try {
+            const { data } = await apiClient.getSigningKeys();
+            setKeys(data.keys || []);
+            if (user) {
+                setBrowserFingerprint(await getBrowserKeyFingerprint(user.id));
+            }
+        } catch (error) {
+            console.error('Error fetching signing keys:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const activeKey = keys.find((key) => key.status === 'active');
+    const canEscrow = user?.role !== 'vendor';
+
+    const close = () => {
+        setMode(null);
+        setPassphrase('');
+        setConfirmPassphrase('');
+        setPublicKey('');
+        setError('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (mode === 'generate' && passphrase !== confirmPassphrase) {
+            setError('Passphrases do not match');
+            return;
+        }
+
+        try {
+            setWorking(true);
+            if (mode === 'generate') {
+                await apiClient.generateSigningKey(passphrase);
+            } else {
+                await apiClient.registerSigningKey(publicKey);
+            }
+            close();
+            await fetchKeys();
+        } catch (err: any) {
+            setError(err.response?.data?.error || 'Failed to set up the signing key');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    // The private key is stored only once the server has accepted the public key
+    const handleCreateBrowserKey = async () => {
+        if (!user) return;
+        if (activeKey && !confirm('The new key replaces your current one. Earlier signatures stay valid. Continue?')) return;
+
+        try {
+            setWorking(true);
+            const { privateKey, publicKeyPem, fingerprint } = await generateBrowserKey();
+            await apiClient.registerSigningKey(publicKeyPem);
+            await saveBrowserKey(user.id, fingerprint, privateKey);
+            await fetchKeys();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to create a signing key in this browser');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleRevoke = async (id: number) => {
+        const reason = prompt('Why are you revoking this key? You will not be able to sign until you set up a new one.');
+        if (!reason) return;
+
+        try {
+            setWorking(true);
+            await apiClient.revokeSigningKey(id, reason);
+            await fetchKeys();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Failed to revoke the key');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const inputClassName =
+        'w-full px-4 py-3 bg-secondary border border-transparent focus:border-primary rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+    return (
+        <div className="bg-card rounded-xl p-6 border border-border space-y-4">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+                        <KeyRound className="w-5 h-5" />
+                        Signing Key
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                        {activeKey
+                            ? `${
+                                  activeKey.source === 'escrowed'
+                                      ? 'Held by the platform under your passphrase'
+                                      : activeKey.fingerprint === browserFingerprint
+                                        ? 'Held in this browser'
+                                        : 'Registered public key'
+                              } · ${activeKey.fingerprint.slice(0, 16)}`
+                            : 'No active key · you need one to sign quotations, revisions and approvals'}
+                    </p>
+                </div>
+                {!mode && (
+                    <div className="flex flex-wrap gap-2 justify-end">
+                        {browserKeysSupported() && (
+                            <button
+                                onClick={handleCreateBrowserKey}
+                                disabled={working}
+                                className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                            >
+                                <Monitor className="w-4 h-4" />
+                                {working ? 'Creating...' : activeKey ? 'Rotate to Browser Key' : 'Create Browser Key'}
+                            </button>
+                        )}
+                        {canEscrow && (
+                            <button
+                                onClick={() => setMode('generate')}
+                                className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                            >
+                                <RefreshCw className="w-4 h-4" />
+                                {activeKey ? 'Rotate' : 'Generate'}
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setMode('register')}
+                            className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                        >
+                            <Upload className="w-4 h-4" />
+                            Register Own Key
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {mode && (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {activeKey && (
+                        <p className="text-sm text-muted-foreground">
+                            The new key replaces your current one. Earlier signatures stay valid.
+                        </p>
+                    )}
+                    {mode === 'generate' ? (
+                        <>
+                            <p className="text-sm text-muted-foreground">
+                                A key pair is generated for you and the private key is stored encrypted under this
+                                passphrase. You enter it whenever you sign; it cannot be recovered if lost.
+                            </p>
+                            <input
+                                type="password"
+                                autoComplete="new-password"
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                className={inputClassName}
+                                placeholder="Passphrase (at least 12 characters)"
+                                minLength={12}
+                                required
+                            />
+                            <input
+                                type="password"
+                                autoComplete="new-password"
+                                value={confirmPassphrase}
+                                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                                className={inputClassName}
+                                placeholder="Confirm passphrase"
+                                required
+                            />
+                        </>
+                    ) : (
+                        <>
+                            <p className="text-sm text-muted-foreground">
+                                Paste the PEM public key of an RSA key pair (2048 bits or more) you keep yourself, e.g. from{' '}
+                                <code className="font-mono">openssl rsa -in key.pem -pubout</code>.
+                            </p>
+                            <textarea
+                                value={publicKey}
+                                onChange={(e) => setPublicKey(e.target.value)}
+                                rows={6}
+                                className={`${inputClassName} font-mono text-xs`}
+                                placeholder="-----BEGIN PUBLIC KEY-----"
+                                required
+                            />
+                        </>
+                    )}
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    <div className="flex justify-end gap-4">
+                        <button
+                            type="button"
+                            onClick={close}
+                            className="px-4 py-2 bg-secondary hover:bg-secondary/80 text-foreground rounded-lg transition-all"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={working}
+                            className="px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg transition-all disabled:opacity-50"
+                        >
+                            {working ? 'Saving...' : mode === 'generate' ? 'Generate Key' : 'Register Key'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {/* Key history */}
+            {loading ? (
+                <div className="flex justify-center py-6">
+                    <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                </div>
+            ) : (
+                keys.length > 0 && (
+                    <div className="divide-y divide-border">
+                        {keys.map((key) => (
+                            <div key={key.id} className="py-3 flex justify-between items-center gap-4">
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-mono text-sm text-foreground">{key.fingerprint.slice(0, 16)}</span>
+                                        <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[key.status]}`}>
+                                            {key.status}
+                                        </span>
+                                        {key.fingerprint === browserFingerprint && (
+                                            <span className="px-2 py-0.5 rounded-full text-xs bg-secondary text-foreground">
+                                                This browser
+                                            </span>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        {key.source === 'escrowed' ? 'Platform-held' : 'Registered'} · created{' '}
+                                        {parseTimestamp(key.created_at).toLocaleString()}
+                                        {key.rotated_at && ` · rotated ${parseTimestamp(key.rotated_at).toLocaleString()}`}
+                                        {key.revoked_at &&
+                                            ` · revoked ${parseTimestamp(key.revoked_at).toLocaleString()} (${key.revocation_reason})`}
+                                    </p>
+                                </div>
+                                {key.status !== 'revoked' && (
+                                    <button
+                                        onClick={() => handleRevoke(key.id)}
+                                        disabled={working}
+                                        className="flex items-center gap-1 px-3 py-1.5 text-sm bg-destructive/10 hover:bg-destructive/20 text-destructive rounded-lg transition-all disabled:opacity-50"
+                                    >
+                                        <Ban className="w-4 h-4" />
+                                        Revoke
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )
+            )}
+        </div>
+    );
+}
@@ -3,11 +3,14 @@
  */
 
 import axios, { AxiosInstance, AxiosError } from 'axios';
+import { useAuthStore } from '@/store/auth.store';
+import type { SigningCredentials } from '@/lib/signing';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL;
 console.log(API_BASE_URL);
 class APIClient {
     private client: AxiosInstance;
+    private refreshing: Promise<string | null> | null = null;
 
     constructor() {
         this.client = axios.create({
@@ -35,19 +38,14 @@ class APIClient {
             async (error: AxiosError) => {
                 const originalRequest: any = error.config;
 
-                if (error.response?.status === 401 && !originalRequest._retry) {
+                if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
                     originalRequest._retry = true;
 
                     try {
-                        const refreshToken = localStorage.getItem('refreshToken');
-                        if (refreshToken) {
-                            const { data } = await axios.post(`${API_BASE_URL}/auth/refresh`, {
-                                refreshToken,
-                            });
-
-                            localStorage.setItem('accessToken', data.accessToken);
-                            originalRequest.headers.Authorization = `Bearer ${data.accessToken}`;
-
+                        const failedToken = String(originalRequest.headers?.Authorization || '').replace('Bearer ', '');
+                        const accessToken = await this.refreshTokens(failedToken);
+                        if (accessToken) {
+                            originalRequest.headers.Authorization = `Bearer ${accessToken}`;
                             return this.client(originalRequest);
                         }
                     } catch (refreshError) {
@@ -63,6 +61,45 @@ class APIClient {
         );
     }
 
+    /**
+     * Rotate the token pair once for every request that failed together; each refresh token works only once,
+     * so a second refresh with the same token would sign the session out. Tabs share the tokens, so the refresh
+     * runs under a cross-tab lock and is skipped when another request or tab has already rotated them.
+     * @returns The access token to retry with, or null when there is no refresh token
+     */
+    private refreshTokens(failedToken: string): Promise<string | null> {
+        if (!this.refreshing) {
+            const refresh = async () => {
+                const current = localStorage.getItem('accessToken');
+                if (current && current !== failedToken) {
+                    return current;
+                }
+
+                const refreshToken = localStorage.getItem('refreshToken');
+                if (!refreshToken) {
+                    return null;
+                }
+
+                const { data } = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+
+                localStorage.setItem('accessToken', data.accessToken);
+                localStorage.setItem('refreshToken', data.refreshToken);
+                useAuthStore.setState({ accessToken: data.accessToken, refreshToken: data.refreshToken });
+                return data.accessToken as string;
+            };
+
+            this.refreshing = (async () => {
+                try {
+                    return navigator.locks ? await navigator.locks.request('auth-token-refresh', refresh) : await refresh();
+                } finally {
+                    this.refreshing = null;
+                }
+            })();
+        }
+
+        return this.refreshing!;
+    }
+
     // Auth
     async register(data: any) {
         return this.client.post('/auth/register', data);
@@ -93,6 +130,18 @@ class APIClient {
         return this.client.post('/auth/otp/resend', { tempToken });
     }
 
+    async forgotPassword(email: string) {
+        return this.client.post('/auth/password/forgot', { email });
+    }
+
+    async resetPassword(token: string, newPassword: string) {
+        return this.client.post('/auth/password/reset', { token, newPassword });
+    }
+
+    async logout() {
+        return this.client.post('/auth/logout');
+    }
+
     async getProfile() {
         return this.client.get('/auth/profile');
     }
@@ -101,6 +150,136 @@ class APIClient {
         return this.client.post('/auth/change-password', data);
     }
 
+    // Authenticator-app MFA
+    async getMFAStatus() {
+        return this.client.get('/auth/mfa');
+    }
+
+    async setupMFA() {
+        return this.client.post('/auth/mfa/setup');
+    }
+
+    async confirmMFA(code: string) {
+        return this.client.post('/auth/mfa/confirm', { code });
+    }
+
+    async disableMFA(password: string, code: string) {
+        return this.client.post('/auth/mfa/disable', { password, code });
+    }
+
+    async regenerateBackupCodes(code: string) {
+        return this.client.post('/auth/mfa/backup-codes/regenerate', { code });
+    }
+
+    // Sessions
+    async getSessions() {
+        return this.client.get('/sessions');
+    }
+
+    async revokeSession(id: number) {
+        return this.client.delete(`/sessions/${id}`);
+    }
+
+    async revokeOtherSessions() {
+        return this.client.post('/sessions/revoke-others');
+    }
+
+    async getAllSessions() {
+        return this.client.get('/sessions/all');
+    }
+
+    async revokeUserSessions(userId: number) {
+        return this.client.post(`/sessions/users/${userId}/revoke`);
+    }
+
+    // Signing Keys
+    async getSigningKeys() {
+        return this.client.get('/signing-keys');
+    }
+
+    async registerSigningKey(publicKey: string) {
+        return this.client.post('/signing-keys/register', { publicKey });
+    }
+
+    async generateSigningKey(passphrase: string) {
+        return this.client.post('/signing-keys/generate', { passphrase });
+    }
+
+    async revokeSigningKey(id: number, reason: string) {
+        return this.client.post(`/signing-keys/${id}/revoke`, { reason });
+    }
+
+    async getUserSigningKeys(userId: number) {
+        return this.client.get(`/signing-keys/users/${userId}`);
+    }
+
+    // IP Access (admin)
+    async getIpRules() {
+        return this.client.get('/ip-access');
+    }
+
+    async blockIp(data: { ipAddress: string; reason: string; hours: number }) {
+        return this.client.post('/ip-access/blocked', data);
+    }
+
+    async updateIpBlock(id: number, hours: number) {
+        return this.client.patch(`/ip-access/blocked/${id}`, { hours });
+    }
+
+    async unblockIp(id: number) {
+        return this.client.delete(`/ip-access/blocked/${id}`);
+    }
+
+    async allowIp(data: { ipAddress: string; reason: string }) {
+        return this.client.post('/ip-access/allowlist', data);
+    }
+
+    async removeAllowedIp(id: number) {
+        return this.client.delete(`/ip-access/allowlist/${id}`);
+    }
+
+    // Security Events (admin)
+    async getSecurityEvents(params?: any) {
+        return this.client.get('/security-events', { params });
+    }
+
+    async getSecurityEventStats(params?: { bucket?: 'hour' | 'day'; from?: string; to?: string }) {
+        return this.client.get('/security-events/stats', { params });
+    }
+
+    async runSecurityDetectors() {
+        return this.client.post('/security-events/detect');
+    }
+
+    async getAuditLogs(params?: any) {
+        return this.client.get('/audit-logs', { params });
+    }
+
+    async getAuditLogFacets() {
+        return this.client.get('/audit-logs/facets');
+    }
+
+    async exportAuditLogs(params?: any) {
+        return this.client.get('/audit-logs/export', { params, responseType: 'blob' });
+    }
+
+    async verifyAuditLog() {
+        return this.client.get('/audit-logs/verify');
+    }
+
+    // Encryption Keys
+    async getEncryptionKeys() {
+        return this.client.get('/encryption-keys');
+    }
+
+    async rotateEncryptionKey() {
+        return this.client.post('/encryption-keys/rotate');
+    }
+
+    async rewrapEncryptionKeys() {
+        return this.client.post('/encryption-keys/rewrap');
+    }
+
     // Security Demos
     async base64Encode(data: string) {
         return this.client.post('/security/base64/encode', { data });
@@ -171,6 +350,98 @@ class APIClient {
         return this.client.post(`/rfqs/${id}/publish`);
     }
 
+    async awardRFQ(
+        id: string,
+        data: { quotationId?: number; lines?: { lineNumber: number; quotationId: number }[]; notes?: string }
+    ) {
+        return this.client.post(`/rfqs/${id}/award`, data);
+    }
+
+    async getBidTabulation(id: string) {
+        return this.client.get(`/rfqs/${id}/tabulation`);
+    }
+
+    async getEvaluationTemplate(id: string) {
+        return this.client.get(`/rfqs/${id}/evaluation-template`);
+    }
+
+    async updateEvaluationTemplate(id: string, criteria: { name: string; weight: number; scoring: 'price' | 'manual' }[]) {
+        return this.client.put(`/rfqs/${id}/evaluation-template`, { criteria });
+    }
+
+    async getEvaluation(id: string) {
+        return this.client.get(`/rfqs/${id}/evaluation`);
+    }
+
+    async saveEvaluationScores(quotationId: number, scores: { criterionId: number; score: number; comment?: string | null }[]) {
+        return this.client.put(`/quotations/${quotationId}/evaluation-scores`, { scores });
+    }
+
+    async extendRFQDeadline(id: string, data: { deadline: string; reason: string }) {
+        return this.client.post(`/rfqs/${id}/extend-deadline`, data);
+    }
+
+    async getBidOpening(id: string) {
+        return this.client.get(`/rfqs/${id}/opening`);
+    }
+
+    async releaseBidOpening(id: string) {
+        return this.client.post(`/rfqs/${id}/opening/release`);
+    }
+
+    // Purchase Orders
+    async getPurchaseOrders(params?: any) {
+        return this.client.get('/purchase-orders', { params });
+    }
+
+    async getPurchaseOrderById(id: string) {
+        return this.client.get(`/purchase-orders/${id}`);
+    }
+
+    async acknowledgePurchaseOrder(id: string) {
+        return this.client.post(`/purchase-orders/${id}/acknowledge`);
+    }
+
+    async amendPurchaseOrder(id: string, data: { lineItems: any[]; reason: string }) {
+        return this.client.post(`/purchase-orders/${id}/amendments`, data);
+    }
+
+    async recordGoodsReceipt(id: string, data: { lines: { lineNumber: number; quantity: number }[]; notes?: string }) {
+        return this.client.post(`/purchase-orders/${id}/receipts`, data);
+    }
+
+    // Invoices
+    async submitInvoice(data: {
+        purchaseOrderId: number;
+        invoiceNumber: string;
+        invoiceDate?: string;
+        notes?: string;
+        lineItems: { lineNumber: number; quantity: number; unit_price: number }[];
+        attachment: { filename: string; content: string };
+    }) {
+        return this.client.post('/invoices', data);
+    }
+
+    async getInvoices(params?: any) {
+        return this.client.get('/invoices', { params });
+    }
+
+    async getInvoiceExceptions() {
+        return this.client.get('/invoices/exceptions');
+    }
+
+    async getInvoiceById(id: string) {
+        return this.client.get(`/invoices/${id}`);
+    }
+
+    async downloadInvoiceAttachment(id: string) {
+        return this.client.get(`/invoices/${id}/attachment`, { responseType: 'blob' });
+    }
+
+    async resolveInvoice(id: string, action: 'accept' | 'reject', notes: string) {
+        return this.client.post(`/invoices/${id}/resolve`, { action, notes });
+    }
+
     // Quotations
     async createQuotation(data: any) {
         return this.client.post('/quotations', data);
@@ -180,10 +451,24 @@ class APIClient {
         return this.client.get('/quotations', { params });
     }
 
-    async getQuotationById(id: string, encryptionKey?: string) {
-        return this.client.get(`/quotations/${id}`, {
-            params: { encryptionKey },
-        });
+    async getQuotationById(id: string) {
+        return this.client.get(`/quotations/${id}`);
+    }
+
+    async priceLineItems(rfqId: number | string, lineItems: any[]) {
+        return this.client.post('/quotations/price', { rfqId, lineItems });
+    }
+
+    async getTaxCodes() {
+        return this.client.get('/quotations/tax-codes');
+    }
+
+    async getQuotationSensitiveData(id: string) {
+        return this.client.get(`/quotations/${id}/sensitive-data`);
+    }
+
+    async migrateQuotationSensitiveData(id: string, encryptionKey: string) {
+        return this.client.post(`/quotations/${id}/sensitive-data/migrate`, { encryptionKey });
     }
 
     async submitQuotation(id: string) {
@@ -215,18 +500,84 @@ class APIClient {
         return this.client.get(`/approvals/${id}`);
     }
 
-    async approveQuotation(id: string, comments?: string) {
-        return this.client.post(`/approvals/${id}/approve`, { comments });
+    async approveQuotation(id: string, comments: string | undefined, credentials: SigningCredentials) {
+        return this.client.post(`/approvals/${id}/approve`, { comments, ...credentials });
+    }
+
+    async rejectQuotation(id: string, comments: string, credentials: SigningCredentials) {
+        return this.client.post(`/approvals/${id}/reject`, { comments, ...credentials });
     }
 
-    async rejectQuotation(id: string, comments: string) {
-        return this.client.post(`/approvals/${id}/reject`, { comments });
+    async getOverdueApprovals() {
+        return this.client.get('/approvals/overdue');
+    }
+
+    async reassignApproval(id: string, approverId: number) {
+        return this.client.post(`/approvals/${id}/reassign`, { approverId });
     }
 
     async getApprovalHistory(quotationId: string) {
         return this.client.get(`/approvals/history/${quotationId}`);
     }
 
+    // Approval Delegations
+    async getDelegations() {
+        return this.client.get('/approvals/delegations');
+    }
+
+    async getDelegateCandidates() {
+        return this.client.get('/approvals/delegations/candidates');
+    }
+
+    async createDelegation(data: { delegateId: number; startsAt?: string; endsAt: string; reason?: string; delegatorId?: number }) {
+        return this.client.post('/approvals/delegations', data);
+    }
+
+    async revokeDelegation(id: string) {
+        return this.client.delete(`/approvals/delegations/${id}`);
+    }
+
+    // Approval Policies (admin)
+    async getApprovalPolicies() {
+        return this.client.get('/approval-policies');
+    }
+
+    async getApprovalPolicy(id: string) {
+        return this.client.get(`/approval-policies/${id}`);
+    }
+
+    async createApprovalPolicy(data: any) {
+        return this.client.post('/approval-policies', data);
+    }
+
+    async updateApprovalPolicy(id: string, data: any) {
+        return this.client.put(`/approval-policies/${id}`, data);
+    }
+
+    async deactivateApprovalPolicy(id: string) {
+        return this.client.delete(`/approval-policies/${id}`);
+    }
+
+    async evaluateApprovalPolicy(data: { amount: number; category?: string; department?: string }) {
+        return this.client.post('/approval-policies/evaluate', data);
+    }
+
+    async getApprovalGroups() {
+        return this.client.get('/approval-policies/groups');
+    }
+
+    async createApprovalGroup(data: { name: string; description?: string; memberIds?: number[] }) {
+        return this.client.post('/approval-policies/groups', data);
+    }
+
+    async updateApprovalGroup(id: string, data: { name?: string; description?: string; memberIds?: number[] }) {
+        return this.client.put(`/approval-policies/groups/${id}`, data);
+    }
+
+    async deleteApprovalGroup(id: string) {
+        return this.client.delete(`/approval-policies/groups/${id}`);
+    }
+
     // Negotiation & Revisions
     async createRevision(quotationId: string, data: any) {
         return this.client.post(`/quotations/${quotationId}/revisions`, data);
@@ -0,0 +1,100 @@
+/**
+ * Browser-held signing keys: an RSA key pair generated with WebCrypto whose private key is non-extractable
+ * and kept in IndexedDB, so it never leaves this browser. Only the public key is registered with the server,
+ * which verifies RSA-SHA256 signatures (PKCS#1 v1.5, hex) against it.
+ */
+
+const DB_NAME = 'rfq-signing';
+const STORE_NAME = 'keys';
+
+const KEY_ALGORITHM: RsaHashedKeyGenParams = {
+    name: 'RSASSA-PKCS1-v1_5',
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256',
+};
+
+interface StoredKey {
+    userId: number;
+    fingerprint: string;
+    privateKey: CryptoKey;
+}
+
+export const browserKeysSupported = () =>
+    typeof window !== 'undefined' && !!window.crypto?.subtle && !!window.indexedDB;
+
+const openDb = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'userId' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const toPem = (spki: ArrayBuffer) => {
+    const base64 = btoa(String.fromCharCode(...Array.from(new Uint8Array(spki))));
+    return `-----BEGIN PUBLIC KEY-----\n${base64.match(/.{1,64}/g)!.join('\n')}\n-----END PUBLIC KEY-----\n`;
+};
+
+/**
+ * Generate a key pair for the user. Nothing is stored until saveBrowserKey is called,
+ * so a key the server refuses to register is simply dropped.
+ * @returns The key pair, its PEM public key, and its fingerprint (SHA-256 of the SPKI, hex, as the server computes it)
+ */
+export async function generateBrowserKey() {
+    const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+    const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+
+    return {
+        privateKey: keyPair.privateKey,
+        publicKeyPem: toPem(spki),
+        fingerprint: toHex(await crypto.subtle.digest('SHA-256', spki)),
+    };
+}
+
+/**
+ * Keep the user's private key in this browser, replacing the one held before
+ */
+export async function saveBrowserKey(userId: number, fingerprint: string, privateKey: CryptoKey) {
+    await withStore('readwrite', (store) => store.put({ userId, fingerprint, privateKey } as StoredKey));
+}
+
+/**
+ * Fingerprint of the key this browser holds for the user, or null
+ */
+export async function getBrowserKeyFingerprint(userId: number): Promise<string | null> {
+    if (!browserKeysSupported()) return null;
+
+    const stored = await withStore<StoredKey | undefined>('readonly', (store) => store.get(userId));
+    return stored?.fingerprint ?? null;
+}
+
+/**
+ * Sign a payload with the key this browser holds for the user
+ * @returns Hex signature
+ */
+export async function signWithBrowserKey(userId: number, payload: string): Promise<string> {
+    const stored = await withStore<StoredKey | undefined>('readonly', (store) => store.get(userId));
+    if (!stored) {
+        throw new Error('This browser holds no signing key');
+    }
+
+    const signature = await crypto.subtle.sign(KEY_ALGORITHM.name, stored.privateKey, new TextEncoder().encode(payload));
+    return toHex(signature);
+}
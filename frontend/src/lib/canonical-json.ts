@@ -0,0 +1,39 @@
+/**
+ * Canonical JSON for signed payloads (RFC 8785 / JCS): object keys sorted by UTF-16 code units, no whitespace,
+ * strings and numbers as JSON.stringify writes them. Mirrors the backend's
+ * src/utils/security/canonical-json.util.ts; the two must stay identical.
+ */
+
+/**
+ * Serialize a value canonically. As with JSON.stringify, undefined properties are left out and non-finite
+ * numbers become null, so a payload canonicalizes the same before and after it is sent as JSON.
+ */
+export function canonicalJson(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+
+    switch (typeof value) {
+        case 'boolean':
+        case 'string':
+            return JSON.stringify(value);
+        case 'number':
+            return Number.isFinite(value) ? JSON.stringify(value) : 'null';
+        case 'object':
+            break;
+        default:
+            throw new TypeError(`Cannot canonicalize a value of type ${typeof value}`);
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+    }
+
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+        .filter((key) => record[key] !== undefined)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+
+    return `{${members.join(',')}}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Display helpers shared by the purchase order and invoice pages
+ */
+
+const ACTION_LABELS: Record<string, string> = {
+    'purchase_order.issued': 'Purchase order issued',
+    'purchase_order.acknowledged': 'Acknowledged by vendor',
+    'purchase_order.amendment_requested': 'Amendment requested',
+    'purchase_order.amendment_rejected': 'Amendment rejected',
+    'purchase_order.amended': 'Amendment approved and applied',
+    'purchase_order.goods_received': 'Goods received',
+    'purchase_order.partially_received': 'Partially received',
+    'purchase_order.closed': 'Closed',
+    'invoice.submitted': 'Invoice submitted',
+    'invoice.accepted': 'Exception accepted',
+    'invoice.rejected': 'Invoice rejected',
+};
+
+export const MATCH_RESULT_LABELS: Record<string, string> = {
+    matched: 'Matched',
+    price_variance: 'Price variance',
+    quantity_variance: 'Quantity variance',
+    unmatched: 'Unmatched',
+};
+
+export function describeAuditEntry(entry: { action: string; details: any }): string {
+    const label = ACTION_LABELS[entry.action] || entry.action;
+    const details = entry.details || {};
+
+    switch (entry.action) {
+        case 'purchase_order.amendment_requested':
+        case 'purchase_order.amendment_rejected':
+        case 'purchase_order.amended':
+            return `${label} (#${details.amendmentNumber})`;
+        case 'purchase_order.goods_received':
+            return `${label} (${details.receiptNumber})`;
+        case 'invoice.submitted':
+            return `${label} (${MATCH_RESULT_LABELS[details.matchResult] || details.matchResult})`;
+        default:
+            return label;
+    }
+}
+
+export function isOpenPurchaseOrder(status: string): boolean {
+    return ['issued', 'acknowledged', 'partially_received'].includes(status);
+}
+
+/**
+ * SQLite timestamps are UTC without a zone marker
+ */
+export function parseTimestamp(value: string): Date {
+    return new Date(value.replace(' ', 'T') + 'Z');
+}
+
+/**
+ * Read a file as Base64 without the data URL prefix, for JSON uploads
+ */
+export function readFileAsBase64(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
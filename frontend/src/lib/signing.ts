@@ -0,0 +1,65 @@
+/**
+ * Signing payloads, built exactly as the backend rebuilds them to verify a signature
+ * (QuotationSignatureService): canonical JSON with a type field naming what is signed
+ */
+
+import { canonicalJson } from '@/lib/canonical-json';
+
+/**
+ * Passphrase of a platform-held (escrowed) key, or a hex RSA-SHA256 signature made with a registered key
+ */
+export interface SigningCredentials {
+    passphrase?: string;
+    signature?: string;
+}
+
+export function quotationPayload(quotation: {
+    rfqId: number | string;
+    vendorId: number;
+    totalAmount: number | string;
+    currency: string;
+    lineItems: any;
+}): string {
+    return canonicalJson({
+        type: 'quotation',
+        rfqId: Number(quotation.rfqId),
+        vendorId: Number(quotation.vendorId),
+        totalAmount: Number(quotation.totalAmount),
+        currency: quotation.currency,
+        lineItems: quotation.lineItems,
+    });
+}
+
+export function revisionPayload(revision: {
+    quotationId: number | string;
+    lineItems: any;
+    deliveryTime?: string | number | null;
+    validityPeriod?: string | number | null;
+    notes?: string | null;
+}): string {
+    return canonicalJson({
+        type: 'quotation_revision',
+        quotationId: Number(revision.quotationId),
+        lineItems: revision.lineItems,
+        deliveryTime: revision.deliveryTime == null ? null : String(revision.deliveryTime),
+        validityPeriod: revision.validityPeriod == null ? null : Number(revision.validityPeriod),
+        notes: revision.notes ?? null,
+    });
+}
+
+export function decisionPayload(decision: {
+    approvalId: number | string;
+    quotationId: number;
+    amendmentId: number | null;
+    decision: 'approved' | 'rejected';
+    comments: string | null;
+}): string {
+    return canonicalJson({
+        type: 'approval_decision',
+        approvalId: Number(decision.approvalId),
+        quotationId: Number(decision.quotationId),
+        amendmentId: decision.amendmentId ?? null,
+        decision: decision.decision,
+        comments: decision.comments ?? null,
+    });
+}